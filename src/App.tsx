@@ -4,6 +4,7 @@ import {
   Routes,
   Route,
   Navigate,
+  useLocation,
 } from "react-router-dom";
 import DashboardLayout from "./components/dashboard/DashboardLayout";
 import Dashboard from "./pages/Dashboard";
@@ -12,11 +13,25 @@ import StylistManagement from "./pages/management/StylistManagement";
 import ServiceManagement from "./pages/management/ServiceManagement";
 import BookingManagementNew from "./pages/management/BookingManagement";
 import Login from "./pages/Login";
+import Forbidden from "./pages/Forbidden";
+import TwoFactorSetup from "./pages/TwoFactorSetup";
+import ResetPassword from "./pages/ResetPassword";
+import VerifyEmail from "./pages/VerifyEmail";
 import ErrorBoundary from "./components/ui/ErrorBoundary";
+import Can from "./components/auth/Can";
+import TwoFactorPolicyCard from "./components/dashboard/TwoFactorPolicyCard";
 import { AuthProvider, useAuth } from "./hooks/useAuth";
+import { useCan } from "./hooks/useCan";
 import Pembayaran from "./pages/pembayaran";
 import UlasanRating from "./pages/ulasan rating";
 import Pelanggan from "./pages/pelanggan";
+import {
+  dashboardRoutes,
+  DASHBOARD_PATH,
+  TWO_FACTOR_SETUP_PATH,
+} from "./config/navigation";
+import type { DashboardRouteKey } from "./config/navigation";
+import type { PermissionKey } from "./config/permissions";
 
 // Payment Management is now implemented as Pembayaran component
 
@@ -74,6 +89,9 @@ const Settings: React.FC = () => {
           Konfigurasi sistem dan pengaturan aplikasi
         </p>
       </div>
+      <Can permission="settings:manage">
+        <TwoFactorPolicyCard />
+      </Can>
       <div className="bg-white p-8 rounded-lg border border-gray-200 text-center">
         <p className="text-gray-500">
           Halaman Pengaturan sedang dalam pengembangan
@@ -88,6 +106,7 @@ const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({
   children,
 }) => {
   const { isAuthenticated, isLoading } = useAuth();
+  const location = useLocation();
 
   if (isLoading) {
     return (
@@ -98,12 +117,40 @@ const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({
   }
 
   if (!isAuthenticated) {
-    return <Navigate to="/login" replace />;
+    return <Navigate to="/login" replace state={{ from: location }} />;
+  }
+
+  return <>{children}</>;
+};
+
+// Permission guard; renders the 403 page instead of the screen
+const RequirePermission: React.FC<{
+  permission: PermissionKey;
+  children: React.ReactNode;
+}> = ({ permission, children }) => {
+  const can = useCan();
+
+  if (!can(permission)) {
+    return <Forbidden />;
   }
 
   return <>{children}</>;
 };
 
+// Screens for each entry of the navigation registry
+const routeElements: Record<DashboardRouteKey, React.ReactNode> = {
+  dashboard: <Dashboard />,
+  stylists: <StylistManagement />,
+  services: <ServiceManagement />,
+  bookings: <BookingManagementNew />,
+  payments: <Pembayaran />,
+  reviews: <UlasanRating />,
+  customers: <Pelanggan />,
+  promos: <PromoManagement />,
+  analytics: <Analytics />,
+  settings: <Settings />,
+};
+
 const AppContent: React.FC = () => {
   return (
     <Router>
@@ -111,6 +158,17 @@ const AppContent: React.FC = () => {
         <Routes>
           {/* Login Route */}
           <Route path="/login" element={<Login />} />
+          <Route path="/reset-password/:token" element={<ResetPassword />} />
+          <Route path="/verify-email/:token" element={<VerifyEmail />} />
+
+          <Route
+            path={TWO_FACTOR_SETUP_PATH}
+            element={
+              <ProtectedRoute>
+                <TwoFactorSetup />
+              </ProtectedRoute>
+            }
+          />
 
           {/* Dashboard Routes */}
           <Route
@@ -121,24 +179,21 @@ const AppContent: React.FC = () => {
               </ProtectedRoute>
             }
           >
-            <Route index element={<Dashboard />} />
-            <Route path="stylists" element={<StylistManagement />} />
-            <Route path="services" element={<ServiceManagement />} />
-            <Route path="bookings" element={<BookingManagementNew />} />
-            <Route path="payments" element={<Pembayaran />} />
-            <Route path="reviews" element={<UlasanRating />} />
-            <Route path="customers" element={<Pelanggan />} />
-            <Route path="promos" element={<PromoManagement />} />
-            <Route path="analytics" element={<Analytics />} />
-            <Route path="settings" element={<Settings />} />
-
-            {/* Management Routes */}
-            <Route path="management/stylists" element={<StylistManagement />} />
-            <Route path="management/services" element={<ServiceManagement />} />
-            <Route
-              path="management/bookings"
-              element={<BookingManagementNew />}
-            />
+            {dashboardRoutes.flatMap((route) =>
+              [route.path, ...(route.aliases || [])].map((path) => {
+                const element = (
+                  <RequirePermission permission={route.permission}>
+                    {routeElements[route.key]}
+                  </RequirePermission>
+                );
+
+                return path === DASHBOARD_PATH ? (
+                  <Route key={path} index element={element} />
+                ) : (
+                  <Route key={path} path={path} element={element} />
+                );
+              }),
+            )}
           </Route>
 
           {/* Legacy booking management route for compatibility */}
@@ -146,7 +201,9 @@ const AppContent: React.FC = () => {
             path="/bookings"
             element={
               <ProtectedRoute>
-                <BookingManagement />
+                <RequirePermission permission="booking:view">
+                  <BookingManagement />
+                </RequirePermission>
               </ProtectedRoute>
             }
           />
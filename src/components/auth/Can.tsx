@@ -0,0 +1,29 @@
+import React from "react";
+import { useCan } from "../../hooks/useCan";
+import type { PermissionKey } from "../../config/permissions";
+
+interface CanProps {
+  // Required permission(s); all must be granted unless `any` is set
+  permission: PermissionKey | PermissionKey[];
+  any?: boolean;
+  // Rendered instead of children when the check fails
+  fallback?: React.ReactNode;
+  children: React.ReactNode;
+}
+
+// Renders children only when the signed-in user has the permission, e.g.
+// <Can permission="payment:refund"><RefundButton /></Can>
+const Can: React.FC<CanProps> = ({
+  permission,
+  any = false,
+  fallback = null,
+  children,
+}) => {
+  const can = useCan();
+  const permissions = Array.isArray(permission) ? permission : [permission];
+  const allowed = any ? permissions.some(can) : permissions.every(can);
+
+  return <>{allowed ? children : fallback}</>;
+};
+
+export default Can;
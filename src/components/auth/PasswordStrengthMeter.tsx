@@ -0,0 +1,73 @@
+import React from "react";
+import { Check, X } from "lucide-react";
+import {
+  PASSWORD_RULES,
+  getPasswordScore,
+  getPasswordStrength,
+} from "../../utils/passwordPolicy";
+import type { PasswordStrength } from "../../utils/passwordPolicy";
+
+interface PasswordStrengthMeterProps {
+  password: string;
+}
+
+const STRENGTH_STYLES: Record<PasswordStrength, { label: string; bar: string }> =
+  {
+    weak: { label: "Weak", bar: "bg-red-500" },
+    fair: { label: "Fair", bar: "bg-orange-500" },
+    good: { label: "Good", bar: "bg-yellow-500" },
+    strong: { label: "Strong", bar: "bg-green-500" },
+  };
+
+// Strength bar plus a checklist of the password policy
+const PasswordStrengthMeter: React.FC<PasswordStrengthMeterProps> = ({
+  password,
+}) => {
+  const score = getPasswordScore(password);
+  const style = STRENGTH_STYLES[getPasswordStrength(password)];
+
+  return (
+    <div className="mt-2 space-y-2">
+      <div className="flex items-center space-x-2">
+        <div className="flex-1 grid grid-cols-4 gap-1">
+          {[1, 2, 3, 4].map((step) => (
+            <div
+              key={step}
+              className={`h-1.5 rounded-full ${
+                password && step <= score ? style.bar : "bg-gray-200"
+              }`}
+            />
+          ))}
+        </div>
+        {password && (
+          <span className="text-xs font-medium text-gray-600 w-12 text-right">
+            {style.label}
+          </span>
+        )}
+      </div>
+
+      <ul className="space-y-1">
+        {PASSWORD_RULES.map((rule) => {
+          const passed = rule.test(password);
+          return (
+            <li
+              key={rule.id}
+              className={`flex items-center text-xs ${
+                passed ? "text-green-600" : "text-gray-500"
+              }`}
+            >
+              {passed ? (
+                <Check className="w-3 h-3 mr-1" />
+              ) : (
+                <X className="w-3 h-3 mr-1" />
+              )}
+              {rule.label}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default PasswordStrengthMeter;
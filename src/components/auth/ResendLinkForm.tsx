@@ -0,0 +1,80 @@
+import React, { useState } from "react";
+import { CheckCircle, Mail } from "lucide-react";
+import Button from "../ui/Button";
+
+interface ResendLinkFormProps {
+  initialEmail?: string;
+  submitLabel: string;
+  onResend: (email: string) => Promise<void>;
+}
+
+// Asks for an address and sends a fresh link to it
+const ResendLinkForm: React.FC<ResendLinkFormProps> = ({
+  initialEmail = "",
+  submitLabel,
+  onResend,
+}) => {
+  const [email, setEmail] = useState(initialEmail);
+  const [loading, setLoading] = useState(false);
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      setError("Please enter a valid email address");
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      await onResend(email);
+      setSent(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to send email");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (sent) {
+    return (
+      <div className="flex items-start space-x-2 text-sm text-green-700">
+        <CheckCircle className="w-5 h-5 flex-shrink-0" />
+        <p>
+          We've sent a new link to <strong>{email}</strong>. Check your inbox
+          and spam folder.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <form className="space-y-3" onSubmit={handleSubmit}>
+      <div className="relative">
+        <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+          <Mail className="h-5 w-5 text-gray-400" />
+        </div>
+        <input
+          type="email"
+          autoComplete="email"
+          value={email}
+          onChange={(e) => {
+            setEmail(e.target.value);
+            setError(null);
+          }}
+          className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+          placeholder="Enter your email address"
+        />
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <Button type="submit" fullWidth loading={loading}>
+        {submitLabel}
+      </Button>
+    </form>
+  );
+};
+
+export default ResendLinkForm;
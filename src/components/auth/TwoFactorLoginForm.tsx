@@ -0,0 +1,125 @@
+import React, { useState } from "react";
+import { AlertCircle, ShieldCheck } from "lucide-react";
+import Button from "../ui/Button";
+import { useAuth } from "../../hooks/useAuth";
+
+interface TwoFactorLoginFormProps {
+  challengeToken: string;
+  remember: boolean;
+  onVerified: () => void;
+  onCancel: () => void;
+}
+
+// Second login step, shown after the password when the account uses 2FA
+const TwoFactorLoginForm: React.FC<TwoFactorLoginFormProps> = ({
+  challengeToken,
+  remember,
+  onVerified,
+  onCancel,
+}) => {
+  const { verifyTwoFactor, isLoading } = useAuth();
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const trimmed = code.trim();
+    if (!useRecoveryCode && !/^\d{6}$/.test(trimmed)) {
+      setError("Enter the 6-digit code from your authenticator app");
+      return;
+    }
+    if (!trimmed) {
+      setError("Enter one of your recovery codes");
+      return;
+    }
+
+    try {
+      setError(null);
+      await verifyTwoFactor(challengeToken, trimmed, remember);
+      onVerified();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Verification failed");
+      setCode("");
+    }
+  };
+
+  const toggleRecoveryCode = () => {
+    setUseRecoveryCode(!useRecoveryCode);
+    setCode("");
+    setError(null);
+  };
+
+  return (
+    <form className="space-y-6" onSubmit={handleSubmit}>
+      <div className="text-center">
+        <ShieldCheck className="w-10 h-10 text-blue-600 mx-auto" />
+        <h3 className="mt-2 text-lg font-medium text-gray-900">
+          Two-factor authentication
+        </h3>
+        <p className="mt-1 text-sm text-gray-600">
+          {useRecoveryCode
+            ? "Enter one of the recovery codes you saved when enabling 2FA."
+            : "Enter the 6-digit code from your authenticator app."}
+        </p>
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4">
+          <div className="flex">
+            <AlertCircle className="h-5 w-5 text-red-400" />
+            <p className="ml-3 text-sm text-red-700">{error}</p>
+          </div>
+        </div>
+      )}
+
+      <div>
+        <label
+          htmlFor="twoFactorCode"
+          className="block text-sm font-medium text-gray-700"
+        >
+          {useRecoveryCode ? "Recovery code" : "Authentication code"}
+        </label>
+        <input
+          id="twoFactorCode"
+          name="twoFactorCode"
+          type="text"
+          inputMode={useRecoveryCode ? "text" : "numeric"}
+          autoComplete="one-time-code"
+          autoFocus
+          maxLength={useRecoveryCode ? 32 : 6}
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-center tracking-widest focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+          placeholder={useRecoveryCode ? "xxxx-xxxx" : "000000"}
+        />
+      </div>
+
+      <Button type="submit" fullWidth loading={isLoading} disabled={isLoading}>
+        Verify
+      </Button>
+
+      <div className="flex items-center justify-between text-sm">
+        <button
+          type="button"
+          className="font-medium text-blue-600 hover:text-blue-500"
+          onClick={toggleRecoveryCode}
+        >
+          {useRecoveryCode
+            ? "Use authenticator app"
+            : "Use a recovery code instead"}
+        </button>
+        <button
+          type="button"
+          className="text-gray-500 hover:text-gray-700"
+          onClick={onCancel}
+        >
+          Back to sign in
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default TwoFactorLoginForm;
@@ -0,0 +1,636 @@
+import React, { useState } from "react";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import Button from "../ui/Button";
+import SeriesScopeModal from "../modals/SeriesScopeModal";
+import { useCan } from "../../hooks/useCan";
+import { useMutation, useQuery } from "../../hooks/useQuery";
+import { bookingService } from "../../services/bookingService";
+import type { SeriesScope } from "../../services/bookingService";
+import { queryCache, queryKeys } from "../../services/queryCache";
+import type { BookingStatus, CalendarEvent, Stylist } from "../../types";
+import {
+  addDays,
+  formatShopDate,
+  formatShopTime,
+  fromMinutes,
+  startOfWeek,
+  toMinutes,
+  todayInShop,
+} from "../../utils/shopTime";
+
+export type CalendarView = "day" | "week" | "resource";
+
+// Visible opening hours, in minutes since midnight
+const DAY_START = 8 * 60;
+const DAY_END = 21 * 60;
+const SNAP_MINUTES = 15;
+const MIN_DURATION = 15;
+const PX_PER_MINUTE = 1.2;
+
+const VIEW_LABELS: Record<CalendarView, string> = {
+  day: "Day",
+  week: "Week",
+  resource: "Stylists",
+};
+
+// Same colours as the status badges in the booking list
+const STATUS_COLORS: Record<BookingStatus, string> = {
+  pending: "bg-yellow-100 border-yellow-400 text-yellow-900",
+  confirmed: "bg-blue-100 border-blue-400 text-blue-900",
+  in_progress: "bg-purple-100 border-purple-400 text-purple-900",
+  completed: "bg-green-100 border-green-400 text-green-900",
+  cancelled: "bg-red-100 border-red-400 text-red-900",
+  no_show: "bg-gray-100 border-gray-400 text-gray-700",
+};
+
+// Bookings that already happened (or never will) stay where they are
+const LOCKED_STATUSES: BookingStatus[] = ["completed", "cancelled", "no_show"];
+
+interface Column {
+  key: string;
+  label: string;
+  date: string;
+  // Set in the stylist view, where each column is one chair
+  stylistId?: string;
+}
+
+interface Drag {
+  event: CalendarEvent;
+  mode: "move" | "resize";
+  originY: number;
+  originColumn: string;
+  originStart: number;
+  originDuration: number;
+  column: string;
+  start: number;
+  duration: number;
+  saving: boolean;
+}
+
+interface Move {
+  event: CalendarEvent;
+  date: string;
+  stylistId: string;
+  startTime: string;
+  duration: number;
+}
+
+interface PlacedEvent {
+  event: CalendarEvent;
+  lane: number;
+  lanes: number;
+}
+
+const clamp = (value: number, min: number, max: number): number =>
+  Math.min(Math.max(value, min), max);
+
+const durationOf = (event: CalendarEvent): number =>
+  toMinutes(event.endTime) - toMinutes(event.startTime);
+
+// Overlapping bookings in a column are placed side by side in lanes
+const layoutColumn = (events: CalendarEvent[]): PlacedEvent[] => {
+  const sorted = [...events].sort(
+    (a, b) => toMinutes(a.startTime) - toMinutes(b.startTime),
+  );
+  const placed: PlacedEvent[] = [];
+  let group: PlacedEvent[] = [];
+  let laneEnds: number[] = [];
+
+  const closeGroup = () => {
+    group.forEach((item) => (item.lanes = laneEnds.length));
+    group = [];
+    laneEnds = [];
+  };
+
+  sorted.forEach((event) => {
+    const start = toMinutes(event.startTime);
+    if (laneEnds.length > 0 && laneEnds.every((end) => end <= start)) {
+      closeGroup();
+    }
+    let lane = laneEnds.findIndex((end) => end <= start);
+    if (lane === -1) lane = laneEnds.length;
+    laneEnds[lane] = toMinutes(event.endTime);
+
+    const item = { event, lane, lanes: 1 };
+    group.push(item);
+    placed.push(item);
+  });
+  closeGroup();
+
+  return placed;
+};
+
+// Where a block of the moved booking ends up. The whole visit shifts by
+// the same amount; only the dragged block changes stylist or length.
+const moveBlock = (
+  block: CalendarEvent,
+  { event, date, stylistId, startTime, duration }: Move,
+): CalendarEvent => {
+  const dragged = block.id === event.id;
+  const start =
+    toMinutes(block.startTime) +
+    toMinutes(startTime) -
+    toMinutes(event.startTime);
+  return {
+    ...block,
+    date,
+    startTime: fromMinutes(start),
+    endTime: fromMinutes(start + (dragged ? duration : durationOf(block))),
+    stylistId: dragged ? stylistId : block.stylistId,
+  };
+};
+
+// Start of the whole visit when the dragged block lands at move.startTime
+const bookingStartOf = ({ event, startTime }: Move): string =>
+  fromMinutes(toMinutes(startTime) - event.offset);
+
+const hasMoved = (drag: Drag): boolean =>
+  drag.column !== drag.originColumn ||
+  drag.start !== drag.originStart ||
+  drag.duration !== drag.originDuration;
+
+const columnAt = (x: number, y: number): string | undefined =>
+  document
+    .elementsFromPoint(x, y)
+    .map((element) => (element as HTMLElement).dataset.column)
+    .find(Boolean);
+
+interface BookingCalendarProps {
+  stylists: Stylist[];
+  initialView?: CalendarView;
+  onSelectBooking?: (bookingId: string) => void;
+  onRescheduled?: (event: CalendarEvent) => void;
+}
+
+const BookingCalendar: React.FC<BookingCalendarProps> = ({
+  stylists,
+  initialView = "resource",
+  onSelectBooking,
+  onRescheduled,
+}) => {
+  const can = useCan();
+  const canReschedule = can("booking:update");
+  const [view, setView] = useState<CalendarView>(initialView);
+  const [date, setDate] = useState(todayInShop);
+  const [weekStylistId, setWeekStylistId] = useState("");
+  const [drag, setDrag] = useState<Drag | null>(null);
+  // A dropped visit of a series, waiting for which visits to move
+  const [seriesMove, setSeriesMove] = useState<Move | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const activeStylists = stylists.filter((stylist) => stylist.isActive);
+  const from = view === "week" ? startOfWeek(date) : date;
+  const to = view === "week" ? addDays(from, 6) : date;
+  const stylistFilter = view === "week" ? weekStylistId : "";
+
+  const calendarKey = queryKeys.bookingCalendar(view, from, stylistFilter);
+  const eventsQuery = useQuery(calendarKey, () =>
+    bookingService.getCalendarEvents(from, to, stylistFilter || undefined),
+  );
+  const events = eventsQuery.data ?? [];
+
+  const stylistName = (id: string) =>
+    stylists.find((stylist) => stylist.id === id)?.user.fullName;
+  const blocksOf = (event: CalendarEvent) =>
+    events.filter((item) => item.bookingId === event.bookingId);
+
+  const moveBooking = useMutation(
+    async (move: Move) => {
+      const { event, date } = move;
+      // Every service of the visit has to fit at its new time
+      const blocks = blocksOf(event).map((item) => moveBlock(item, move));
+      for (const block of blocks) {
+        const available = await bookingService.checkTimeSlotAvailability(
+          block.stylistId,
+          date,
+          block.startTime,
+          durationOf(block),
+          event.bookingId,
+        );
+        if (!available) {
+          throw new Error(
+            `${stylistName(block.stylistId) ?? block.stylist} is not free ` +
+              `at ${formatShopTime(block.startTime)}`,
+          );
+        }
+      }
+
+      return bookingService.rescheduleBooking(
+        event.bookingId,
+        date,
+        bookingStartOf(move),
+        event.lineCount > 1
+          ? {}
+          : { stylistId: move.stylistId, duration: move.duration },
+      );
+    },
+    {
+      invalidates: [queryKeys.bookings],
+      // Keeps the booking where it was dropped until the refetch lands
+      onSuccess: (_, move) => {
+        const placed = (block: CalendarEvent): CalendarEvent => {
+          const moved = moveBlock(block, move);
+          return {
+            ...moved,
+            stylist: stylistName(moved.stylistId) ?? moved.stylist,
+          };
+        };
+        queryCache.setData<CalendarEvent[]>(calendarKey, (current = []) =>
+          current.map((item) =>
+            item.bookingId === move.event.bookingId ? placed(item) : item,
+          ),
+        );
+        onRescheduled?.(placed(move.event));
+      },
+    },
+  );
+
+  // Later visits move by the same number of days, all to the new time
+  const moveSeries = useMutation(
+    async ({ move, scope }: { move: Move; scope: SeriesScope }) => {
+      const { event } = move;
+      if (move.stylistId !== event.stylistId) {
+        throw new Error("Only this visit can be moved to another stylist");
+      }
+      if (move.duration !== durationOf(event)) {
+        throw new Error("Only this visit can be resized");
+      }
+
+      const booking = await bookingService.getBookingById(event.bookingId);
+      return bookingService.rescheduleSeries(
+        booking,
+        move.date,
+        bookingStartOf(move),
+        scope,
+      );
+    },
+    {
+      invalidates: [queryKeys.bookings],
+      onSuccess: (_, { move }) =>
+        onRescheduled?.({ ...move.event, startTime: move.startTime }),
+    },
+  );
+
+  const columns: Column[] =
+    view === "resource"
+      ? activeStylists.map((stylist) => ({
+          key: stylist.id,
+          label: stylist.user.fullName,
+          date,
+          stylistId: stylist.id,
+        }))
+      : view === "week"
+        ? Array.from({ length: 7 }, (_, i) => addDays(from, i)).map(
+            (day) => ({
+              key: day,
+              label: formatShopDate(day, { weekday: "short", day: "numeric" }),
+              date: day,
+            }),
+          )
+        : [
+            {
+              key: date,
+              label: formatShopDate(date, { weekday: "long" }),
+              date,
+            },
+          ];
+
+  const eventsIn = (column: Column) =>
+    events.filter(
+      (event) =>
+        event.date === column.date &&
+        (!column.stylistId || event.stylistId === column.stylistId),
+    );
+
+  const isDraggable = (event: CalendarEvent) =>
+    canReschedule && !LOCKED_STATUSES.includes(event.status);
+
+  const shift = (direction: number) =>
+    setDate((current) =>
+      addDays(current, direction * (view === "week" ? 7 : 1)),
+    );
+
+  const handlePointerDown =
+    (event: CalendarEvent, column: Column, mode: Drag["mode"]) =>
+    (e: React.PointerEvent<HTMLDivElement>) => {
+      if (e.button !== 0 || drag?.saving) return;
+      e.stopPropagation();
+      e.currentTarget.setPointerCapture(e.pointerId);
+      const start = toMinutes(event.startTime);
+      setDrag({
+        event,
+        mode,
+        originY: e.clientY,
+        originColumn: column.key,
+        originStart: start,
+        originDuration: durationOf(event),
+        column: column.key,
+        start,
+        duration: durationOf(event),
+        saving: false,
+      });
+    };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag || drag.saving || !isDraggable(drag.event)) return;
+    const delta =
+      Math.round((e.clientY - drag.originY) / PX_PER_MINUTE / SNAP_MINUTES) *
+      SNAP_MINUTES;
+
+    if (drag.mode === "resize") {
+      setDrag({
+        ...drag,
+        duration: clamp(
+          drag.originDuration + delta,
+          MIN_DURATION,
+          DAY_END - drag.originStart,
+        ),
+      });
+      return;
+    }
+
+    // Visits with several services keep their stylists when moved
+    const column =
+      view === "resource" && drag.event.lineCount > 1
+        ? drag.originColumn
+        : columnAt(e.clientX, e.clientY) ?? drag.column;
+    setDrag({
+      ...drag,
+      start: clamp(
+        drag.originStart + delta,
+        DAY_START,
+        DAY_END - drag.duration,
+      ),
+      column,
+    });
+  };
+
+  const handlePointerUp = async () => {
+    if (!drag || drag.saving) return;
+    if (!hasMoved(drag)) {
+      setDrag(null);
+      onSelectBooking?.(drag.event.bookingId);
+      return;
+    }
+
+    const target = columns.find((column) => column.key === drag.column);
+    if (!target) {
+      setDrag(null);
+      return;
+    }
+
+    const move: Move = {
+      event: drag.event,
+      date: target.date,
+      stylistId: target.stylistId ?? drag.event.stylistId,
+      startTime: fromMinutes(drag.start),
+      duration: drag.duration,
+    };
+    setDrag({ ...drag, saving: true });
+
+    // Moving one visit of a series asks which visits to move, like the
+    // edit form does
+    const rescheduled =
+      move.date !== drag.event.date || drag.start !== drag.originStart;
+    if (drag.event.seriesId && rescheduled) {
+      setSeriesMove(move);
+      return;
+    }
+    await saveMove(move, "this");
+  };
+
+  const saveMove = async (move: Move, scope: SeriesScope) => {
+    setError(null);
+    try {
+      if (scope === "this") {
+        await moveBooking.mutate(move);
+      } else {
+        await moveSeries.mutate({ move, scope });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to move booking");
+    } finally {
+      setDrag(null);
+    }
+  };
+
+  const handleSeriesScope = (scope: SeriesScope) => {
+    if (!seriesMove) return;
+    setSeriesMove(null);
+    void saveMove(seriesMove, scope);
+  };
+
+  const cancelSeriesMove = () => {
+    setSeriesMove(null);
+    setDrag(null);
+  };
+
+  const renderEvent = (
+    event: CalendarEvent,
+    column: Column,
+    style: React.CSSProperties,
+    preview = false,
+  ) => {
+    const draggable = isDraggable(event);
+    const dragging = drag?.event.id === event.id;
+    const start = preview && drag ? drag.start : toMinutes(event.startTime);
+    const duration = preview && drag ? drag.duration : durationOf(event);
+    const visibleStart = clamp(start, DAY_START, DAY_END);
+    const visibleEnd = clamp(start + duration, DAY_START, DAY_END);
+
+    return (
+      <div
+        key={preview ? `${event.id}-preview` : event.id}
+        role="button"
+        aria-label={`${event.customer}, ${event.service} at ${event.startTime}`}
+        title={`${event.customer} · ${event.service} · ${event.stylist}`}
+        onPointerDown={
+          preview ? undefined : handlePointerDown(event, column, "move")
+        }
+        onPointerMove={preview ? undefined : handlePointerMove}
+        onPointerUp={preview ? undefined : handlePointerUp}
+        onPointerCancel={preview ? undefined : () => setDrag(null)}
+        className={`absolute overflow-hidden rounded-md border-l-4 px-2 py-1 text-xs shadow-sm select-none touch-none ${
+          STATUS_COLORS[event.status]
+        } ${draggable ? "cursor-grab" : "cursor-pointer"} ${
+          preview ? "z-20 ring-2 ring-primary-500 pointer-events-none" : ""
+        } ${dragging && !preview ? "opacity-40" : ""}`}
+        style={{
+          ...style,
+          top: (visibleStart - DAY_START) * PX_PER_MINUTE,
+          height:
+            Math.max(visibleEnd - visibleStart, MIN_DURATION) * PX_PER_MINUTE,
+        }}
+      >
+        <p className="font-semibold truncate">
+          {formatShopTime(fromMinutes(start))}–
+          {formatShopTime(fromMinutes(start + duration))}{" "}
+          {event.customer}
+        </p>
+        <p className="truncate">{event.service}</p>
+        {view !== "resource" && <p className="truncate">{event.stylist}</p>}
+        {preview && drag?.saving && !seriesMove && (
+          <p className="italic">Saving…</p>
+        )}
+        {draggable && !preview && event.lineCount === 1 && (
+          <div
+            onPointerDown={handlePointerDown(event, column, "resize")}
+            className="absolute bottom-0 left-0 right-0 h-2 cursor-ns-resize"
+          />
+        )}
+      </div>
+    );
+  };
+
+  const hours = Array.from(
+    { length: (DAY_END - DAY_START) / 60 },
+    (_, i) => DAY_START + i * 60,
+  );
+  const height = (DAY_END - DAY_START) * PX_PER_MINUTE;
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200">
+      {/* Toolbar */}
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-4 border-b border-gray-200">
+        <div className="flex items-center space-x-2">
+          <Button variant="ghost" size="sm" onClick={() => shift(-1)}>
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() => setDate(todayInShop())}
+          >
+            Today
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => shift(1)}>
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+          <span className="font-medium text-gray-900">
+            {view === "week"
+              ? `${formatShopDate(from)} – ${formatShopDate(to)}`
+              : formatShopDate(date, {
+                  weekday: "long",
+                  year: "numeric",
+                  month: "long",
+                  day: "numeric",
+                })}
+          </span>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          {view === "week" && (
+            <select
+              value={weekStylistId}
+              onChange={(e) => setWeekStylistId(e.target.value)}
+              className="px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+            >
+              <option value="">All Stylists</option>
+              {activeStylists.map((stylist) => (
+                <option key={stylist.id} value={stylist.id}>
+                  {stylist.user.fullName}
+                </option>
+              ))}
+            </select>
+          )}
+          {(Object.keys(VIEW_LABELS) as CalendarView[]).map((option) => (
+            <Button
+              key={option}
+              size="sm"
+              variant={view === option ? "primary" : "ghost"}
+              onClick={() => setView(option)}
+            >
+              {VIEW_LABELS[option]}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {(error || !!eventsQuery.error) && (
+        <div className="m-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+          {error ??
+            (eventsQuery.error instanceof Error
+              ? eventsQuery.error.message
+              : "Failed to load calendar")}
+        </div>
+      )}
+
+      {/* Grid */}
+      <div className="overflow-x-auto">
+        <div className="flex min-w-max">
+          <div className="w-14 shrink-0 pt-10">
+            <div className="relative" style={{ height }}>
+              {hours.map((minutes) => (
+                <span
+                  key={minutes}
+                  className="absolute right-2 -translate-y-1/2 text-xs text-gray-500"
+                  style={{ top: (minutes - DAY_START) * PX_PER_MINUTE }}
+                >
+                  {formatShopTime(fromMinutes(minutes))}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          {columns.map((column) => (
+            <div
+              key={column.key}
+              className="flex-1 min-w-[10rem] border-l border-gray-200"
+            >
+              <div className="h-10 flex items-center justify-center px-2 text-sm font-medium text-gray-700 border-b border-gray-200 truncate">
+                {column.label}
+              </div>
+              <div
+                data-column={column.key}
+                className={`relative ${
+                  drag?.column === column.key && !drag.saving
+                    ? "bg-primary-50"
+                    : ""
+                }`}
+                style={{ height }}
+              >
+                {hours.map((minutes) => (
+                  <div
+                    key={minutes}
+                    className="absolute left-0 right-0 border-t border-gray-100"
+                    style={{ top: (minutes - DAY_START) * PX_PER_MINUTE }}
+                  />
+                ))}
+                {layoutColumn(eventsIn(column)).map(({ event, lane, lanes }) =>
+                  renderEvent(event, column, {
+                    left: `${(lane / lanes) * 100}%`,
+                    width: `calc(${100 / lanes}% - 4px)`,
+                  }),
+                )}
+                {drag?.column === column.key &&
+                  hasMoved(drag) &&
+                  renderEvent(
+                    drag.event,
+                    column,
+                    { left: 0, width: "calc(100% - 4px)" },
+                    true,
+                  )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {eventsQuery.isLoading && (
+        <p className="p-4 text-sm text-gray-500">Loading calendar...</p>
+      )}
+      {view === "resource" && activeStylists.length === 0 && (
+        <p className="p-4 text-sm text-gray-500">No active stylists.</p>
+      )}
+
+      <SeriesScopeModal
+        isOpen={!!seriesMove}
+        action="reschedule"
+        onClose={cancelSeriesMove}
+        onConfirm={handleSeriesScope}
+      />
+    </div>
+  );
+};
+
+export default BookingCalendar;
@@ -3,7 +3,15 @@ import { Outlet, Navigate, useLocation } from "react-router-dom";
 import { authService } from "../../services/authService";
 import Sidebar from "./Sidebar";
 import Header from "./Header";
+import ImpersonationBanner from "./ImpersonationBanner";
+import RetryBanner from "./RetryBanner";
+import OfflineBanner from "./OfflineBanner";
 import { User } from "../../types";
+import {
+  findDashboardRoute,
+  TWO_FACTOR_SETUP_PATH,
+} from "../../config/navigation";
+import { useCan } from "../../hooks/useCan";
 
 interface DashboardLayoutProps {
   children?: React.ReactNode;
@@ -14,6 +22,7 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
   const location = useLocation();
+  const can = useCan();
 
   // Initialize auth state
   useEffect(() => {
@@ -48,24 +57,7 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) => {
 
   // Get page title from route
   const getPageTitle = () => {
-    const path = location.pathname;
-    const titleMap: Record<string, string> = {
-      "/dashboard": "Dashboard",
-      "/dashboard/stylists": "Manajemen Stylist",
-      "/dashboard/services": "Manajemen Layanan",
-      "/dashboard/bookings": "Manajemen Booking",
-      "/dashboard/payments": "Pembayaran",
-      "/dashboard/reviews": "Ulasan & Rating",
-      "/dashboard/customers": "Pelanggan",
-      "/dashboard/promos": "Promo & Loyalty",
-      "/dashboard/analytics": "Laporan & Analitik",
-      "/dashboard/settings": "Pengaturan",
-      "/dashboard/management/stylists": "Manajemen Stylist",
-      "/dashboard/management/services": "Manajemen Layanan",
-      "/dashboard/management/bookings": "Manajemen Booking",
-    };
-
-    return titleMap[path] || "Dashboard";
+    return findDashboardRoute(location.pathname)?.title || "Dashboard";
   };
 
   // Show loading spinner
@@ -79,11 +71,21 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) => {
 
   // Redirect to login if not authenticated
   if (!authService.isAuthenticated() || !user) {
-    return <Navigate to="/login" replace />;
+    return <Navigate to="/login" replace state={{ from: location }} />;
+  }
+
+  // Roles that must use 2FA enrol before anything else; an impersonating
+  // admin has already passed their own second factor
+  if (
+    user.twoFactorRequired &&
+    !user.twoFactorEnabled &&
+    !authService.isImpersonating()
+  ) {
+    return <Navigate to={TWO_FACTOR_SETUP_PATH} replace />;
   }
 
   // Check if user has dashboard access
-  const hasAccess = ["ADMIN", "MANAGER", "STYLIST"].includes(user.role);
+  const hasAccess = can("dashboard:view");
   if (!hasAccess) {
     return (
       <div className="min-h-screen bg-secondary-50 flex items-center justify-center">
@@ -121,6 +123,10 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) => {
 
       {/* Main Content */}
       <div className="flex-1 flex flex-col min-w-0">
+        <ImpersonationBanner />
+        <RetryBanner />
+        <OfflineBanner />
+
         {/* Header */}
         <Header onMenuClick={handleMobileMenuToggle} title={getPageTitle()} />
 
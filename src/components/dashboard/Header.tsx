@@ -1,7 +1,9 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Bell, Search, Menu, User, Settings, LogOut, ChevronDown } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { Bell, Search, Menu, User, Settings, LogOut, ChevronDown, ShieldCheck } from 'lucide-react';
 import { authService } from '../../services/authService';
 import Button from '../ui/Button';
+import { TWO_FACTOR_SETUP_PATH } from '../../config/navigation';
 
 interface HeaderProps {
   onMenuClick: () => void;
@@ -20,6 +22,7 @@ interface NotificationItem {
 const Header: React.FC<HeaderProps> = ({ onMenuClick, title }) => {
   const [showNotifications, setShowNotifications] = useState(false);
   const [showUserMenu, setShowUserMenu] = useState(false);
+  const navigate = useNavigate();
   const [searchQuery, setSearchQuery] = useState('');
   const [notifications, setNotifications] = useState<NotificationItem[]>([
     {
@@ -291,6 +294,14 @@ const Header: React.FC<HeaderProps> = ({ onMenuClick, title }) => {
                     <Settings className="w-4 h-4 mr-3" />
                     Pengaturan
                   </button>
+
+                  <button
+                    onClick={() => navigate(TWO_FACTOR_SETUP_PATH)}
+                    className="flex items-center w-full px-4 py-2 text-sm text-secondary-700 hover:bg-secondary-100"
+                  >
+                    <ShieldCheck className="w-4 h-4 mr-3" />
+                    Keamanan Akun
+                  </button>
                 </div>
 
                 <div className="border-t border-secondary-200 py-2">
@@ -0,0 +1,86 @@
+import React, { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { AlertCircle, Eye, LogOut, X } from "lucide-react";
+import { useAuth } from "../../hooks/useAuth";
+import { getDashboardRoute } from "../../config/navigation";
+import { AuditLogError } from "../../services/errors";
+
+// Shown on every dashboard page while an admin is impersonating someone
+const ImpersonationBanner: React.FC = () => {
+  const { user, impersonator, stopImpersonation } = useAuth();
+  const navigate = useNavigate();
+  const [stopping, setStopping] = useState(false);
+  // Stays up after the session ends, so a lost audit entry is not missed
+  const [error, setError] = useState<string | null>(null);
+
+  const errorBar = error && (
+    <div
+      role="alert"
+      className="bg-red-600 text-white px-6 py-2 flex items-center justify-between text-sm"
+    >
+      <div className="flex items-center space-x-2">
+        <AlertCircle className="w-4 h-4" />
+        <span>{error}</span>
+      </div>
+      <button
+        onClick={() => setError(null)}
+        className="p-1 rounded-md hover:bg-white/20 transition-colors"
+        aria-label="Tutup"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+
+  if (!impersonator || !user) return errorBar || null;
+
+  const handleStop = async () => {
+    try {
+      setStopping(true);
+      setError(null);
+      await stopImpersonation();
+      navigate(getDashboardRoute("stylists")?.path || "/dashboard");
+    } catch (err) {
+      setError(
+        err instanceof Error
+          ? err.message
+          : "Gagal mengakhiri sesi impersonasi",
+      );
+      // The session did end; only the audit entry is missing
+      if (err instanceof AuditLogError) {
+        navigate(getDashboardRoute("stylists")?.path || "/dashboard");
+      }
+    } finally {
+      setStopping(false);
+    }
+  };
+
+  return (
+    <>
+      {errorBar}
+      <div
+        role="status"
+        className="bg-amber-500 text-white px-6 py-2 flex items-center justify-between text-sm"
+      >
+        <div className="flex items-center space-x-2">
+          <Eye className="w-4 h-4" />
+          <span>
+            Anda melihat sebagai <strong>{user.fullName}</strong> (
+            {user.role.toLowerCase()}). Semua aksi tercatat atas nama{" "}
+            <strong>{impersonator.fullName}</strong>.
+          </span>
+        </div>
+        <button
+          onClick={handleStop}
+          disabled={stopping}
+          className="flex items-center space-x-1 px-3 py-1 rounded-md bg-white/20 hover:bg-white/30 transition-colors disabled:opacity-50"
+        >
+          <LogOut className="w-4 h-4" />
+          <span>Akhiri sesi</span>
+        </button>
+      </div>
+    </>
+  );
+};
+
+export default ImpersonationBanner;
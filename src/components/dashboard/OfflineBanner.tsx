@@ -0,0 +1,81 @@
+import React from "react";
+import { AlertTriangle, CloudOff, RefreshCw } from "lucide-react";
+import { useIsOffline, useOfflineQueue } from "../../hooks/useOfflineQueue";
+import { offlineQueue } from "../../services/offlineQueue";
+import type { OfflineAction } from "../../services/offlineQueue";
+
+const describeAction = (action: OfflineAction): string => {
+  switch (action.type) {
+    case "completeBooking":
+      return "Selesaikan booking";
+    case "markNoShow":
+      return "Tandai no-show";
+    case "createPayment":
+      return "Catat pembayaran";
+  }
+};
+
+// Offline mode status: what is waiting to sync and what the server refused
+const OfflineBanner: React.FC = () => {
+  const isOffline = useIsOffline();
+  const entries = useOfflineQueue();
+
+  const waiting = entries.filter((entry) => entry.status !== "conflict");
+  const conflicts = entries.filter((entry) => entry.status === "conflict");
+
+  if (!isOffline && entries.length === 0) return null;
+
+  return (
+    <div role="status" aria-live="polite" className="text-sm">
+      {isOffline ? (
+        <div className="bg-gray-800 text-white px-6 py-2 flex items-center space-x-2">
+          <CloudOff className="w-4 h-4" />
+          <span>
+            Mode offline. Perubahan disimpan di perangkat ini dan dikirim saat
+            koneksi kembali
+            {waiting.length > 0 && ` · ${waiting.length} perubahan tertunda`}
+          </span>
+        </div>
+      ) : (
+        waiting.length > 0 && (
+          <div className="bg-blue-600 text-white px-6 py-2 flex items-center space-x-2">
+            <RefreshCw className="w-4 h-4 animate-spin" />
+            <span>Menyinkronkan {waiting.length} perubahan…</span>
+          </div>
+        )
+      )}
+
+      {conflicts.map((entry) => (
+        <div
+          key={entry.id}
+          className="bg-red-600 text-white px-6 py-2 flex items-center justify-between"
+        >
+          <div className="flex items-center space-x-2">
+            <AlertTriangle className="w-4 h-4" />
+            <span>
+              {describeAction(entry.action)} (
+              {new Date(entry.createdAt).toLocaleTimeString("id-ID")}) ditolak
+              server: {entry.error}
+            </span>
+          </div>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => offlineQueue.retry(entry.id)}
+              className="px-3 py-1 rounded-md bg-white/20 hover:bg-white/30 transition-colors"
+            >
+              Coba lagi
+            </button>
+            <button
+              onClick={() => offlineQueue.discard(entry.id)}
+              className="px-3 py-1 rounded-md bg-white/20 hover:bg-white/30 transition-colors"
+            >
+              Buang
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default OfflineBanner;
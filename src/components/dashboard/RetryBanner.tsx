@@ -0,0 +1,30 @@
+import React from "react";
+import { RefreshCw } from "lucide-react";
+import { useRetryStatus } from "../../hooks/useRetryStatus";
+
+// Lets staff know a flaky connection is being retried instead of failing
+const RetryBanner: React.FC = () => {
+  const retries = useRetryStatus();
+
+  if (retries.length === 0) return null;
+
+  // The request furthest along is the one closest to giving up
+  const latest = retries.reduce((a, b) => (b.attempt > a.attempt ? b : a));
+
+  return (
+    <div
+      role="status"
+      aria-live="polite"
+      className="bg-blue-600 text-white px-6 py-2 flex items-center space-x-2 text-sm"
+    >
+      <RefreshCw className="w-4 h-4 animate-spin" />
+      <span>
+        Koneksi bermasalah, mencoba lagi… (percobaan {latest.attempt} dari{" "}
+        {latest.retries})
+        {retries.length > 1 && ` · ${retries.length} permintaan tertunda`}
+      </span>
+    </div>
+  );
+};
+
+export default RetryBanner;
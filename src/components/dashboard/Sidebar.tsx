@@ -1,101 +1,25 @@
 import React from "react";
 import { NavLink, useLocation } from "react-router-dom";
 import {
-  LayoutDashboard,
-  Users,
   Scissors,
-  Calendar,
-  CreditCard,
-  Star,
-  Gift,
-  BarChart3,
-  Settings,
   LogOut,
   ChevronLeft,
   ChevronRight,
   User,
 } from "lucide-react";
 import { authService } from "../../services/authService";
+import { getSidebarRoutes } from "../../config/navigation";
+import { useCan } from "../../hooks/useCan";
 
 interface SidebarProps {
   collapsed: boolean;
   onToggle: () => void;
 }
 
-interface NavItem {
-  name: string;
-  href: string;
-  icon: React.ComponentType<{ className?: string }>;
-  badge?: number;
-  roles?: string[];
-}
-
-const navigationItems: NavItem[] = [
-  {
-    name: "Dashboard",
-    href: "/dashboard",
-    icon: LayoutDashboard,
-    roles: ["ADMIN", "MANAGER", "STYLIST"],
-  },
-  {
-    name: "Manajemen Stylist",
-    href: "/dashboard/management/stylists",
-    icon: Users,
-    roles: ["ADMIN", "MANAGER"],
-  },
-  {
-    name: "Manajemen Layanan",
-    href: "/dashboard/management/services",
-    icon: Scissors,
-    roles: ["ADMIN", "MANAGER"],
-  },
-  {
-    name: "Manajemen Booking",
-    href: "/dashboard/management/bookings",
-    icon: Calendar,
-    roles: ["ADMIN", "MANAGER", "STYLIST"],
-  },
-  {
-    name: "Pembayaran",
-    href: "/dashboard/payments",
-    icon: CreditCard,
-    roles: ["ADMIN", "MANAGER"],
-  },
-  {
-    name: "Ulasan & Rating",
-    href: "/dashboard/reviews",
-    icon: Star,
-    roles: ["ADMIN", "MANAGER"],
-  },
-  {
-    name: "Pelanggan",
-    href: "/dashboard/customers",
-    icon: Users,
-    roles: ["ADMIN", "MANAGER"],
-  },
-  {
-    name: "Promo & Loyalty",
-    href: "/dashboard/promos",
-    icon: Gift,
-    roles: ["ADMIN", "MANAGER"],
-  },
-  {
-    name: "Laporan & Analitik",
-    href: "/dashboard/analytics",
-    icon: BarChart3,
-    roles: ["ADMIN", "MANAGER"],
-  },
-  {
-    name: "Pengaturan",
-    href: "/dashboard/settings",
-    icon: Settings,
-    roles: ["ADMIN", "MANAGER"],
-  },
-];
-
 const Sidebar: React.FC<SidebarProps> = ({ collapsed, onToggle }) => {
   const location = useLocation();
   const user = authService.getUser();
+  const can = useCan();
 
   const handleLogout = async () => {
     try {
@@ -108,12 +32,7 @@ const Sidebar: React.FC<SidebarProps> = ({ collapsed, onToggle }) => {
     }
   };
 
-  const hasAccess = (item: NavItem): boolean => {
-    if (!item.roles || !user) return true;
-    return item.roles.includes(user.role);
-  };
-
-  const filteredNavItems = navigationItems.filter(hasAccess);
+  const filteredNavItems = getSidebarRoutes(can);
 
   return (
     <div
@@ -183,14 +102,14 @@ const Sidebar: React.FC<SidebarProps> = ({ collapsed, onToggle }) => {
         {filteredNavItems.map((item) => {
           const Icon = item.icon;
           const isActive =
-            location.pathname === item.href ||
-            (item.href !== "/dashboard" &&
-              location.pathname.startsWith(item.href));
+            location.pathname === item.path ||
+            (item.path !== "/dashboard" &&
+              location.pathname.startsWith(item.path));
 
           return (
             <NavLink
-              key={item.name}
-              to={item.href}
+              key={item.key}
+              to={item.path}
               className={({ isActive: navIsActive }) => `
                 group flex items-center px-3 py-2 text-sm font-medium rounded-md transition-colors duration-150
                 ${
@@ -200,7 +119,7 @@ const Sidebar: React.FC<SidebarProps> = ({ collapsed, onToggle }) => {
                 }
                 ${collapsed ? "justify-center" : ""}
               `}
-              title={collapsed ? item.name : undefined}
+              title={collapsed ? item.title : undefined}
             >
               <Icon
                 className={`
@@ -214,14 +133,7 @@ const Sidebar: React.FC<SidebarProps> = ({ collapsed, onToggle }) => {
                 `}
               />
               {!collapsed && (
-                <>
-                  <span className="flex-1">{item.name}</span>
-                  {item.badge && item.badge > 0 && (
-                    <span className="ml-2 inline-flex items-center justify-center px-2 py-0.5 text-xs font-medium bg-red-100 text-red-800 rounded-full">
-                      {item.badge > 99 ? "99+" : item.badge}
-                    </span>
-                  )}
-                </>
+                <span className="flex-1">{item.title}</span>
               )}
             </NavLink>
           );
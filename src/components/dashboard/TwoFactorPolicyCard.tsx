@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from "react";
+import { ShieldCheck } from "lucide-react";
+import Card from "../ui/Card";
+import Button from "../ui/Button";
+import { userService } from "../../services/userService";
+import { UserRole } from "../../types";
+
+const STAFF_ROLES: { role: UserRole; label: string }[] = [
+  { role: UserRole.ADMIN, label: "Admin" },
+  { role: UserRole.MANAGER, label: "Manager" },
+  { role: UserRole.STYLIST, label: "Stylist" },
+  { role: UserRole.RECEPTIONIST, label: "Resepsionis" },
+  { role: UserRole.CASHIER, label: "Kasir" },
+];
+
+// Admin setting: which roles must sign in with two-factor authentication
+const TwoFactorPolicyCard: React.FC = () => {
+  const [requiredRoles, setRequiredRoles] = useState<UserRole[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    userService
+      .getTwoFactorPolicy()
+      .then((policy) => setRequiredRoles(policy.requiredRoles))
+      .catch((err) =>
+        setError(err instanceof Error ? err.message : "Gagal memuat kebijakan"),
+      )
+      .finally(() => setLoading(false));
+  }, []);
+
+  const toggleRole = (role: UserRole) => {
+    setMessage(null);
+    setRequiredRoles((prev) =>
+      prev.includes(role) ? prev.filter((r) => r !== role) : [...prev, role],
+    );
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      const policy = await userService.updateTwoFactorPolicy(requiredRoles);
+      setRequiredRoles(policy.requiredRoles);
+      setMessage("Kebijakan 2FA disimpan");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Gagal menyimpan kebijakan");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <Card.Body>
+        <div className="flex items-center space-x-2 mb-2">
+          <ShieldCheck className="w-5 h-5 text-primary-600" />
+          <h2 className="text-lg font-semibold text-gray-900">
+            Autentikasi Dua Faktor
+          </h2>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">
+          Pengguna dengan peran yang dipilih wajib mengaktifkan 2FA sebelum
+          dapat mengakses dashboard.
+        </p>
+
+        {loading ? (
+          <p className="text-sm text-gray-500">Memuat...</p>
+        ) : (
+          <div className="space-y-2 mb-4">
+            {STAFF_ROLES.map(({ role, label }) => (
+              <label key={role} className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={requiredRoles.includes(role)}
+                  onChange={() => toggleRole(role)}
+                  className="h-4 w-4 text-primary-600 border-gray-300 rounded"
+                />
+                <span className="text-sm text-gray-700">{label}</span>
+              </label>
+            ))}
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+        {message && <p className="text-sm text-green-600 mb-2">{message}</p>}
+
+        <Button onClick={handleSave} loading={saving} disabled={loading}>
+          Simpan
+        </Button>
+      </Card.Body>
+    </Card>
+  );
+};
+
+export default TwoFactorPolicyCard;
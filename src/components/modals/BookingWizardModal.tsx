@@ -0,0 +1,853 @@
+import React from "react";
+import {
+  AlertCircle,
+  ArrowUp,
+  Calendar,
+  Check,
+  ChevronLeft,
+  ChevronRight,
+  Clock,
+  Repeat,
+  Scissors,
+  Search,
+  User,
+  Users,
+} from "lucide-react";
+import Modal from "../ui/Modal";
+import Button from "../ui/Button";
+import { useQuery } from "../../hooks/useQuery";
+import { bookingService } from "../../services/bookingService";
+import type { CreateBookingRequest } from "../../services/bookingService";
+import { customerService } from "../../services/customerService";
+import { serviceService } from "../../services/serviceService";
+import { queryKeys } from "../../services/queryCache";
+import type {
+  Customer,
+  RecurrenceRule,
+  Service,
+  Stylist,
+} from "../../types";
+import { buildSlotGrid } from "../../utils/bookingSlots";
+import type { BookingSlot } from "../../utils/bookingSlots";
+import { formatMoney, sumMoney } from "../../utils/money";
+import { describeRecurrence, MAX_OCCURRENCES } from "../../utils/recurrence";
+import {
+  formatShopDate,
+  formatShopTime,
+  fromMinutes,
+  toMinutes,
+  todayInShop,
+} from "../../utils/shopTime";
+
+const STEPS = ["Services", "Stylist", "Time", "Customer", "Confirm"];
+
+// Stylist choice that lets the shop assign whoever is free
+const ANY_STYLIST = "any";
+
+interface BookingWizardModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // With a rule, the booking repeats as a series
+  onSubmit: (data: CreateBookingRequest, rule?: RecurrenceRule) => void;
+  services: Service[];
+  stylists: Stylist[];
+  loading?: boolean;
+  error?: string | null;
+}
+
+const BookingWizardModal: React.FC<BookingWizardModalProps> = ({
+  isOpen,
+  onClose,
+  onSubmit,
+  services,
+  stylists,
+  loading = false,
+  error = null,
+}) => {
+  const [step, setStep] = React.useState(0);
+  // In the order the services are done
+  const [serviceIds, setServiceIds] = React.useState<string[]>([]);
+  const [stylistId, setStylistId] = React.useState(ANY_STYLIST);
+  // Services done by someone other than the visit's stylist, by service id
+  const [lineStylistIds, setLineStylistIds] = React.useState<
+    Record<string, string>
+  >({});
+  const [date, setDate] = React.useState(todayInShop);
+  const [slot, setSlot] = React.useState<BookingSlot | null>(null);
+  const [assignedStylistId, setAssignedStylistId] = React.useState("");
+  const [assigning, setAssigning] = React.useState(false);
+  const [slotError, setSlotError] = React.useState<string | null>(null);
+  const [search, setSearch] = React.useState("");
+  const [customer, setCustomer] = React.useState<Customer | null>(null);
+  const [notes, setNotes] = React.useState("");
+  const [repeat, setRepeat] = React.useState<"none" | "weekly" | "monthly">(
+    "none",
+  );
+  const [every, setEvery] = React.useState(1);
+  const [ends, setEnds] = React.useState<"count" | "until">("count");
+  const [count, setCount] = React.useState(6);
+  const [until, setUntil] = React.useState("");
+
+  // Start over each time the wizard opens
+  React.useEffect(() => {
+    if (isOpen) {
+      setStep(0);
+      setServiceIds([]);
+      setStylistId(ANY_STYLIST);
+      setLineStylistIds({});
+      setDate(todayInShop());
+      setSlot(null);
+      setAssignedStylistId("");
+      setSlotError(null);
+      setSearch("");
+      setCustomer(null);
+      setNotes("");
+      setRepeat("none");
+      setEvery(1);
+      setEnds("count");
+      setCount(6);
+      setUntil("");
+    }
+  }, [isOpen]);
+
+  const chosen = serviceIds
+    .map((id) => services.find((item) => item.id === id))
+    .filter((item): item is Service => !!item);
+  const totalDuration = chosen.reduce((sum, item) => sum + item.duration, 0);
+  const totalPrice = sumMoney(chosen, (item) => item.price);
+  const bookable = stylists.filter((item) => item.isActive && item.isAvailable);
+  const candidates =
+    stylistId === ANY_STYLIST
+      ? bookable
+      : bookable.filter((item) => item.id === stylistId);
+  const assignedStylist = stylists.find(
+    (item) => item.id === assignedStylistId,
+  );
+  const lineStylist = (serviceId: string) =>
+    stylists.find((item) => item.id === lineStylistIds[serviceId]);
+
+  const availabilityQuery = useQuery(
+    queryKeys.bookingAvailability(
+      date,
+      serviceIds,
+      candidates.map((item) => item.id),
+    ),
+    () =>
+      Promise.all(
+        candidates.map(async (stylist) => ({
+          stylist,
+          availability: await bookingService.getStylistAvailability(
+            stylist.id,
+            date,
+            serviceIds,
+          ),
+        })),
+      ),
+    { enabled: isOpen && step === 2 && chosen.length > 0, staleTime: 0 },
+  );
+  const slots =
+    chosen.length > 0
+      ? buildSlotGrid(date, totalDuration, availabilityQuery.data ?? [])
+      : [];
+
+  // When each service starts, given the visit's start time
+  const lineStarts = (startTime: string) =>
+    chosen.map((_, index) =>
+      fromMinutes(
+        toMinutes(startTime) +
+          chosen
+            .slice(0, index)
+            .reduce((sum, item) => sum + item.duration, 0),
+      ),
+    );
+
+  const slotStarts = slot ? lineStarts(slot.startTime) : [];
+
+  const rule: RecurrenceRule | undefined =
+    repeat === "none"
+      ? undefined
+      : {
+          frequency: repeat,
+          interval: every,
+          ...(ends === "count" ? { count } : { until }),
+        };
+  // A series ending on a date needs the date first
+  const ruleReady = ends === "count" || !!until;
+  const bookingRequest = (): CreateBookingRequest | undefined =>
+    chosen.length > 0 && slot && customer
+      ? {
+          customerId: customer.id,
+          stylistId: assignedStylistId,
+          services: chosen.map((item) => ({
+            serviceId: item.id,
+            stylistId: lineStylistIds[item.id],
+          })),
+          bookingDate: date,
+          startTime: slot.startTime,
+          notes: notes || undefined,
+        }
+      : undefined;
+
+  // Which visits of the series are free, before anything is booked
+  const seriesQuery = useQuery(
+    queryKeys.bookingSeriesCheck(
+      date,
+      slot?.startTime,
+      assignedStylistId,
+      serviceIds,
+      lineStylistIds,
+      rule,
+    ),
+    () =>
+      bookingService.checkSeriesAvailability(
+        bookingRequest()!,
+        chosen.map((item) => item.duration),
+        rule!,
+      ),
+    {
+      enabled:
+        isOpen && step === 4 && !!rule && ruleReady && !!bookingRequest(),
+      staleTime: 0,
+    },
+  );
+  const occurrences = rule ? (seriesQuery.data ?? []) : [];
+  const freeCount = occurrences.filter((item) => item.available).length;
+
+  const trimmedSearch = search.trim();
+  const customersQuery = useQuery(
+    queryKeys.customerSearch(trimmedSearch),
+    () => customerService.getCustomers(1, 8, { search: trimmedSearch }),
+    { enabled: isOpen && step === 3 && trimmedSearch.length >= 2 },
+  );
+  const customers = customersQuery.data?.data ?? [];
+
+  const toggleService = (id: string) => {
+    setServiceIds((current) =>
+      current.includes(id)
+        ? current.filter((item) => item !== id)
+        : [...current, id],
+    );
+    setSlot(null);
+  };
+
+  const moveServiceUp = (index: number) => {
+    setServiceIds((current) => [
+      ...current.slice(0, index - 1),
+      current[index],
+      current[index - 1],
+      ...current.slice(index + 1),
+    ]);
+    setSlot(null);
+  };
+
+  const chooseStylist = (id: string) => {
+    setStylistId(id);
+    setSlot(null);
+  };
+
+  // An empty id gives the service back to the visit's stylist
+  const chooseLineStylist = (serviceId: string, id: string) => {
+    setLineStylistIds((current) => {
+      const next = { ...current };
+      if (id) next[serviceId] = id;
+      else delete next[serviceId];
+      return next;
+    });
+    setSlot(null);
+  };
+
+  const chooseDate = (value: string) => {
+    setDate(value);
+    setSlot(null);
+    setSlotError(null);
+  };
+
+  const chooseSlot = async (option: BookingSlot) => {
+    setSlotError(null);
+    const split = chosen.some((item) => lineStylistIds[item.id]);
+    if (stylistId !== ANY_STYLIST && !split) {
+      setSlot(option);
+      setAssignedStylistId(stylistId);
+      return;
+    }
+
+    // The service check also knows which stylists offer each service, so
+    // each service's stylist has to pass it at that service's start time
+    setAssigning(true);
+    try {
+      const starts = lineStarts(option.startTime);
+      const checks = await Promise.all(
+        chosen.map((item, index) =>
+          serviceService.getServiceAvailability(item.id, date, starts[index]),
+        ),
+      );
+      const fits = (id: string) =>
+        chosen.every((item, index) =>
+          checks[index].availableStylists.some(
+            (stylist: Stylist) =>
+              stylist.id === (lineStylistIds[item.id] ?? id),
+          ),
+        );
+      const match = (
+        stylistId === ANY_STYLIST ? option.stylistIds : [stylistId]
+      ).find(fits);
+
+      if (match) {
+        setSlot(option);
+        setAssignedStylistId(match);
+      } else {
+        setSlot(null);
+        setSlotError("Nobody can take that time any more. Pick another.");
+        availabilityQuery.refetch().catch(() => undefined);
+      }
+    } catch (err) {
+      setSlotError(
+        err instanceof Error ? err.message : "Failed to check the time",
+      );
+    } finally {
+      setAssigning(false);
+    }
+  };
+
+  const canContinue = [
+    chosen.length > 0,
+    !!stylistId,
+    !!slot && !assigning,
+    !!customer,
+    !rule || (ruleReady && freeCount > 0),
+  ][step];
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (step < STEPS.length - 1) {
+      if (canContinue) setStep(step + 1);
+      return;
+    }
+    const data = bookingRequest();
+    if (data) onSubmit(data, rule);
+  };
+
+  const optionClass = (selected: boolean) =>
+    `w-full text-left p-4 rounded-lg border transition-colors ${
+      selected
+        ? "border-primary-500 bg-primary-50 ring-2 ring-primary-500"
+        : "border-gray-200 hover:border-primary-300"
+    }`;
+
+  const renderServiceStep = () => (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {services.map((item) => {
+          const position = serviceIds.indexOf(item.id);
+          return (
+            <button
+              key={item.id}
+              type="button"
+              onClick={() => toggleService(item.id)}
+              className={optionClass(position !== -1)}
+            >
+              <p className="font-medium text-gray-900 flex items-center justify-between">
+                <span>{item.name}</span>
+                {position !== -1 && (
+                  <span className="w-6 h-6 rounded-full bg-primary-600 text-white text-xs flex items-center justify-center">
+                    {position + 1}
+                  </span>
+                )}
+              </p>
+              <p className="text-sm text-gray-600">
+                {item.duration} min · {formatMoney(item.price)}
+              </p>
+            </button>
+          );
+        })}
+      </div>
+
+      {chosen.length > 1 && (
+        <div className="bg-gray-50 p-4 rounded-lg space-y-2 text-sm">
+          <p className="font-medium text-gray-900">Order of the visit</p>
+          {chosen.map((item, index) => (
+            <div key={item.id} className="flex items-center justify-between">
+              <span>
+                {index + 1}. {item.name}
+              </span>
+              {index > 0 && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => moveServiceUp(index)}
+                  aria-label={`Move ${item.name} earlier`}
+                >
+                  <ArrowUp className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {chosen.length > 0 && (
+        <p className="text-sm text-gray-700">
+          {totalDuration} min · {formatMoney(totalPrice)}
+        </p>
+      )}
+    </div>
+  );
+
+  const renderStylistStep = () => (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <button
+          type="button"
+          onClick={() => chooseStylist(ANY_STYLIST)}
+          className={optionClass(stylistId === ANY_STYLIST)}
+        >
+          <p className="font-medium text-gray-900 flex items-center">
+            <Users className="w-4 h-4 mr-2" />
+            Any available stylist
+          </p>
+          <p className="text-sm text-gray-600">
+            Shows every time at least one stylist is free
+          </p>
+        </button>
+        {bookable.map((item) => (
+          <button
+            key={item.id}
+            type="button"
+            onClick={() => chooseStylist(item.id)}
+            className={optionClass(item.id === stylistId)}
+          >
+            <p className="font-medium text-gray-900">{item.user.fullName}</p>
+            {item.specialties && item.specialties.length > 0 && (
+              <p className="text-sm text-gray-600 truncate">
+                {item.specialties.join(", ")}
+              </p>
+            )}
+          </button>
+        ))}
+      </div>
+
+      {chosen.length > 1 && (
+        <div className="bg-gray-50 p-4 rounded-lg space-y-2 text-sm">
+          <p className="font-medium text-gray-900">Stylist for each service</p>
+          {chosen.map((item) => (
+            <label
+              key={item.id}
+              className="flex items-center justify-between gap-3"
+            >
+              <span>{item.name}</span>
+              <select
+                value={lineStylistIds[item.id] ?? ""}
+                onChange={(e) => chooseLineStylist(item.id, e.target.value)}
+                className="px-3 py-1.5 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+              >
+                <option value="">Same as the visit</option>
+                {bookable.map((stylist) => (
+                  <option key={stylist.id} value={stylist.id}>
+                    {stylist.user.fullName}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
+  const renderTimeStep = () => (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Date
+        </label>
+        <input
+          type="date"
+          value={date}
+          min={todayInShop()}
+          onChange={(e) => chooseDate(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+          required
+        />
+      </div>
+
+      {availabilityQuery.isLoading ? (
+        <p className="text-sm text-gray-500">Checking availability...</p>
+      ) : availabilityQuery.error ? (
+        <p className="text-sm text-red-600">
+          {availabilityQuery.error instanceof Error
+            ? availabilityQuery.error.message
+            : "Failed to load availability"}
+        </p>
+      ) : slots.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Nobody is working on {formatShopDate(date)}. Try another day.
+        </p>
+      ) : (
+        <div className="grid grid-cols-3 md:grid-cols-5 gap-2">
+          {slots.map((option) => {
+            const selected = slot?.startTime === option.startTime;
+            return (
+              <button
+                key={option.startTime}
+                type="button"
+                disabled={!!option.reason || assigning}
+                onClick={() => chooseSlot(option)}
+                title={option.reason}
+                className={`px-2 py-2 rounded-md border text-sm ${
+                  option.reason
+                    ? "border-gray-200 bg-gray-50 text-gray-400 cursor-not-allowed"
+                    : selected
+                      ? "border-primary-500 bg-primary-600 text-white"
+                      : "border-gray-300 text-gray-900 hover:border-primary-400"
+                }`}
+              >
+                <span className="block font-medium">
+                  {formatShopTime(option.startTime)}
+                </span>
+                <span className="block text-xs">
+                  {option.reason ?? `until ${formatShopTime(option.endTime)}`}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {slotError && <p className="text-sm text-red-600">{slotError}</p>}
+    </div>
+  );
+
+  const renderCustomerStep = () => (
+    <div className="space-y-4">
+      <div className="relative">
+        <Search className="w-5 h-5 absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search by name, email or phone..."
+          className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+          autoFocus
+        />
+      </div>
+
+      {trimmedSearch.length < 2 ? (
+        <p className="text-sm text-gray-500">
+          Type at least two characters to find a customer.
+        </p>
+      ) : customersQuery.isLoading ? (
+        <p className="text-sm text-gray-500">Searching...</p>
+      ) : customersQuery.error ? (
+        // Not "no customers": they may exist, and a new one would duplicate
+        <div className="flex items-center justify-between text-sm text-red-600">
+          <span>
+            {customersQuery.error instanceof Error
+              ? customersQuery.error.message
+              : "Failed to search customers"}
+          </span>
+          <Button
+            type="button"
+            variant="secondary"
+            size="sm"
+            onClick={() => customersQuery.refetch().catch(() => undefined)}
+          >
+            Try Again
+          </Button>
+        </div>
+      ) : customers.length === 0 ? (
+        <p className="text-sm text-gray-500">No customers found.</p>
+      ) : (
+        <div className="space-y-2">
+          {customers.map((item) => (
+            <button
+              key={item.id}
+              type="button"
+              onClick={() => setCustomer(item)}
+              className={optionClass(item.id === customer?.id)}
+            >
+              <p className="font-medium text-gray-900">{item.name}</p>
+              <p className="text-sm text-gray-600">
+                {item.phone} · {item.email}
+              </p>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {customer && (
+        <p className="text-sm text-gray-700 flex items-center">
+          <Check className="w-4 h-4 mr-2 text-green-600" />
+          Booking for {customer.name}
+        </p>
+      )}
+    </div>
+  );
+
+  const renderConfirmStep = () =>
+    chosen.length > 0 &&
+    slot &&
+    customer && (
+      <div className="space-y-4">
+        <div className="bg-gray-50 p-4 rounded-lg space-y-3 text-sm">
+          {chosen.map((item, index) => (
+            <p key={item.id} className="flex items-center">
+              <Scissors className="w-4 h-4 mr-2 text-gray-500" />
+              {formatShopTime(slotStarts[index])} {item.name} ·{" "}
+              {item.duration} min · {formatMoney(item.price)}
+              {lineStylist(item.id) &&
+                ` · ${lineStylist(item.id)?.user.fullName}`}
+            </p>
+          ))}
+          <p className="flex items-center">
+            <User className="w-4 h-4 mr-2 text-gray-500" />
+            {assignedStylist?.user.fullName}
+            {stylistId === ANY_STYLIST && " (first available)"}
+          </p>
+          <p className="flex items-center">
+            <Calendar className="w-4 h-4 mr-2 text-gray-500" />
+            {formatShopDate(date, {
+              weekday: "long",
+              year: "numeric",
+              month: "long",
+              day: "numeric",
+            })}
+          </p>
+          <p className="flex items-center">
+            <Clock className="w-4 h-4 mr-2 text-gray-500" />
+            {formatShopTime(slot.startTime)} – {formatShopTime(slot.endTime)}
+          </p>
+          <p className="flex items-center">
+            <Users className="w-4 h-4 mr-2 text-gray-500" />
+            {customer.name} · {customer.phone}
+          </p>
+          <p className="font-semibold text-gray-900">
+            Total {formatMoney(totalPrice)}
+          </p>
+        </div>
+
+        <div className="space-y-3">
+          <label className="block text-sm font-medium text-gray-700 flex items-center">
+            <Repeat className="w-4 h-4 mr-2 text-gray-500" />
+            Repeat
+          </label>
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <select
+              value={repeat}
+              onChange={(e) => setRepeat(e.target.value as typeof repeat)}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+            >
+              <option value="none">Does not repeat</option>
+              <option value="weekly">Weekly</option>
+              <option value="monthly">Monthly</option>
+            </select>
+            {rule && (
+              <>
+                <span className="text-gray-600">every</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={12}
+                  value={every}
+                  onChange={(e) =>
+                    setEvery(Math.max(1, Number(e.target.value)))
+                  }
+                  className="w-16 px-2 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  aria-label="Repeat interval"
+                />
+                <span className="text-gray-600">
+                  {repeat === "weekly" ? "week(s)" : "month(s)"}, ending
+                </span>
+                <select
+                  value={ends}
+                  onChange={(e) => setEnds(e.target.value as typeof ends)}
+                  className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+                >
+                  <option value="count">after</option>
+                  <option value="until">on</option>
+                </select>
+                {ends === "count" ? (
+                  <>
+                    <input
+                      type="number"
+                      min={2}
+                      max={MAX_OCCURRENCES}
+                      value={count}
+                      onChange={(e) =>
+                        setCount(
+                          Math.min(
+                            MAX_OCCURRENCES,
+                            Math.max(2, Number(e.target.value)),
+                          ),
+                        )
+                      }
+                      className="w-16 px-2 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+                      aria-label="Number of visits"
+                    />
+                    <span className="text-gray-600">visits</span>
+                  </>
+                ) : (
+                  <input
+                    type="date"
+                    value={until}
+                    min={date}
+                    onChange={(e) => setUntil(e.target.value)}
+                    className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    aria-label="Last date"
+                  />
+                )}
+              </>
+            )}
+          </div>
+
+          {rule && ruleReady && (
+            <div className="border border-gray-200 rounded-lg p-3 text-sm">
+              <p className="font-medium text-gray-900 mb-2">
+                {describeRecurrence(rule, date)}
+              </p>
+              {seriesQuery.isLoading ? (
+                <p className="text-gray-500">Checking each date...</p>
+              ) : seriesQuery.error ? (
+                <p className="text-red-600">
+                  {seriesQuery.error instanceof Error
+                    ? seriesQuery.error.message
+                    : "Failed to check the dates"}
+                </p>
+              ) : (
+                <>
+                  <ul className="grid grid-cols-2 md:grid-cols-3 gap-1 max-h-40 overflow-y-auto">
+                    {occurrences.map((item) => (
+                      <li
+                        key={item.date}
+                        className={`flex items-center ${
+                          item.available
+                            ? "text-gray-700"
+                            : "text-gray-400 line-through"
+                        }`}
+                      >
+                        {item.available ? (
+                          <Check className="w-3 h-3 mr-1 text-green-600" />
+                        ) : (
+                          <AlertCircle className="w-3 h-3 mr-1 text-red-500" />
+                        )}
+                        {formatShopDate(item.date)}
+                      </li>
+                    ))}
+                  </ul>
+                  <p className="text-gray-600 mt-2">
+                    {freeCount} of {occurrences.length} visits will be booked
+                    {freeCount < occurrences.length &&
+                      "; taken dates are skipped"}
+                    .
+                  </p>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Notes
+          </label>
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+            rows={3}
+            placeholder="Any special requests or notes..."
+          />
+        </div>
+      </div>
+    );
+
+  const renderStep = [
+    renderServiceStep,
+    renderStylistStep,
+    renderTimeStep,
+    renderCustomerStep,
+    renderConfirmStep,
+  ][step];
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Create New Booking"
+      size="xl"
+    >
+      <form onSubmit={handleSubmit} className="space-y-6">
+        {/* Steps */}
+        <ol className="flex items-center space-x-2 text-sm">
+          {STEPS.map((label, index) => (
+            <li key={label} className="flex items-center space-x-2">
+              <span
+                className={`w-6 h-6 rounded-full flex items-center justify-center text-xs font-medium ${
+                  index < step
+                    ? "bg-green-600 text-white"
+                    : index === step
+                      ? "bg-primary-600 text-white"
+                      : "bg-gray-200 text-gray-600"
+                }`}
+              >
+                {index < step ? <Check className="w-3 h-3" /> : index + 1}
+              </span>
+              <span
+                className={
+                  index === step ? "font-medium text-gray-900" : "text-gray-500"
+                }
+              >
+                {label}
+              </span>
+              {index < STEPS.length - 1 && (
+                <ChevronRight className="w-4 h-4 text-gray-300" />
+              )}
+            </li>
+          ))}
+        </ol>
+
+        {renderStep()}
+
+        {error && (
+          <div className="text-red-600 text-sm bg-red-50 border border-red-200 rounded-md p-3 flex items-center">
+            <AlertCircle className="w-4 h-4 mr-2" />
+            {error}
+          </div>
+        )}
+
+        <div className="flex justify-between pt-4 border-t border-gray-200">
+          <Button
+            type="button"
+            variant="secondary"
+            onClick={() => (step === 0 ? onClose() : setStep(step - 1))}
+          >
+            {step === 0 ? (
+              "Cancel"
+            ) : (
+              <>
+                <ChevronLeft className="w-4 h-4 mr-1" />
+                Back
+              </>
+            )}
+          </Button>
+          <Button
+            type="submit"
+            loading={step === STEPS.length - 1 && loading}
+            disabled={!canContinue}
+          >
+            {step === STEPS.length - 1 ? (
+              rule ? "Create Series" : "Create Booking"
+            ) : (
+              <>
+                Next
+                <ChevronRight className="w-4 h-4 ml-1" />
+              </>
+            )}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default BookingWizardModal;
@@ -0,0 +1,90 @@
+import React from "react";
+import { Repeat } from "lucide-react";
+import Modal from "../ui/Modal";
+import Button from "../ui/Button";
+import type { SeriesScope } from "../../services/bookingService";
+
+const SCOPES: { value: SeriesScope; label: string }[] = [
+  { value: "this", label: "This visit" },
+  { value: "following", label: "This and following visits" },
+  { value: "all", label: "All visits" },
+];
+
+interface SeriesScopeModalProps {
+  isOpen: boolean;
+  action: "reschedule" | "cancel";
+  onClose: () => void;
+  onConfirm: (scope: SeriesScope) => void;
+  loading?: boolean;
+}
+
+// Asks which visits of a recurring booking a change applies to
+const SeriesScopeModal: React.FC<SeriesScopeModalProps> = ({
+  isOpen,
+  action,
+  onClose,
+  onConfirm,
+  loading = false,
+}) => {
+  const [scope, setScope] = React.useState<SeriesScope>("this");
+
+  React.useEffect(() => {
+    if (isOpen) setScope("this");
+  }, [isOpen]);
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={
+        action === "reschedule"
+          ? "Reschedule recurring booking"
+          : "Cancel recurring booking"
+      }
+      size="sm"
+    >
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600 flex items-center">
+          <Repeat className="w-4 h-4 mr-2 text-gray-500" />
+          This booking is part of a series. Which visits should be{" "}
+          {action === "reschedule" ? "moved" : "cancelled"}?
+        </p>
+
+        <div className="space-y-2">
+          {SCOPES.map((item) => (
+            <label
+              key={item.value}
+              className="flex items-center space-x-2 text-sm text-gray-700"
+            >
+              <input
+                type="radio"
+                name="series-scope"
+                value={item.value}
+                checked={scope === item.value}
+                onChange={() => setScope(item.value)}
+                className="text-primary-600 focus:ring-primary-500"
+              />
+              <span>{item.label}</span>
+            </label>
+          ))}
+        </div>
+
+        <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
+          <Button type="button" variant="secondary" onClick={onClose}>
+            Back
+          </Button>
+          <Button
+            type="button"
+            variant={action === "cancel" ? "danger" : "primary"}
+            loading={loading}
+            onClick={() => onConfirm(scope)}
+          >
+            {action === "reschedule" ? "Reschedule" : "Cancel Visits"}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default SeriesScopeModal;
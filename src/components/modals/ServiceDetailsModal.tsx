@@ -17,6 +17,7 @@ import {
 import Modal from "../ui/Modal";
 import Button from "../ui/Button";
 import type { Service } from "../../types";
+import { formatMoney } from "../../utils/money";
 
 interface ServiceDetailsModalProps {
   isOpen: boolean;
@@ -53,14 +54,6 @@ const ServiceDetailsModal: React.FC<ServiceDetailsModalProps> = ({
     package: { label: "Package Deal", icon: "📦" },
   };
 
-  const formatCurrency = (amount: string | number) => {
-    return new Intl.NumberFormat("id-ID", {
-      style: "currency",
-      currency: "IDR",
-      minimumFractionDigits: 0,
-    }).format(typeof amount === "string" ? parseFloat(amount) : amount);
-  };
-
   const formatDuration = (minutes: number) => {
     if (minutes < 60) {
       return `${minutes} minutes`;
@@ -126,7 +119,7 @@ const ServiceDetailsModal: React.FC<ServiceDetailsModalProps> = ({
                 <div className="flex items-center space-x-2">
                   <DollarSign className="w-5 h-5 text-green-600" />
                   <span className="text-xl font-semibold text-green-700">
-                    {formatCurrency(service.price)}
+                    {formatMoney(service.price)}
                   </span>
                 </div>
                 <div className="flex items-center space-x-2">
@@ -288,7 +281,7 @@ const ServiceDetailsModal: React.FC<ServiceDetailsModalProps> = ({
             </div>
             <div className="text-center">
               <div className="text-2xl font-bold text-green-600">
-                {formatCurrency(service.price)}
+                {formatMoney(service.price)}
               </div>
               <div className="text-xs text-gray-600">Price</div>
             </div>
@@ -17,7 +17,9 @@ import {
 } from "lucide-react";
 import Modal from "../ui/Modal";
 import Button from "../ui/Button";
+import FieldError from "../ui/FieldError";
 import type { Service } from "../../types";
+import type { FieldErrors } from "../../services/errors";
 
 export interface ServiceFormData {
   name: string;
@@ -40,6 +42,8 @@ interface ServiceFormModalProps {
   service?: Service | null;
   loading?: boolean;
   error?: string | null;
+  // Per-field messages from the server, keyed by ServiceFormData field
+  fieldErrors?: FieldErrors;
 }
 
 const ServiceFormModal: React.FC<ServiceFormModalProps> = ({
@@ -49,6 +53,7 @@ const ServiceFormModal: React.FC<ServiceFormModalProps> = ({
   service,
   loading = false,
   error = null,
+  fieldErrors = {},
 }) => {
   const isEdit = !!service;
   const [formData, setFormData] = React.useState<ServiceFormData>({
@@ -94,7 +99,7 @@ const ServiceFormModal: React.FC<ServiceFormModalProps> = ({
         setFormData({
           name: service.name,
           description: service.description,
-          price: parseFloat(service.price),
+          price: service.price,
           duration: service.duration,
           category: service.category,
           isActive: service.isActive,
@@ -206,10 +211,12 @@ const ServiceFormModal: React.FC<ServiceFormModalProps> = ({
                 onChange={(e) =>
                   setFormData({ ...formData, name: e.target.value })
                 }
-                className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-all duration-200"
+                className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-all duration-200 aria-[invalid=true]:border-red-500"
+                aria-invalid={!!fieldErrors.name}
                 required
                 placeholder="e.g., Classic Haircut"
               />
+              <FieldError message={fieldErrors.name} />
             </div>
 
             <div>
@@ -222,7 +229,8 @@ const ServiceFormModal: React.FC<ServiceFormModalProps> = ({
                 onChange={(e) =>
                   setFormData({ ...formData, category: e.target.value })
                 }
-                className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-all duration-200 appearance-none bg-white"
+                className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-all duration-200 aria-[invalid=true]:border-red-500 appearance-none bg-white"
+                aria-invalid={!!fieldErrors.category}
                 required
               >
                 {categories.map((category) => (
@@ -231,6 +239,7 @@ const ServiceFormModal: React.FC<ServiceFormModalProps> = ({
                   </option>
                 ))}
               </select>
+              <FieldError message={fieldErrors.category} />
             </div>
 
             <div>
@@ -248,7 +257,8 @@ const ServiceFormModal: React.FC<ServiceFormModalProps> = ({
                       price: parseFloat(e.target.value) || 0,
                     })
                   }
-                  className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-all duration-200 pl-12"
+                  className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-all duration-200 aria-[invalid=true]:border-red-500 pl-12"
+                  aria-invalid={!!fieldErrors.price}
                   required
                   min="0"
                   step="1000"
@@ -258,6 +268,7 @@ const ServiceFormModal: React.FC<ServiceFormModalProps> = ({
                   Rp
                 </div>
               </div>
+              <FieldError message={fieldErrors.price} />
             </div>
 
             <div>
@@ -274,12 +285,14 @@ const ServiceFormModal: React.FC<ServiceFormModalProps> = ({
                     duration: parseInt(e.target.value) || 30,
                   })
                 }
-                className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-all duration-200"
+                className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-all duration-200 aria-[invalid=true]:border-red-500"
+                aria-invalid={!!fieldErrors.duration}
                 required
                 min="15"
                 step="15"
                 placeholder="30"
               />
+              <FieldError message={fieldErrors.duration} />
             </div>
           </div>
         </div>
@@ -298,11 +311,13 @@ const ServiceFormModal: React.FC<ServiceFormModalProps> = ({
             onChange={(e) =>
               setFormData({ ...formData, description: e.target.value })
             }
-            className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-all duration-200 resize-none"
+            className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-all duration-200 aria-[invalid=true]:border-red-500 resize-none"
+            aria-invalid={!!fieldErrors.description}
             rows={4}
             required
             placeholder="Describe what this service includes, techniques used, and what customers can expect..."
           />
+          <FieldError message={fieldErrors.description} />
         </div>
 
         {/* Tags Section */}
@@ -1,5 +1,7 @@
 export { default as ServiceFormModal } from './ServiceFormModal';
 export { default as ServiceDetailsModal } from './ServiceDetailsModal';
+export { default as BookingWizardModal } from './BookingWizardModal';
+export { default as SeriesScopeModal } from './SeriesScopeModal';
 
 // Export types
 export type { ServiceFormData } from './ServiceFormModal';
@@ -0,0 +1,14 @@
+import React from "react";
+
+interface FieldErrorProps {
+  message?: string;
+}
+
+// Message under a form input, e.g. a field the backend rejected
+const FieldError: React.FC<FieldErrorProps> = ({ message }) => {
+  if (!message) return null;
+
+  return <p className="mt-2 text-sm text-red-600">{message}</p>;
+};
+
+export default FieldError;
@@ -0,0 +1,80 @@
+import React from 'react';
+import { Clock, LogOut } from 'lucide-react';
+import Modal from './Modal';
+import Button from './Button';
+
+interface IdleTimeoutModalProps {
+  isOpen: boolean;
+  remainingMs: number;
+  onStayActive: () => void;
+  onLogout: () => void;
+}
+
+const formatCountdown = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+const IdleTimeoutModal: React.FC<IdleTimeoutModalProps> = ({
+  isOpen,
+  remainingMs,
+  onStayActive,
+  onLogout,
+}) => {
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onStayActive}
+      size="md"
+      closeOnBackdrop={false}
+      className="sm:max-w-md"
+    >
+      <Modal.Header onClose={onStayActive}>
+        <h3 className="text-lg font-medium text-gray-900">
+          Are you still there?
+        </h3>
+      </Modal.Header>
+
+      <Modal.Body className="px-6 py-4">
+        <div className="text-center">
+          <div className="mx-auto flex items-center justify-center h-12 w-12 rounded-full bg-yellow-100 mb-4">
+            <Clock className="h-6 w-6 text-yellow-600" />
+          </div>
+          <p className="text-sm text-gray-600 mb-2">
+            You have been inactive for a while. For security, you will be
+            signed out in
+          </p>
+          <p className="text-3xl font-bold text-gray-900 tabular-nums" aria-live="polite">
+            {formatCountdown(remainingMs)}
+          </p>
+        </div>
+      </Modal.Body>
+
+      <Modal.Footer>
+        <div className="flex space-x-3 w-full">
+          <Button
+            type="button"
+            variant="ghost"
+            onClick={onLogout}
+            className="flex-1"
+            icon={<LogOut className="w-4 h-4" />}
+          >
+            Sign out now
+          </Button>
+          <Button
+            type="button"
+            variant="primary"
+            onClick={onStayActive}
+            className="flex-1"
+          >
+            Stay signed in
+          </Button>
+        </div>
+      </Modal.Footer>
+    </Modal>
+  );
+};
+
+export default IdleTimeoutModal;
@@ -0,0 +1,2 @@
+// Read by the login page to explain why the session ended
+export const LOGOUT_REASON_STORAGE_KEY = "logoutReason";
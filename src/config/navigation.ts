@@ -0,0 +1,153 @@
+import {
+  LayoutDashboard,
+  Users,
+  Scissors,
+  Calendar,
+  CreditCard,
+  Star,
+  Gift,
+  BarChart3,
+  Settings,
+} from "lucide-react";
+import type { LucideIcon } from "lucide-react";
+import type { PermissionKey } from "./permissions";
+
+export type DashboardRouteKey =
+  | "dashboard"
+  | "stylists"
+  | "services"
+  | "bookings"
+  | "payments"
+  | "reviews"
+  | "customers"
+  | "promos"
+  | "analytics"
+  | "settings";
+
+export interface DashboardRoute {
+  key: DashboardRouteKey;
+  // Canonical path, used for links
+  path: string;
+  // Older paths that render the same screen
+  aliases?: string[];
+  title: string;
+  icon: LucideIcon;
+  permission: PermissionKey;
+  showInSidebar: boolean;
+}
+
+export const DASHBOARD_PATH = "/dashboard";
+
+// Outside the dashboard layout so users required to enrol can reach it
+export const TWO_FACTOR_SETUP_PATH = "/account/two-factor";
+
+export const dashboardRoutes: DashboardRoute[] = [
+  {
+    key: "dashboard",
+    path: DASHBOARD_PATH,
+    title: "Dashboard",
+    icon: LayoutDashboard,
+    permission: "dashboard:view",
+    showInSidebar: true,
+  },
+  {
+    key: "stylists",
+    path: "/dashboard/management/stylists",
+    aliases: ["/dashboard/stylists"],
+    title: "Manajemen Stylist",
+    icon: Users,
+    permission: "stylist:view",
+    showInSidebar: true,
+  },
+  {
+    key: "services",
+    path: "/dashboard/management/services",
+    aliases: ["/dashboard/services"],
+    title: "Manajemen Layanan",
+    icon: Scissors,
+    permission: "service:view",
+    showInSidebar: true,
+  },
+  {
+    key: "bookings",
+    path: "/dashboard/management/bookings",
+    aliases: ["/dashboard/bookings"],
+    title: "Manajemen Booking",
+    icon: Calendar,
+    permission: "booking:view",
+    showInSidebar: true,
+  },
+  {
+    key: "payments",
+    path: "/dashboard/payments",
+    title: "Pembayaran",
+    icon: CreditCard,
+    permission: "payment:view",
+    showInSidebar: true,
+  },
+  {
+    key: "reviews",
+    path: "/dashboard/reviews",
+    title: "Ulasan & Rating",
+    icon: Star,
+    permission: "review:view",
+    showInSidebar: true,
+  },
+  {
+    key: "customers",
+    path: "/dashboard/customers",
+    title: "Pelanggan",
+    icon: Users,
+    permission: "customer:view",
+    showInSidebar: true,
+  },
+  {
+    key: "promos",
+    path: "/dashboard/promos",
+    title: "Promo & Loyalty",
+    icon: Gift,
+    permission: "promo:view",
+    showInSidebar: true,
+  },
+  {
+    key: "analytics",
+    path: "/dashboard/analytics",
+    title: "Laporan & Analitik",
+    icon: BarChart3,
+    permission: "report:view_all",
+    showInSidebar: true,
+  },
+  {
+    key: "settings",
+    path: "/dashboard/settings",
+    title: "Pengaturan",
+    icon: Settings,
+    permission: "settings:view",
+    showInSidebar: true,
+  },
+];
+
+export const getDashboardRoute = (
+  key: DashboardRouteKey,
+): DashboardRoute | undefined => {
+  return dashboardRoutes.find((route) => route.key === key);
+};
+
+// Match a pathname against canonical paths and aliases
+export const findDashboardRoute = (
+  pathname: string,
+): DashboardRoute | undefined => {
+  const normalized = pathname.replace(/\/+$/, "") || "/";
+  return dashboardRoutes.find(
+    (route) =>
+      route.path === normalized || route.aliases?.includes(normalized),
+  );
+};
+
+export const getSidebarRoutes = (
+  can: (permission: PermissionKey) => boolean,
+): DashboardRoute[] => {
+  return dashboardRoutes.filter(
+    (route) => route.showInSidebar && can(route.permission),
+  );
+};
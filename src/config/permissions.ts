@@ -0,0 +1,117 @@
+import { UserRole } from "../types";
+
+// Every permission the UI checks, as "resource:action"
+export const PERMISSION_KEYS = [
+  "dashboard:view",
+  "user:manage",
+  "user:impersonate",
+  "stylist:view",
+  "stylist:manage",
+  "stylist:delete",
+  "service:view",
+  "service:manage",
+  "service:delete",
+  "booking:view",
+  "booking:view_all",
+  "booking:create",
+  "booking:update",
+  "booking:cancel",
+  "booking:delete",
+  "payment:view",
+  "payment:process",
+  "payment:refund",
+  "payment:export",
+  "payment:receipt",
+  "review:view",
+  "review:moderate",
+  "customer:view",
+  "customer:manage",
+  "promo:view",
+  "promo:manage",
+  "report:view",
+  "report:view_all",
+  "report:financial",
+  "settings:view",
+  "settings:manage",
+] as const;
+
+export type PermissionKey = (typeof PERMISSION_KEYS)[number];
+
+export type PermissionResource = PermissionKey extends `${infer R}:${string}`
+  ? R
+  : never;
+
+// A grant is a permission key, or uses "*" for any action/resource,
+// e.g. "booking:*" or "*:*". Grants from the backend are plain strings.
+export type PermissionGrant = PermissionKey | `${PermissionResource}:*` | "*:*";
+
+// Built-in matrix used until (or unless) the backend supplies one
+export const DEFAULT_ROLE_PERMISSIONS: Record<UserRole, PermissionGrant[]> = {
+  [UserRole.ADMIN]: ["*:*"],
+  [UserRole.MANAGER]: [
+    "dashboard:view",
+    "user:manage",
+    "stylist:view",
+    "stylist:manage",
+    "service:view",
+    "service:manage",
+    "booking:*",
+    "payment:*",
+    "review:*",
+    "customer:*",
+    "promo:*",
+    "report:*",
+    "settings:view",
+  ],
+  [UserRole.STYLIST]: [
+    "dashboard:view",
+    "booking:view",
+    "booking:update",
+    "report:view",
+  ],
+  // Front desk: appointments and the customer book
+  [UserRole.RECEPTIONIST]: [
+    "dashboard:view",
+    "booking:view",
+    "booking:view_all",
+    "booking:create",
+    "booking:update",
+    "booking:cancel",
+    "customer:view",
+    "customer:manage",
+  ],
+  // Till: taking payments and issuing receipts
+  [UserRole.CASHIER]: [
+    "dashboard:view",
+    "payment:view",
+    "payment:process",
+    "payment:receipt",
+  ],
+  [UserRole.CUSTOMER]: [],
+};
+
+export const getDefaultPermissions = (
+  role: UserRole | string | undefined,
+): string[] => {
+  if (!role) return [];
+  return DEFAULT_ROLE_PERMISSIONS[role as UserRole] || [];
+};
+
+const grantMatches = (grant: string, permission: PermissionKey): boolean => {
+  if (grant === permission || grant === "*:*") return true;
+
+  const [grantResource, grantAction] = grant.split(":");
+  const [resource, action] = permission.split(":");
+
+  return (
+    (grantResource === "*" || grantResource === resource) &&
+    (grantAction === "*" || grantAction === action)
+  );
+};
+
+export const hasPermission = (
+  grants: readonly string[],
+  permission: PermissionKey,
+): boolean => {
+  return grants.some((grant) => grantMatches(grant, permission));
+};
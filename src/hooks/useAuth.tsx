@@ -2,11 +2,35 @@ import React, {
   useState,
   useEffect,
   useCallback,
+  useMemo,
   createContext,
   useContext,
 } from "react";
-import { authService } from "../services/authService";
-import type { User, LoginForm, UserRole } from "../types";
+import { authService, isTwoFactorChallenge } from "../services/authService";
+import type { TwoFactorChallenge } from "../services/authService";
+import { permissionService } from "../services/permissionService";
+import { useIdleTimeout } from "./useIdleTimeout";
+import IdleTimeoutModal from "../components/ui/IdleTimeoutModal";
+import { UserRole } from "../types";
+import type { User, LoginForm } from "../types";
+import { getDashboardRoute } from "../config/navigation";
+import type { DashboardRouteKey } from "../config/navigation";
+import { getDefaultPermissions, hasPermission } from "../config/permissions";
+import type { PermissionKey } from "../config/permissions";
+import { LOGOUT_REASON_STORAGE_KEY } from "../config/auth";
+
+// Inactivity allowed before automatic logout; shorter for powerful roles
+const DEFAULT_IDLE_TIMEOUTS: Record<UserRole, number> = {
+  [UserRole.ADMIN]: 10 * 60 * 1000,
+  [UserRole.MANAGER]: 15 * 60 * 1000,
+  [UserRole.STYLIST]: 30 * 60 * 1000,
+  [UserRole.RECEPTIONIST]: 15 * 60 * 1000,
+  [UserRole.CASHIER]: 15 * 60 * 1000,
+  [UserRole.CUSTOMER]: 30 * 60 * 1000,
+};
+
+// How long the countdown warning is shown before logging out
+const IDLE_WARNING_MS = 60 * 1000;
 
 // Authentication context type
 interface AuthContextType {
@@ -15,29 +39,120 @@ interface AuthContextType {
   isAuthenticated: boolean;
   isLoading: boolean;
   error: string | null;
-  login: (credentials: LoginForm) => Promise<void>;
+  sessionExpiresAt: number | null;
+  getSessionTimeRemaining: () => number | null;
+  // Effective "resource:action" grants for the signed-in user
+  permissions: string[];
+  // The admin behind the session while impersonating, otherwise null
+  impersonator: User | null;
+  // Resolves with a challenge when the account needs a 2FA code
+  login: (credentials: LoginForm) => Promise<TwoFactorChallenge | null>;
+  verifyTwoFactor: (
+    challengeToken: string,
+    code: string,
+    remember: boolean,
+  ) => Promise<void>;
   logout: () => Promise<void>;
   refreshUser: () => Promise<void>;
   clearError: () => void;
+  startImpersonation: (userId: string) => Promise<void>;
+  stopImpersonation: () => Promise<void>;
 }
 
 // Create auth context
 const AuthContext = createContext<AuthContextType | null>(null);
 
+interface AuthProviderProps {
+  children: React.ReactNode;
+  // Per-role inactivity timeouts in milliseconds, merged over the defaults
+  idleTimeouts?: Partial<Record<UserRole, number>>;
+}
+
 // Auth provider component
-export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
+export const AuthProvider: React.FC<AuthProviderProps> = ({
   children,
+  idleTimeouts,
 }) => {
   const [user, setUser] = useState<User | null>(null);
   const [token, setToken] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [sessionExpiresAt, setSessionExpiresAt] = useState<number | null>(
+    null,
+  );
+  const [impersonator, setImpersonator] = useState<User | null>(() =>
+    authService.getImpersonator(),
+  );
+  const [remotePermissions, setRemotePermissions] = useState<{
+    userId: string;
+    permissions: string[];
+  } | null>(null);
 
   // Initialize auth state on mount
   useEffect(() => {
     initializeAuth();
   }, []);
 
+  // Follow token refreshes, expiry-driven logouts and changes from other tabs
+  useEffect(() => {
+    setSessionExpiresAt(authService.getTokenExpiry());
+    let currentUserId = authService.getUser()?.id ?? null;
+
+    return authService.subscribe((state, change) => {
+      const nextUserId = state.user?.id ?? null;
+
+      // Another tab signed in as someone else: drop data loaded for this user
+      if (
+        change.remote &&
+        change.type === "login" &&
+        currentUserId !== null &&
+        nextUserId !== currentUserId
+      ) {
+        window.location.reload();
+        return;
+      }
+
+      currentUserId = nextUserId;
+      setUser(state.user);
+      setToken(state.token);
+      setSessionExpiresAt(state.expiresAt);
+      setImpersonator(state.impersonator);
+    });
+  }, []);
+
+  // Load the configured matrix; role defaults apply until it arrives or
+  // when the backend does not provide one
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId || !authService.isAuthenticated()) return;
+
+    let cancelled = false;
+    permissionService
+      .getMyPermissions()
+      .then((permissions) => {
+        if (!cancelled) setRemotePermissions({ userId, permissions });
+      })
+      .catch((error) => {
+        console.warn("Using default role permissions:", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const permissions = useMemo((): string[] => {
+    if (!user) return [];
+    if (remotePermissions?.userId === user.id) {
+      return remotePermissions.permissions;
+    }
+    return user.permissions ?? getDefaultPermissions(user.role);
+  }, [user, remotePermissions]);
+
+  const getSessionTimeRemaining = useCallback((): number | null => {
+    return authService.getSessionTimeRemaining();
+  }, []);
+
   const initializeAuth = useCallback(async () => {
     try {
       setIsLoading(true);
@@ -96,12 +211,18 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
 
       const response = await authService.login(credentials);
 
+      if (response && isTwoFactorChallenge(response)) {
+        return response;
+      }
+
       if (response && response.user && response.token) {
         setUser(response.user);
         setToken(response.token);
       } else {
         throw new Error("Invalid login response from server");
       }
+
+      return null;
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : "Login failed";
@@ -117,6 +238,31 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
     }
   }, []);
 
+  const verifyTwoFactor = useCallback(
+    async (challengeToken: string, code: string, remember: boolean) => {
+      try {
+        setIsLoading(true);
+        setError(null);
+
+        const response = await authService.verifyTwoFactor(
+          challengeToken,
+          code,
+          remember,
+        );
+        setUser(response.user);
+        setToken(response.token);
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Verification failed";
+        setError(errorMessage);
+        throw error;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [],
+  );
+
   const logout = useCallback(async () => {
     try {
       setIsLoading(true);
@@ -167,19 +313,67 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
     setError(null);
   }, []);
 
+  // State follows through the authService subscription
+  const startImpersonation = useCallback(
+    async (userId: string) => {
+      await authService.startImpersonation(userId, permissions);
+    },
+    [permissions],
+  );
+
+  const stopImpersonation = useCallback(async () => {
+    await authService.stopImpersonation();
+  }, []);
+
+  // Idle timeout for the signed-in role; the admin's own while impersonating
+  const idleRole = impersonator?.role ?? user?.role;
+  const idleTimeoutMs = idleRole
+    ? (idleTimeouts?.[idleRole] ?? DEFAULT_IDLE_TIMEOUTS[idleRole])
+    : 0;
+
+  const handleIdleTimeout = useCallback(() => {
+    sessionStorage.setItem(LOGOUT_REASON_STORAGE_KEY, "idle");
+    // ProtectedRoute keeps the current route for after re-login
+    logout();
+  }, [logout]);
+
+  const idle = useIdleTimeout({
+    enabled: !!user && !!token && idleTimeoutMs > 0,
+    timeoutMs: idleTimeoutMs,
+    warningMs: Math.min(IDLE_WARNING_MS, idleTimeoutMs),
+    onTimeout: handleIdleTimeout,
+  });
+
   const value: AuthContextType = {
     user,
     token,
     isAuthenticated: !!user && !!token,
     isLoading,
     error,
+    sessionExpiresAt,
+    getSessionTimeRemaining,
+    permissions,
+    impersonator,
     login,
+    verifyTwoFactor,
     logout,
     refreshUser,
     clearError,
+    startImpersonation,
+    stopImpersonation,
   };
 
-  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+  return (
+    <AuthContext.Provider value={value}>
+      {children}
+      <IdleTimeoutModal
+        isOpen={idle.isWarning}
+        remainingMs={idle.remainingMs}
+        onStayActive={idle.stayActive}
+        onLogout={logout}
+      />
+    </AuthContext.Provider>
+  );
 };
 
 // Custom hook to use auth context
@@ -195,7 +389,13 @@ export const useAuth = (): AuthContextType => {
 
 // Hook for checking user permissions
 export const usePermissions = () => {
-  const { user } = useAuth();
+  const { user, permissions } = useAuth();
+
+  const can = useCallback(
+    (permission: PermissionKey): boolean =>
+      hasPermission(permissions, permission),
+    [permissions],
+  );
 
   const hasRole = useCallback(
     (role: string): boolean => {
@@ -227,61 +427,82 @@ export const usePermissions = () => {
     return hasRole(UserRole.STYLIST);
   }, [hasRole]);
 
+  const isReceptionist = useCallback((): boolean => {
+    return hasRole(UserRole.RECEPTIONIST);
+  }, [hasRole]);
+
+  const isCashier = useCallback((): boolean => {
+    return hasRole(UserRole.CASHIER);
+  }, [hasRole]);
+
   const isCustomer = useCallback((): boolean => {
     return hasRole(UserRole.CUSTOMER);
   }, [hasRole]);
 
+  const canAccessRoute = useCallback(
+    (key: DashboardRouteKey): boolean => {
+      const route = getDashboardRoute(key);
+      return !!route && can(route.permission);
+    },
+    [can],
+  );
+
   const canAccessDashboard = useCallback((): boolean => {
-    return hasAnyRole([UserRole.ADMIN, UserRole.MANAGER, UserRole.STYLIST]);
-  }, [hasAnyRole]);
+    return can("dashboard:view");
+  }, [can]);
 
   const canManageUsers = useCallback((): boolean => {
-    return hasAnyRole([UserRole.ADMIN, UserRole.MANAGER]);
-  }, [hasAnyRole]);
+    return can("user:manage");
+  }, [can]);
 
   const canManageStylists = useCallback((): boolean => {
-    return hasAnyRole([UserRole.ADMIN, UserRole.MANAGER]);
-  }, [hasAnyRole]);
+    return can("stylist:manage");
+  }, [can]);
 
   const canManageAllBookings = useCallback((): boolean => {
-    return hasAnyRole([UserRole.ADMIN, UserRole.MANAGER]);
-  }, [hasAnyRole]);
+    return can("booking:view_all");
+  }, [can]);
 
   const canManageBookings = useCallback((): boolean => {
-    return hasAnyRole([UserRole.ADMIN, UserRole.MANAGER, UserRole.STYLIST]);
-  }, [hasAnyRole]);
+    return can("booking:update");
+  }, [can]);
 
   const canManageServices = useCallback((): boolean => {
-    return hasAnyRole([UserRole.ADMIN, UserRole.MANAGER]);
-  }, [hasAnyRole]);
+    return can("service:manage");
+  }, [can]);
 
   const canManagePayments = useCallback((): boolean => {
-    return hasAnyRole([UserRole.ADMIN, UserRole.MANAGER]);
-  }, [hasAnyRole]);
+    return can("payment:process");
+  }, [can]);
 
   const canViewAllAnalytics = useCallback((): boolean => {
-    return hasAnyRole([UserRole.ADMIN, UserRole.MANAGER]);
-  }, [hasAnyRole]);
+    return can("report:view_all");
+  }, [can]);
 
   const canViewAnalytics = useCallback((): boolean => {
-    return hasAnyRole([UserRole.ADMIN, UserRole.MANAGER, UserRole.STYLIST]);
-  }, [hasAnyRole]);
+    return can("report:view");
+  }, [can]);
 
   const canManageSystemSettings = useCallback((): boolean => {
-    return hasRole(UserRole.ADMIN);
-  }, [hasRole]);
+    return can("settings:manage");
+  }, [can]);
 
   const canViewFinancialReports = useCallback((): boolean => {
-    return hasAnyRole([UserRole.ADMIN, UserRole.MANAGER]);
-  }, [hasAnyRole]);
+    return can("report:financial");
+  }, [can]);
 
   return {
+    user,
+    can,
+    canAccessRoute,
     hasRole,
     hasAnyRole,
     isAdmin,
     isManager,
     isAdminOrManager,
     isStylist,
+    isReceptionist,
+    isCashier,
     isCustomer,
     canAccessDashboard,
     canManageUsers,
@@ -333,7 +554,7 @@ export const useAuthRedirect = () => {
 
 // Hook for token management
 export const useToken = () => {
-  const { token } = useAuth();
+  const { token, sessionExpiresAt, getSessionTimeRemaining } = useAuth();
 
   const isTokenExpired = useCallback((): boolean => {
     if (!token) return true;
@@ -363,6 +584,8 @@ export const useToken = () => {
 
   return {
     token,
+    expiresAt: sessionExpiresAt,
+    getTimeRemaining: getSessionTimeRemaining,
     isTokenExpired,
     getTokenPayload,
     refreshToken,
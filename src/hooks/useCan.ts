@@ -0,0 +1,17 @@
+import { useCallback } from "react";
+import { useAuth } from "./useAuth";
+import { hasPermission } from "../config/permissions";
+import type { PermissionKey } from "../config/permissions";
+
+// Returns a checker for "resource:action" permissions, e.g.
+// can("booking:cancel")
+export const useCan = () => {
+  const { permissions } = useAuth();
+
+  return useCallback(
+    (permission: PermissionKey): boolean => {
+      return hasPermission(permissions, permission);
+    },
+    [permissions],
+  );
+};
@@ -0,0 +1,115 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+
+// Shared between tabs so activity in one tab keeps the others alive
+const LAST_ACTIVITY_STORAGE_KEY = "lastActivityAt";
+const ACTIVITY_EVENTS = [
+  "mousemove",
+  "mousedown",
+  "keydown",
+  "wheel",
+  "touchstart",
+  "scroll",
+] as const;
+// Avoid writing to storage on every mouse move
+const ACTIVITY_WRITE_INTERVAL_MS = 5 * 1000;
+const CHECK_INTERVAL_MS = 1000;
+
+interface IdleTimeoutOptions {
+  enabled: boolean;
+  timeoutMs: number;
+  warningMs: number;
+  onTimeout: () => void;
+}
+
+const readLastActivity = (): number => {
+  return Number(localStorage.getItem(LAST_ACTIVITY_STORAGE_KEY)) || Date.now();
+};
+
+// Track user input and report when the session has been idle too long
+export const useIdleTimeout = ({
+  enabled,
+  timeoutMs,
+  warningMs,
+  onTimeout,
+}: IdleTimeoutOptions) => {
+  const [isWarning, setIsWarning] = useState(false);
+  const [remainingMs, setRemainingMs] = useState(timeoutMs);
+  const lastActivityRef = useRef(Date.now());
+  const lastWriteRef = useRef(0);
+  const isWarningRef = useRef(false);
+  const onTimeoutRef = useRef(onTimeout);
+
+  useEffect(() => {
+    onTimeoutRef.current = onTimeout;
+  }, [onTimeout]);
+
+  const markActive = useCallback((force: boolean = false) => {
+    const now = Date.now();
+    lastActivityRef.current = now;
+
+    if (force || now - lastWriteRef.current > ACTIVITY_WRITE_INTERVAL_MS) {
+      lastWriteRef.current = now;
+      localStorage.setItem(LAST_ACTIVITY_STORAGE_KEY, String(now));
+    }
+  }, []);
+
+  // Explicit confirmation from the warning dialog
+  const stayActive = useCallback(() => {
+    isWarningRef.current = false;
+    setIsWarning(false);
+    markActive(true);
+  }, [markActive]);
+
+  useEffect(() => {
+    if (!enabled) {
+      isWarningRef.current = false;
+      setIsWarning(false);
+      return;
+    }
+
+    markActive(true);
+
+    const handleActivity = () => {
+      // Once warned, only the dialog button counts as activity
+      if (!isWarningRef.current) {
+        markActive();
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach((event) =>
+      window.addEventListener(event, handleActivity, { passive: true }),
+    );
+
+    // Poll rather than schedule so time spent asleep is counted
+    const interval = setInterval(() => {
+      const lastActivity = Math.max(
+        lastActivityRef.current,
+        readLastActivity(),
+      );
+      const remaining = timeoutMs - (Date.now() - lastActivity);
+
+      if (remaining <= 0) {
+        isWarningRef.current = false;
+        setIsWarning(false);
+        onTimeoutRef.current();
+        return;
+      }
+
+      const warning = remaining <= warningMs;
+      isWarningRef.current = warning;
+      setIsWarning(warning);
+      setRemainingMs(remaining);
+    }, CHECK_INTERVAL_MS);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) =>
+        window.removeEventListener(event, handleActivity),
+      );
+      clearInterval(interval);
+    };
+  }, [enabled, timeoutMs, warningMs, markActive]);
+
+  return { isWarning, remainingMs, stayActive };
+};
+
+export default useIdleTimeout;
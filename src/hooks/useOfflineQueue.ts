@@ -0,0 +1,22 @@
+import { useSyncExternalStore } from "react";
+import { healthService } from "../services/healthService";
+import { offlineQueue } from "../services/offlineQueue";
+import type { OutboxEntry } from "../services/offlineQueue";
+
+const subscribeOutbox = (onChange: () => void) =>
+  offlineQueue.subscribe(onChange);
+
+const getOutbox = () => offlineQueue.getEntries();
+
+const subscribeConnection = (onChange: () => void) =>
+  healthService.subscribe(onChange);
+
+const getIsOffline = () => healthService.isOffline();
+
+// Mutations waiting to be sent, or refused by the server on replay
+export const useOfflineQueue = (): OutboxEntry[] =>
+  useSyncExternalStore(subscribeOutbox, getOutbox);
+
+// True while the backend is known to be unreachable
+export const useIsOffline = (): boolean =>
+  useSyncExternalStore(subscribeConnection, getIsOffline);
@@ -0,0 +1,128 @@
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from "react";
+import {
+  DEFAULT_STALE_TIME_MS,
+  hashKey,
+  queryCache,
+} from "../services/queryCache";
+import type { QueryKey } from "../services/queryCache";
+
+interface UseQueryOptions {
+  enabled?: boolean;
+  // Cached data younger than this is shown without refetching
+  staleTime?: number;
+}
+
+export interface UseQueryResult<T> {
+  data: T | undefined;
+  error: unknown;
+  // True only while there is nothing cached to show yet
+  isLoading: boolean;
+  isFetching: boolean;
+  refetch: () => Promise<T>;
+}
+
+// Cached read with stale-while-revalidate: cached data renders immediately
+// and is refreshed in the background once older than staleTime
+export const useQuery = <T>(
+  key: QueryKey,
+  fetcher: () => Promise<T>,
+  { enabled = true, staleTime = DEFAULT_STALE_TIME_MS }: UseQueryOptions = {},
+): UseQueryResult<T> => {
+  const hash = hashKey(key);
+  // Callers usually build the key inline; only its contents matter
+  const stableKey = useMemo(() => JSON.parse(hash) as QueryKey, [hash]);
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+
+  const subscribe = useCallback(
+    (onChange: () => void) => queryCache.subscribe(stableKey, onChange),
+    [stableKey],
+  );
+  const state = useSyncExternalStore(subscribe, () =>
+    queryCache.getState<T>(stableKey),
+  );
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    queryCache.register(stableKey, () => fetcherRef.current(), staleTime);
+    if (queryCache.isStale(stableKey)) {
+      // Errors are exposed through state.error
+      queryCache.fetch(stableKey).catch(() => undefined);
+    }
+  }, [stableKey, enabled, staleTime]);
+
+  const refetch = useCallback(
+    () => queryCache.fetch(stableKey, () => fetcherRef.current()),
+    [stableKey],
+  );
+
+  return {
+    data: state.data,
+    error: state.error,
+    isLoading:
+      enabled && state.data === undefined && state.error === undefined,
+    isFetching: state.isFetching,
+    refetch,
+  };
+};
+
+interface UseMutationOptions<TVariables, TResult> {
+  // Query key prefixes to refresh after the mutation succeeds
+  invalidates?:
+    | QueryKey[]
+    | ((result: TResult, variables: TVariables) => QueryKey[]);
+  onSuccess?: (result: TResult, variables: TVariables) => void;
+}
+
+export interface UseMutationResult<TVariables, TResult> {
+  mutate: (variables: TVariables) => Promise<TResult>;
+  isPending: boolean;
+  error: unknown;
+  reset: () => void;
+}
+
+// Runs a write and invalidates every cached query it may have changed
+export const useMutation = <TVariables, TResult>(
+  mutationFn: (variables: TVariables) => Promise<TResult>,
+  options: UseMutationOptions<TVariables, TResult> = {},
+): UseMutationResult<TVariables, TResult> => {
+  const [isPending, setIsPending] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+  const mutationRef = useRef(mutationFn);
+  const optionsRef = useRef(options);
+  mutationRef.current = mutationFn;
+  optionsRef.current = options;
+
+  const mutate = useCallback(async (variables: TVariables) => {
+    setIsPending(true);
+    setError(null);
+    try {
+      const result = await mutationRef.current(variables);
+      const { invalidates = [], onSuccess } = optionsRef.current;
+      const keys =
+        typeof invalidates === "function"
+          ? invalidates(result, variables)
+          : invalidates;
+      keys.forEach((key) => queryCache.invalidate(key));
+      onSuccess?.(result, variables);
+      return result;
+    } catch (err) {
+      setError(err);
+      throw err;
+    } finally {
+      setIsPending(false);
+    }
+  }, []);
+
+  const reset = useCallback(() => setError(null), []);
+
+  return { mutate, isPending, error, reset };
+};
@@ -0,0 +1,12 @@
+import { useSyncExternalStore } from "react";
+import { apiService } from "../services/api";
+import type { RetryEvent } from "../services/api";
+
+const subscribe = (onChange: () => void) =>
+  apiService.subscribeRetries(onChange);
+
+const getSnapshot = () => apiService.getActiveRetries();
+
+// Requests that failed transiently and are being retried right now
+export const useRetryStatus = (): RetryEvent[] =>
+  useSyncExternalStore(subscribe, getSnapshot);
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useState, useEffect } from "react";
 import {
   Clock,
   User,
@@ -15,9 +15,19 @@ import {
 import Card from "../components/ui/Card";
 import Button from "../components/ui/Button";
 import Modal from "../components/ui/Modal";
+import { useMutation, useQuery } from "../hooks/useQuery";
 import { bookingService } from "../services/bookingService";
+import { queryKeys } from "../services/queryCache";
 import type { Booking, BookingFilters } from "../types";
 import { BookingStatus } from "../types";
+import { bookingDuration, describeServices } from "../utils/bookingLines";
+import { formatMoney } from "../utils/money";
+import {
+  formatShopDate,
+  formatShopDateTime,
+  formatShopTime,
+  todayInShop,
+} from "../utils/shopTime";
 
 export interface UpdateBookingRequest {
   stylistId?: string;
@@ -29,15 +39,8 @@ export interface UpdateBookingRequest {
 }
 
 const BookingManagement: React.FC = () => {
-  const [bookings, setBookings] = useState<Booking[]>([]);
-  const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [pagination, setPagination] = useState({
-    page: 1,
-    limit: 10,
-    total: 0,
-    totalPages: 0,
-  });
+  const [pagination, setPagination] = useState({ page: 1, limit: 10 });
   const [filters, setFilters] = useState<BookingFilters>({
     status: [],
     search: "",
@@ -50,46 +53,46 @@ const BookingManagement: React.FC = () => {
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [actionLoading, setActionLoading] = useState(false);
 
-  useEffect(() => {
-    loadBookings();
-  }, [pagination.page, filters]);
-
-  const loadBookings = useCallback(async () => {
-    try {
-      setLoading(true);
-      setError(null);
-
-      const response = await bookingService.getBookings(filters, {
+  const bookingsQuery = useQuery(
+    queryKeys.bookingList("page", filters, pagination.page, pagination.limit),
+    () =>
+      bookingService.getBookings(filters, {
         page: pagination.page,
         limit: pagination.limit,
-      });
-
-      setBookings(response.data);
-      setPagination((prev) => ({
-        ...prev,
-        total: response.meta.total,
-        totalPages: response.meta.totalPages,
-      }));
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to load bookings");
-    } finally {
-      setLoading(false);
+      }),
+  );
+  const bookings = bookingsQuery.data?.data ?? [];
+  const loading = bookingsQuery.isLoading;
+  const total = bookingsQuery.data?.meta.total ?? 0;
+  const totalPages = bookingsQuery.data?.meta.totalPages ?? 0;
+
+  useEffect(() => {
+    if (bookingsQuery.error) {
+      setError(
+        bookingsQuery.error instanceof Error
+          ? bookingsQuery.error.message
+          : "Failed to load bookings",
+      );
     }
-  }, [filters, pagination.page, pagination.limit]);
+  }, [bookingsQuery.error]);
+
+  // Every booking list, including other pages and filters, is refreshed
+  const updateStatus = useMutation(
+    ({ id, status }: { id: string; status: string }) =>
+      bookingService.updateBookingStatus(id, status),
+    { invalidates: [queryKeys.bookings] },
+  );
+  const deleteBooking = useMutation(
+    (id: string) => bookingService.deleteBooking(id),
+    { invalidates: [queryKeys.bookings] },
+  );
 
   const handleStatusChange = async (status: string) => {
     if (!selectedBooking) return;
 
     try {
       setActionLoading(true);
-      await bookingService.updateBookingStatus(selectedBooking.id, status);
-
-      // Update booking in the list
-      setBookings((prev) =>
-        prev.map((booking) =>
-          booking.id === selectedBooking.id ? { ...booking, status } : booking,
-        ),
-      );
+      await updateStatus.mutate({ id: selectedBooking.id, status });
 
       setShowStatusModal(false);
       setSelectedBooking(null);
@@ -107,12 +110,7 @@ const BookingManagement: React.FC = () => {
 
     try {
       setActionLoading(true);
-      await bookingService.deleteBooking(selectedBooking.id);
-
-      // Remove booking from the list
-      setBookings((prev) =>
-        prev.filter((booking) => booking.id !== selectedBooking.id),
-      );
+      await deleteBooking.mutate(selectedBooking.id);
 
       setShowDeleteModal(false);
       setSelectedBooking(null);
@@ -130,7 +128,7 @@ const BookingManagement: React.FC = () => {
       const a = document.createElement("a");
       a.style.display = "none";
       a.href = url;
-      a.download = `bookings-${new Date().toISOString().split("T")[0]}.csv`;
+      a.download = `bookings-${todayInShop()}.csv`;
       document.body.appendChild(a);
       a.click();
       window.URL.revokeObjectURL(url);
@@ -172,27 +170,6 @@ const BookingManagement: React.FC = () => {
     }
   };
 
-  const formatCurrency = (amount: string | number) => {
-    const num = typeof amount === "string" ? parseFloat(amount) : amount;
-    return new Intl.NumberFormat("id-ID", {
-      style: "currency",
-      currency: "IDR",
-      minimumFractionDigits: 0,
-    }).format(num);
-  };
-
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString("id-ID", {
-      year: "numeric",
-      month: "short",
-      day: "numeric",
-    });
-  };
-
-  const formatTime = (timeString: string) => {
-    return timeString.substring(0, 5);
-  };
-
   if (loading && bookings.length === 0) {
     return (
       <div className="space-y-6">
@@ -304,7 +281,7 @@ const BookingManagement: React.FC = () => {
 
           <div className="flex justify-between items-center mt-4">
             <p className="text-sm text-gray-600">
-              Menampilkan {bookings.length} dari {pagination.total} booking
+              Menampilkan {bookings.length} dari {total} booking
             </p>
             <Button
               variant="ghost"
@@ -388,24 +365,24 @@ const BookingManagement: React.FC = () => {
                   </td>
                   <td className="table-cell">
                     <div className="font-medium text-gray-900">
-                      {booking.service.name}
+                      {describeServices(booking)}
                     </div>
                     <div className="text-sm text-gray-500">
-                      {booking.service.duration} menit
+                      {bookingDuration(booking)} menit
                     </div>
                   </td>
                   <td className="table-cell">
                     <div className="font-medium text-gray-900">
-                      {formatDate(booking.bookingDate)}
+                      {formatShopDate(booking.bookingDate)}
                     </div>
                     <div className="text-sm text-gray-500">
-                      {formatTime(booking.startTime)} -{" "}
-                      {formatTime(booking.endTime)}
+                      {formatShopTime(booking.startTime)} -{" "}
+                      {formatShopTime(booking.endTime)}
                     </div>
                   </td>
                   <td className="table-cell">
                     <div className="font-medium text-gray-900">
-                      {formatCurrency(booking.totalPrice)}
+                      {formatMoney(booking.totalPrice)}
                     </div>
                   </td>
                   <td className="table-cell">
@@ -456,11 +433,11 @@ const BookingManagement: React.FC = () => {
         </div>
 
         {/* Pagination */}
-        {pagination.totalPages > 1 && (
+        {totalPages > 1 && (
           <div className="px-6 py-4 border-t border-gray-200">
             <div className="flex items-center justify-between">
               <div className="text-sm text-gray-700">
-                Halaman {pagination.page} dari {pagination.totalPages}
+                Halaman {pagination.page} dari {totalPages}
               </div>
               <div className="flex space-x-2">
                 <Button
@@ -476,7 +453,7 @@ const BookingManagement: React.FC = () => {
                 <Button
                   variant="ghost"
                   size="sm"
-                  disabled={pagination.page === pagination.totalPages}
+                  disabled={pagination.page === totalPages}
                   onClick={() =>
                     setPagination((prev) => ({ ...prev, page: prev.page + 1 }))
                   }
@@ -506,8 +483,8 @@ const BookingManagement: React.FC = () => {
                 <div className="space-y-1 text-sm text-gray-600">
                   <p>Pelanggan: {selectedBooking.customer.fullName}</p>
                   <p>Stylist: {selectedBooking.stylist.user.fullName}</p>
-                  <p>Layanan: {selectedBooking.service.name}</p>
-                  <p>Tanggal: {formatDate(selectedBooking.bookingDate)}</p>
+                  <p>Layanan: {describeServices(selectedBooking)}</p>
+                  <p>Tanggal: {formatShopDate(selectedBooking.bookingDate)}</p>
                   <p>Status Saat Ini: {selectedBooking.status}</p>
                 </div>
               </div>
@@ -608,7 +585,7 @@ const BookingManagement: React.FC = () => {
                     <div>
                       <div className="text-sm text-gray-600">Layanan</div>
                       <div className="font-medium">
-                        {selectedBooking.service.name}
+                        {describeServices(selectedBooking)}
                       </div>
                     </div>
                     <div>
@@ -620,13 +597,13 @@ const BookingManagement: React.FC = () => {
                     <div>
                       <div className="text-sm text-gray-600">Durasi</div>
                       <div className="font-medium">
-                        {selectedBooking.service.duration} menit
+                        {bookingDuration(selectedBooking)} menit
                       </div>
                     </div>
                     <div>
                       <div className="text-sm text-gray-600">Harga</div>
                       <div className="font-medium">
-                        {formatCurrency(selectedBooking.totalPrice)}
+                        {formatMoney(selectedBooking.totalPrice)}
                       </div>
                     </div>
                   </div>
@@ -643,14 +620,14 @@ const BookingManagement: React.FC = () => {
                     <div>
                       <div className="text-sm text-gray-600">Tanggal</div>
                       <div className="font-medium">
-                        {formatDate(selectedBooking.bookingDate)}
+                        {formatShopDate(selectedBooking.bookingDate)}
                       </div>
                     </div>
                     <div>
                       <div className="text-sm text-gray-600">Waktu</div>
                       <div className="font-medium">
-                        {formatTime(selectedBooking.startTime)} -{" "}
-                        {formatTime(selectedBooking.endTime)}
+                        {formatShopTime(selectedBooking.startTime)} -{" "}
+                        {formatShopTime(selectedBooking.endTime)}
                       </div>
                     </div>
                     <div>
@@ -669,9 +646,7 @@ const BookingManagement: React.FC = () => {
                     <div>
                       <div className="text-sm text-gray-600">Dibuat</div>
                       <div className="font-medium">
-                        {new Date(selectedBooking.createdAt).toLocaleDateString(
-                          "id-ID",
-                        )}
+                        {formatShopDateTime(selectedBooking.createdAt)}
                       </div>
                     </div>
                   </div>
@@ -711,7 +686,7 @@ const BookingManagement: React.FC = () => {
                       <div>
                         <div className="text-sm text-gray-600">Total</div>
                         <div className="font-medium">
-                          {formatCurrency(selectedBooking.payment.amount)}
+                          {formatMoney(selectedBooking.payment.amount)}
                         </div>
                       </div>
                       {selectedBooking.payment.paidAt && (
@@ -720,9 +695,7 @@ const BookingManagement: React.FC = () => {
                             Dibayar Pada
                           </div>
                           <div className="font-medium">
-                            {new Date(
-                              selectedBooking.payment.paidAt,
-                            ).toLocaleDateString("id-ID")}
+                            {formatShopDateTime(selectedBooking.payment.paidAt)}
                           </div>
                         </div>
                       )}
@@ -767,7 +740,7 @@ const BookingManagement: React.FC = () => {
                 </span>{" "}
                 pada tanggal{" "}
                 <span className="font-medium">
-                  {formatDate(selectedBooking.bookingDate)}
+                  {formatShopDate(selectedBooking.bookingDate)}
                 </span>
                 ?
               </p>
@@ -14,9 +14,20 @@ import {
 } from "lucide-react";
 import Card from "../components/ui/Card";
 import Button from "../components/ui/Button";
+import Can from "../components/auth/Can";
 import { dashboardService } from "../services/dashboardService";
 import { healthService } from "../services/healthService";
 import type { DashboardStats } from "../types";
+import { describeServices } from "../utils/bookingLines";
+import { formatMoney } from "../utils/money";
+import {
+  formatShopDate,
+  formatShopTime,
+  startOfMonth,
+  startOfWeek,
+  startOfYear,
+  todayInShop,
+} from "../utils/shopTime";
 
 const Dashboard: React.FC = () => {
   const navigate = useNavigate();
@@ -71,56 +82,21 @@ const Dashboard: React.FC = () => {
   }, [dateRange]);
 
   const getDateRangeFilter = (range: string) => {
-    const now = new Date();
-    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const today = todayInShop();
 
     switch (range) {
       case "today":
-        return {
-          from: today.toISOString().split("T")[0],
-          to: today.toISOString().split("T")[0],
-        };
-      case "week": {
-        const weekStart = new Date(today);
-        weekStart.setDate(today.getDate() - today.getDay());
-        return {
-          from: weekStart.toISOString().split("T")[0],
-          to: today.toISOString().split("T")[0],
-        };
-      }
-      case "month": {
-        const monthStart = new Date(today.getFullYear(), today.getMonth(), 1);
-        return {
-          from: monthStart.toISOString().split("T")[0],
-          to: today.toISOString().split("T")[0],
-        };
-      }
-      case "year": {
-        const yearStart = new Date(today.getFullYear(), 0, 1);
-        return {
-          from: yearStart.toISOString().split("T")[0],
-          to: today.toISOString().split("T")[0],
-        };
-      }
+        return { from: today, to: today };
+      case "week":
+        return { from: startOfWeek(today), to: today };
+      case "year":
+        return { from: startOfYear(today), to: today };
+      case "month":
       default:
-        return {
-          from: new Date(today.getFullYear(), today.getMonth(), 1)
-            .toISOString()
-            .split("T")[0],
-          to: today.toISOString().split("T")[0],
-        };
+        return { from: startOfMonth(today), to: today };
     }
   };
 
-  const formatCurrency = (amount: string | number) => {
-    const num = typeof amount === "string" ? parseFloat(amount) : amount;
-    return new Intl.NumberFormat("id-ID", {
-      style: "currency",
-      currency: "IDR",
-      minimumFractionDigits: 0,
-    }).format(num);
-  };
-
   const getStatusColor = (status: string) => {
     switch (status.toLowerCase()) {
       case "completed":
@@ -276,29 +252,31 @@ const Dashboard: React.FC = () => {
           </Card.Body>
         </Card>
 
-        <Card className="hover:shadow-md transition-shadow">
-          <Card.Body>
-            <div className="flex items-center justify-between">
-              <div>
-                <p className="text-sm font-medium text-gray-600">
-                  Total Pendapatan
-                </p>
-                <div className="flex items-center space-x-2">
-                  <p className="text-2xl font-bold text-gray-900">
-                    {formatCurrency(stats.totalRevenue)}
+        <Can permission="report:financial">
+          <Card className="hover:shadow-md transition-shadow">
+            <Card.Body>
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-gray-600">
+                    Total Pendapatan
                   </p>
-                  <span className="text-green-600 text-sm flex items-center">
-                    <TrendingUp className="w-4 h-4 mr-1" />
-                    15%
-                  </span>
+                  <div className="flex items-center space-x-2">
+                    <p className="text-2xl font-bold text-gray-900">
+                      {formatMoney(stats.totalRevenue)}
+                    </p>
+                    <span className="text-green-600 text-sm flex items-center">
+                      <TrendingUp className="w-4 h-4 mr-1" />
+                      15%
+                    </span>
+                  </div>
+                </div>
+                <div className="p-3 bg-yellow-100 rounded-full">
+                  <DollarSign className="w-6 h-6 text-yellow-600" />
                 </div>
               </div>
-              <div className="p-3 bg-yellow-100 rounded-full">
-                <DollarSign className="w-6 h-6 text-yellow-600" />
-              </div>
-            </div>
-          </Card.Body>
-        </Card>
+            </Card.Body>
+          </Card>
+        </Can>
 
         <Card className="hover:shadow-md transition-shadow">
           <Card.Body>
@@ -479,13 +457,12 @@ const Dashboard: React.FC = () => {
                         {booking.customer.fullName}
                       </p>
                       <p className="text-sm text-gray-500 truncate">
-                        {booking.service.name} • {booking.stylist.user.fullName}
+                        {describeServices(booking)} •{" "}
+                        {booking.stylist.user.fullName}
                       </p>
                       <p className="text-xs text-gray-400">
-                        {new Date(booking.bookingDate).toLocaleDateString(
-                          "id-ID",
-                        )}{" "}
-                        {booking.startTime}
+                        {formatShopDate(booking.bookingDate)}{" "}
+                        {formatShopTime(booking.startTime)}
                       </p>
                     </div>
                     <div className="text-right">
@@ -495,7 +472,7 @@ const Dashboard: React.FC = () => {
                         {booking.status.replace("_", " ")}
                       </span>
                       <p className="text-sm font-medium text-gray-900 mt-1">
-                        {formatCurrency(booking.totalPrice)}
+                        {formatMoney(booking.totalPrice)}
                       </p>
                     </div>
                   </div>
@@ -0,0 +1,26 @@
+import React from "react";
+import { Link } from "react-router-dom";
+import { ShieldOff } from "lucide-react";
+
+// 403 screen for signed-in users without permission for a route
+const Forbidden: React.FC = () => {
+  return (
+    <div className="flex items-center justify-center py-24">
+      <div className="text-center">
+        <ShieldOff className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+        <h1 className="text-4xl font-bold text-gray-900 mb-2">403</h1>
+        <h2 className="text-xl font-semibold text-gray-900 mb-2">
+          Akses Ditolak
+        </h2>
+        <p className="text-gray-600 mb-6">
+          Anda tidak memiliki izin untuk membuka halaman ini.
+        </p>
+        <Link to="/dashboard" className="btn btn-primary">
+          Kembali ke Dashboard
+        </Link>
+      </div>
+    </div>
+  );
+};
+
+export default Forbidden;
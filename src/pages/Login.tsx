@@ -11,10 +11,23 @@ import {
 } from "lucide-react";
 import { authService } from "../services/authService";
 import { healthService } from "../services/healthService";
+import {
+  NetworkError,
+  TimeoutError,
+  UnauthorizedError,
+} from "../services/errors";
+import {
+  FIXTURE_BACKEND_ENABLED,
+  LOGIN_REDIRECT_PARAM,
+} from "../services/api";
 import { useAuth } from "../hooks/useAuth";
+import { LOGOUT_REASON_STORAGE_KEY } from "../config/auth";
 import Button from "../components/ui/Button";
 import Card from "../components/ui/Card";
 import ForgotPasswordModal from "../components/ui/ForgotPasswordModal";
+import TwoFactorLoginForm from "../components/auth/TwoFactorLoginForm";
+import type { TwoFactorChallenge } from "../services/authService";
+import type { FixtureAccount } from "../services/fixtures/seed";
 
 interface LoginForm {
   email: string;
@@ -64,12 +77,62 @@ const Login: React.FC = () => {
   // Forgot password modal state
   const [showForgotPassword, setShowForgotPassword] = useState(false);
 
+  // Set when the password was accepted but a 2FA code is still needed
+  const [twoFactorChallenge, setTwoFactorChallenge] =
+    useState<TwoFactorChallenge | null>(null);
+
+  // Seeded logins, only loaded when the fixture backend is switched on
+  const [fixtureAccounts, setFixtureAccounts] = useState<FixtureAccount[]>(
+    [],
+  );
+
+  useEffect(() => {
+    if (!FIXTURE_BACKEND_ENABLED) return;
+    import("../services/fixtures/seed").then(({ FIXTURE_ACCOUNTS }) =>
+      setFixtureAccounts(FIXTURE_ACCOUNTS),
+    );
+  }, []);
+
+  // Shown once after an inactivity logout
+  const [idleLogout] = useState(
+    () => sessionStorage.getItem(LOGOUT_REASON_STORAGE_KEY) === "idle",
+  );
+
+  useEffect(() => {
+    sessionStorage.removeItem(LOGOUT_REASON_STORAGE_KEY);
+  }, []);
+
+  // Set by the reset-password page after a successful reset
+  const passwordReset = !!(
+    location.state as { passwordReset?: boolean } | null
+  )?.passwordReset;
+
+  // Route to return to after login: router state first, then the
+  // ?redirect= parameter set when a session expires mid-request
+  const getRedirectPath = (): string => {
+    const state = location.state as { from?: Location } | null;
+    if (state?.from?.pathname) {
+      return `${state.from.pathname}${state.from.search || ""}${state.from.hash || ""}`;
+    }
+
+    const redirect = new URLSearchParams(location.search).get(
+      LOGIN_REDIRECT_PARAM,
+    );
+    // Only allow same-origin paths
+    if (redirect && redirect.startsWith("/") && !redirect.startsWith("//")) {
+      return redirect;
+    }
+
+    return "/dashboard";
+  };
+  const redirectPath = getRedirectPath();
+
   // Check if user is already logged in
   useEffect(() => {
     if (isAuthenticated) {
-      navigate("/dashboard", { replace: true });
+      navigate(redirectPath, { replace: true });
     }
-  }, [navigate, isAuthenticated]);
+  }, [navigate, isAuthenticated, redirectPath]);
 
   // Check backend connection on mount
   useEffect(() => {
@@ -147,37 +210,26 @@ const Login: React.FC = () => {
     setErrors({});
 
     try {
-      // Always try real API first regardless of connection status
-      try {
-        await authLogin(formData);
-
-        // Get redirect path from location state or default to dashboard
-        const from = (location.state as any)?.from?.pathname || "/dashboard";
-        navigate(from, { replace: true });
-        return; // Exit early on successful real login
-      } catch (apiError) {
-        // If real API fails and backend is not connected, fall back to demo
-        if (!connectionStatus.isConnected) {
-          console.log("Real API failed, falling back to demo mode");
-          await handleMockLogin();
-          return;
-        }
-        // If backend is connected but login failed, throw the error
-        throw apiError;
+      const challenge = await authLogin(formData);
+      if (challenge) {
+        setTwoFactorChallenge(challenge);
+        return;
       }
+
+      navigate(redirectPath, { replace: true });
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : "Login failed";
 
       // Handle specific error cases
       if (
-        errorMessage.includes("Invalid credentials") ||
-        errorMessage.includes("401")
+        error instanceof UnauthorizedError ||
+        errorMessage.includes("Invalid credentials")
       ) {
         setErrors({ general: "Invalid email or password. Please try again." });
       } else if (
-        errorMessage.includes("Network Error") ||
-        errorMessage.includes("timeout")
+        error instanceof NetworkError ||
+        error instanceof TimeoutError
       ) {
         setErrors({
           general: "Network error. Please check your connection and try again.",
@@ -190,83 +242,12 @@ const Login: React.FC = () => {
     }
   };
 
-  const handleMockLogin = async () => {
-    // Validate demo credentials or allow any credentials in demo mode
-    const validDemoCredentials = [
-      { email: "admin@example.com", password: "password123" },
-      { email: "admin@rusdibarber.com", password: "Admin123!" },
-      { email: "manager@example.com", password: "manager123" },
-      { email: "stylist@example.com", password: "stylist123" },
-    ];
-
-    const isValidDemo = validDemoCredentials.some(
-      (cred) =>
-        cred.email === formData.email && cred.password === formData.password,
-    );
-
-    if (!isValidDemo) {
-      throw new Error(
-        "Invalid credentials. For demo mode, use: admin@example.com / password123",
-      );
-    }
-
-    // Simulate API delay
-    await new Promise((resolve) => setTimeout(resolve, 1000));
-
-    // Determine role based on email
-    let role = "ADMIN";
-    let fullName = "Demo Admin";
-
-    if (formData.email.includes("manager")) {
-      role = "MANAGER";
-      fullName = "Demo Manager";
-    } else if (formData.email.includes("stylist")) {
-      role = "STYLIST";
-      fullName = "Demo Stylist";
-    }
-
-    // Mock successful login
-    const mockUser = {
-      id: "1",
-      email: formData.email,
-      username: "demo_user",
-      fullName: fullName,
-      phone: "+62812345678",
-      role: role,
-      isActive: true,
-      emailVerified: true,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    };
-
-    const mockToken = "mock-jwt-token-demo-mode";
-
-    // Store in localStorage or sessionStorage based on remember preference
-    const storage = formData.remember ? localStorage : sessionStorage;
-    storage.setItem("authToken", mockToken);
-    storage.setItem("refreshToken", "mock-refresh-token");
-    localStorage.setItem("user", JSON.stringify(mockUser));
-
-    // Navigate to dashboard
-    const from = (location.state as any)?.from?.pathname || "/dashboard";
-    navigate(from, { replace: true });
-  };
-
-  const handleDemoLogin = () => {
-    setFormData({
-      email: "admin@example.com",
-      password: "password123",
-      remember: true,
-    });
-    setErrors({});
-  };
-
-  const handleRealLogin = () => {
-    setFormData({
-      email: "admin@rusdibarber.com",
-      password: "",
-      remember: false,
-    });
+  const handleUseFixtureAccount = (account: FixtureAccount) => {
+    setFormData((prev) => ({
+      ...prev,
+      email: account.email,
+      password: account.password,
+    }));
     setErrors({});
   };
 
@@ -297,147 +278,189 @@ const Login: React.FC = () => {
                   <div className="animate-spin rounded-full h-4 w-4 border-2 border-gray-300 border-t-gray-600"></div>
                   <span>Checking connection...</span>
                 </div>
+              ) : FIXTURE_BACKEND_ENABLED ? (
+                <div className="flex items-center space-x-2 text-orange-600">
+                  <AlertCircle className="w-4 h-4" />
+                  <span>Using local fixture data (VITE_MOCK_API)</span>
+                </div>
               ) : connectionStatus.isConnected ? (
                 <div className="flex items-center space-x-2 text-green-600">
                   <CheckCircle className="w-4 h-4" />
                   <span>Connected to backend</span>
                 </div>
               ) : (
-                <div className="flex items-center space-x-2 text-orange-600">
+                <div className="flex items-center space-x-2 text-red-600">
                   <AlertCircle className="w-4 h-4" />
-                  <span>Demo mode - Backend offline</span>
+                  <span>Backend offline</span>
                 </div>
               )}
             </div>
           </div>
 
-          <form className="space-y-6" onSubmit={handleSubmit}>
-            {/* General Error */}
-            {(errors.general || authError) && (
-              <div className="rounded-md bg-red-50 p-4">
-                <div className="flex">
-                  <AlertCircle className="h-5 w-5 text-red-400" />
-                  <div className="ml-3">
-                    <h3 className="text-sm font-medium text-red-800">
-                      Login Failed
-                    </h3>
-                    <p className="mt-2 text-sm text-red-700">
-                      {errors.general || authError}
+          {twoFactorChallenge ? (
+            <TwoFactorLoginForm
+              challengeToken={twoFactorChallenge.challengeToken}
+              remember={formData.remember}
+              onVerified={() => navigate(redirectPath, { replace: true })}
+              onCancel={() => {
+                setTwoFactorChallenge(null);
+                setFormData((prev) => ({ ...prev, password: "" }));
+                clearError();
+              }}
+            />
+          ) : (
+            <form className="space-y-6" onSubmit={handleSubmit}>
+              {/* Inactivity Logout Notice */}
+              {idleLogout && (
+                <div className="rounded-md bg-yellow-50 p-4">
+                  <div className="flex">
+                    <AlertCircle className="h-5 w-5 text-yellow-400" />
+                    <p className="ml-3 text-sm text-yellow-800">
+                      You were signed out after a period of inactivity. Sign in
+                      again to continue where you left off.
                     </p>
                   </div>
                 </div>
-              </div>
-            )}
+              )}
 
-            {/* Email Field */}
-            <div>
-              <label
-                htmlFor="email"
-                className="block text-sm font-medium text-gray-700"
-              >
-                Email Address
-              </label>
-              <div className="mt-1 relative">
-                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                  <Mail className="h-5 w-5 text-gray-400" />
+              {/* Password Reset Notice */}
+              {passwordReset && (
+                <div className="rounded-md bg-green-50 p-4">
+                  <div className="flex">
+                    <CheckCircle className="h-5 w-5 text-green-400" />
+                    <p className="ml-3 text-sm text-green-800">
+                      Your password has been reset. Sign in with your new
+                      password.
+                    </p>
+                  </div>
                 </div>
-                <input
-                  id="email"
-                  name="email"
-                  type="email"
-                  autoComplete="email"
-                  required
-                  value={formData.email}
-                  onChange={handleInputChange}
-                  className={`
-                    block w-full pl-10 pr-3 py-2 border rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm
-                    ${errors.email ? "border-red-300 text-red-900 placeholder-red-300 focus:ring-red-500 focus:border-red-500" : "border-gray-300"}
-                  `}
-                  placeholder="Enter your email"
-                />
-              </div>
-              {errors.email && (
-                <p className="mt-2 text-sm text-red-600">{errors.email}</p>
               )}
-            </div>
 
-            {/* Password Field */}
-            <div>
-              <label
-                htmlFor="password"
-                className="block text-sm font-medium text-gray-700"
-              >
-                Password
-              </label>
-              <div className="mt-1 relative">
-                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                  <Lock className="h-5 w-5 text-gray-400" />
-                </div>
-                <input
-                  id="password"
-                  name="password"
-                  type={showPassword ? "text" : "password"}
-                  autoComplete="current-password"
-                  required
-                  value={formData.password}
-                  onChange={handleInputChange}
-                  className={`
-                    block w-full pl-10 pr-10 py-2 border rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm
-                    ${errors.password ? "border-red-300 text-red-900 placeholder-red-300 focus:ring-red-500 focus:border-red-500" : "border-gray-300"}
-                  `}
-                  placeholder="Enter your password"
-                />
-                <div className="absolute inset-y-0 right-0 pr-3 flex items-center">
-                  <button
-                    type="button"
-                    className="text-gray-400 hover:text-gray-500 focus:outline-none focus:text-gray-500"
-                    onClick={() => setShowPassword(!showPassword)}
-                  >
-                    {showPassword ? (
-                      <EyeOff className="h-5 w-5" />
-                    ) : (
-                      <Eye className="h-5 w-5" />
-                    )}
-                  </button>
+              {/* General Error */}
+              {(errors.general || authError) && (
+                <div className="rounded-md bg-red-50 p-4">
+                  <div className="flex">
+                    <AlertCircle className="h-5 w-5 text-red-400" />
+                    <div className="ml-3">
+                      <h3 className="text-sm font-medium text-red-800">
+                        Login Failed
+                      </h3>
+                      <p className="mt-2 text-sm text-red-700">
+                        {errors.general || authError}
+                      </p>
+                    </div>
+                  </div>
                 </div>
-              </div>
-              {errors.password && (
-                <p className="mt-2 text-sm text-red-600">{errors.password}</p>
               )}
-            </div>
 
-            {/* Remember Me */}
-            <div className="flex items-center justify-between">
-              <div className="flex items-center">
-                <input
-                  id="remember"
-                  name="remember"
-                  type="checkbox"
-                  checked={formData.remember}
-                  onChange={handleInputChange}
-                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
-                />
+              {/* Email Field */}
+              <div>
                 <label
-                  htmlFor="remember"
-                  className="ml-2 block text-sm text-gray-900"
+                  htmlFor="email"
+                  className="block text-sm font-medium text-gray-700"
                 >
-                  Remember me
+                  Email Address
                 </label>
+                <div className="mt-1 relative">
+                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                    <Mail className="h-5 w-5 text-gray-400" />
+                  </div>
+                  <input
+                    id="email"
+                    name="email"
+                    type="email"
+                    autoComplete="email"
+                    required
+                    value={formData.email}
+                    onChange={handleInputChange}
+                    className={`
+                      block w-full pl-10 pr-3 py-2 border rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm
+                      ${errors.email ? "border-red-300 text-red-900 placeholder-red-300 focus:ring-red-500 focus:border-red-500" : "border-gray-300"}
+                    `}
+                    placeholder="Enter your email"
+                  />
+                </div>
+                {errors.email && (
+                  <p className="mt-2 text-sm text-red-600">{errors.email}</p>
+                )}
               </div>
 
-              <div className="text-sm">
-                <button
-                  type="button"
-                  className="font-medium text-blue-600 hover:text-blue-500"
-                  onClick={() => setShowForgotPassword(true)}
+              {/* Password Field */}
+              <div>
+                <label
+                  htmlFor="password"
+                  className="block text-sm font-medium text-gray-700"
                 >
-                  Forgot your password?
-                </button>
+                  Password
+                </label>
+                <div className="mt-1 relative">
+                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                    <Lock className="h-5 w-5 text-gray-400" />
+                  </div>
+                  <input
+                    id="password"
+                    name="password"
+                    type={showPassword ? "text" : "password"}
+                    autoComplete="current-password"
+                    required
+                    value={formData.password}
+                    onChange={handleInputChange}
+                    className={`
+                      block w-full pl-10 pr-10 py-2 border rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm
+                      ${errors.password ? "border-red-300 text-red-900 placeholder-red-300 focus:ring-red-500 focus:border-red-500" : "border-gray-300"}
+                    `}
+                    placeholder="Enter your password"
+                  />
+                  <div className="absolute inset-y-0 right-0 pr-3 flex items-center">
+                    <button
+                      type="button"
+                      className="text-gray-400 hover:text-gray-500 focus:outline-none focus:text-gray-500"
+                      onClick={() => setShowPassword(!showPassword)}
+                    >
+                      {showPassword ? (
+                        <EyeOff className="h-5 w-5" />
+                      ) : (
+                        <Eye className="h-5 w-5" />
+                      )}
+                    </button>
+                  </div>
+                </div>
+                {errors.password && (
+                  <p className="mt-2 text-sm text-red-600">{errors.password}</p>
+                )}
               </div>
-            </div>
 
-            {/* Submit Button */}
-            <div className="space-y-3">
+              {/* Remember Me */}
+              <div className="flex items-center justify-between">
+                <div className="flex items-center">
+                  <input
+                    id="remember"
+                    name="remember"
+                    type="checkbox"
+                    checked={formData.remember}
+                    onChange={handleInputChange}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  <label
+                    htmlFor="remember"
+                    className="ml-2 block text-sm text-gray-900"
+                  >
+                    Remember me
+                  </label>
+                </div>
+
+                <div className="text-sm">
+                  <button
+                    type="button"
+                    className="font-medium text-blue-600 hover:text-blue-500"
+                    onClick={() => setShowForgotPassword(true)}
+                  >
+                    Forgot your password?
+                  </button>
+                </div>
+              </div>
+
+              {/* Submit Button */}
               <Button
                 type="submit"
                 fullWidth
@@ -448,67 +471,29 @@ const Login: React.FC = () => {
                 {loading || authLoading ? "Signing in..." : "Sign in"}
               </Button>
 
-              {/* Quick Login Buttons */}
-              <div className="grid grid-cols-1 gap-2">
-                <Button
-                  type="button"
-                  variant="secondary"
-                  fullWidth
-                  onClick={handleDemoLogin}
-                  className="justify-center py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
-                >
-                  Use Demo Credentials
-                </Button>
-
-                {connectionStatus.isConnected && (
-                  <Button
-                    type="button"
-                    variant="ghost"
-                    fullWidth
-                    onClick={handleRealLogin}
-                    className="justify-center py-1 px-4 text-xs font-medium text-blue-600 hover:text-blue-700"
-                  >
-                    Use Real API Login
-                  </Button>
-                )}
-              </div>
-            </div>
-
-            {/* Login Mode Info */}
-            <div className="mt-4 p-3 border rounded-md">
-              {connectionStatus.isConnected ? (
-                <div className="bg-green-50 border-green-200">
-                  <div className="text-sm text-green-800 p-3">
-                    <strong>✅ Backend Connected:</strong> You can use real API
-                    login or demo mode.
-                    <div className="mt-2 text-xs space-y-1">
-                      <div>
-                        <strong>Demo:</strong> admin@example.com / password123
-                      </div>
-                      <div>
-                        <strong>Real API:</strong> Use your actual credentials
-                      </div>
-                    </div>
-                  </div>
-                </div>
-              ) : (
-                <div className="bg-blue-50 border-blue-200">
-                  <div className="text-sm text-blue-800 p-3">
-                    <strong>🔄 Demo Mode:</strong> Backend offline. Using demo
-                    data only.
-                    <div className="mt-2 text-xs">
-                      <strong>Available demo accounts:</strong>
-                      <br />
-                      • admin@example.com / password123 (Admin)
-                      <br />
-                      • manager@example.com / manager123 (Manager)
-                      <br />• stylist@example.com / stylist123 (Stylist)
-                    </div>
+              {/* Fixture Accounts */}
+              {fixtureAccounts.length > 0 && (
+                <div className="p-3 border border-orange-200 bg-orange-50 rounded-md">
+                  <p className="text-sm font-medium text-orange-800">
+                    Fixture accounts
+                  </p>
+                  <div className="mt-2 space-y-1">
+                    {fixtureAccounts.map((account) => (
+                      <button
+                        key={account.email}
+                        type="button"
+                        onClick={() => handleUseFixtureAccount(account)}
+                        className="w-full flex justify-between text-left text-xs text-orange-800 hover:text-orange-900"
+                      >
+                        <span>{account.email}</span>
+                        <span className="font-medium">{account.role}</span>
+                      </button>
+                    ))}
                   </div>
                 </div>
               )}
-            </div>
-          </form>
+            </form>
+          )}
 
           {/* Additional Links */}
           <div className="mt-6">
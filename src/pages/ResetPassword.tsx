@@ -0,0 +1,263 @@
+import React, { useEffect, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { AlertCircle, Eye, EyeOff, KeyRound, Lock } from "lucide-react";
+import Button from "../components/ui/Button";
+import Card from "../components/ui/Card";
+import PasswordStrengthMeter from "../components/auth/PasswordStrengthMeter";
+import ResendLinkForm from "../components/auth/ResendLinkForm";
+import { authService } from "../services/authService";
+import type { EmailTokenStatus } from "../services/authService";
+import { ApiError } from "../services/errors";
+import { isPasswordValid } from "../utils/passwordPolicy";
+
+const INVALID_LINK_MESSAGES: Record<
+  Exclude<EmailTokenStatus["status"], "valid">,
+  string
+> = {
+  expired: "This reset link has expired.",
+  used: "This reset link has already been used.",
+  invalid: "This reset link is not valid.",
+};
+
+// Statuses that mean the link itself is bad; anything else (offline, 5xx)
+// is worth checking again rather than asking for a new email
+const INVALID_LINK_STATUSES = [400, 404, 410];
+
+const isInvalidLinkError = (error: unknown): boolean =>
+  error instanceof ApiError &&
+  !!error.status &&
+  INVALID_LINK_STATUSES.includes(error.status);
+
+// Target of the link in password reset emails
+const ResetPassword: React.FC = () => {
+  const { token = "" } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const [tokenStatus, setTokenStatus] = useState<EmailTokenStatus | null>(
+    null,
+  );
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [showPassword, setShowPassword] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Set when the link could not be checked at all, e.g. the network dropped
+  const [checkError, setCheckError] = useState<string | null>(null);
+  const [checkAttempt, setCheckAttempt] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    authService
+      .validateResetToken(token)
+      .then((status) => {
+        if (!cancelled) setTokenStatus(status);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        if (isInvalidLinkError(err)) {
+          setTokenStatus({ status: "invalid" });
+        } else {
+          setCheckError(
+            err instanceof Error ? err.message : "Could not check the link",
+          );
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token, checkAttempt]);
+
+  const retryCheck = () => {
+    setCheckError(null);
+    setCheckAttempt((attempt) => attempt + 1);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!isPasswordValid(password)) {
+      setError("Your password does not meet the requirements below");
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError("Passwords do not match");
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      await authService.resetPassword(token, password);
+      navigate("/login", { replace: true, state: { passwordReset: true } });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Password reset failed");
+      // The link may have expired while the form was open
+      authService
+        .validateResetToken(token)
+        .then(setTokenStatus)
+        .catch(() => undefined);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const renderContent = () => {
+    if (checkError) {
+      return (
+        <div className="space-y-6">
+          <div className="rounded-md bg-red-50 p-4">
+            <div className="flex">
+              <AlertCircle className="h-5 w-5 text-red-400" />
+              <p className="ml-3 text-sm text-red-700">
+                We could not check your reset link: {checkError}. Check your
+                connection and try again.
+              </p>
+            </div>
+          </div>
+          <Button type="button" fullWidth onClick={retryCheck}>
+            Try Again
+          </Button>
+        </div>
+      );
+    }
+
+    if (!tokenStatus) {
+      return (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      );
+    }
+
+    if (tokenStatus.status !== "valid") {
+      return (
+        <div className="space-y-6">
+          <div className="rounded-md bg-yellow-50 p-4">
+            <div className="flex">
+              <AlertCircle className="h-5 w-5 text-yellow-400" />
+              <p className="ml-3 text-sm text-yellow-800">
+                {INVALID_LINK_MESSAGES[tokenStatus.status]} Request a new one
+                below.
+              </p>
+            </div>
+          </div>
+          <ResendLinkForm
+            initialEmail={tokenStatus.email}
+            submitLabel="Send new reset link"
+            onResend={(email) => authService.forgotPassword(email)}
+          />
+        </div>
+      );
+    }
+
+    return (
+      <form className="space-y-6" onSubmit={handleSubmit}>
+        {error && (
+          <div className="rounded-md bg-red-50 p-4">
+            <div className="flex">
+              <AlertCircle className="h-5 w-5 text-red-400" />
+              <p className="ml-3 text-sm text-red-700">{error}</p>
+            </div>
+          </div>
+        )}
+
+        <div>
+          <label
+            htmlFor="password"
+            className="block text-sm font-medium text-gray-700"
+          >
+            New Password
+          </label>
+          <div className="mt-1 relative">
+            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+              <Lock className="h-5 w-5 text-gray-400" />
+            </div>
+            <input
+              id="password"
+              type={showPassword ? "text" : "password"}
+              autoComplete="new-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="block w-full pl-10 pr-10 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              placeholder="Enter a new password"
+            />
+            <div className="absolute inset-y-0 right-0 pr-3 flex items-center">
+              <button
+                type="button"
+                className="text-gray-400 hover:text-gray-500 focus:outline-none"
+                onClick={() => setShowPassword(!showPassword)}
+              >
+                {showPassword ? (
+                  <EyeOff className="h-5 w-5" />
+                ) : (
+                  <Eye className="h-5 w-5" />
+                )}
+              </button>
+            </div>
+          </div>
+          <PasswordStrengthMeter password={password} />
+        </div>
+
+        <div>
+          <label
+            htmlFor="confirmPassword"
+            className="block text-sm font-medium text-gray-700"
+          >
+            Confirm Password
+          </label>
+          <div className="mt-1 relative">
+            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+              <Lock className="h-5 w-5 text-gray-400" />
+            </div>
+            <input
+              id="confirmPassword"
+              type={showPassword ? "text" : "password"}
+              autoComplete="new-password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              placeholder="Repeat the new password"
+            />
+          </div>
+        </div>
+
+        <Button type="submit" fullWidth loading={submitting}>
+          Reset Password
+        </Button>
+      </form>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-blue-50 flex flex-col justify-center py-12 sm:px-6 lg:px-8">
+      <div className="sm:mx-auto sm:w-full sm:max-w-md">
+        <div className="flex justify-center">
+          <div className="w-16 h-16 bg-blue-600 rounded-full flex items-center justify-center shadow-lg">
+            <KeyRound className="w-8 h-8 text-white" />
+          </div>
+        </div>
+        <h2 className="mt-6 text-center text-3xl font-bold text-gray-900">
+          Reset Password
+        </h2>
+      </div>
+
+      <div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md">
+        <Card className="py-8 px-4 shadow-lg sm:rounded-lg sm:px-10">
+          {renderContent()}
+
+          <div className="mt-6 text-center text-sm">
+            <Link
+              to="/login"
+              className="font-medium text-blue-600 hover:text-blue-500"
+            >
+              Back to Login
+            </Link>
+          </div>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default ResetPassword;
@@ -0,0 +1,308 @@
+import React, { useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import {
+  AlertCircle,
+  CheckCircle,
+  Copy,
+  Download,
+  ShieldCheck,
+} from "lucide-react";
+import Button from "../components/ui/Button";
+import Card from "../components/ui/Card";
+import { authService } from "../services/authService";
+import type {
+  TwoFactorSetup as TwoFactorSetupData,
+} from "../services/authService";
+import { useAuth } from "../hooks/useAuth";
+
+type Step = "intro" | "verify" | "recovery" | "enabled";
+
+// TOTP enrolment and management for the signed-in user
+const TwoFactorSetup: React.FC = () => {
+  const navigate = useNavigate();
+  const { user, refreshUser } = useAuth();
+  const [step, setStep] = useState<Step>(
+    user?.twoFactorEnabled ? "enabled" : "intro",
+  );
+  const [setup, setSetup] = useState<TwoFactorSetupData | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const isRequired = !!user?.twoFactorRequired;
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setLoading(true);
+      setError(null);
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Terjadi kesalahan");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleStart = () =>
+    run(async () => {
+      setSetup(await authService.setupTwoFactor());
+      setCode("");
+      setStep("verify");
+    });
+
+  const handleEnable = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!/^\d{6}$/.test(code.trim())) {
+      setError("Masukkan 6 digit kode dari aplikasi authenticator");
+      return;
+    }
+
+    run(async () => {
+      setRecoveryCodes(await authService.enableTwoFactor(code.trim()));
+      setCode("");
+      setStep("recovery");
+    });
+  };
+
+  const handleRegenerate = () =>
+    run(async () => {
+      setRecoveryCodes(await authService.regenerateRecoveryCodes(code.trim()));
+      setCode("");
+      setStep("recovery");
+    });
+
+  const handleDisable = () =>
+    run(async () => {
+      await authService.disableTwoFactor(code.trim());
+      await refreshUser();
+      setCode("");
+      setStep("intro");
+    });
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join("\n"));
+      setCopied(true);
+    } catch {
+      setError("Gagal menyalin kode, silakan salin manual");
+    }
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([recoveryCodes.join("\n")], { type: "text/plain" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "rusdi-barber-recovery-codes.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleFinish = () =>
+    run(async () => {
+      await refreshUser();
+      navigate("/dashboard", { replace: true });
+    });
+
+  return (
+    <div className="min-h-screen bg-secondary-50 flex flex-col justify-center py-12 sm:px-6 lg:px-8">
+      <div className="sm:mx-auto sm:w-full sm:max-w-lg">
+        <div className="flex justify-center">
+          <ShieldCheck className="w-12 h-12 text-primary-600" />
+        </div>
+        <h2 className="mt-4 text-center text-2xl font-bold text-gray-900">
+          Autentikasi Dua Faktor
+        </h2>
+        {isRequired && step !== "enabled" && step !== "recovery" && (
+          <p className="mt-2 text-center text-sm text-gray-600">
+            Peran Anda wajib menggunakan autentikasi dua faktor sebelum dapat
+            mengakses dashboard.
+          </p>
+        )}
+      </div>
+
+      <div className="mt-8 sm:mx-auto sm:w-full sm:max-w-lg">
+        <Card className="py-8 px-4 shadow sm:px-10">
+          {error && (
+            <div className="mb-6 rounded-md bg-red-50 p-4">
+              <div className="flex">
+                <AlertCircle className="h-5 w-5 text-red-400" />
+                <p className="ml-3 text-sm text-red-700">{error}</p>
+              </div>
+            </div>
+          )}
+
+          {step === "intro" && (
+            <div className="space-y-6">
+              <p className="text-sm text-gray-600">
+                Selain password, Anda akan diminta kode 6 digit dari aplikasi
+                authenticator (misalnya Google Authenticator atau Authy) setiap
+                kali login.
+              </p>
+              <Button fullWidth onClick={handleStart} loading={loading}>
+                Mulai Aktivasi
+              </Button>
+            </div>
+          )}
+
+          {step === "verify" && setup && (
+            <form className="space-y-6" onSubmit={handleEnable}>
+              <p className="text-sm text-gray-600">
+                Pindai kode QR berikut dengan aplikasi authenticator, lalu
+                masukkan kode yang muncul.
+              </p>
+              {setup.qrCodeDataUrl && (
+                <img
+                  src={setup.qrCodeDataUrl}
+                  alt="Kode QR autentikasi dua faktor"
+                  className="mx-auto w-48 h-48"
+                />
+              )}
+              <div className="text-sm space-y-2">
+                <p className="text-gray-600">
+                  Tidak bisa memindai?{" "}
+                  <a
+                    href={setup.otpauthUrl}
+                    className="font-medium text-primary-600 hover:text-primary-500"
+                  >
+                    Buka di aplikasi authenticator
+                  </a>{" "}
+                  atau masukkan kunci ini secara manual:
+                </p>
+                <code className="block p-2 bg-gray-100 rounded text-center font-mono break-all">
+                  {setup.secret}
+                </code>
+              </div>
+              <div>
+                <label
+                  htmlFor="totpCode"
+                  className="block text-sm font-medium text-gray-700"
+                >
+                  Kode verifikasi
+                </label>
+                <input
+                  id="totpCode"
+                  type="text"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  maxLength={6}
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md text-center tracking-widest focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                  placeholder="000000"
+                />
+              </div>
+              <Button type="submit" fullWidth loading={loading}>
+                Aktifkan
+              </Button>
+            </form>
+          )}
+
+          {step === "recovery" && (
+            <div className="space-y-6">
+              <div className="flex items-start space-x-2">
+                <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0" />
+                <p className="text-sm text-gray-600">
+                  Simpan kode pemulihan ini di tempat aman. Setiap kode hanya
+                  dapat dipakai sekali jika Anda kehilangan akses ke aplikasi
+                  authenticator. Kode ini tidak akan ditampilkan lagi.
+                </p>
+              </div>
+              <ul className="grid grid-cols-2 gap-2 p-4 bg-gray-100 rounded font-mono text-sm text-center">
+                {recoveryCodes.map((recoveryCode) => (
+                  <li key={recoveryCode}>{recoveryCode}</li>
+                ))}
+              </ul>
+              <div className="flex gap-2">
+                <Button
+                  variant="secondary"
+                  className="flex-1 flex items-center justify-center gap-1"
+                  onClick={handleCopy}
+                >
+                  <Copy className="w-4 h-4" />
+                  {copied ? "Tersalin" : "Salin"}
+                </Button>
+                <Button
+                  variant="secondary"
+                  className="flex-1 flex items-center justify-center gap-1"
+                  onClick={handleDownload}
+                >
+                  <Download className="w-4 h-4" />
+                  Unduh
+                </Button>
+              </div>
+              <Button fullWidth onClick={handleFinish} loading={loading}>
+                Saya sudah menyimpan kode ini
+              </Button>
+            </div>
+          )}
+
+          {step === "enabled" && (
+            <div className="space-y-6">
+              <div className="flex items-center space-x-2 text-green-700">
+                <CheckCircle className="w-5 h-5" />
+                <span className="text-sm font-medium">
+                  Autentikasi dua faktor aktif
+                </span>
+              </div>
+              <div>
+                <label
+                  htmlFor="manageCode"
+                  className="block text-sm font-medium text-gray-700"
+                >
+                  Kode dari aplikasi authenticator
+                </label>
+                <input
+                  id="manageCode"
+                  type="text"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  maxLength={6}
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md text-center tracking-widest focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                  placeholder="000000"
+                />
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  variant="secondary"
+                  className="flex-1"
+                  onClick={handleRegenerate}
+                  disabled={loading || !code.trim()}
+                >
+                  Buat Ulang Kode Pemulihan
+                </Button>
+                {!isRequired && (
+                  <Button
+                    variant="danger"
+                    className="flex-1"
+                    onClick={handleDisable}
+                    disabled={loading || !code.trim()}
+                  >
+                    Nonaktifkan
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {step !== "recovery" && !(isRequired && !user?.twoFactorEnabled) && (
+            <div className="mt-6 text-center text-sm">
+              <Link
+                to="/dashboard"
+                className="font-medium text-primary-600 hover:text-primary-500"
+              >
+                Kembali ke Dashboard
+              </Link>
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default TwoFactorSetup;
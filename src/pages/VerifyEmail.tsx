@@ -0,0 +1,131 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { AlertCircle, CheckCircle, MailCheck } from "lucide-react";
+import Card from "../components/ui/Card";
+import ResendLinkForm from "../components/auth/ResendLinkForm";
+import { authService } from "../services/authService";
+
+type VerificationState =
+  | { status: "checking" }
+  | { status: "verified" }
+  | { status: "used" }
+  | { status: "expired" | "invalid"; email?: string };
+
+// Target of the link in verification emails
+const VerifyEmail: React.FC = () => {
+  const { token = "" } = useParams<{ token: string }>();
+  const [state, setState] = useState<VerificationState>({
+    status: "checking",
+  });
+  // Tokens are single-use; don't submit twice under StrictMode
+  const attemptedToken = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (attemptedToken.current === token) return;
+    attemptedToken.current = token;
+
+    const verify = async () => {
+      try {
+        const tokenStatus = await authService.validateVerificationToken(token);
+        if (tokenStatus.status !== "valid") {
+          setState(
+            tokenStatus.status === "used"
+              ? { status: "used" }
+              : { status: tokenStatus.status, email: tokenStatus.email },
+          );
+          return;
+        }
+
+        await authService.verifyEmail(token);
+        setState({ status: "verified" });
+      } catch (error) {
+        console.error("Email verification failed:", error);
+        setState({ status: "invalid" });
+      }
+    };
+
+    verify();
+  }, [token]);
+
+  const renderContent = () => {
+    switch (state.status) {
+      case "checking":
+        return (
+          <div className="flex flex-col items-center py-8 space-y-3">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            <p className="text-sm text-gray-600">Verifying your email...</p>
+          </div>
+        );
+
+      case "verified":
+      case "used":
+        return (
+          <div className="text-center space-y-2">
+            <CheckCircle className="w-12 h-12 text-green-600 mx-auto" />
+            <h3 className="text-lg font-medium text-gray-900">
+              {state.status === "verified"
+                ? "Email verified"
+                : "Email already verified"}
+            </h3>
+            <p className="text-sm text-gray-600">
+              You can now sign in to your account.
+            </p>
+          </div>
+        );
+
+      default:
+        return (
+          <div className="space-y-6">
+            <div className="rounded-md bg-yellow-50 p-4">
+              <div className="flex">
+                <AlertCircle className="h-5 w-5 text-yellow-400" />
+                <p className="ml-3 text-sm text-yellow-800">
+                  {state.status === "expired"
+                    ? "This verification link has expired."
+                    : "This verification link is not valid."}{" "}
+                  Enter your email to receive a new one.
+                </p>
+              </div>
+            </div>
+            <ResendLinkForm
+              initialEmail={state.email}
+              submitLabel="Resend verification email"
+              onResend={(email) => authService.resendVerificationEmail(email)}
+            />
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-blue-50 flex flex-col justify-center py-12 sm:px-6 lg:px-8">
+      <div className="sm:mx-auto sm:w-full sm:max-w-md">
+        <div className="flex justify-center">
+          <div className="w-16 h-16 bg-blue-600 rounded-full flex items-center justify-center shadow-lg">
+            <MailCheck className="w-8 h-8 text-white" />
+          </div>
+        </div>
+        <h2 className="mt-6 text-center text-3xl font-bold text-gray-900">
+          Email Verification
+        </h2>
+      </div>
+
+      <div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md">
+        <Card className="py-8 px-4 shadow-lg sm:rounded-lg sm:px-10">
+          {renderContent()}
+
+          <div className="mt-6 text-center text-sm">
+            <Link
+              to="/login"
+              className="font-medium text-blue-600 hover:text-blue-500"
+            >
+              Go to Login
+            </Link>
+          </div>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default VerifyEmail;
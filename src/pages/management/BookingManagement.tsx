@@ -1,6 +1,7 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import {
   Calendar,
+  List,
   Plus,
   Search,
   Filter,
@@ -22,15 +23,51 @@ import {
   Users,
   ChevronDown,
   MoreVertical,
+  CloudOff,
+  Repeat,
 } from "lucide-react";
 import Card from "../../components/ui/Card";
 import Button from "../../components/ui/Button";
 import Modal from "../../components/ui/Modal";
-import { usePermissions } from "../../hooks/useAuth";
+import FieldError from "../../components/ui/FieldError";
+import Can from "../../components/auth/Can";
+import BookingCalendar from "../../components/calendar/BookingCalendar";
+import {
+  BookingWizardModal,
+  SeriesScopeModal,
+} from "../../components/modals";
+import { useAuth } from "../../hooks/useAuth";
+import { useCan } from "../../hooks/useCan";
+import { useOfflineQueue } from "../../hooks/useOfflineQueue";
+import { useMutation, useQuery } from "../../hooks/useQuery";
+import { createIdempotencyKey } from "../../services/api";
 import { bookingService } from "../../services/bookingService";
+import { getFieldErrors } from "../../services/errors";
+import {
+  getActionBookingId,
+  offlineQueue,
+} from "../../services/offlineQueue";
+import type { OfflineAction } from "../../services/offlineQueue";
+import { queryCache, queryKeys } from "../../services/queryCache";
+import type { FieldErrors } from "../../services/errors";
 import { stylistService } from "../../services/stylistService";
 import { serviceService } from "../../services/serviceService";
-import type { Booking, Stylist, Service, BookingStatus } from "../../types";
+import { PaymentMethod, PaymentStatus } from "../../types";
+import type { Booking, BookingStatus, RecurrenceRule } from "../../types";
+import type {
+  CreateBookingRequest,
+  SeriesScope,
+  UpdateBookingRequest,
+} from "../../services/bookingService";
+import { bookingDuration, describeServices } from "../../utils/bookingLines";
+import { formatMoney } from "../../utils/money";
+import { describeRecurrence } from "../../utils/recurrence";
+import {
+  formatShopDate,
+  formatShopTime,
+  isSameMonth,
+  todayInShop,
+} from "../../utils/shopTime";
 
 interface BookingFilters {
   status: string;
@@ -41,23 +78,41 @@ interface BookingFilters {
   customerId: string;
 }
 
+interface BookingFormLine {
+  serviceId: string;
+  // Empty for the booking's main stylist
+  stylistId: string;
+}
+
 interface BookingFormData {
   customerId: string;
   stylistId: string;
-  serviceId: string;
+  services: BookingFormLine[];
   appointmentDate: string;
   appointmentTime: string;
   notes?: string;
   status: BookingStatus;
 }
 
+// The API names some booking fields differently from this form
+const BOOKING_FIELD_ALIASES: Record<string, keyof BookingFormData> = {
+  bookingDate: "appointmentDate",
+  startTime: "appointmentTime",
+};
+
+const toFormFieldErrors = (error: unknown): FieldErrors =>
+  Object.fromEntries(
+    Object.entries(getFieldErrors(error)).map(([field, message]) => [
+      BOOKING_FIELD_ALIASES[field] ?? field,
+      message,
+    ]),
+  );
+
 const BookingManagement: React.FC = () => {
-  const { canManageAllBookings, canManageBookings, isAdmin, user } =
-    usePermissions();
-  const [bookings, setBookings] = useState<Booking[]>([]);
-  const [stylists, setStylists] = useState<Stylist[]>([]);
-  const [services, setServices] = useState<Service[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+  const can = useCan();
+  const canViewBookings = can("booking:view");
+  const canViewAllBookings = can("booking:view_all");
   const [searchTerm, setSearchTerm] = useState("");
   const [filters, setFilters] = useState<BookingFilters>({
     status: "all",
@@ -71,10 +126,11 @@ const BookingManagement: React.FC = () => {
   const [showEditModal, setShowEditModal] = useState(false);
   const [showDetailsModal, setShowDetailsModal] = useState(false);
   const [selectedBooking, setSelectedBooking] = useState<Booking | null>(null);
+  const [layout, setLayout] = useState<"list" | "calendar">("list");
   const [formData, setFormData] = useState<BookingFormData>({
     customerId: "",
     stylistId: "",
-    serviceId: "",
+    services: [],
     appointmentDate: "",
     appointmentTime: "",
     notes: "",
@@ -83,6 +139,15 @@ const BookingManagement: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const [submitting, setSubmitting] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  // A change to a recurring booking, waiting for which visits it covers
+  const [seriesAction, setSeriesAction] = useState<{
+    action: "reschedule" | "cancel";
+    booking: Booking;
+  } | null>(null);
+  // One key per opened create form, so resubmitting after a timeout
+  // returns the booking from the first attempt instead of a duplicate
+  const createKeyRef = useRef<string>(createIdempotencyKey());
 
   const statusOptions = [
     {
@@ -123,13 +188,119 @@ const BookingManagement: React.FC = () => {
     },
   ];
 
+  const bookingsQuery = useQuery(
+    queryKeys.bookingList(canViewAllBookings ? "all" : user?.id, filters),
+    () =>
+      canViewAllBookings
+        ? bookingService.getAllBookings(filters)
+        : // Stylist can only see their own bookings
+          bookingService.getStylistBookings(user?.id || "", filters),
+    { enabled: canViewBookings },
+  );
+  // Also keeps a copy of today's schedule on the device, which is shown
+  // read-only when the full list cannot be loaded
+  const todaysQuery = useQuery(
+    queryKeys.bookingList("today", canViewAllBookings ? "all" : user?.id),
+    () =>
+      bookingService.getTodaysBookings(
+        canViewAllBookings ? undefined : user?.id,
+      ),
+    { enabled: canViewBookings },
+  );
+  const showingOfflineCopy =
+    !bookingsQuery.data && !!bookingsQuery.error && !!todaysQuery.data;
+  const bookings =
+    (showingOfflineCopy ? todaysQuery.data : bookingsQuery.data) ?? [];
+  const loading = bookingsQuery.isLoading;
+
+  const outbox = useOfflineQueue();
+  const pendingBookingIds = new Set(
+    outbox
+      .filter((entry) => entry.status !== "conflict")
+      .map((entry) => getActionBookingId(entry.action)),
+  );
+  const pendingPaymentIds = new Set(
+    outbox
+      .filter(
+        (entry) =>
+          entry.status !== "conflict" && entry.action.type === "createPayment",
+      )
+      .map((entry) => getActionBookingId(entry.action)),
+  );
+
+  // Shared with the stylist and service pages through the query cache
+  const { data: stylists = [] } = useQuery(
+    queryKeys.stylists,
+    () => stylistService.getAllStylists(),
+    { enabled: canViewBookings },
+  );
+  const { data: allServices = [] } = useQuery(
+    queryKeys.services,
+    () => serviceService.getAllServices(),
+    { enabled: canViewBookings },
+  );
+  const services = allServices.filter((s) => s.isActive);
+
+  const createBooking = useMutation(
+    ({ data, key }: { data: CreateBookingRequest; key: string }) =>
+      bookingService.createBooking(data, key),
+    { invalidates: [queryKeys.bookings] },
+  );
+  const updateBooking = useMutation(
+    ({ id, data }: { id: string; data: UpdateBookingRequest }) =>
+      bookingService.updateBooking(id, data),
+    { invalidates: [queryKeys.bookings] },
+  );
+  const createSeries = useMutation(
+    ({
+      data,
+      rule,
+      seriesId,
+    }: {
+      data: CreateBookingRequest;
+      rule: RecurrenceRule;
+      seriesId: string;
+    }) =>
+      bookingService.createBookingSeries(
+        data,
+        data.services.map(
+          ({ serviceId }) =>
+            allServices.find((item) => item.id === serviceId)?.duration ?? 0,
+        ),
+        rule,
+        seriesId,
+      ),
+    { invalidates: [queryKeys.bookings] },
+  );
+  const rescheduleSeries = useMutation(
+    ({
+      booking,
+      date,
+      startTime,
+      scope,
+    }: {
+      booking: Booking;
+      date: string;
+      startTime: string;
+      scope: SeriesScope;
+    }) => bookingService.rescheduleSeries(booking, date, startTime, scope),
+    { invalidates: [queryKeys.bookings] },
+  );
+  const cancelSeries = useMutation(
+    ({ booking, scope }: { booking: Booking; scope: SeriesScope }) =>
+      bookingService.cancelSeries(booking, scope),
+    { invalidates: [queryKeys.bookings] },
+  );
+
   useEffect(() => {
-    if (canManageBookings) {
-      loadBookings();
-      loadStylists();
-      loadServices();
+    if (bookingsQuery.error) {
+      setError(
+        bookingsQuery.error instanceof Error
+          ? bookingsQuery.error.message
+          : "Failed to load bookings",
+      );
     }
-  }, [canManageBookings, filters]);
+  }, [bookingsQuery.error]);
 
   useEffect(() => {
     if (success) {
@@ -145,44 +316,6 @@ const BookingManagement: React.FC = () => {
     }
   }, [error]);
 
-  const loadBookings = async () => {
-    try {
-      setLoading(true);
-      let data;
-
-      if (canManageAllBookings) {
-        data = await bookingService.getAllBookings(filters);
-      } else {
-        // Stylist can only see their own bookings
-        data = await bookingService.getStylistBookings(user?.id || "", filters);
-      }
-
-      setBookings(data);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to load bookings");
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const loadStylists = async () => {
-    try {
-      const data = await stylistService.getAllStylists();
-      setStylists(data);
-    } catch (err) {
-      console.error("Failed to load stylists:", err);
-    }
-  };
-
-  const loadServices = async () => {
-    try {
-      const data = await serviceService.getAllServices();
-      setServices(data.filter((s) => s.isActive));
-    } catch (err) {
-      console.error("Failed to load services:", err);
-    }
-  };
-
   const filteredBookings = bookings.filter((booking) => {
     const matchesSearch =
       booking.customer.fullName
@@ -192,50 +325,29 @@ const BookingManagement: React.FC = () => {
       booking.stylist.user.fullName
         .toLowerCase()
         .includes(searchTerm.toLowerCase()) ||
-      booking.service.name.toLowerCase().includes(searchTerm.toLowerCase());
+      describeServices(booking)
+        .toLowerCase()
+        .includes(searchTerm.toLowerCase());
 
     return matchesSearch;
   });
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat("id-ID", {
-      style: "currency",
-      currency: "IDR",
-      minimumFractionDigits: 0,
-    }).format(amount);
-  };
-
-  const formatDate = (date: string) => {
-    return new Date(date).toLocaleDateString("id-ID", {
+  const formatDate = (date: string) =>
+    formatShopDate(date, {
       weekday: "long",
       year: "numeric",
       month: "long",
       day: "numeric",
     });
-  };
-
-  const formatTime = (time: string) => {
-    return new Date(`2000-01-01T${time}`).toLocaleTimeString("id-ID", {
-      hour: "2-digit",
-      minute: "2-digit",
-    });
-  };
 
   const getStatusInfo = (status: BookingStatus) => {
     return statusOptions.find((s) => s.value === status) || statusOptions[0];
   };
 
   const handleCreateBooking = () => {
-    setFormData({
-      customerId: "",
-      stylistId: "",
-      serviceId: "",
-      appointmentDate: "",
-      appointmentTime: "",
-      notes: "",
-      status: "pending" as BookingStatus,
-    });
     setSelectedBooking(null);
+    setError(null);
+    createKeyRef.current = createIdempotencyKey();
     setShowCreateModal(true);
   };
 
@@ -243,45 +355,180 @@ const BookingManagement: React.FC = () => {
     setFormData({
       customerId: booking.customerId,
       stylistId: booking.stylistId,
-      serviceId: booking.serviceId,
-      appointmentDate: booking.appointmentDate.split("T")[0],
-      appointmentTime: booking.appointmentTime,
+      services: booking.lines.map((line) => ({
+        serviceId: line.serviceId,
+        stylistId: line.stylistId === booking.stylistId ? "" : line.stylistId,
+      })),
+      appointmentDate: booking.bookingDate,
+      appointmentTime: booking.startTime,
       notes: booking.notes || "",
       status: booking.status,
     });
     setSelectedBooking(booking);
+    setFieldErrors({});
     setShowEditModal(true);
   };
 
+  const updateFormLine = (index: number, changes: Partial<BookingFormLine>) =>
+    setFormData({
+      ...formData,
+      services: formData.services.map((line, i) =>
+        i === index ? { ...line, ...changes } : line,
+      ),
+    });
+
+  const addFormLine = () =>
+    setFormData({
+      ...formData,
+      services: [...formData.services, { serviceId: "", stylistId: "" }],
+    });
+
+  const removeFormLine = (index: number) =>
+    setFormData({
+      ...formData,
+      services: formData.services.filter((_, i) => i !== index),
+    });
+
   const handleViewBooking = (booking: Booking) => {
     setSelectedBooking(booking);
     setShowDetailsModal(true);
   };
 
+  // Calendar events are summaries, so the full booking may need fetching
+  const handleSelectCalendarBooking = async (id: string) => {
+    try {
+      handleViewBooking(
+        bookings.find((b) => b.id === id) ??
+          (await bookingService.getBookingById(id)),
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load booking");
+    }
+  };
+
+  const handleCreateSubmit = async (
+    data: CreateBookingRequest,
+    rule?: RecurrenceRule,
+  ) => {
+    if (rule) {
+      await handleCreateSeries(data, rule);
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      setError(null);
+
+      const { booking, duplicate } = await createBooking.mutate({
+        data,
+        key: createKeyRef.current,
+      });
+      setShowCreateModal(false);
+
+      if (duplicate) {
+        // An earlier submit already went through; show that booking
+        setSuccess("This booking was already created. Showing the original.");
+        setSelectedBooking(booking);
+        setShowDetailsModal(true);
+      } else {
+        setSuccess("Booking created successfully!");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save booking");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCreateSeries = async (
+    data: CreateBookingRequest,
+    rule: RecurrenceRule,
+  ) => {
+    try {
+      setSubmitting(true);
+      setError(null);
+
+      // The form's key doubles as the series id, so resubmitting fills gaps
+      const { bookings, skipped, failed } = await createSeries.mutate({
+        data,
+        rule,
+        seriesId: createKeyRef.current,
+      });
+      if (failed.length > 0) {
+        setError(
+          `Booked ${bookings.length} visits, but ${failed
+            .map((date) => formatShopDate(date))
+            .join(", ")} could not be saved. Submit again to book them.`,
+        );
+        return;
+      }
+      setShowCreateModal(false);
+      setSuccess(
+        skipped.length > 0
+          ? `Booked ${bookings.length} visits. Skipped ${skipped
+              .map((date) => formatShopDate(date))
+              .join(", ")} because the time was taken.`
+          : `Booked ${bookings.length} visits!`,
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save booking");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (!selectedBooking) return;
+
+    // Moving one visit of a series asks which visits to move
+    const moved =
+      formData.appointmentDate !== selectedBooking.bookingDate ||
+      formData.appointmentTime !== selectedBooking.startTime;
+    if (selectedBooking.series && moved) {
+      setSeriesAction({ action: "reschedule", booking: selectedBooking });
+      return;
+    }
+    await saveBooking();
+  };
+
+  // Other visits only move; the rest of the form applies to this one
+  const saveBooking = async (scope: SeriesScope = "this") => {
+    if (!selectedBooking) return;
 
     try {
       setSubmitting(true);
       setError(null);
+      setFieldErrors({});
 
       const bookingData = {
-        ...formData,
-        appointmentDate: `${formData.appointmentDate}T${formData.appointmentTime}:00.000Z`,
+        customerId: formData.customerId,
+        stylistId: formData.stylistId,
+        services: formData.services.map(({ serviceId, stylistId }) => ({
+          serviceId,
+          stylistId: stylistId || undefined,
+        })),
+        bookingDate: formData.appointmentDate,
+        startTime: formData.appointmentTime,
+        notes: formData.notes,
       };
 
-      if (selectedBooking) {
-        await bookingService.updateBooking(selectedBooking.id, bookingData);
-        setSuccess("Booking updated successfully!");
-        setShowEditModal(false);
-      } else {
-        await bookingService.createBooking(bookingData);
-        setSuccess("Booking created successfully!");
-        setShowCreateModal(false);
+      if (scope !== "this") {
+        await rescheduleSeries.mutate({
+          booking: selectedBooking,
+          date: formData.appointmentDate,
+          startTime: formData.appointmentTime,
+          scope,
+        });
       }
-
-      await loadBookings();
+      await updateBooking.mutate({
+        id: selectedBooking.id,
+        data: { ...bookingData, status: formData.status },
+      });
+      setSuccess("Booking updated successfully!");
+      setShowEditModal(false);
     } catch (err) {
+      setFieldErrors(toFormFieldErrors(err));
       setError(err instanceof Error ? err.message : "Failed to save booking");
     } finally {
       setSubmitting(false);
@@ -293,11 +540,31 @@ const BookingManagement: React.FC = () => {
     newStatus: BookingStatus,
   ) => {
     try {
-      await bookingService.updateBooking(booking.id, { status: newStatus });
+      await updateBooking.mutate({
+        id: booking.id,
+        data: { status: newStatus },
+      });
       setSuccess(
         `Booking status changed to ${getStatusInfo(newStatus).label}!`,
       );
-      await loadBookings();
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to update booking status",
+      );
+    }
+  };
+
+  // Completions, no-shows and cash payments are queued while the backend is
+  // unreachable
+  const handleOutboxAction = async (action: OfflineAction, done: string) => {
+    try {
+      const { queued } = await offlineQueue.submit(action);
+      if (queued) {
+        setSuccess(`${done} offline. It will sync once you are back online.`);
+      } else {
+        queryCache.invalidate(queryKeys.bookings);
+        setSuccess(`${done}!`);
+      }
     } catch (err) {
       setError(
         err instanceof Error ? err.message : "Failed to update booking status",
@@ -306,13 +573,17 @@ const BookingManagement: React.FC = () => {
   };
 
   const handleCancelBooking = async (booking: Booking) => {
+    if (booking.series) {
+      setSeriesAction({ action: "cancel", booking });
+      return;
+    }
     if (window.confirm("Are you sure you want to cancel this booking?")) {
       try {
-        await bookingService.updateBooking(booking.id, {
-          status: "cancelled" as BookingStatus,
+        await updateBooking.mutate({
+          id: booking.id,
+          data: { status: "cancelled" as BookingStatus },
         });
         setSuccess("Booking cancelled successfully!");
-        await loadBookings();
       } catch (err) {
         setError(
           err instanceof Error ? err.message : "Failed to cancel booking",
@@ -321,13 +592,32 @@ const BookingManagement: React.FC = () => {
     }
   };
 
-  const renderBookingModal = (isEdit: boolean) => (
+  const handleSeriesScope = async (scope: SeriesScope) => {
+    if (!seriesAction) return;
+    const { action, booking } = seriesAction;
+    setSeriesAction(null);
+
+    if (action === "reschedule") {
+      await saveBooking(scope);
+      return;
+    }
+    try {
+      const cancelled = await cancelSeries.mutate({ booking, scope });
+      setSuccess(
+        cancelled.length === 1
+          ? "Booking cancelled successfully!"
+          : `${cancelled.length} visits cancelled successfully!`,
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to cancel booking");
+    }
+  };
+
+  const renderEditModal = () => (
     <Modal
-      isOpen={isEdit ? showEditModal : showCreateModal}
-      onClose={() =>
-        isEdit ? setShowEditModal(false) : setShowCreateModal(false)
-      }
-      title={isEdit ? "Edit Booking" : "Create New Booking"}
+      isOpen={showEditModal}
+      onClose={() => setShowEditModal(false)}
+      title="Edit Booking"
       size="large"
     >
       <form onSubmit={handleSubmit} className="space-y-6">
@@ -341,7 +631,8 @@ const BookingManagement: React.FC = () => {
               onChange={(e) =>
                 setFormData({ ...formData, stylistId: e.target.value })
               }
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 aria-[invalid=true]:border-red-500"
+              aria-invalid={!!fieldErrors.stylistId}
               required
             >
               <option value="">Select Stylist</option>
@@ -353,27 +644,7 @@ const BookingManagement: React.FC = () => {
                   </option>
                 ))}
             </select>
-          </div>
-
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Service *
-            </label>
-            <select
-              value={formData.serviceId}
-              onChange={(e) =>
-                setFormData({ ...formData, serviceId: e.target.value })
-              }
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
-              required
-            >
-              <option value="">Select Service</option>
-              {services.map((service) => (
-                <option key={service.id} value={service.id}>
-                  {service.name} - {formatCurrency(parseFloat(service.price))}
-                </option>
-              ))}
-            </select>
+            <FieldError message={fieldErrors.stylistId} />
           </div>
 
           <div>
@@ -386,10 +657,12 @@ const BookingManagement: React.FC = () => {
               onChange={(e) =>
                 setFormData({ ...formData, appointmentDate: e.target.value })
               }
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 aria-[invalid=true]:border-red-500"
+              aria-invalid={!!fieldErrors.appointmentDate}
               required
-              min={new Date().toISOString().split("T")[0]}
+              min={todayInShop()}
             />
+            <FieldError message={fieldErrors.appointmentDate} />
           </div>
 
           <div>
@@ -402,34 +675,100 @@ const BookingManagement: React.FC = () => {
               onChange={(e) =>
                 setFormData({ ...formData, appointmentTime: e.target.value })
               }
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 aria-[invalid=true]:border-red-500"
+              aria-invalid={!!fieldErrors.appointmentTime}
               required
             />
+            <FieldError message={fieldErrors.appointmentTime} />
           </div>
 
-          {isEdit && (
-            <div className="md:col-span-2">
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Status
-              </label>
-              <select
-                value={formData.status}
-                onChange={(e) =>
-                  setFormData({
-                    ...formData,
-                    status: e.target.value as BookingStatus,
-                  })
-                }
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
-              >
-                {statusOptions.map((status) => (
-                  <option key={status.value} value={status.value}>
-                    {status.label}
-                  </option>
-                ))}
-              </select>
-            </div>
-          )}
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Status
+            </label>
+            <select
+              value={formData.status}
+              onChange={(e) =>
+                setFormData({
+                  ...formData,
+                  status: e.target.value as BookingStatus,
+                })
+              }
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+            >
+              {statusOptions.map((status) => (
+                <option key={status.value} value={status.value}>
+                  {status.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Services *
+          </label>
+          <div className="space-y-2">
+            {formData.services.map((line, index) => (
+              <div key={index} className="flex items-center space-x-2">
+                <span className="w-6 text-sm text-gray-500">{index + 1}.</span>
+                <select
+                  value={line.serviceId}
+                  onChange={(e) =>
+                    updateFormLine(index, { serviceId: e.target.value })
+                  }
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  required
+                >
+                  <option value="">Select Service</option>
+                  {services.map((service) => (
+                    <option key={service.id} value={service.id}>
+                      {service.name} - {formatMoney(service.price)}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={line.stylistId}
+                  onChange={(e) =>
+                    updateFormLine(index, { stylistId: e.target.value })
+                  }
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  aria-label="Stylist for this service"
+                >
+                  <option value="">Same stylist</option>
+                  {stylists
+                    .filter((s) => s.isAvailable)
+                    .map((stylist) => (
+                      <option key={stylist.id} value={stylist.id}>
+                        {stylist.user.fullName}
+                      </option>
+                    ))}
+                </select>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeFormLine(index)}
+                  disabled={formData.services.length === 1}
+                  aria-label="Remove service"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={addFormLine}
+            className="mt-2"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add Service
+          </Button>
+          <FieldError message={fieldErrors.services} />
         </div>
 
         <div>
@@ -441,10 +780,12 @@ const BookingManagement: React.FC = () => {
             onChange={(e) =>
               setFormData({ ...formData, notes: e.target.value })
             }
-            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 aria-[invalid=true]:border-red-500"
+            aria-invalid={!!fieldErrors.notes}
             rows={3}
             placeholder="Any special requests or notes..."
           />
+          <FieldError message={fieldErrors.notes} />
         </div>
 
         {error && (
@@ -458,14 +799,12 @@ const BookingManagement: React.FC = () => {
           <Button
             type="button"
             variant="secondary"
-            onClick={() =>
-              isEdit ? setShowEditModal(false) : setShowCreateModal(false)
-            }
+            onClick={() => setShowEditModal(false)}
           >
             Cancel
           </Button>
           <Button type="submit" loading={submitting}>
-            {isEdit ? "Update Booking" : "Create Booking"}
+            Update Booking
           </Button>
         </div>
       </form>
@@ -492,9 +831,18 @@ const BookingManagement: React.FC = () => {
                   Booking #{selectedBooking.id.slice(-8).toUpperCase()}
                 </h3>
                 <p className="text-gray-600">
-                  {formatDate(selectedBooking.appointmentDate)} at{" "}
-                  {formatTime(selectedBooking.appointmentTime)}
+                  {formatDate(selectedBooking.bookingDate)} at{" "}
+                  {formatShopTime(selectedBooking.startTime)}
                 </p>
+                {selectedBooking.series && (
+                  <p className="text-sm text-gray-500 flex items-center">
+                    <Repeat className="w-4 h-4 mr-1" />
+                    {describeRecurrence(
+                      selectedBooking.series.rule,
+                      selectedBooking.bookingDate,
+                    )}
+                  </p>
+                )}
               </div>
             </div>
             <div
@@ -538,28 +886,31 @@ const BookingManagement: React.FC = () => {
               <Scissors className="w-4 h-4 mr-2" />
               Service Details
             </h4>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div>
-                <p className="font-medium text-gray-900">
-                  {selectedBooking.service.name}
-                </p>
-                <p className="text-gray-600">
-                  {selectedBooking.service.description}
-                </p>
-              </div>
-              <div className="space-y-2">
-                <div className="flex justify-between">
-                  <span className="text-gray-600">Duration:</span>
-                  <span className="font-medium">
-                    {selectedBooking.service.duration} min
-                  </span>
-                </div>
-                <div className="flex justify-between">
-                  <span className="text-gray-600">Price:</span>
-                  <span className="font-medium">
-                    {formatCurrency(parseFloat(selectedBooking.service.price))}
-                  </span>
+            <div className="space-y-2">
+              {selectedBooking.lines.map((line, index) => (
+                <div key={index} className="flex justify-between">
+                  <div>
+                    <p className="font-medium text-gray-900">
+                      {line.service?.name ?? selectedBooking.service.name}
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      {formatShopTime(line.startTime)} -{" "}
+                      {formatShopTime(line.endTime)}
+                      {line.stylistId !== selectedBooking.stylistId &&
+                        line.stylist &&
+                        ` with ${line.stylist.user.fullName}`}
+                    </p>
+                  </div>
+                  <span className="font-medium">{formatMoney(line.price)}</span>
                 </div>
+              ))}
+              <div className="flex justify-between border-t border-blue-100 pt-2">
+                <span className="text-gray-600">
+                  Total ({bookingDuration(selectedBooking)} min):
+                </span>
+                <span className="font-medium">
+                  {formatMoney(selectedBooking.totalPrice)}
+                </span>
               </div>
             </div>
           </div>
@@ -627,22 +978,22 @@ const BookingManagement: React.FC = () => {
                 <div className="flex justify-between">
                   <span className="text-gray-600">Amount:</span>
                   <span className="font-medium">
-                    {formatCurrency(parseFloat(selectedBooking.payment.amount))}
+                    {formatMoney(selectedBooking.payment.amount)}
                   </span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-gray-600">Method:</span>
                   <span className="font-medium capitalize">
-                    {selectedBooking.payment.method.replace("_", " ")}
+                    {selectedBooking.payment.paymentMethod.replace("_", " ")}
                   </span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-gray-600">Status:</span>
                   <span
                     className={`px-2 py-1 rounded text-xs font-medium ${
-                      selectedBooking.payment.status === "paid"
+                      selectedBooking.payment.status === PaymentStatus.COMPLETED
                         ? "bg-green-100 text-green-800"
-                        : selectedBooking.payment.status === "pending"
+                        : selectedBooking.payment.status === PaymentStatus.PENDING
                           ? "bg-yellow-100 text-yellow-800"
                           : "bg-red-100 text-red-800"
                     }`}
@@ -657,7 +1008,7 @@ const BookingManagement: React.FC = () => {
           {/* Action Buttons */}
           <div className="flex justify-between items-center pt-4 border-t border-gray-200">
             <div className="flex space-x-2">
-              {canManageAllBookings &&
+              {can("booking:update") &&
                 selectedBooking.status !== "completed" &&
                 selectedBooking.status !== "cancelled" && (
                   <>
@@ -673,22 +1024,47 @@ const BookingManagement: React.FC = () => {
                       </Button>
                     )}
                     {selectedBooking.status === "confirmed" && (
-                      <Button
-                        variant="primary"
-                        size="sm"
-                        onClick={() =>
-                          handleStatusChange(selectedBooking, "in_progress")
-                        }
-                      >
-                        Start Service
-                      </Button>
+                      <>
+                        <Button
+                          variant="primary"
+                          size="sm"
+                          onClick={() =>
+                            handleStatusChange(selectedBooking, "in_progress")
+                          }
+                        >
+                          Start Service
+                        </Button>
+                        <Button
+                          variant="secondary"
+                          size="sm"
+                          disabled={pendingBookingIds.has(selectedBooking.id)}
+                          onClick={() =>
+                            handleOutboxAction(
+                              {
+                                type: "markNoShow",
+                                bookingId: selectedBooking.id,
+                              },
+                              "Booking marked as no show",
+                            )
+                          }
+                        >
+                          No Show
+                        </Button>
+                      </>
                     )}
                     {selectedBooking.status === "in_progress" && (
                       <Button
                         variant="success"
                         size="sm"
+                        disabled={pendingBookingIds.has(selectedBooking.id)}
                         onClick={() =>
-                          handleStatusChange(selectedBooking, "completed")
+                          handleOutboxAction(
+                            {
+                              type: "completeBooking",
+                              bookingId: selectedBooking.id,
+                            },
+                            "Booking marked as completed",
+                          )
                         }
                       >
                         Mark Complete
@@ -696,26 +1072,58 @@ const BookingManagement: React.FC = () => {
                     )}
                   </>
                 )}
+              {!selectedBooking.payment &&
+                (selectedBooking.status === "in_progress" ||
+                  selectedBooking.status === "completed") && (
+                  <Can permission="payment:process">
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      disabled={pendingPaymentIds.has(selectedBooking.id)}
+                      onClick={() =>
+                        handleOutboxAction(
+                          {
+                            type: "createPayment",
+                            payment: {
+                              bookingId: selectedBooking.id,
+                              amount: selectedBooking.totalPrice,
+                              paymentMethod: PaymentMethod.CASH,
+                              status: PaymentStatus.COMPLETED,
+                            },
+                          },
+                          "Cash payment recorded",
+                        )
+                      }
+                    >
+                      <DollarSign className="w-4 h-4 mr-2" />
+                      Record Cash Payment
+                    </Button>
+                  </Can>
+                )}
             </div>
             <div className="flex space-x-2">
-              <Button
-                variant="secondary"
-                size="sm"
-                onClick={() => handleEditBooking(selectedBooking)}
-              >
-                <Edit3 className="w-4 h-4 mr-2" />
-                Edit
-              </Button>
+              <Can permission="booking:update">
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => handleEditBooking(selectedBooking)}
+                >
+                  <Edit3 className="w-4 h-4 mr-2" />
+                  Edit
+                </Button>
+              </Can>
               {selectedBooking.status !== "cancelled" &&
                 selectedBooking.status !== "completed" && (
-                  <Button
-                    variant="danger"
-                    size="sm"
-                    onClick={() => handleCancelBooking(selectedBooking)}
-                  >
-                    <X className="w-4 h-4 mr-2" />
-                    Cancel
-                  </Button>
+                  <Can permission="booking:cancel">
+                    <Button
+                      variant="danger"
+                      size="sm"
+                      onClick={() => handleCancelBooking(selectedBooking)}
+                    >
+                      <X className="w-4 h-4 mr-2" />
+                      Cancel
+                    </Button>
+                  </Can>
                 )}
             </div>
           </div>
@@ -724,7 +1132,7 @@ const BookingManagement: React.FC = () => {
     </Modal>
   );
 
-  if (!canManageBookings) {
+  if (!canViewBookings) {
     return (
       <div className="text-center py-12">
         <Calendar className="w-16 h-16 text-gray-300 mx-auto mb-4" />
@@ -750,15 +1158,33 @@ const BookingManagement: React.FC = () => {
             Manage appointments, schedules, and customer bookings
           </p>
         </div>
-        {canManageAllBookings && (
+        <div className="flex items-center space-x-2">
           <Button
-            onClick={handleCreateBooking}
+            variant={layout === "list" ? "secondary" : "ghost"}
+            onClick={() => setLayout("list")}
             className="flex items-center space-x-2"
           >
-            <Plus className="w-4 h-4" />
-            <span>New Booking</span>
+            <List className="w-4 h-4" />
+            <span>List</span>
           </Button>
-        )}
+          <Button
+            variant={layout === "calendar" ? "secondary" : "ghost"}
+            onClick={() => setLayout("calendar")}
+            className="flex items-center space-x-2"
+          >
+            <Calendar className="w-4 h-4" />
+            <span>Calendar</span>
+          </Button>
+          <Can permission="booking:create">
+            <Button
+              onClick={handleCreateBooking}
+              className="flex items-center space-x-2"
+            >
+              <Plus className="w-4 h-4" />
+              <span>New Booking</span>
+            </Button>
+          </Can>
+        </div>
       </div>
 
       {/* Stats Cards */}
@@ -807,9 +1233,7 @@ const BookingManagement: React.FC = () => {
                 <p className="text-2xl font-bold text-gray-900">
                   {
                     bookings.filter(
-                      (b) =>
-                        new Date(b.appointmentDate).toDateString() ===
-                        new Date().toDateString(),
+                      (b) => b.bookingDate === todayInShop(),
                     ).length
                   }
                 </p>
@@ -828,14 +1252,9 @@ const BookingManagement: React.FC = () => {
                 <p className="text-sm font-medium text-gray-600">This Month</p>
                 <p className="text-2xl font-bold text-gray-900">
                   {
-                    bookings.filter((b) => {
-                      const bookingDate = new Date(b.appointmentDate);
-                      const currentDate = new Date();
-                      return (
-                        bookingDate.getMonth() === currentDate.getMonth() &&
-                        bookingDate.getFullYear() === currentDate.getFullYear()
-                      );
-                    }).length
+                    bookings.filter((b) =>
+                      isSameMonth(b.bookingDate, todayInShop()),
+                    ).length
                   }
                 </p>
               </div>
@@ -847,231 +1266,284 @@ const BookingManagement: React.FC = () => {
         </Card>
       </div>
 
-      {/* Filters */}
-      <div className="flex flex-col sm:flex-row space-y-4 sm:space-y-0 sm:space-x-4">
-        <div className="relative flex-1">
-          <Search className="w-5 h-5 absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
-          <input
-            type="text"
-            placeholder="Search bookings..."
-            value={searchTerm}
-            onChange={(e) => setSearchTerm(e.target.value)}
-            className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
-          />
-        </div>
-
-        <div className="flex items-center space-x-2">
-          <Filter className="w-5 h-5 text-gray-400" />
-          <select
-            value={filters.status}
-            onChange={(e) => setFilters({ ...filters, status: e.target.value })}
-            className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
-          >
-            <option value="all">All Status</option>
-            {statusOptions.map((status) => (
-              <option key={status.value} value={status.value}>
-                {status.label}
-              </option>
-            ))}
-          </select>
-        </div>
+      {layout === "calendar" ? (
+        <BookingCalendar
+          stylists={stylists}
+          onSelectBooking={handleSelectCalendarBooking}
+          onRescheduled={(event) =>
+            setSuccess(`Moved ${event.customer} to ${event.startTime}`)
+          }
+        />
+      ) : (
+        <>
+          {/* Filters */}
+          <div className="flex flex-col sm:flex-row space-y-4 sm:space-y-0 sm:space-x-4">
+            <div className="relative flex-1">
+              <Search className="w-5 h-5 absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+              <input
+                type="text"
+                placeholder="Search bookings..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+              />
+            </div>
 
-        <div className="flex items-center space-x-2">
-          <select
-            value={filters.stylistId}
-            onChange={(e) =>
-              setFilters({ ...filters, stylistId: e.target.value })
-            }
-            className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
-          >
-            <option value="all">All Stylists</option>
-            {stylists.map((stylist) => (
-              <option key={stylist.id} value={stylist.id}>
-                {stylist.user.fullName}
-              </option>
-            ))}
-          </select>
-        </div>
-      </div>
+            <div className="flex items-center space-x-2">
+              <Filter className="w-5 h-5 text-gray-400" />
+              <select
+                value={filters.status}
+                onChange={(e) =>
+                  setFilters({ ...filters, status: e.target.value })
+                }
+                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+              >
+                <option value="all">All Status</option>
+                {statusOptions.map((status) => (
+                  <option key={status.value} value={status.value}>
+                    {status.label}
+                  </option>
+                ))}
+              </select>
+            </div>
 
-      {/* Bookings List */}
-      {loading ? (
-        <div className="space-y-4">
-          {[...Array(5)].map((_, i) => (
-            <Card key={i} className="animate-pulse">
-              <Card.Body>
-                <div className="flex items-center space-x-4">
-                  <div className="w-12 h-12 bg-gray-200 rounded-full"></div>
-                  <div className="flex-1 space-y-2">
-                    <div className="h-4 bg-gray-200 rounded w-3/4"></div>
-                    <div className="h-3 bg-gray-200 rounded w-1/2"></div>
-                  </div>
-                  <div className="w-20 h-6 bg-gray-200 rounded"></div>
-                </div>
-              </Card.Body>
-            </Card>
-          ))}
-        </div>
-      ) : filteredBookings.length > 0 ? (
-        <div className="space-y-4">
-          {filteredBookings.map((booking) => {
-            const statusInfo = getStatusInfo(booking.status);
-            const StatusIcon = statusInfo.icon;
-
-            return (
-              <Card
-                key={booking.id}
-                className="hover:shadow-md transition-shadow"
+            <div className="flex items-center space-x-2">
+              <select
+                value={filters.stylistId}
+                onChange={(e) =>
+                  setFilters({ ...filters, stylistId: e.target.value })
+                }
+                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
               >
-                <Card.Body>
-                  <div className="flex items-center justify-between">
-                    {/* Left: Booking Info */}
-                    <div className="flex items-center space-x-4 flex-1">
-                      <div className="w-12 h-12 bg-primary-100 rounded-full flex items-center justify-center">
-                        {booking.customer.avatar ? (
-                          <img
-                            src={booking.customer.avatar}
-                            alt={booking.customer.fullName}
-                            className="w-12 h-12 rounded-full object-cover"
-                          />
-                        ) : (
-                          <span className="font-semibold text-primary-600">
-                            {booking.customer.fullName
-                              .split(" ")
-                              .map((n) => n[0])
-                              .join("")
-                              .slice(0, 2)}
-                          </span>
-                        )}
-                      </div>
+                <option value="all">All Stylists</option>
+                {stylists.map((stylist) => (
+                  <option key={stylist.id} value={stylist.id}>
+                    {stylist.user.fullName}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
 
-                      <div className="flex-1">
-                        <div className="flex items-center space-x-2 mb-1">
-                          <h3 className="font-semibold text-gray-900">
-                            {booking.customer.fullName}
-                          </h3>
-                          <span className="text-sm text-gray-500">•</span>
-                          <span className="text-sm text-gray-600">
-                            #{booking.id.slice(-6).toUpperCase()}
-                          </span>
-                        </div>
+          {showingOfflineCopy && (
+            <div className="flex items-center space-x-2 p-3 bg-gray-100 border border-gray-200 rounded-md text-sm text-gray-700">
+              <CloudOff className="w-4 h-4" />
+              <span>
+                You're offline. Showing today's bookings saved on this device;
+                completions and no-shows will sync when the connection is back.
+              </span>
+            </div>
+          )}
 
-                        <div className="flex items-center space-x-4 text-sm text-gray-600">
-                          <div className="flex items-center space-x-1">
-                            <Calendar className="w-4 h-4" />
-                            <span>{formatDate(booking.appointmentDate)}</span>
-                          </div>
-                          <div className="flex items-center space-x-1">
-                            <Clock className="w-4 h-4" />
-                            <span>{formatTime(booking.appointmentTime)}</span>
-                          </div>
-                          <div className="flex items-center space-x-1">
-                            <Scissors className="w-4 h-4" />
-                            <span>{booking.service.name}</span>
-                          </div>
-                          <div className="flex items-center space-x-1">
-                            <User className="w-4 h-4" />
-                            <span>{booking.stylist.user.fullName}</span>
-                          </div>
-                        </div>
+          {/* Bookings List */}
+          {loading ? (
+            <div className="space-y-4">
+              {[...Array(5)].map((_, i) => (
+                <Card key={i} className="animate-pulse">
+                  <Card.Body>
+                    <div className="flex items-center space-x-4">
+                      <div className="w-12 h-12 bg-gray-200 rounded-full"></div>
+                      <div className="flex-1 space-y-2">
+                        <div className="h-4 bg-gray-200 rounded w-3/4"></div>
+                        <div className="h-3 bg-gray-200 rounded w-1/2"></div>
                       </div>
+                      <div className="w-20 h-6 bg-gray-200 rounded"></div>
                     </div>
+                  </Card.Body>
+                </Card>
+              ))}
+            </div>
+          ) : filteredBookings.length > 0 ? (
+            <div className="space-y-4">
+              {filteredBookings.map((booking) => {
+                const statusInfo = getStatusInfo(booking.status);
+                const StatusIcon = statusInfo.icon;
+
+                return (
+                  <Card
+                    key={booking.id}
+                    className="hover:shadow-md transition-shadow"
+                  >
+                    <Card.Body>
+                      <div className="flex items-center justify-between">
+                        {/* Left: Booking Info */}
+                        <div className="flex items-center space-x-4 flex-1">
+                          <div className="w-12 h-12 bg-primary-100 rounded-full flex items-center justify-center">
+                            {booking.customer.avatar ? (
+                              <img
+                                src={booking.customer.avatar}
+                                alt={booking.customer.fullName}
+                                className="w-12 h-12 rounded-full object-cover"
+                              />
+                            ) : (
+                              <span className="font-semibold text-primary-600">
+                                {booking.customer.fullName
+                                  .split(" ")
+                                  .map((n) => n[0])
+                                  .join("")
+                                  .slice(0, 2)}
+                              </span>
+                            )}
+                          </div>
 
-                    {/* Right: Status & Actions */}
-                    <div className="flex items-center space-x-3">
-                      <div className="text-right">
-                        <div className="font-semibold text-gray-900">
-                          {formatCurrency(parseFloat(booking.service.price))}
-                        </div>
-                        <div className="text-sm text-gray-500">
-                          {booking.service.duration} min
+                          <div className="flex-1">
+                            <div className="flex items-center space-x-2 mb-1">
+                              <h3 className="font-semibold text-gray-900">
+                                {booking.customer.fullName}
+                              </h3>
+                              <span className="text-sm text-gray-500">•</span>
+                              <span className="text-sm text-gray-600">
+                                #{booking.id.slice(-6).toUpperCase()}
+                              </span>
+                              {booking.series && (
+                                <Repeat
+                                  className="w-4 h-4 text-gray-400"
+                                  aria-label="Recurring booking"
+                                />
+                              )}
+                            </div>
+
+                            <div className="flex items-center space-x-4 text-sm text-gray-600">
+                              <div className="flex items-center space-x-1">
+                                <Calendar className="w-4 h-4" />
+                                <span>{formatDate(booking.bookingDate)}</span>
+                              </div>
+                              <div className="flex items-center space-x-1">
+                                <Clock className="w-4 h-4" />
+                                <span>{formatShopTime(booking.startTime)}</span>
+                              </div>
+                              <div className="flex items-center space-x-1">
+                                <Scissors className="w-4 h-4" />
+                                <span>{describeServices(booking)}</span>
+                              </div>
+                              <div className="flex items-center space-x-1">
+                                <User className="w-4 h-4" />
+                                <span>{booking.stylist.user.fullName}</span>
+                              </div>
+                            </div>
+                          </div>
                         </div>
-                      </div>
-
-                      <span
-                        className={`px-3 py-1 rounded-full text-sm font-medium flex items-center ${statusInfo.color}`}
-                      >
-                        <StatusIcon className="w-4 h-4 mr-1" />
-                        {statusInfo.label}
-                      </span>
 
-                      <div className="flex items-center space-x-2">
-                        <Button
-                          variant="secondary"
-                          size="sm"
-                          onClick={() => handleViewBooking(booking)}
-                        >
-                          <Eye className="w-4 h-4" />
-                        </Button>
+                        {/* Right: Status & Actions */}
+                        <div className="flex items-center space-x-3">
+                          <div className="text-right">
+                            <div className="font-semibold text-gray-900">
+                              {formatMoney(booking.totalPrice)}
+                            </div>
+                            <div className="text-sm text-gray-500">
+                              {bookingDuration(booking)} min
+                            </div>
+                          </div>
 
-                        {canManageAllBookings && (
-                          <Button
-                            variant="secondary"
-                            size="sm"
-                            onClick={() => handleEditBooking(booking)}
+                          <span
+                            className={`px-3 py-1 rounded-full text-sm font-medium flex items-center ${statusInfo.color}`}
                           >
-                            <Edit3 className="w-4 h-4" />
-                          </Button>
-                        )}
+                            <StatusIcon className="w-4 h-4 mr-1" />
+                            {statusInfo.label}
+                          </span>
 
-                        {booking.status !== "cancelled" &&
-                          booking.status !== "completed" && (
+                          {pendingBookingIds.has(booking.id) && (
+                            <span className="px-3 py-1 rounded-full text-sm font-medium flex items-center bg-gray-100 text-gray-700">
+                              <CloudOff className="w-4 h-4 mr-1" />
+                              Pending sync
+                            </span>
+                          )}
+
+                          <div className="flex items-center space-x-2">
                             <Button
-                              variant="danger"
+                              variant="secondary"
                               size="sm"
-                              onClick={() => handleCancelBooking(booking)}
+                              onClick={() => handleViewBooking(booking)}
                             >
-                              <X className="w-4 h-4" />
+                              <Eye className="w-4 h-4" />
                             </Button>
-                          )}
+
+                            <Can permission="booking:update">
+                              <Button
+                                variant="secondary"
+                                size="sm"
+                                onClick={() => handleEditBooking(booking)}
+                              >
+                                <Edit3 className="w-4 h-4" />
+                              </Button>
+                            </Can>
+
+                            {booking.status !== "cancelled" &&
+                              booking.status !== "completed" && (
+                                <Can permission="booking:cancel">
+                                  <Button
+                                    variant="danger"
+                                    size="sm"
+                                    onClick={() => handleCancelBooking(booking)}
+                                  >
+                                    <X className="w-4 h-4" />
+                                  </Button>
+                                </Can>
+                              )}
+                          </div>
+                        </div>
                       </div>
-                    </div>
-                  </div>
 
-                  {booking.notes && (
-                    <div className="mt-3 pt-3 border-t border-gray-200">
-                      <p className="text-sm text-gray-600">
-                        <strong>Notes:</strong> {booking.notes}
-                      </p>
-                    </div>
-                  )}
-                </Card.Body>
-              </Card>
-            );
-          })}
-        </div>
-      ) : (
-        <Card>
-          <Card.Body>
-            <div className="text-center py-12">
-              <Calendar className="w-16 h-16 text-gray-300 mx-auto mb-4" />
-              <h3 className="text-lg font-semibold text-gray-900 mb-2">
-                No Bookings Found
-              </h3>
-              <p className="text-gray-600 mb-6">
-                {searchTerm ||
-                filters.status !== "all" ||
-                filters.stylistId !== "all"
-                  ? "No bookings match your current search and filters."
-                  : "No bookings have been made yet."}
-              </p>
-              {canManageAllBookings &&
-                !searchTerm &&
-                filters.status === "all" &&
-                filters.stylistId === "all" && (
-                  <Button onClick={handleCreateBooking}>
-                    <Plus className="w-4 h-4 mr-2" />
-                    Create First Booking
-                  </Button>
-                )}
+                      {booking.notes && (
+                        <div className="mt-3 pt-3 border-t border-gray-200">
+                          <p className="text-sm text-gray-600">
+                            <strong>Notes:</strong> {booking.notes}
+                          </p>
+                        </div>
+                      )}
+                    </Card.Body>
+                  </Card>
+                );
+              })}
             </div>
-          </Card.Body>
-        </Card>
+          ) : (
+            <Card>
+              <Card.Body>
+                <div className="text-center py-12">
+                  <Calendar className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+                  <h3 className="text-lg font-semibold text-gray-900 mb-2">
+                    No Bookings Found
+                  </h3>
+                  <p className="text-gray-600 mb-6">
+                    {searchTerm ||
+                    filters.status !== "all" ||
+                    filters.stylistId !== "all"
+                      ? "No bookings match your current search and filters."
+                      : "No bookings have been made yet."}
+                  </p>
+                  {can("booking:create") &&
+                    !searchTerm &&
+                    filters.status === "all" &&
+                    filters.stylistId === "all" && (
+                      <Button onClick={handleCreateBooking}>
+                        <Plus className="w-4 h-4 mr-2" />
+                        Create First Booking
+                      </Button>
+                    )}
+                </div>
+              </Card.Body>
+            </Card>
+          )}
+        </>
       )}
 
       {/* Modals */}
-      {renderBookingModal(false)}
-      {renderBookingModal(true)}
+      <BookingWizardModal
+        isOpen={showCreateModal}
+        onClose={() => setShowCreateModal(false)}
+        onSubmit={handleCreateSubmit}
+        services={services}
+        stylists={stylists}
+        loading={submitting}
+        error={error}
+      />
+      <SeriesScopeModal
+        isOpen={!!seriesAction}
+        action={seriesAction?.action ?? "cancel"}
+        onClose={() => setSeriesAction(null)}
+        onConfirm={handleSeriesScope}
+      />
+      {renderEditModal()}
       {renderDetailsModal()}
 
       {/* Success Message */}
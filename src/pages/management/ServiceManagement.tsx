@@ -22,15 +22,18 @@ import {
 import Card from "../../components/ui/Card";
 import Button from "../../components/ui/Button";
 import { usePermissions } from "../../hooks/useAuth";
+import { useQuery } from "../../hooks/useQuery";
 import { serviceService } from "../../services/serviceService";
+import { getFieldErrors } from "../../services/errors";
+import { queryCache, queryKeys } from "../../services/queryCache";
+import type { FieldErrors } from "../../services/errors";
 import { ServiceFormModal, ServiceDetailsModal } from "../../components/modals";
 import type { Service } from "../../types";
 import type { ServiceFormData } from "../../components/modals";
+import { divideMoney, formatMoney, sumMoney } from "../../utils/money";
 
 const ServiceManagement: React.FC = () => {
   const { canManageServices, isAdmin } = usePermissions();
-  const [services, setServices] = useState<Service[]>([]);
-  const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
   const [filterCategory, setFilterCategory] = useState<string>("all");
   const [filterStatus, setFilterStatus] = useState<
@@ -44,12 +47,25 @@ const ServiceManagement: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const [submitting, setSubmitting] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+
+  const servicesQuery = useQuery(
+    queryKeys.services,
+    () => serviceService.getAllServices(),
+    { enabled: canManageServices() },
+  );
+  const services = servicesQuery.data ?? [];
+  const loading = servicesQuery.isLoading;
 
   useEffect(() => {
-    if (canManageServices) {
-      loadServices();
+    if (servicesQuery.error) {
+      setError(
+        servicesQuery.error instanceof Error
+          ? servicesQuery.error.message
+          : "Failed to load services",
+      );
     }
-  }, [canManageServices]);
+  }, [servicesQuery.error]);
 
   useEffect(() => {
     if (success) {
@@ -65,18 +81,6 @@ const ServiceManagement: React.FC = () => {
     }
   }, [error]);
 
-  const loadServices = async () => {
-    try {
-      setLoading(true);
-      const data = await serviceService.getAllServices();
-      setServices(data);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to load services");
-    } finally {
-      setLoading(false);
-    }
-  };
-
   const filteredServices = services.filter((service) => {
     const matchesSearch =
       service.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -93,14 +97,6 @@ const ServiceManagement: React.FC = () => {
     return matchesSearch && matchesCategory && matchesStatus;
   });
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat("id-ID", {
-      style: "currency",
-      currency: "IDR",
-      minimumFractionDigits: 0,
-    }).format(amount);
-  };
-
   const formatDuration = (minutes: number) => {
     if (minutes < 60) return `${minutes} min`;
     const hours = Math.floor(minutes / 60);
@@ -114,11 +110,13 @@ const ServiceManagement: React.FC = () => {
 
   const handleCreateService = () => {
     setSelectedService(null);
+    setFieldErrors({});
     setShowCreateModal(true);
   };
 
   const handleEditService = (service: Service) => {
     setSelectedService(service);
+    setFieldErrors({});
     setShowEditModal(true);
   };
 
@@ -130,6 +128,7 @@ const ServiceManagement: React.FC = () => {
   const handleFormSubmit = async (data: ServiceFormData) => {
     setSubmitting(true);
     setError(null);
+    setFieldErrors({});
 
     try {
       const serviceData = {
@@ -147,8 +146,9 @@ const ServiceManagement: React.FC = () => {
         setShowCreateModal(false);
       }
 
-      await loadServices();
+      queryCache.invalidate(queryKeys.services);
     } catch (err) {
+      setFieldErrors(getFieldErrors(err));
       setError(err instanceof Error ? err.message : "Failed to save service");
     } finally {
       setSubmitting(false);
@@ -174,7 +174,7 @@ const ServiceManagement: React.FC = () => {
       setSuccess(
         `Service ${!service.isActive ? "activated" : "deactivated"} successfully!`,
       );
-      await loadServices();
+      queryCache.invalidate(queryKeys.services);
     } catch (err) {
       setError(
         err instanceof Error ? err.message : "Failed to update service status",
@@ -188,7 +188,7 @@ const ServiceManagement: React.FC = () => {
       setSuccess(
         `Service ${!service.isPopular ? "marked as popular" : "unmarked as popular"}!`,
       );
-      await loadServices();
+      queryCache.invalidate(queryKeys.services);
     } catch (err) {
       setError(
         err instanceof Error ? err.message : "Failed to update popular status",
@@ -210,7 +210,7 @@ const ServiceManagement: React.FC = () => {
       try {
         await serviceService.deleteService(service.id);
         setSuccess("Service deleted successfully!");
-        await loadServices();
+        queryCache.invalidate(queryKeys.services);
       } catch (err) {
         setError(
           err instanceof Error ? err.message : "Failed to delete service",
@@ -316,14 +316,12 @@ const ServiceManagement: React.FC = () => {
               <div>
                 <p className="text-sm font-medium text-gray-600">Avg. Price</p>
                 <p className="text-2xl font-bold text-gray-900">
-                  {services.length > 0
-                    ? formatCurrency(
-                        services.reduce(
-                          (sum, s) => sum + parseFloat(s.price),
-                          0,
-                        ) / services.length,
-                      )
-                    : formatCurrency(0)}
+                  {formatMoney(
+                    divideMoney(
+                      sumMoney(services, (s) => s.price),
+                      services.length,
+                    ),
+                  )}
                 </p>
               </div>
               <div className="p-3 bg-purple-100 rounded-full">
@@ -440,7 +438,7 @@ const ServiceManagement: React.FC = () => {
                   <div className="flex items-center justify-between text-sm">
                     <span className="text-gray-600">Price</span>
                     <span className="font-bold text-primary-600">
-                      {formatCurrency(parseFloat(service.price))}
+                      {formatMoney(service.price)}
                     </span>
                   </div>
 
@@ -583,6 +581,7 @@ const ServiceManagement: React.FC = () => {
         service={null}
         loading={submitting}
         error={error}
+        fieldErrors={fieldErrors}
       />
 
       <ServiceFormModal
@@ -592,6 +591,7 @@ const ServiceManagement: React.FC = () => {
         service={selectedService}
         loading={submitting}
         error={error}
+        fieldErrors={fieldErrors}
       />
 
       <ServiceDetailsModal
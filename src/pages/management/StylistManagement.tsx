@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
 import {
   Users,
   Plus,
@@ -18,9 +19,16 @@ import {
 import Card from "../../components/ui/Card";
 import Button from "../../components/ui/Button";
 import Modal from "../../components/ui/Modal";
-import { usePermissions } from "../../hooks/useAuth";
+import FieldError from "../../components/ui/FieldError";
+import Can from "../../components/auth/Can";
+import { useAuth, usePermissions } from "../../hooks/useAuth";
+import { useQuery } from "../../hooks/useQuery";
+import { getDashboardRoute } from "../../config/navigation";
 import { stylistService } from "../../services/stylistService";
 import { userService } from "../../services/userService";
+import { getFieldErrors } from "../../services/errors";
+import { queryCache, queryKeys } from "../../services/queryCache";
+import type { FieldErrors } from "../../services/errors";
 import type { Stylist, User, UserRole } from "../../types";
 
 interface StylistFormData {
@@ -45,9 +53,9 @@ interface StylistFormData {
 
 const StylistManagement: React.FC = () => {
   const { canManageStylists, isAdmin } = usePermissions();
-  const [stylists, setStylists] = useState<Stylist[]>([]);
+  const { startImpersonation } = useAuth();
+  const navigate = useNavigate();
   const [users, setUsers] = useState<User[]>([]);
-  const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
   const [filterStatus, setFilterStatus] = useState<
     "all" | "active" | "inactive"
@@ -76,6 +84,7 @@ const StylistManagement: React.FC = () => {
   });
   const [error, setError] = useState<string | null>(null);
   const [submitting, setSubmitting] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
 
   const specialtyOptions = [
     "Haircut",
@@ -87,24 +96,30 @@ const StylistManagement: React.FC = () => {
     "Wedding Package",
   ];
 
+  // Same cache entry the booking page reads, so switching pages is instant
+  const stylistsQuery = useQuery(
+    queryKeys.stylists,
+    () => stylistService.getAllStylists(),
+    { enabled: canManageStylists() },
+  );
+  const stylists = stylistsQuery.data ?? [];
+  const loading = stylistsQuery.isLoading;
+
   useEffect(() => {
     if (canManageStylists) {
-      loadStylists();
       loadAvailableUsers();
     }
   }, [canManageStylists]);
 
-  const loadStylists = async () => {
-    try {
-      setLoading(true);
-      const data = await stylistService.getAllStylists();
-      setStylists(data);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to load stylists");
-    } finally {
-      setLoading(false);
+  useEffect(() => {
+    if (stylistsQuery.error) {
+      setError(
+        stylistsQuery.error instanceof Error
+          ? stylistsQuery.error.message
+          : "Failed to load stylists",
+      );
     }
-  };
+  }, [stylistsQuery.error]);
 
   const loadAvailableUsers = async () => {
     try {
@@ -149,6 +164,7 @@ const StylistManagement: React.FC = () => {
       bio: "",
     });
     setSelectedStylist(null);
+    setFieldErrors({});
     setShowCreateModal(true);
   };
 
@@ -175,6 +191,7 @@ const StylistManagement: React.FC = () => {
       avatar: stylist.user.avatar,
     });
     setSelectedStylist(stylist);
+    setFieldErrors({});
     setShowEditModal(true);
   };
 
@@ -184,6 +201,7 @@ const StylistManagement: React.FC = () => {
     try {
       setSubmitting(true);
       setError(null);
+      setFieldErrors({});
 
       if (selectedStylist) {
         // Update existing stylist
@@ -234,8 +252,9 @@ const StylistManagement: React.FC = () => {
         setShowCreateModal(false);
       }
 
-      await loadStylists();
+      queryCache.invalidate(queryKeys.stylists);
     } catch (err) {
+      setFieldErrors(getFieldErrors(err));
       setError(err instanceof Error ? err.message : "Failed to save stylist");
     } finally {
       setSubmitting(false);
@@ -247,7 +266,7 @@ const StylistManagement: React.FC = () => {
       await stylistService.updateStylist(stylist.id, {
         isAvailable: !stylist.isAvailable,
       });
-      await loadStylists();
+      queryCache.invalidate(queryKeys.stylists);
     } catch (err) {
       setError(
         err instanceof Error ? err.message : "Failed to update availability",
@@ -268,7 +287,7 @@ const StylistManagement: React.FC = () => {
     ) {
       try {
         await stylistService.deleteStylist(stylist.id);
-        await loadStylists();
+        queryCache.invalidate(queryKeys.stylists);
       } catch (err) {
         setError(
           err instanceof Error ? err.message : "Failed to delete stylist",
@@ -277,6 +296,18 @@ const StylistManagement: React.FC = () => {
     }
   };
 
+  // Open the stylist's own view of the dashboard, e.g. to check their schedule
+  const handleImpersonate = async (stylist: Stylist) => {
+    try {
+      await startImpersonation(stylist.userId);
+      navigate(getDashboardRoute("bookings")?.path || "/dashboard");
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to impersonate stylist",
+      );
+    }
+  };
+
   const handleSpecialtyToggle = (specialty: string) => {
     setFormData((prev) => ({
       ...prev,
@@ -308,9 +339,11 @@ const StylistManagement: React.FC = () => {
               onChange={(e) =>
                 setFormData({ ...formData, fullName: e.target.value })
               }
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 aria-[invalid=true]:border-red-500"
+              aria-invalid={!!fieldErrors.fullName}
               required
             />
+            <FieldError message={fieldErrors.fullName} />
           </div>
 
           <div>
@@ -323,10 +356,12 @@ const StylistManagement: React.FC = () => {
               onChange={(e) =>
                 setFormData({ ...formData, email: e.target.value })
               }
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 aria-[invalid=true]:border-red-500"
+              aria-invalid={!!fieldErrors.email}
               required
               disabled={isEdit}
             />
+            <FieldError message={fieldErrors.email} />
           </div>
 
           <div>
@@ -339,9 +374,11 @@ const StylistManagement: React.FC = () => {
               onChange={(e) =>
                 setFormData({ ...formData, phone: e.target.value })
               }
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 aria-[invalid=true]:border-red-500"
+              aria-invalid={!!fieldErrors.phone}
               required
             />
+            <FieldError message={fieldErrors.phone} />
           </div>
 
           <div>
@@ -357,9 +394,11 @@ const StylistManagement: React.FC = () => {
                   experience: parseInt(e.target.value) || 0,
                 })
               }
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 aria-[invalid=true]:border-red-500"
+              aria-invalid={!!fieldErrors.experience}
               min="0"
             />
+            <FieldError message={fieldErrors.experience} />
           </div>
         </div>
 
@@ -381,6 +420,7 @@ const StylistManagement: React.FC = () => {
               </label>
             ))}
           </div>
+          <FieldError message={fieldErrors.specialties} />
         </div>
 
         {/* Commission Rate */}
@@ -398,11 +438,13 @@ const StylistManagement: React.FC = () => {
                   commissionRate: parseFloat(e.target.value) || 0,
                 })
               }
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 aria-[invalid=true]:border-red-500"
+              aria-invalid={!!fieldErrors.commissionRate}
               min="0"
               max="100"
               step="0.5"
             />
+            <FieldError message={fieldErrors.commissionRate} />
           </div>
 
           <div className="flex items-center space-x-2">
@@ -432,10 +474,12 @@ const StylistManagement: React.FC = () => {
           <textarea
             value={formData.bio}
             onChange={(e) => setFormData({ ...formData, bio: e.target.value })}
-            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 aria-[invalid=true]:border-red-500"
+            aria-invalid={!!fieldErrors.bio}
             rows={3}
             placeholder="Brief description about the stylist..."
           />
+          <FieldError message={fieldErrors.bio} />
         </div>
 
         {error && (
@@ -672,6 +716,17 @@ const StylistManagement: React.FC = () => {
                     )}
                   </Button>
 
+                  <Can permission="user:impersonate">
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      onClick={() => handleImpersonate(stylist)}
+                      title="Lihat sebagai stylist"
+                    >
+                      <Eye className="w-4 h-4" />
+                    </Button>
+                  </Can>
+
                   {isAdmin && (
                     <Button
                       variant="danger"
@@ -17,11 +17,10 @@ import {
 } from "lucide-react";
 import Card from "../components/ui/Card";
 import Button from "../components/ui/Button";
-import {
-  customerService,
-  type Customer,
-  type CustomerFilter,
-} from "../services/customerService";
+import { isRequestCancelled } from "../services/api";
+import { customerService } from "../services/customerService";
+import type { Customer, CustomerFilter } from "../types";
+import { formatMoney, toMoney, ZERO_MONEY } from "../utils/money";
 
 const Pelanggan: React.FC = () => {
   const navigate = useNavigate();
@@ -44,30 +43,37 @@ const Pelanggan: React.FC = () => {
     averageLifetimeValue: 0,
   });
 
-  const fetchCustomers = useCallback(async () => {
-    setLoading(true);
-    try {
-      const response = await customerService.getCustomers(page, 10, {
-        ...filters,
-        search: searchTerm,
-      });
-      setCustomers(response.data);
-      setTotalPages(Math.ceil(response.total / response.limit));
-      setLoading(false);
-      setError(null);
-    } catch (err) {
-      setError("Failed to fetch customer data");
-      console.error(err);
-    } finally {
-      setLoading(false);
-    }
-  }, [page, filters, searchTerm]);
+  const fetchCustomers = useCallback(
+    async (signal?: AbortSignal) => {
+      setLoading(true);
+      try {
+        const response = await customerService.getCustomers(
+          page,
+          10,
+          { ...filters, search: searchTerm },
+          signal,
+        );
+        setCustomers(response.data);
+        setTotalPages(response.meta.totalPages);
+        setError(null);
+        setLoading(false);
+      } catch (err) {
+        // Superseded by a newer search; that request owns the loading state
+        if (isRequestCancelled(err)) return;
+        setError("Failed to fetch customer data");
+        console.error(err);
+        setLoading(false);
+      }
+    },
+    [page, filters, searchTerm],
+  );
 
-  const fetchStatistics = useCallback(async () => {
+  const fetchStatistics = useCallback(async (signal?: AbortSignal) => {
     try {
-      const response = await customerService.getCustomerStatistics();
+      const response = await customerService.getCustomerStatistics(signal);
       setStatistics(response.data);
     } catch (err) {
+      if (isRequestCancelled(err)) return;
       console.error("Failed to fetch customer statistics:", err);
     }
   }, []);
@@ -78,8 +84,10 @@ const Pelanggan: React.FC = () => {
   };
 
   useEffect(() => {
-    fetchCustomers();
-    fetchStatistics();
+    const controller = new AbortController();
+    fetchCustomers(controller.signal);
+    fetchStatistics(controller.signal);
+    return () => controller.abort();
   }, [fetchCustomers, fetchStatistics]);
 
   const handleSearch = (e: React.FormEvent) => {
@@ -116,16 +124,6 @@ const Pelanggan: React.FC = () => {
     }).format(date);
   };
 
-  const formatCurrency = (amount: number | undefined) => {
-    if (amount === undefined) return "Rp 0";
-
-    return new Intl.NumberFormat("id-ID", {
-      style: "currency",
-      currency: "IDR",
-      minimumFractionDigits: 0,
-    }).format(amount);
-  };
-
   if (loading && customers.length === 0) {
     return (
       <div className="flex items-center justify-center min-h-[60vh]">
@@ -204,7 +202,7 @@ const Pelanggan: React.FC = () => {
                 Nilai Rata-rata
               </p>
               <h3 className="text-xl font-bold">
-                {formatCurrency(statistics.averageLifetimeValue)}
+                {formatMoney(toMoney(statistics.averageLifetimeValue))}
               </h3>
               <p className="text-xs text-gray-500">Per pelanggan</p>
             </div>
@@ -263,7 +261,7 @@ const Pelanggan: React.FC = () => {
               variant="secondary"
               size="sm"
               className="mt-2"
-              onClick={fetchCustomers}
+              onClick={() => fetchCustomers()}
             >
               Coba Lagi
             </Button>
@@ -348,7 +346,7 @@ const Pelanggan: React.FC = () => {
                         {customer.totalBookings || 0}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                        {formatCurrency(customer.totalSpent)}
+                        {formatMoney(customer.totalSpent ?? ZERO_MONEY)}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         {customer.membershipLevel && (
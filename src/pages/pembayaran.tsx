@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useState, useEffect, useCallback, useRef } from "react";
 import { useNavigate } from "react-router-dom";
 import {
   DollarSign,
@@ -13,15 +13,16 @@ import {
 } from "lucide-react";
 import Card from "../components/ui/Card";
 import Button from "../components/ui/Button";
-import {
-  paymentService,
-  type Payment,
-  type PaymentFilter,
-} from "../services/paymentService";
+import Can from "../components/auth/Can";
+import { createIdempotencyKey } from "../services/api";
+import { paymentService } from "../services/paymentService";
+import type { Payment, PaymentFilter, PaymentStatusType } from "../types";
+import { formatMoney } from "../utils/money";
+import { formatShopDateTime } from "../utils/shopTime";
 
-const PaymentStatusBadge = ({ status }: { status: string }) => {
+const PaymentStatusBadge = ({ status }: { status: PaymentStatusType }) => {
   const statusConfig: Record<
-    string,
+    PaymentStatusType,
     { color: string; bg: string; text: string }
   > = {
     pending: {
@@ -44,6 +45,11 @@ const PaymentStatusBadge = ({ status }: { status: string }) => {
       bg: "bg-red-100",
       text: "Gagal",
     },
+    refunded: {
+      color: "text-blue-700",
+      bg: "bg-blue-100",
+      text: "Dikembalikan",
+    },
   };
 
   const config = statusConfig[status] || statusConfig.pending;
@@ -66,13 +72,16 @@ const Pembayaran: React.FC = () => {
   const [totalPages, setTotalPages] = useState<number>(1);
   const [filters, setFilters] = useState<PaymentFilter>({});
   const [searchTerm, setSearchTerm] = useState<string>("");
+  // One key per payment until its refund succeeds, so clicking again after
+  // a timeout repeats the same refund instead of making a second one
+  const refundKeys = useRef(new Map<string, string>());
 
   const fetchPayments = useCallback(async () => {
     setLoading(true);
     try {
       const response = await paymentService.getPayments(page, 10, filters);
       setPayments(response.data);
-      setTotalPages(Math.ceil(response.total / response.limit));
+      setTotalPages(response.meta.totalPages);
       setLoading(false);
       setError(null);
     } catch (err) {
@@ -98,30 +107,36 @@ const Pembayaran: React.FC = () => {
     console.log("Searching for:", searchTerm);
   };
 
+  const handleRefund = async (payment: Payment) => {
+    if (!window.confirm("Kembalikan dana untuk transaksi ini?")) return;
+
+    const key = refundKeys.current.get(payment.id) ?? createIdempotencyKey();
+    refundKeys.current.set(payment.id, key);
+
+    try {
+      await paymentService.refundPayment(payment.id, key);
+      refundKeys.current.delete(payment.id);
+      fetchPayments();
+    } catch (err) {
+      setError("Failed to refund payment");
+      console.error(err);
+    }
+  };
+
   const handlePageChange = (newPage: number) => {
     if (newPage > 0 && newPage <= totalPages) {
       setPage(newPage);
     }
   };
 
-  const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
-    return new Intl.DateTimeFormat("id-ID", {
+  const formatDate = (dateString: string) =>
+    formatShopDateTime(dateString, {
       day: "numeric",
       month: "long",
       year: "numeric",
       hour: "2-digit",
       minute: "2-digit",
-    }).format(date);
-  };
-
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat("id-ID", {
-      style: "currency",
-      currency: "IDR",
-      minimumFractionDigits: 0,
-    }).format(amount);
-  };
+    });
 
   if (loading && payments.length === 0) {
     return (
@@ -252,10 +267,12 @@ const Pembayaran: React.FC = () => {
             <span className="hidden sm:inline">Filter</span>
           </Button>
 
-          <Button variant="secondary" className="flex items-center gap-1">
-            <Download className="h-4 w-4" />
-            <span className="hidden sm:inline">Export</span>
-          </Button>
+          <Can permission="payment:export">
+            <Button variant="secondary" className="flex items-center gap-1">
+              <Download className="h-4 w-4" />
+              <span className="hidden sm:inline">Export</span>
+            </Button>
+          </Can>
         </div>
       </div>
 
@@ -320,7 +337,7 @@ const Pembayaran: React.FC = () => {
                         {formatDate(payment.createdAt)}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                        {formatCurrency(payment.amount)}
+                        {formatMoney(payment.amount)}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                         {payment.paymentMethod}
@@ -340,15 +357,28 @@ const Pembayaran: React.FC = () => {
                             Detail
                           </Button>
                           {payment.status === "pending" && (
-                            <Button
-                              size="sm"
-                              onClick={() => {
-                                // Process payment logic
-                                console.log("Process payment", payment.id);
-                              }}
-                            >
-                              Proses
-                            </Button>
+                            <Can permission="payment:process">
+                              <Button
+                                size="sm"
+                                onClick={() => {
+                                  // Process payment logic
+                                  console.log("Process payment", payment.id);
+                                }}
+                              >
+                                Proses
+                              </Button>
+                            </Can>
+                          )}
+                          {payment.status === "completed" && (
+                            <Can permission="payment:refund">
+                              <Button
+                                variant="danger"
+                                size="sm"
+                                onClick={() => handleRefund(payment)}
+                              >
+                                Refund
+                              </Button>
+                            </Can>
                           )}
                         </div>
                       </td>
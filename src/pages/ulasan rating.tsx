@@ -14,11 +14,9 @@ import {
 } from "lucide-react";
 import Card from "../components/ui/Card";
 import Button from "../components/ui/Button";
-import {
-  reviewService,
-  type Review,
-  type ReviewFilter,
-} from "../services/reviewService";
+import { isRequestCancelled } from "../services/api";
+import { reviewService } from "../services/reviewService";
+import type { Review, ReviewFilter } from "../types";
 
 const RatingStars = ({ rating }: { rating: number }) => {
   return (
@@ -88,27 +86,37 @@ const UlasanRating: React.FC = () => {
     ratingDistribution: {},
   });
 
-  const fetchReviews = useCallback(async () => {
-    setLoading(true);
-    try {
-      const response = await reviewService.getReviews(page, 10, filters);
-      setReviews(response.data);
-      setTotalPages(Math.ceil(response.total / response.limit));
-      setLoading(false);
-      setError(null);
-    } catch (err) {
-      setError("Failed to fetch reviews data");
-      console.error(err);
-    } finally {
-      setLoading(false);
-    }
-  }, [page, filters]);
+  const fetchReviews = useCallback(
+    async (signal?: AbortSignal) => {
+      setLoading(true);
+      try {
+        const response = await reviewService.getReviews(
+          page,
+          10,
+          filters,
+          signal,
+        );
+        setReviews(response.data);
+        setTotalPages(response.meta.totalPages);
+        setError(null);
+        setLoading(false);
+      } catch (err) {
+        // Superseded by a newer filter; that request owns the loading state
+        if (isRequestCancelled(err)) return;
+        setError("Failed to fetch reviews data");
+        console.error(err);
+        setLoading(false);
+      }
+    },
+    [page, filters],
+  );
 
-  const fetchStatistics = useCallback(async () => {
+  const fetchStatistics = useCallback(async (signal?: AbortSignal) => {
     try {
-      const response = await reviewService.getReviewStatistics();
+      const response = await reviewService.getReviewStatistics(signal);
       setStatistics(response.data);
     } catch (err) {
+      if (isRequestCancelled(err)) return;
       console.error("Failed to fetch review statistics:", err);
     }
   }, []);
@@ -119,8 +127,10 @@ const UlasanRating: React.FC = () => {
   };
 
   useEffect(() => {
-    fetchReviews();
-    fetchStatistics();
+    const controller = new AbortController();
+    fetchReviews(controller.signal);
+    fetchStatistics(controller.signal);
+    return () => controller.abort();
   }, [fetchReviews, fetchStatistics]);
 
   const handleSearch = (e: React.FormEvent) => {
@@ -334,7 +344,7 @@ const UlasanRating: React.FC = () => {
               variant="secondary"
               size="sm"
               className="mt-2"
-              onClick={fetchReviews}
+              onClick={() => fetchReviews()}
             >
               Coba Lagi
             </Button>
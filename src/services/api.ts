@@ -1,13 +1,162 @@
-import axios from "axios";
-import type { AxiosInstance, AxiosResponse, AxiosError } from "axios";
-import type { ApiResponse, PaginatedResponse } from "../types";
+import axios, { CanceledError } from "axios";
+import type {
+  AxiosInstance,
+  AxiosRequestConfig,
+  AxiosResponse,
+  AxiosError,
+  GenericAbortSignal,
+  InternalAxiosRequestConfig,
+} from "axios";
+import type {
+  ApiResponse,
+  PaginatedResponse,
+  PaginationMeta,
+} from "../types";
+import { CancelledError, toApiError } from "./errors";
+import { array, decode } from "./schema";
+import type { Decoder } from "./schema";
 
 // API Configuration
 const API_BASE_URL =
   import.meta.env.VITE_API_BASE_URL || "http://localhost:3000/api/v1";
 
+// Serve every request from in-browser fixtures instead of the backend.
+// Opt-in only: never used as a fallback when the real API is down.
+export const FIXTURE_BACKEND_ENABLED = import.meta.env.VITE_MOCK_API === "true";
+
+// Endpoints that must never trigger a token refresh on 401
+const AUTH_ENDPOINTS = [
+  "/auth/login",
+  "/auth/refresh",
+  "/auth/logout",
+  "/auth/2fa/verify",
+  "/auth/forgot-password",
+  "/auth/reset-password",
+  "/auth/verify-email",
+  "/auth/resend-verification",
+];
+
+// Identifies the real (admin) user behind an impersonated request
+const IMPERSONATOR_HEADER = "X-Impersonator-Id";
+
+// Client-generated key that lets the server recognise a repeated mutation
+export const IDEMPOTENCY_HEADER = "Idempotency-Key";
+
+// Set by the server when it answers with the stored result of an earlier
+// request that used the same idempotency key
+const IDEMPOTENT_REPLAY_HEADER = "idempotent-replayed";
+
+// randomUUID is only available in secure contexts, and the shop tablets
+// may reach the dashboard over plain http on the LAN
+export const createIdempotencyKey = (): string =>
+  typeof crypto.randomUUID === "function"
+    ? crypto.randomUUID()
+    : Array.from(crypto.getRandomValues(new Uint8Array(16)), (byte) =>
+        byte.toString(16).padStart(2, "0"),
+      ).join("");
+
+export interface RetryPolicy {
+  // Extra attempts after the first failure
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+};
+
+// Safe to repeat without side effects; retried by default
+const IDEMPOTENT_METHODS = ["get", "head", "options", "put", "delete"];
+
+// Transient statuses worth another attempt
+const RETRYABLE_STATUSES = [408, 425, 429, 500, 502, 503, 504];
+
+declare module "axios" {
+  interface AxiosRequestConfig {
+    // Per-request retry policy; false disables retries. POST/PATCH only
+    // retry when they opt in and carry an idempotency key.
+    retry?: Partial<RetryPolicy> | false;
+    // Sent as the Idempotency-Key header; reuse it when resubmitting
+    idempotencyKey?: string;
+    // Aborts the previous in-flight request sent with the same key, so a
+    // slow stale response can never overwrite a newer one
+    cancelKey?: string;
+    // Identical concurrent GETs share one network call unless disabled
+    dedupe?: boolean;
+  }
+}
+
+export interface RequestOptions<T = unknown> extends AxiosRequestConfig {
+  // Checks and normalises the response data before the caller sees it;
+  // for getPaginated it decodes each item
+  decoder?: Decoder<T>;
+}
+
+// A request currently waiting for, or running, another attempt
+export interface RetryEvent {
+  id: number;
+  method: string;
+  url: string;
+  attempt: number;
+  retries: number;
+  delayMs: number;
+}
+
+export type RetryListener = (retries: RetryEvent[]) => void;
+
+// Query parameter used to return to the current route after re-login
+export const LOGIN_REDIRECT_PARAM = "redirect";
+
+export type TokenRefreshHandler = () => Promise<string>;
+
+interface RetryableRequestConfig extends InternalAxiosRequestConfig {
+  _retry?: boolean;
+  _retryAttempt?: number;
+  _retryId?: number;
+}
+
+// GET shared by every caller that asked for the same resource meanwhile
+interface InflightRequest {
+  promise: Promise<AxiosResponse>;
+  controller: AbortController;
+  subscribers: number;
+}
+
+// Aborts when any of the given signals does
+const linkSignals = (
+  ...signals: (GenericAbortSignal | undefined)[]
+): AbortSignal => {
+  const controller = new AbortController();
+  signals.forEach((signal) => {
+    if (!signal) return;
+    if (signal.aborted) {
+      controller.abort();
+    } else {
+      signal.addEventListener?.("abort", () => controller.abort());
+    }
+  });
+  return controller.signal;
+};
+
+interface QueuedRequest {
+  resolve: (token: string) => void;
+  reject: (error: unknown) => void;
+}
+
 class ApiService {
   private axiosInstance: AxiosInstance;
+  private refreshHandler: TokenRefreshHandler | null = null;
+  private isRefreshing = false;
+  private refreshQueue: QueuedRequest[] = [];
+  private impersonatorId: string | null = null;
+  private activeRetries: RetryEvent[] = [];
+  private retryListeners = new Set<RetryListener>();
+  private nextRetryId = 1;
+  private inflightGets = new Map<string, InflightRequest>();
+  private cancelControllers = new Map<string, AbortController>();
 
   constructor() {
     this.axiosInstance = axios.create({
@@ -18,6 +167,14 @@ class ApiService {
       },
     });
 
+    if (FIXTURE_BACKEND_ENABLED) {
+      // Loaded lazily so fixtures stay out of bundles that don't enable them
+      this.axiosInstance.defaults.adapter = (config) =>
+        import("./fixtures/adapter").then(({ fixtureAdapter }) =>
+          fixtureAdapter(config),
+        );
+    }
+
     this.setupInterceptors();
   }
 
@@ -32,6 +189,13 @@ class ApiService {
         if (token) {
           config.headers.Authorization = `Bearer ${token}`;
         }
+        // Tag every request made while impersonating with the real actor
+        if (this.impersonatorId) {
+          config.headers[IMPERSONATOR_HEADER] = this.impersonatorId;
+        }
+        if (config.idempotencyKey) {
+          config.headers[IDEMPOTENCY_HEADER] = config.idempotencyKey;
+        }
         return config;
       },
       (error) => {
@@ -42,16 +206,44 @@ class ApiService {
     // Response interceptor
     this.axiosInstance.interceptors.response.use(
       (response: AxiosResponse) => {
+        // Flag duplicate submissions so forms can show the original result
+        if (
+          response.headers?.[IDEMPOTENT_REPLAY_HEADER] === "true" &&
+          response.data &&
+          typeof response.data === "object"
+        ) {
+          response.data.replayed = true;
+        }
         return response;
       },
-      (error: AxiosError) => {
-        // Handle common errors
-        if (error.response && error.response.status === 401) {
-          // Unauthorized - clear auth and redirect to login
-          localStorage.removeItem("authToken");
-          sessionStorage.removeItem("authToken");
-          localStorage.removeItem("user");
-          window.location.href = "/login";
+      async (error: AxiosError) => {
+        const originalRequest = error.config as
+          | RetryableRequestConfig
+          | undefined;
+
+        // Unauthorized - refresh the token once and replay the request
+        if (
+          error.response &&
+          error.response.status === 401 &&
+          originalRequest &&
+          !originalRequest._retry &&
+          !this.isAuthEndpoint(originalRequest.url)
+        ) {
+          originalRequest._retry = true;
+
+          try {
+            const token = await this.waitForFreshToken();
+            originalRequest.headers.Authorization = `Bearer ${token}`;
+            return this.axiosInstance(originalRequest);
+          } catch (refreshError) {
+            this.redirectToLogin();
+            return Promise.reject(refreshError);
+          }
+        }
+
+        // Transient failure - back off and try again if the policy allows
+        if (originalRequest && this.shouldRetry(error, originalRequest)) {
+          return this.retryRequest(error, originalRequest);
         }
 
         if (error.response && error.response.status === 403) {
@@ -69,80 +261,387 @@ class ApiService {
     );
   }
 
+  // Register the function used to obtain a new access token on 401
+  setTokenRefreshHandler(handler: TokenRefreshHandler): void {
+    this.refreshHandler = handler;
+  }
+
+  // Set while an admin is impersonating another user; null to stop tagging
+  setImpersonator(userId: string | null): void {
+    this.impersonatorId = userId;
+  }
+
+  // Notified whenever a request starts or stops retrying
+  subscribeRetries(listener: RetryListener): () => void {
+    this.retryListeners.add(listener);
+    return () => {
+      this.retryListeners.delete(listener);
+    };
+  }
+
+  getActiveRetries(): RetryEvent[] {
+    return this.activeRetries;
+  }
+
+  private resolveRetryPolicy(
+    config: RetryableRequestConfig,
+  ): RetryPolicy | null {
+    if (config.retry === false) return null;
+
+    const method = (config.method ?? "get").toLowerCase();
+    const optedIn = !!config.retry && !!config.headers?.[IDEMPOTENCY_HEADER];
+    if (!IDEMPOTENT_METHODS.includes(method) && !optedIn) return null;
+
+    return { ...DEFAULT_RETRY_POLICY, ...config.retry };
+  }
+
+  private shouldRetry(
+    error: AxiosError,
+    config: RetryableRequestConfig,
+  ): boolean {
+    if (axios.isCancel(error) || this.isAuthEndpoint(config.url)) return false;
+
+    const policy = this.resolveRetryPolicy(config);
+    if (!policy || (config._retryAttempt ?? 0) >= policy.retries) return false;
+
+    // No response means the network dropped or the request timed out
+    return (
+      !error.response || RETRYABLE_STATUSES.includes(error.response.status)
+    );
+  }
+
+  // Honour Retry-After when present, otherwise exponential backoff with
+  // full jitter so reconnecting clients don't retry in lockstep
+  private getRetryDelay(
+    error: AxiosError,
+    attempt: number,
+    policy: RetryPolicy,
+  ): number {
+    const retryAfter = error.response?.headers?.["retry-after"];
+    if (retryAfter) {
+      const seconds = Number(retryAfter);
+      const delay = Number.isNaN(seconds)
+        ? new Date(retryAfter).getTime() - Date.now()
+        : seconds * 1000;
+      if (!Number.isNaN(delay)) {
+        return Math.min(Math.max(delay, 0), policy.maxDelayMs);
+      }
+    }
+
+    const ceiling = Math.min(
+      policy.maxDelayMs,
+      policy.baseDelayMs * 2 ** (attempt - 1),
+    );
+    return Math.round(Math.random() * ceiling);
+  }
+
+  private async retryRequest(
+    error: AxiosError,
+    config: RetryableRequestConfig,
+  ): Promise<AxiosResponse> {
+    const policy = this.resolveRetryPolicy(config)!;
+    const attempt = (config._retryAttempt ?? 0) + 1;
+    const delayMs = this.getRetryDelay(error, attempt, policy);
+
+    config._retryAttempt = attempt;
+    config._retryId = config._retryId ?? this.nextRetryId++;
+    this.setRetry(config._retryId, {
+      id: config._retryId,
+      method: (config.method ?? "get").toUpperCase(),
+      url: config.url ?? "",
+      attempt,
+      retries: policy.retries,
+      delayMs,
+    });
+
+    try {
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+      if (config.signal?.aborted) throw error;
+      return await this.axiosInstance(config);
+    } finally {
+      this.setRetry(config._retryId, null);
+    }
+  }
+
+  private setRetry(id: number, event: RetryEvent | null): void {
+    const others = this.activeRetries.filter((item) => item.id !== id);
+    // Nested attempts clear the same id; skip no-op notifications
+    if (!event && others.length === this.activeRetries.length) return;
+
+    this.activeRetries = event ? [...others, event] : others;
+    this.retryListeners.forEach((listener) => listener(this.activeRetries));
+  }
+
+  private isAuthEndpoint(url?: string): boolean {
+    return !!url && AUTH_ENDPOINTS.some((endpoint) => url.includes(endpoint));
+  }
+
+  // Queue the caller until a single in-flight refresh settles
+  private waitForFreshToken(): Promise<string> {
+    const queued = new Promise<string>((resolve, reject) => {
+      this.refreshQueue.push({ resolve, reject });
+    });
+
+    if (!this.isRefreshing) {
+      this.isRefreshing = true;
+
+      const refresh = this.refreshHandler
+        ? this.refreshHandler()
+        : Promise.reject(new Error("No token refresh handler registered"));
+
+      refresh
+        .then((token) => this.flushRefreshQueue(null, token))
+        .catch((refreshError) => this.flushRefreshQueue(refreshError))
+        .finally(() => {
+          this.isRefreshing = false;
+        });
+    }
+
+    return queued;
+  }
+
+  private flushRefreshQueue(error: unknown, token?: string): void {
+    const queue = this.refreshQueue;
+    this.refreshQueue = [];
+
+    queue.forEach(({ resolve, reject }) => {
+      if (error || !token) {
+        reject(error);
+      } else {
+        resolve(token);
+      }
+    });
+  }
+
+  // Send the user to login, remembering where they were
+  private redirectToLogin(): void {
+    localStorage.removeItem("authToken");
+    sessionStorage.removeItem("authToken");
+    localStorage.removeItem("user");
+
+    const { pathname, search, hash } = window.location;
+    if (pathname.startsWith("/login")) return;
+
+    const from = encodeURIComponent(`${pathname}${search}${hash}`);
+    window.location.href = `/login?${LOGIN_REDIRECT_PARAM}=${from}`;
+  }
+
+  // Single entry point for the generic methods below
+  private async send<T>(config: RequestOptions): Promise<AxiosResponse<T>> {
+    const { cancelKey, dedupe = true, ...request } = config;
+    let controller: AbortController | undefined;
+
+    if (cancelKey) {
+      this.cancelControllers.get(cancelKey)?.abort();
+      controller = new AbortController();
+      this.cancelControllers.set(cancelKey, controller);
+      request.signal = linkSignals(controller.signal, request.signal);
+    }
+
+    try {
+      const method = (request.method ?? "get").toLowerCase();
+      return method === "get" && dedupe
+        ? await this.sendShared<T>(request)
+        : await this.axiosInstance.request<T>(request);
+    } finally {
+      if (cancelKey && this.cancelControllers.get(cancelKey) === controller) {
+        this.cancelControllers.delete(cancelKey);
+      }
+    }
+  }
+
+  // Joins an identical in-flight GET. The network call is only aborted
+  // once every caller waiting on it has aborted.
+  private sendShared<T>(config: RequestOptions): Promise<AxiosResponse<T>> {
+    const { signal, ...request } = config;
+    const key = JSON.stringify([
+      request.url,
+      request.params,
+      request.responseType,
+    ]);
+
+    let entry = this.inflightGets.get(key);
+    if (!entry) {
+      const controller = new AbortController();
+      const created: InflightRequest = {
+        controller,
+        subscribers: 0,
+        promise: this.axiosInstance
+          .request({ ...request, signal: controller.signal })
+          .finally(() => {
+            if (this.inflightGets.get(key) === created) {
+              this.inflightGets.delete(key);
+            }
+          }),
+      };
+      this.inflightGets.set(key, created);
+      entry = created;
+    }
+
+    const shared = entry;
+    shared.subscribers++;
+
+    return new Promise((resolve, reject) => {
+      const leave = () => {
+        shared.subscribers--;
+        if (shared.subscribers === 0) {
+          shared.controller.abort();
+          if (this.inflightGets.get(key) === shared) {
+            this.inflightGets.delete(key);
+          }
+        }
+        reject(new CanceledError());
+      };
+
+      if (signal?.aborted) {
+        leave();
+        return;
+      }
+      signal?.addEventListener?.("abort", leave);
+
+      shared.promise
+        .then((response) => resolve(response as AxiosResponse<T>), reject)
+        .finally(() => signal?.removeEventListener?.("abort", leave));
+    });
+  }
+
+  // Successful payloads only; error bodies are handled by toApiError
+  private decodeData<T>(
+    body: ApiResponse<T>,
+    decoder: Decoder<T> | undefined,
+    source: string,
+  ): ApiResponse<T> {
+    if (!decoder || !body?.success || body.data == null) return body;
+    return { ...body, data: decode(decoder, body.data, source) };
+  }
+
+  // Cancellations are expected and not worth logging
+  private logFailure(label: string, url: string, error: unknown): void {
+    if (!axios.isCancel(error)) {
+      console.error(`API ${label} ${url} failed:`, error);
+    }
+  }
+
   // Generic methods
   async get<T>(
     url: string,
     params?: Record<string, unknown>,
+    options?: RequestOptions<T>,
   ): Promise<ApiResponse<T>> {
+    const { decoder, ...config } = options ?? {};
     try {
-      const response = await this.axiosInstance.get(url, { params });
-      return response.data;
+      const response = await this.send<ApiResponse<T>>({
+        ...config,
+        method: "get",
+        url,
+        params,
+      });
+      return this.decodeData(response.data, decoder, `GET ${url}`);
     } catch (error) {
-      console.error(`API GET ${url} failed:`, error);
-      throw error;
+      this.logFailure("GET", url, error);
+      throw toApiError(error);
     }
   }
 
   async post<T>(
     url: string,
-    data?: Record<string, unknown>,
+    data?: Record<string, unknown> | FormData,
+    options?: RequestOptions<T>,
   ): Promise<ApiResponse<T>> {
+    const { decoder, ...config } = options ?? {};
     try {
-      const response = await this.axiosInstance.post(url, data);
-      return response.data;
+      const response = await this.send<ApiResponse<T>>({
+        ...config,
+        method: "post",
+        url,
+        data,
+      });
+      return this.decodeData(response.data, decoder, `POST ${url}`);
     } catch (error) {
-      console.error(`API POST ${url} failed:`, error);
-      throw error;
+      this.logFailure("POST", url, error);
+      throw toApiError(error);
     }
   }
 
   async put<T>(
     url: string,
-    data?: Record<string, unknown>,
+    data?: Record<string, unknown> | FormData,
+    options?: RequestOptions<T>,
   ): Promise<ApiResponse<T>> {
+    const { decoder, ...config } = options ?? {};
     try {
-      const response = await this.axiosInstance.put(url, data);
-      return response.data;
+      const response = await this.send<ApiResponse<T>>({
+        ...config,
+        method: "put",
+        url,
+        data,
+      });
+      return this.decodeData(response.data, decoder, `PUT ${url}`);
     } catch (error) {
-      console.error(`API PUT ${url} failed:`, error);
-      throw error;
+      this.logFailure("PUT", url, error);
+      throw toApiError(error);
     }
   }
 
   async patch<T>(
     url: string,
-    data?: Record<string, unknown>,
+    data?: Record<string, unknown> | FormData,
+    options?: RequestOptions<T>,
   ): Promise<ApiResponse<T>> {
+    const { decoder, ...config } = options ?? {};
     try {
-      const response = await this.axiosInstance.patch(url, data);
-      return response.data;
+      const response = await this.send<ApiResponse<T>>({
+        ...config,
+        method: "patch",
+        url,
+        data,
+      });
+      return this.decodeData(response.data, decoder, `PATCH ${url}`);
     } catch (error) {
-      console.error(`API PATCH ${url} failed:`, error);
-      throw error;
+      this.logFailure("PATCH", url, error);
+      throw toApiError(error);
     }
   }
 
-  async delete<T>(url: string): Promise<ApiResponse<T>> {
+  async delete<T>(
+    url: string,
+    options?: RequestOptions<T>,
+  ): Promise<ApiResponse<T>> {
+    const { decoder, ...config } = options ?? {};
     try {
-      const response = await this.axiosInstance.delete(url);
-      return response.data;
+      const response = await this.send<ApiResponse<T>>({
+        ...config,
+        method: "delete",
+        url,
+      });
+      return this.decodeData(response.data, decoder, `DELETE ${url}`);
     } catch (error) {
-      console.error(`API DELETE ${url} failed:`, error);
-      throw error;
+      this.logFailure("DELETE", url, error);
+      throw toApiError(error);
     }
   }
 
-  async upload<T>(url: string, formData: FormData): Promise<ApiResponse<T>> {
+  async upload<T>(
+    url: string,
+    formData: FormData,
+    options?: RequestOptions<T>,
+  ): Promise<ApiResponse<T>> {
+    const { decoder, ...config } = options ?? {};
     try {
-      const response = await this.axiosInstance.post(url, formData, {
+      const response = await this.send<ApiResponse<T>>({
+        ...config,
+        method: "post",
+        url,
+        data: formData,
         headers: {
+          ...options?.headers,
           "Content-Type": "multipart/form-data",
         },
       });
-      return response.data;
+      return this.decodeData(response.data, decoder, `POST ${url}`);
     } catch (error) {
-      console.error(`API UPLOAD ${url} failed:`, error);
-      throw error;
+      this.logFailure("UPLOAD", url, error);
+      throw toApiError(error);
     }
   }
 
@@ -150,20 +649,41 @@ class ApiService {
   async getPaginated<T>(
     url: string,
     params?: Record<string, unknown>,
+    options?: RequestOptions<T>,
   ): Promise<PaginatedResponse<T>> {
+    const { decoder, ...config } = options ?? {};
     try {
-      const response = await this.axiosInstance.get(url, { params });
-      // Transform response to match our PaginatedResponse structure
+      const response = await this.send<
+        ApiResponse<T[]> & { meta?: PaginationMeta }
+      >({
+        ...config,
+        method: "get",
+        url,
+        params,
+      });
+      const body = response.data;
+      const data = decoder
+        ? decode(array(decoder), body.data ?? [], `GET ${url}`)
+        : body.data || [];
+      // Older endpoints send the counts as "pagination" instead of "meta"
+      const meta = body.meta ?? body.pagination;
+      const page = meta?.page || 1;
+      const totalPages = meta?.totalPages || 1;
+
       return {
-        data: response.data.data || [],
-        page: response.data.meta?.page || 1,
-        limit: response.data.meta?.limit || 10,
-        total: response.data.meta?.total || 0,
-        totalPages: response.data.meta?.totalPages || 1,
+        data,
+        meta: {
+          page,
+          limit: meta?.limit || 10,
+          total: meta?.total || 0,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1,
+        },
       };
     } catch (error) {
-      console.error(`API GET PAGINATED ${url} failed:`, error);
-      throw error;
+      this.logFailure("GET PAGINATED", url, error);
+      throw toApiError(error);
     }
   }
 
@@ -180,6 +700,11 @@ export const apiService = new ApiService();
 export { ApiService };
 
 // Error handling utilities
+
+// True for requests aborted by a signal or superseded via cancelKey
+export const isRequestCancelled = (error: unknown): boolean =>
+  error instanceof CancelledError || axios.isCancel(error);
+
 export const handleApiError = (error: unknown): string => {
   const err = error as Error & {
     response?: {
@@ -1,4 +1,9 @@
-import { apiService, handleApiError } from "./api";
+import { apiService } from "./api";
+import { AuditLogError, toApiError } from "./errors";
+import { offlineStore } from "./offlineStore";
+import { queryCache } from "./queryCache";
+import { userService } from "./userService";
+import { hasPermission } from "../config/permissions";
 import type { User, LoginForm, ApiResponse } from "../types";
 
 export interface LoginResponse {
@@ -7,18 +12,205 @@ export interface LoginResponse {
   refreshToken: string;
 }
 
+// Returned by /auth/login instead of a session when a TOTP code is needed
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  // Short-lived token that ties the code to the password check
+  challengeToken: string;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  // Rendered by the backend so the secret never leaves for a QR service
+  qrCodeDataUrl?: string;
+}
+
+// State of a reset-password or email-verification link
+export interface EmailTokenStatus {
+  status: "valid" | "expired" | "used" | "invalid";
+  // Address the link was sent to, for resending
+  email?: string;
+}
+
+export const isTwoFactorChallenge = (
+  response: LoginResponse | TwoFactorChallenge,
+): response is TwoFactorChallenge => {
+  return "twoFactorRequired" in response && response.twoFactorRequired;
+};
+
 export interface AuthState {
   user: User | null;
   token: string | null;
   isAuthenticated: boolean;
+  expiresAt: number | null;
+  // The admin behind the current session while impersonating
+  impersonator: User | null;
+}
+
+// The admin's own session, parked while they impersonate someone
+export interface ImpersonatorSession {
+  user: User;
+  token: string;
+  refreshToken: string | null;
+}
+
+export type AuthChangeType = "login" | "logout" | "refresh";
+
+export interface AuthChange {
+  type: AuthChangeType;
+  // True when the change was made in another browser tab
+  remote: boolean;
 }
 
+export type AuthStateListener = (state: AuthState, change: AuthChange) => void;
+
+type AuthSyncMessage =
+  | {
+      type: "login" | "refresh";
+      token: string;
+      refreshToken: string | null;
+      user: User;
+      persistent: boolean;
+      clockSkewMs: number;
+      impersonator: ImpersonatorSession | null;
+    }
+  | { type: "logout" };
+
+interface TokenPayload {
+  exp?: number;
+  iat?: number;
+  [claim: string]: unknown;
+}
+
+// Refresh this long before the token expires
+const TOKEN_REFRESH_LEAD_MS = 60 * 1000;
+// Spread scheduled refreshes so one tab usually refreshes for all of them
+const TOKEN_REFRESH_JITTER_MS = 10 * 1000;
+// Largest delay setTimeout accepts without firing immediately
+const MAX_TIMER_DELAY_MS = 2147483647;
+
+// Cross-tab session synchronisation
+const AUTH_CHANNEL_NAME = "rusdi-barber-auth";
+const AUTH_SYNC_STORAGE_KEY = "authSync";
+
+// Kept in the same storage as the tokens it belongs to
+const IMPERSONATOR_STORAGE_KEY = "impersonator";
+
 class AuthService {
   private currentUser: User | null = null;
   private authToken: string | null = null;
+  private listeners = new Set<AuthStateListener>();
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private refreshPromise: Promise<string> | null = null;
+  private syncChannel: BroadcastChannel | null = null;
+  private impersonator: ImpersonatorSession | null = null;
+  // Local clock minus server clock, measured from the token's iat claim
+  private clockSkewMs = 0;
 
   constructor() {
     this.initializeAuth();
+
+    // Let the API client renew expired tokens instead of logging out
+    apiService.setTokenRefreshHandler(() => this.refreshToken());
+
+    // Timers do not run while the machine sleeps; re-check on wake
+    if (typeof window !== "undefined") {
+      document.addEventListener("visibilitychange", () => {
+        if (document.visibilityState === "visible") {
+          this.checkTokenExpiry();
+        }
+      });
+      window.addEventListener("focus", () => this.checkTokenExpiry());
+      window.addEventListener("online", () => this.checkTokenExpiry());
+
+      this.setupTabSync();
+    }
+  }
+
+  // Share login, logout and refresh with other tabs of the dashboard
+  private setupTabSync(): void {
+    if (typeof BroadcastChannel !== "undefined") {
+      this.syncChannel = new BroadcastChannel(AUTH_CHANNEL_NAME);
+      this.syncChannel.onmessage = (event: MessageEvent<AuthSyncMessage>) =>
+        this.handleSyncMessage(event.data);
+      return;
+    }
+
+    // Fallback: storage events fire in every other tab of the same origin
+    window.addEventListener("storage", (event) => {
+      if (event.key !== AUTH_SYNC_STORAGE_KEY || !event.newValue) return;
+
+      try {
+        this.handleSyncMessage(JSON.parse(event.newValue));
+      } catch (error) {
+        console.warn("Ignoring malformed auth sync message:", error);
+      }
+    });
+  }
+
+  private broadcast(message: AuthSyncMessage): void {
+    if (this.syncChannel) {
+      this.syncChannel.postMessage(message);
+      return;
+    }
+
+    // Writing then removing the key is enough to raise the storage event
+    try {
+      localStorage.setItem(AUTH_SYNC_STORAGE_KEY, JSON.stringify(message));
+      localStorage.removeItem(AUTH_SYNC_STORAGE_KEY);
+    } catch (error) {
+      console.warn("Failed to broadcast auth change:", error);
+    }
+  }
+
+  private broadcastSession(type: "login" | "refresh"): void {
+    if (!this.authToken || !this.currentUser) return;
+
+    const persistent = localStorage.getItem("authToken") !== null;
+    const storage = persistent ? localStorage : sessionStorage;
+
+    this.broadcast({
+      type,
+      token: this.authToken,
+      refreshToken: storage.getItem("refreshToken"),
+      user: this.currentUser,
+      persistent,
+      clockSkewMs: this.clockSkewMs,
+      impersonator: this.impersonator,
+    });
+  }
+
+  private handleSyncMessage(message: AuthSyncMessage): void {
+    if (message.type === "logout") {
+      if (this.authToken) {
+        this.clearAuth(true);
+      }
+      return;
+    }
+
+    // Adopt the other tab's session, including sessionStorage-only logins
+    const storage = message.persistent ? localStorage : sessionStorage;
+    const otherStorage = message.persistent ? sessionStorage : localStorage;
+    otherStorage.removeItem("authToken");
+    otherStorage.removeItem("refreshToken");
+    storage.setItem("authToken", message.token);
+    if (message.refreshToken) {
+      storage.setItem("refreshToken", message.refreshToken);
+    }
+    localStorage.setItem("user", JSON.stringify(message.user));
+    localStorage.setItem("authClockSkew", String(message.clockSkewMs));
+    otherStorage.removeItem(IMPERSONATOR_STORAGE_KEY);
+
+    // Another user now, e.g. the other tab started impersonating
+    if (this.currentUser?.id !== message.user.id) queryCache.clear();
+    this.authToken = message.token;
+    this.currentUser = message.user;
+    this.clockSkewMs = message.clockSkewMs;
+    this.setImpersonator(message.impersonator ?? null, storage);
+
+    this.scheduleTokenRefresh();
+    this.notify({ type: message.type, remote: true });
   }
 
   private initializeAuth(): void {
@@ -31,6 +223,17 @@ class AuthService {
       try {
         this.authToken = token;
         this.currentUser = JSON.parse(user);
+        this.clockSkewMs = Number(localStorage.getItem("authClockSkew")) || 0;
+
+        const impersonator =
+          localStorage.getItem(IMPERSONATOR_STORAGE_KEY) ||
+          sessionStorage.getItem(IMPERSONATOR_STORAGE_KEY);
+        if (impersonator) {
+          this.impersonator = JSON.parse(impersonator);
+          apiService.setImpersonator(this.impersonator?.user.id ?? null);
+        }
+
+        this.scheduleTokenRefresh();
       } catch (error) {
         console.error("Error parsing stored user data:", error);
         this.clearAuth();
@@ -38,36 +241,244 @@ class AuthService {
     }
   }
 
-  async login(credentials: LoginForm): Promise<LoginResponse> {
+  // Subscribe to login, logout and token refresh events
+  subscribe(listener: AuthStateListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(change: AuthChange): void {
+    const state = this.getAuthState();
+    this.listeners.forEach((listener) => listener(state, change));
+  }
+
+  private decodeToken(token: string): TokenPayload | null {
+    try {
+      const base64 = token.split(".")[1].replace(/-/g, "+").replace(/_/g, "/");
+      return JSON.parse(atob(base64));
+    } catch {
+      return null;
+    }
+  }
+
+  // Measure clock skew from a token the server has just issued
+  private updateClockSkew(token: string): void {
+    const payload = this.decodeToken(token);
+    if (typeof payload?.iat !== "number") return;
+
+    this.clockSkewMs = Date.now() - payload.iat * 1000;
+    localStorage.setItem("authClockSkew", String(this.clockSkewMs));
+  }
+
+  // Token expiry in local clock milliseconds, or null if unknown
+  getTokenExpiry(token?: string): number | null {
+    const tokenToCheck = token || this.authToken;
+    if (!tokenToCheck) return null;
+
+    const payload = this.decodeToken(tokenToCheck);
+    if (typeof payload?.exp !== "number") return null;
+
+    return payload.exp * 1000 + this.clockSkewMs;
+  }
+
+  // Milliseconds left in the current session, or null without an exp claim
+  getSessionTimeRemaining(): number | null {
+    const expiresAt = this.getTokenExpiry();
+    if (expiresAt === null) return null;
+    return Math.max(0, expiresAt - Date.now());
+  }
+
+  private scheduleTokenRefresh(): void {
+    this.cancelTokenRefresh();
+
+    const remaining = this.getSessionTimeRemaining();
+    if (remaining === null) return;
+
+    const jitter = Math.random() * TOKEN_REFRESH_JITTER_MS;
+    const delay = Math.min(
+      Math.max(0, remaining - TOKEN_REFRESH_LEAD_MS + jitter),
+      MAX_TIMER_DELAY_MS,
+    );
+
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      this.checkTokenExpiry();
+    }, delay);
+  }
+
+  private cancelTokenRefresh(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  // Refresh now if the token is about to expire, otherwise reschedule
+  private checkTokenExpiry(): void {
+    if (!this.authToken) return;
+
+    const remaining = this.getSessionTimeRemaining();
+    if (remaining === null) return;
+
+    if (remaining > TOKEN_REFRESH_LEAD_MS) {
+      this.scheduleTokenRefresh();
+      return;
+    }
+
+    // Wait for the "online" event rather than failing the refresh
+    if (!navigator.onLine) return;
+
+    this.refreshToken().catch((error) => {
+      console.warn("Scheduled token refresh failed:", error);
+    });
+  }
+
+  // Resolves with a challenge instead of a session when 2FA is enabled
+  async login(
+    credentials: LoginForm,
+  ): Promise<LoginResponse | TwoFactorChallenge> {
+    try {
+      const response = await apiService.post<
+        LoginResponse | TwoFactorChallenge
+      >("/auth/login", credentials);
+
+      if (!response.success || !response.data) {
+        throw new Error(response.message || "Login failed");
+      }
+
+      if (!isTwoFactorChallenge(response.data)) {
+        this.startSession(response.data, !!credentials.remember);
+      }
+
+      return response.data;
+    } catch (error) {
+      throw toApiError(error);
+    }
+  }
+
+  // Second login step: a TOTP code or one of the recovery codes
+  async verifyTwoFactor(
+    challengeToken: string,
+    code: string,
+    remember: boolean,
+  ): Promise<LoginResponse> {
     try {
       const response = await apiService.post<LoginResponse>(
-        "/auth/login",
-        credentials,
+        "/auth/2fa/verify",
+        { challengeToken, code },
       );
 
       if (!response.success || !response.data) {
-        throw new Error(response.message || "Login failed");
+        throw new Error(response.message || "Invalid authentication code");
       }
 
-      const { user, token, refreshToken } = response.data;
+      this.startSession(response.data, remember);
+      return response.data;
+    } catch (error) {
+      throw toApiError(error);
+    }
+  }
 
-      // Store auth data
-      this.authToken = token;
-      this.currentUser = user;
+  private startSession(data: LoginResponse, remember: boolean): void {
+    const { user, token, refreshToken } = data;
 
-      // Persist to storage based on remember preference
-      const storage = credentials.remember ? localStorage : sessionStorage;
-      storage.setItem("authToken", token);
-      storage.setItem("refreshToken", refreshToken);
+    // Nothing read under an earlier session carries over
+    queryCache.clear();
+
+    // Store auth data
+    this.authToken = token;
+    this.currentUser = user;
+
+    // Persist to storage based on remember preference
+    const storage = remember ? localStorage : sessionStorage;
+    storage.setItem("authToken", token);
+    storage.setItem("refreshToken", refreshToken);
+
+    localStorage.setItem("user", JSON.stringify(user));
 
-      localStorage.setItem("user", JSON.stringify(user));
+    this.updateClockSkew(token);
+    this.scheduleTokenRefresh();
+    this.notify({ type: "login", remote: false });
+    this.broadcastSession("login");
+  }
+
+  // Begin TOTP enrolment; not active until confirmed with a code
+  async setupTwoFactor(): Promise<TwoFactorSetup> {
+    try {
+      const response = await apiService.post<TwoFactorSetup>("/auth/2fa/setup");
+
+      if (!response.success || !response.data) {
+        throw new Error(response.message || "Failed to start 2FA setup");
+      }
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
+    }
+  }
+
+  // Confirm enrolment with a first code; returns one-time recovery codes
+  async enableTwoFactor(code: string): Promise<string[]> {
+    try {
+      const response = await apiService.post<{ recoveryCodes: string[] }>(
+        "/auth/2fa/enable",
+        { code },
+      );
+
+      if (!response.success || !response.data) {
+        throw new Error(response.message || "Invalid authentication code");
+      }
+
+      this.updateStoredUser({ twoFactorEnabled: true });
+      return response.data.recoveryCodes;
+    } catch (error) {
+      throw toApiError(error);
+    }
+  }
+
+  async disableTwoFactor(code: string): Promise<void> {
+    try {
+      const response = await apiService.post("/auth/2fa/disable", { code });
+
+      if (!response.success) {
+        throw new Error(response.message || "Failed to disable 2FA");
+      }
+
+      this.updateStoredUser({ twoFactorEnabled: false });
+    } catch (error) {
+      throw toApiError(error);
     }
   }
 
+  // Invalidates the previous recovery codes
+  async regenerateRecoveryCodes(code: string): Promise<string[]> {
+    try {
+      const response = await apiService.post<{ recoveryCodes: string[] }>(
+        "/auth/2fa/recovery-codes",
+        { code },
+      );
+
+      if (!response.success || !response.data) {
+        throw new Error(
+          response.message || "Failed to generate recovery codes",
+        );
+      }
+
+      return response.data.recoveryCodes;
+    } catch (error) {
+      throw toApiError(error);
+    }
+  }
+
+  private updateStoredUser(changes: Partial<User>): void {
+    if (!this.currentUser) return;
+
+    this.currentUser = { ...this.currentUser, ...changes };
+    localStorage.setItem("user", JSON.stringify(this.currentUser));
+  }
+
   async logout(): Promise<void> {
     try {
       // Call logout endpoint to invalidate token on server
@@ -80,6 +491,16 @@ class AuthService {
   }
 
   async refreshToken(): Promise<string> {
+    // Share one refresh between the scheduler and the API interceptor
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.performTokenRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  private async performTokenRefresh(): Promise<string> {
     try {
       const refreshToken =
         localStorage.getItem("refreshToken") ||
@@ -109,10 +530,15 @@ class AuthService {
       storage.setItem("authToken", newToken);
       this.authToken = newToken;
 
+      this.updateClockSkew(newToken);
+      this.scheduleTokenRefresh();
+      this.notify({ type: "refresh", remote: false });
+      this.broadcastSession("refresh");
+
       return newToken;
     } catch (error) {
       this.clearAuth();
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -134,7 +560,7 @@ class AuthService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -152,18 +578,192 @@ class AuthService {
         throw new Error(response.message || "Password change failed");
       }
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
-  private clearAuth(): void {
+  private clearAuth(remote: boolean = false): void {
+    const wasAuthenticated = !!this.authToken;
+
+    this.cancelTokenRefresh();
     this.authToken = null;
     this.currentUser = null;
+    this.clockSkewMs = 0;
+    this.setImpersonator(null);
     localStorage.removeItem("authToken");
     localStorage.removeItem("refreshToken");
     localStorage.removeItem("user");
+    localStorage.removeItem("authClockSkew");
     sessionStorage.removeItem("authToken");
     sessionStorage.removeItem("refreshToken");
+
+    if (wasAuthenticated) {
+      // The next person at this counter must not see this session's data,
+      // in memory or saved for offline use. Queued changes stay; they are
+      // tied to their user.
+      queryCache.clear();
+      offlineStore
+        .clear("snapshots")
+        .catch((error) => console.warn("Could not clear saved data:", error));
+      this.notify({ type: "logout", remote });
+      if (!remote) {
+        this.broadcast({ type: "logout" });
+      }
+    }
+  }
+
+  // Storage holding the current session's tokens
+  private getSessionStorage(): Storage {
+    return localStorage.getItem("authToken") ? localStorage : sessionStorage;
+  }
+
+  private setImpersonator(
+    impersonator: ImpersonatorSession | null,
+    storage: Storage = this.getSessionStorage(),
+  ): void {
+    this.impersonator = impersonator;
+    apiService.setImpersonator(impersonator?.user.id ?? null);
+
+    localStorage.removeItem(IMPERSONATOR_STORAGE_KEY);
+    sessionStorage.removeItem(IMPERSONATOR_STORAGE_KEY);
+    if (impersonator) {
+      storage.setItem(IMPERSONATOR_STORAGE_KEY, JSON.stringify(impersonator));
+    }
+  }
+
+  // Replace the active session without going through /auth/login
+  private switchSession(
+    user: User,
+    token: string,
+    refreshToken: string | null,
+  ): void {
+    const storage = this.getSessionStorage();
+    storage.setItem("authToken", token);
+    if (refreshToken) {
+      storage.setItem("refreshToken", refreshToken);
+    } else {
+      storage.removeItem("refreshToken");
+    }
+    localStorage.setItem("user", JSON.stringify(user));
+
+    this.authToken = token;
+    this.currentUser = user;
+    queryCache.clear();
+  }
+
+  // Continue as another user, keeping the admin's session aside. Takes the
+  // caller's effective grants so the permission matrix decides, as in the UI.
+  async startImpersonation(
+    userId: string,
+    permissions: readonly string[],
+  ): Promise<User> {
+    if (
+      !hasPermission(permissions, "user:impersonate") ||
+      !this.authToken ||
+      !this.currentUser
+    ) {
+      throw new Error("You are not allowed to impersonate users");
+    }
+    if (this.impersonator) {
+      throw new Error("Already impersonating a user");
+    }
+
+    try {
+      const response = await apiService.post<LoginResponse>(
+        "/auth/impersonate",
+        { userId },
+      );
+
+      if (!response.success || !response.data) {
+        throw new Error(response.message || "Failed to impersonate user");
+      }
+
+      const admin: ImpersonatorSession = {
+        user: this.currentUser,
+        token: this.authToken,
+        refreshToken: this.getSessionStorage().getItem("refreshToken"),
+      };
+      const { user, token, refreshToken } = response.data;
+
+      // Still on the admin's token, which may write to their own log. No
+      // impersonation without the audit entry.
+      await this.recordImpersonation(
+        admin.user,
+        user,
+        "impersonation_started",
+        `Started impersonating ${user.fullName}`,
+      );
+
+      this.switchSession(user, token, refreshToken);
+      this.setImpersonator(admin);
+
+      this.updateClockSkew(token);
+      this.scheduleTokenRefresh();
+      this.notify({ type: "login", remote: false });
+      this.broadcastSession("login");
+
+      return user;
+    } catch (error) {
+      throw toApiError(error);
+    }
+  }
+
+  // Return to the admin's own session; no re-login needed. Throws after
+  // switching back if the end could not be written to the activity log.
+  async stopImpersonation(): Promise<User> {
+    const admin = this.impersonator;
+    const impersonated = this.currentUser;
+    if (!admin || !impersonated) {
+      throw new Error("Not impersonating a user");
+    }
+
+    try {
+      // Let the server revoke the impersonation token
+      await apiService.post("/auth/impersonate/stop");
+    } catch (error) {
+      console.warn("Error ending impersonation:", error);
+    }
+
+    this.switchSession(admin.user, admin.token, admin.refreshToken);
+    this.setImpersonator(null);
+
+    // The admin token may have expired meanwhile; this refreshes it
+    this.checkTokenExpiry();
+    this.notify({ type: "login", remote: false });
+    this.broadcastSession("login");
+
+    // Back on the admin's token, which may write to their own log
+    await this.recordImpersonation(
+      admin.user,
+      impersonated,
+      "impersonation_ended",
+      `Stopped impersonating ${impersonated.fullName}`,
+    );
+
+    return admin.user;
+  }
+
+  // Written to the admin's activity log, alongside their other actions.
+  // Must run on the admin's own token.
+  private async recordImpersonation(
+    admin: User,
+    impersonated: User,
+    action: string,
+    description: string,
+  ): Promise<void> {
+    try {
+      await userService.recordUserActivity(admin.id, {
+        action,
+        description,
+        impersonatedUserId: impersonated.id,
+      });
+    } catch (error) {
+      const reason = toApiError(error).message;
+      throw new AuditLogError(
+        `The activity log did not record "${description}": ${reason}`,
+        { cause: error },
+      );
+    }
   }
 
   // Getters
@@ -175,6 +775,14 @@ class AuthService {
     return this.currentUser;
   }
 
+  getImpersonator(): User | null {
+    return this.impersonator?.user ?? null;
+  }
+
+  isImpersonating(): boolean {
+    return this.impersonator !== null;
+  }
+
   isAuthenticated(): boolean {
     return !!(this.authToken && this.currentUser);
   }
@@ -199,23 +807,25 @@ class AuthService {
     return this.hasRole("STYLIST");
   }
 
+  isReceptionist(): boolean {
+    return this.hasRole("RECEPTIONIST");
+  }
+
+  isCashier(): boolean {
+    return this.hasRole("CASHIER");
+  }
+
   isCustomer(): boolean {
     return this.hasRole("CUSTOMER");
   }
 
-  // Token validation
+  // Token validation (skew-corrected, without signature verification)
   isTokenExpired(token?: string): boolean {
     const tokenToCheck = token || this.authToken;
-    if (!tokenToCheck) return true;
+    if (!tokenToCheck || !this.decodeToken(tokenToCheck)) return true;
 
-    try {
-      // Simple JWT payload extraction (without verification)
-      const payload = JSON.parse(atob(tokenToCheck.split(".")[1]));
-      const currentTime = Date.now() / 1000;
-      return payload.exp < currentTime;
-    } catch (error) {
-      return true;
-    }
+    const expiresAt = this.getTokenExpiry(tokenToCheck);
+    return expiresAt !== null && expiresAt < Date.now();
   }
 
   // Auto-refresh token if needed
@@ -242,7 +852,24 @@ class AuthService {
         throw new Error(response.message || "Failed to send reset email");
       }
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
+    }
+  }
+
+  // Check a reset link before asking for a new password
+  async validateResetToken(token: string): Promise<EmailTokenStatus> {
+    try {
+      const response = await apiService.get<EmailTokenStatus>(
+        `/auth/reset-password/${encodeURIComponent(token)}`,
+      );
+
+      if (!response.success || !response.data) {
+        throw new Error(response.message || "Failed to check reset link");
+      }
+
+      return response.data;
+    } catch (error) {
+      throw toApiError(error);
     }
   }
 
@@ -258,7 +885,26 @@ class AuthService {
         throw new Error(response.message || "Password reset failed");
       }
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
+    }
+  }
+
+  // Check a verification link before using it
+  async validateVerificationToken(token: string): Promise<EmailTokenStatus> {
+    try {
+      const response = await apiService.get<EmailTokenStatus>(
+        `/auth/verify-email/${encodeURIComponent(token)}`,
+      );
+
+      if (!response.success || !response.data) {
+        throw new Error(
+          response.message || "Failed to check verification link",
+        );
+      }
+
+      return response.data;
+    } catch (error) {
+      throw toApiError(error);
     }
   }
 
@@ -279,14 +925,17 @@ class AuthService {
         localStorage.setItem("user", JSON.stringify(this.currentUser));
       }
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
-  // Resend verification email
-  async resendVerificationEmail(): Promise<void> {
+  // Resend verification email; pass the address when signed out
+  async resendVerificationEmail(email?: string): Promise<void> {
     try {
-      const response = await apiService.post("/auth/resend-verification");
+      const response = await apiService.post(
+        "/auth/resend-verification",
+        email ? { email } : undefined,
+      );
 
       if (!response.success) {
         throw new Error(
@@ -294,7 +943,7 @@ class AuthService {
         );
       }
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -320,7 +969,7 @@ class AuthService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -330,6 +979,8 @@ class AuthService {
       user: this.currentUser,
       token: this.authToken,
       isAuthenticated: this.isAuthenticated(),
+      expiresAt: this.getTokenExpiry(),
+      impersonator: this.getImpersonator(),
     };
   }
 }
@@ -1,35 +1,78 @@
 import {
   apiService,
-  handleApiError,
+  createIdempotencyKey,
   buildPaginationParams,
   PaginationParams,
 } from "./api";
+import { authService } from "./authService";
+import { ConflictError, isConnectionError, toApiError } from "./errors";
+import { bookingDecoder, calendarEventDecoder } from "./decoders";
+import { array, decode } from "./schema";
+import { offlineStore } from "./offlineStore";
 import type {
   Booking,
   BookingFilters,
+  BookingSeries,
+  CalendarEvent,
   PaginatedResponse,
   ApiResponse,
+  RecurrenceRule,
 } from "../types";
 import { BookingStatus } from "../types";
+import { seriesDates } from "../utils/recurrence";
+import {
+  addDays,
+  daysBetween,
+  formatShopDate,
+  fromMinutes,
+  toMinutes,
+  todayInShop,
+} from "../utils/shopTime";
+
+// One service of a visit, in the order they are done
+export interface BookingServiceRequest {
+  serviceId: string;
+  // Defaults to the booking's stylist
+  stylistId?: string;
+}
 
 export interface CreateBookingRequest {
   customerId: string;
   stylistId: string;
-  serviceId: string;
+  services: BookingServiceRequest[];
   bookingDate: string;
   startTime: string;
   notes?: string;
+  series?: BookingSeries;
+}
+
+// Today's schedule as last seen online, for reading while offline
+interface TodaysBookingsSnapshot {
+  date: string;
+  bookings: Booking[];
+}
+
+export interface CreateBookingResult {
+  booking: Booking;
+  // True when an earlier attempt with the same key already created it
+  duplicate: boolean;
 }
 
 export interface UpdateBookingRequest {
   stylistId?: string;
-  serviceId?: string;
+  services?: BookingServiceRequest[];
   bookingDate?: string;
   startTime?: string;
   status?: string;
   notes?: string;
 }
 
+export interface RescheduleChanges {
+  stylistId?: string;
+  // Minutes, for single-service bookings; defaults to the current length
+  duration?: number;
+}
+
 export interface BookingAvailability {
   stylistId: string;
   date: string;
@@ -40,6 +83,42 @@ export interface BookingAvailability {
   }[];
 }
 
+// Which visits of a series a reschedule or cancellation applies to
+export type SeriesScope = "this" | "following" | "all";
+
+export interface SeriesOccurrence {
+  date: string;
+  available: boolean;
+}
+
+export interface BookingSeriesResult {
+  series: BookingSeries;
+  bookings: Booking[];
+  // Dates left out because the time was already taken
+  skipped: string[];
+  // Dates not booked because a request failed; submitting again with the
+  // same series id books only these
+  failed: string[];
+}
+
+// One service of a visit, as the availability check needs it
+interface VisitLine {
+  stylistId: string;
+  duration: number;
+}
+
+// Visits that can still be moved or cancelled
+const OPEN_STATUSES: string[] = [
+  BookingStatus.PENDING,
+  BookingStatus.CONFIRMED,
+];
+
+const visitLines = (booking: Booking): VisitLine[] =>
+  booking.lines.map((line) => ({
+    stylistId: line.stylistId,
+    duration: toMinutes(line.endTime) - toMinutes(line.startTime),
+  }));
+
 export interface BookingStats {
   total: number;
   pending: number;
@@ -61,17 +140,22 @@ class BookingService {
       const response = await apiService.getPaginated<Booking>(
         "/bookings",
         params,
+        { decoder: bookingDecoder },
       );
       return response;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
   // Get booking by ID
   async getBookingById(id: string): Promise<Booking> {
     try {
-      const response = await apiService.get<Booking>(`/bookings/${id}`);
+      const response = await apiService.get<Booking>(
+        `/bookings/${id}`,
+        undefined,
+        { decoder: bookingDecoder },
+      );
 
       if (!response.success || !response.data) {
         throw new Error(response.message || "Booking not found");
@@ -79,22 +163,29 @@ class BookingService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
-  // Create new booking
-  async createBooking(bookingData: CreateBookingRequest): Promise<Booking> {
+  // Create new booking; reuse the key when resubmitting the same form
+  async createBooking(
+    bookingData: CreateBookingRequest,
+    idempotencyKey: string = createIdempotencyKey(),
+  ): Promise<CreateBookingResult> {
     try {
-      const response = await apiService.post<Booking>("/bookings", bookingData);
+      const response = await apiService.post<Booking>(
+        "/bookings",
+        bookingData,
+        { idempotencyKey, retry: {}, decoder: bookingDecoder },
+      );
 
       if (!response.success || !response.data) {
         throw new Error(response.message || "Failed to create booking");
       }
 
-      return response.data;
+      return { booking: response.data, duplicate: !!response.replayed };
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -107,6 +198,7 @@ class BookingService {
       const response = await apiService.put<Booking>(
         `/bookings/${id}`,
         bookingData,
+        { decoder: bookingDecoder },
       );
 
       if (!response.success || !response.data) {
@@ -115,7 +207,7 @@ class BookingService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -125,6 +217,7 @@ class BookingService {
       const response = await apiService.patch<Booking>(
         `/bookings/${id}/status`,
         { status },
+        { decoder: bookingDecoder },
       );
 
       if (!response.success || !response.data) {
@@ -133,7 +226,7 @@ class BookingService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -143,6 +236,7 @@ class BookingService {
       const response = await apiService.patch<Booking>(
         `/bookings/${id}/cancel`,
         { reason },
+        { decoder: bookingDecoder },
       );
 
       if (!response.success || !response.data) {
@@ -151,7 +245,7 @@ class BookingService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -164,19 +258,20 @@ class BookingService {
         throw new Error(response.message || "Failed to delete booking");
       }
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
-  // Get booking availability for a stylist
+  // Get booking availability for a stylist, for slots long enough to do
+  // all the given services back-to-back
   async getStylistAvailability(
     stylistId: string,
     date: string,
-    serviceId?: string,
+    serviceIds: string[] = [],
   ): Promise<BookingAvailability> {
     try {
       const params: any = { date };
-      if (serviceId) params.serviceId = serviceId;
+      if (serviceIds.length) params.serviceIds = serviceIds.join(",");
 
       const response = await apiService.get<BookingAvailability>(
         `/bookings/availability/stylist/${stylistId}`,
@@ -189,7 +284,7 @@ class BookingService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -223,7 +318,223 @@ class BookingService {
 
       return response.data.available;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
+    }
+  }
+
+  // True when every service of a visit fits, each checked against its own
+  // stylist as the services run back-to-back from the start time
+  private async isVisitFree(
+    lines: VisitLine[],
+    date: string,
+    startTime: string,
+    excludeBookingId?: string,
+  ): Promise<boolean> {
+    let start = toMinutes(startTime);
+    const checks = lines.map((line) => {
+      const check = this.checkTimeSlotAvailability(
+        line.stylistId,
+        date,
+        fromMinutes(start),
+        line.duration,
+        excludeBookingId,
+      );
+      start += line.duration;
+      return check;
+    });
+    return (await Promise.all(checks)).every(Boolean);
+  }
+
+  // Check every visit of a new series; durations are in minutes, one per
+  // requested service
+  async checkSeriesAvailability(
+    bookingData: CreateBookingRequest,
+    durations: number[],
+    rule: RecurrenceRule,
+  ): Promise<SeriesOccurrence[]> {
+    try {
+      const lines = bookingData.services.map((item, index) => ({
+        stylistId: item.stylistId ?? bookingData.stylistId,
+        duration: durations[index],
+      }));
+
+      return await Promise.all(
+        seriesDates(bookingData.bookingDate, rule).map(async (date) => ({
+          date,
+          available: await this.isVisitFree(
+            lines,
+            date,
+            bookingData.startTime,
+          ),
+        })),
+      );
+    } catch (error) {
+      throw toApiError(error);
+    }
+  }
+
+  // Book every free visit of a series; taken dates are skipped and reported.
+  // The series id comes from the form, like a booking's idempotency key, so
+  // a resubmit after a failure keeps the visits already made.
+  async createBookingSeries(
+    bookingData: CreateBookingRequest,
+    durations: number[],
+    rule: RecurrenceRule,
+    seriesId: string,
+  ): Promise<BookingSeriesResult> {
+    try {
+      const series: BookingSeries = { id: seriesId, rule };
+      // Visits from an earlier attempt would otherwise count as taken
+      const existing = await this.getSeriesBookings(series.id);
+      const booked = new Set(existing.map((item) => item.bookingDate));
+      const occurrences = await this.checkSeriesAvailability(
+        bookingData,
+        durations,
+        rule,
+      );
+      const bookings: Booking[] = [...existing];
+      const skipped: string[] = [];
+      const failed: string[] = [];
+      let failure: unknown;
+
+      for (const { date, available } of occurrences) {
+        if (booked.has(date)) continue;
+        if (failure) {
+          failed.push(date);
+          continue;
+        }
+        if (!available) {
+          skipped.push(date);
+          continue;
+        }
+        try {
+          const { booking } = await this.createBooking(
+            { ...bookingData, bookingDate: date, series },
+            `${series.id}-${date}`,
+          );
+          bookings.push(booking);
+        } catch (error) {
+          if (error instanceof ConflictError) {
+            // Taken by someone else since the check
+            skipped.push(date);
+          } else {
+            // Stop here but keep what was booked; the caller reports it
+            failure = error;
+            failed.push(date);
+          }
+        }
+      }
+
+      if (bookings.length === 0) {
+        if (failure) throw failure;
+        throw new ConflictError("None of the dates in the series are free");
+      }
+
+      return { series, bookings, skipped, failed };
+    } catch (error) {
+      throw toApiError(error);
+    }
+  }
+
+  // Get every visit of a series, earliest first
+  async getSeriesBookings(seriesId: string): Promise<Booking[]> {
+    try {
+      const response = await apiService.get<Booking[]>(
+        `/bookings/series/${seriesId}`,
+        undefined,
+        { decoder: array(bookingDecoder) },
+      );
+
+      if (!response.success || !response.data) {
+        throw new Error(response.message || "Failed to fetch series bookings");
+      }
+
+      return response.data;
+    } catch (error) {
+      throw toApiError(error);
+    }
+  }
+
+  // The visits a change to `booking` applies to. Finished and cancelled
+  // visits are left as they are.
+  private async seriesScope(
+    booking: Booking,
+    scope: SeriesScope,
+  ): Promise<Booking[]> {
+    if (scope === "this" || !booking.series) return [booking];
+
+    const visits = await this.getSeriesBookings(booking.series.id);
+    return visits.filter(
+      (item) =>
+        OPEN_STATUSES.includes(item.status) &&
+        (scope === "all" || item.bookingDate >= booking.bookingDate),
+    );
+  }
+
+  // Move visits of a series by as many days as this one moves, all to the
+  // new start time. Nothing moves unless every visit fits.
+  async rescheduleSeries(
+    booking: Booking,
+    newDate: string,
+    newStartTime: string,
+    scope: SeriesScope,
+  ): Promise<Booking[]> {
+    try {
+      const shift = daysBetween(booking.bookingDate, newDate);
+      const moves = (await this.seriesScope(booking, scope)).map((item) => ({
+        booking: item,
+        date: addDays(item.bookingDate, shift),
+      }));
+
+      const free = await Promise.all(
+        moves.map((move) =>
+          this.isVisitFree(
+            visitLines(move.booking),
+            move.date,
+            newStartTime,
+            move.booking.id,
+          ),
+        ),
+      );
+      const taken = moves.filter((_, index) => !free[index]);
+      if (taken.length > 0) {
+        throw new ConflictError(
+          `The new time is taken on ${taken
+            .map((move) => formatShopDate(move.date))
+            .join(", ")}`,
+        );
+      }
+
+      const moved: Booking[] = [];
+      for (const move of moves) {
+        moved.push(
+          await this.rescheduleBooking(
+            move.booking.id,
+            move.date,
+            newStartTime,
+          ),
+        );
+      }
+      return moved;
+    } catch (error) {
+      throw toApiError(error);
+    }
+  }
+
+  // Cancel one visit, it and the later ones, or the whole series
+  async cancelSeries(
+    booking: Booking,
+    scope: SeriesScope,
+    reason?: string,
+  ): Promise<Booking[]> {
+    try {
+      const cancelled: Booking[] = [];
+      for (const item of await this.seriesScope(booking, scope)) {
+        cancelled.push(await this.cancelBooking(item.id, reason));
+      }
+      return cancelled;
+    } catch (error) {
+      throw toApiError(error);
     }
   }
 
@@ -236,17 +547,20 @@ class BookingService {
       const response = await apiService.getPaginated<Booking>(
         `/bookings/customer/${customerId}`,
         pagination,
+        { decoder: bookingDecoder },
       );
       return response;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
   // Get all bookings (for admin/manager)
   async getAllBookings(filters?: any): Promise<Booking[]> {
     try {
-      const response = await apiService.get<Booking[]>("/bookings", filters);
+      const response = await apiService.get<Booking[]>("/bookings", filters, {
+        decoder: array(bookingDecoder),
+      });
 
       if (!response.success || !response.data) {
         throw new Error(response.message || "Failed to fetch bookings");
@@ -254,7 +568,7 @@ class BookingService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -269,6 +583,7 @@ class BookingService {
       const response = await apiService.get<Booking[]>(
         `/bookings/stylist/${stylistId}`,
         params,
+        { decoder: array(bookingDecoder) },
       );
 
       if (!response.success || !response.data) {
@@ -277,7 +592,7 @@ class BookingService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -292,15 +607,22 @@ class BookingService {
       const response = await apiService.getPaginated<Booking>(
         `/bookings/stylist/${stylistId}`,
         params,
+        { decoder: bookingDecoder },
       );
       return response;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
-  // Get today's bookings
+  // Get today's bookings, falling back to the copy saved on this device
+  // when the backend is unreachable. The copy belongs to the signed-in user,
+  // so the next person at a shared counter never reads it.
   async getTodaysBookings(stylistId?: string): Promise<Booking[]> {
+    const userId = authService.getUser()?.id ?? "anonymous";
+    const snapshotKey = `todaysBookings:${userId}:${stylistId ?? "all"}`;
+    const today = todayInShop();
+
     try {
       const params: any = {};
       if (stylistId) params.stylistId = stylistId;
@@ -308,15 +630,38 @@ class BookingService {
       const response = await apiService.get<Booking[]>(
         "/bookings/today",
         params,
+        { decoder: array(bookingDecoder) },
       );
 
       if (!response.success || !response.data) {
         throw new Error(response.message || "Failed to fetch today's bookings");
       }
 
+      const snapshot: TodaysBookingsSnapshot = {
+        date: today,
+        bookings: response.data,
+      };
+      offlineStore
+        .put("snapshots", snapshotKey, snapshot)
+        .catch((error) => console.warn("Could not save bookings:", error));
+
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      const apiError = toApiError(error);
+      if (isConnectionError(apiError)) {
+        const snapshot = await offlineStore
+          .get<TodaysBookingsSnapshot>("snapshots", snapshotKey)
+          .catch(() => undefined);
+        // Re-decoded in case it was saved by an older version of the app
+        if (snapshot?.date === today) {
+          return decode(
+            array(bookingDecoder),
+            snapshot.bookings,
+            "saved bookings",
+          );
+        }
+      }
+      throw apiError;
     }
   }
 
@@ -332,6 +677,7 @@ class BookingService {
       const response = await apiService.get<Booking[]>(
         "/bookings/upcoming",
         params,
+        { decoder: array(bookingDecoder) },
       );
 
       if (!response.success || !response.data) {
@@ -342,7 +688,7 @@ class BookingService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -362,15 +708,16 @@ class BookingService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
-  // Reschedule booking
+  // Reschedule booking, optionally to another stylist or a new length
   async rescheduleBooking(
     id: string,
     newDate: string,
     newStartTime: string,
+    changes: RescheduleChanges = {},
   ): Promise<Booking> {
     try {
       const response = await apiService.patch<Booking>(
@@ -378,7 +725,9 @@ class BookingService {
         {
           bookingDate: newDate,
           startTime: newStartTime,
+          ...changes,
         },
+        { decoder: bookingDecoder },
       );
 
       if (!response.success || !response.data) {
@@ -387,7 +736,7 @@ class BookingService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -396,6 +745,8 @@ class BookingService {
     try {
       const response = await apiService.patch<Booking>(
         `/bookings/${id}/confirm`,
+        undefined,
+        { decoder: bookingDecoder },
       );
 
       if (!response.success || !response.data) {
@@ -404,14 +755,18 @@ class BookingService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
   // Start booking (mark as in progress)
   async startBooking(id: string): Promise<Booking> {
     try {
-      const response = await apiService.patch<Booking>(`/bookings/${id}/start`);
+      const response = await apiService.patch<Booking>(
+        `/bookings/${id}/start`,
+        undefined,
+        { decoder: bookingDecoder },
+      );
 
       if (!response.success || !response.data) {
         throw new Error(response.message || "Failed to start booking");
@@ -419,15 +774,20 @@ class BookingService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
-  // Complete booking
-  async completeBooking(id: string): Promise<Booking> {
+  // Complete booking; the key lets an offline replay land only once
+  async completeBooking(
+    id: string,
+    idempotencyKey: string = createIdempotencyKey(),
+  ): Promise<Booking> {
     try {
       const response = await apiService.patch<Booking>(
         `/bookings/${id}/complete`,
+        undefined,
+        { idempotencyKey, retry: {}, decoder: bookingDecoder },
       );
 
       if (!response.success || !response.data) {
@@ -436,15 +796,20 @@ class BookingService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
-  // Mark as no show
-  async markNoShow(id: string): Promise<Booking> {
+  // Mark as no show; the key lets an offline replay land only once
+  async markNoShow(
+    id: string,
+    idempotencyKey: string = createIdempotencyKey(),
+  ): Promise<Booking> {
     try {
       const response = await apiService.patch<Booking>(
         `/bookings/${id}/no-show`,
+        undefined,
+        { idempotencyKey, retry: {}, decoder: bookingDecoder },
       );
 
       if (!response.success || !response.data) {
@@ -453,7 +818,7 @@ class BookingService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -462,23 +827,16 @@ class BookingService {
     startDate: string,
     endDate: string,
     stylistId?: string,
-  ): Promise<
-    {
-      id: string;
-      title: string;
-      start: string;
-      end: string;
-      status: string;
-      customer: string;
-      service: string;
-      stylist: string;
-    }[]
-  > {
+  ): Promise<CalendarEvent[]> {
     try {
       const params: any = { startDate, endDate };
       if (stylistId) params.stylistId = stylistId;
 
-      const response = await apiService.get("/bookings/calendar", params);
+      const response = await apiService.get<CalendarEvent[]>(
+        "/bookings/calendar",
+        params,
+        { decoder: array(calendarEventDecoder) },
+      );
 
       if (!response.success || !response.data) {
         throw new Error(response.message || "Failed to fetch calendar events");
@@ -486,7 +844,7 @@ class BookingService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -503,7 +861,7 @@ class BookingService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 }
@@ -1,41 +1,53 @@
-import { apiService } from "./api";
+import { apiService, createIdempotencyKey } from "./api";
+import { customerDecoder } from "./decoders";
 import {
   ApiResponse,
   PaginatedResponse,
   Customer,
   CustomerFilter,
-} from "../types/customTypes";
+} from "../types";
 
 class CustomerService {
   private baseUrl = "/customers";
 
+  // A newer search supersedes any list request still in flight
   async getCustomers(
     page: number = 1,
     limit: number = 10,
     filters?: CustomerFilter,
+    signal?: AbortSignal,
   ): Promise<PaginatedResponse<Customer>> {
-    return apiService.getPaginated<Customer>(this.baseUrl, {
-      page,
-      limit,
-      ...filters,
-    });
+    return apiService.getPaginated<Customer>(
+      this.baseUrl,
+      { page, limit, ...filters },
+      { signal, cancelKey: "customers:list", decoder: customerDecoder },
+    );
   }
 
   async getCustomerById(id: string): Promise<ApiResponse<Customer>> {
-    return apiService.get<Customer>(`${this.baseUrl}/${id}`);
+    return apiService.get<Customer>(`${this.baseUrl}/${id}`, undefined, {
+      decoder: customerDecoder,
+    });
   }
 
   async createCustomer(
     customerData: Partial<Customer>,
+    idempotencyKey: string = createIdempotencyKey(),
   ): Promise<ApiResponse<Customer>> {
-    return apiService.post<Customer>(this.baseUrl, customerData);
+    return apiService.post<Customer>(this.baseUrl, customerData, {
+      idempotencyKey,
+      retry: {},
+      decoder: customerDecoder,
+    });
   }
 
   async updateCustomer(
     id: string,
     customerData: Partial<Customer>,
   ): Promise<ApiResponse<Customer>> {
-    return apiService.put<Customer>(`${this.baseUrl}/${id}`, customerData);
+    return apiService.put<Customer>(`${this.baseUrl}/${id}`, customerData, {
+      decoder: customerDecoder,
+    });
   }
 
   async deleteCustomer(id: string): Promise<ApiResponse<void>> {
@@ -68,14 +80,17 @@ class CustomerService {
     id: string,
     points: number,
     reason?: string,
+    idempotencyKey: string = createIdempotencyKey(),
   ): Promise<ApiResponse<Customer>> {
-    return apiService.post<Customer>(`${this.baseUrl}/${id}/loyalty-points`, {
-      points,
-      reason,
-    });
+    // Points accumulate, so a repeated request must not award them twice
+    return apiService.post<Customer>(
+      `${this.baseUrl}/${id}/loyalty-points`,
+      { points, reason },
+      { idempotencyKey, retry: {}, decoder: customerDecoder },
+    );
   }
 
-  async getCustomerStatistics(): Promise<
+  async getCustomerStatistics(signal?: AbortSignal): Promise<
     ApiResponse<{
       totalCustomers: number;
       newCustomersThisMonth: number;
@@ -88,7 +103,7 @@ class CustomerService {
       newCustomersThisMonth: number;
       customerRetentionRate: number;
       averageLifetimeValue: number;
-    }>(`${this.baseUrl}/statistics`);
+    }>(`${this.baseUrl}/statistics`, undefined, { signal });
   }
 
   async importCustomers(file: File): Promise<
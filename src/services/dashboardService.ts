@@ -1,4 +1,13 @@
-import { apiService, handleApiError, buildPaginationParams } from "./api";
+import { apiService, buildPaginationParams } from "./api";
+import { toApiError } from "./errors";
+import {
+  bookingDecoder,
+  bookingStatusCountDecoder,
+  dashboardStatsDecoder,
+  monthlyRevenueDecoder,
+  topStylistDecoder,
+} from "./decoders";
+import { array } from "./schema";
 import type {
   DashboardStats,
   TopStylist,
@@ -68,121 +77,15 @@ export interface StylistAnalytics {
 }
 
 class DashboardService {
-  // Transform backend response to frontend format
-  private transformBackendResponse(backendData: any): DashboardStats {
-    // Handle both new flat format and legacy nested format
-    const isNewFormat = backendData.totalCustomers !== undefined;
-
-    if (isNewFormat) {
-      // New flat format matching DashboardStats interface
-      return {
-        totalCustomers: backendData.totalCustomers || 0,
-        totalBookings: backendData.totalBookings || 0,
-        totalRevenue: backendData.totalRevenue || "0",
-        averageRating:
-          typeof backendData.averageRating === "number"
-            ? backendData.averageRating
-            : 0,
-        todayBookings: backendData.todayBookings || 0,
-        pendingBookings: backendData.pendingBookings || 0,
-        completedBookings: backendData.completedBookings || 0,
-        cancelledBookings: backendData.cancelledBookings || 0,
-        monthlyBookings: backendData.monthlyBookings || 0,
-        bookingsByStatus: backendData.bookingsByStatus || [],
-        topStylists: backendData.topStylists || [],
-        recentBookings: backendData.recentBookings || [],
-        monthlyRevenue: backendData.monthlyRevenue || [],
-      };
-    } else {
-      // Legacy nested format - transform to flat format
-      return {
-        totalCustomers:
-          backendData.users?.totalUsers ||
-          backendData._detailed?.users?.totalUsers ||
-          0,
-        totalBookings:
-          backendData.bookings?.totalBookings ||
-          backendData._detailed?.bookings?.totalBookings ||
-          0,
-        totalRevenue:
-          backendData.payments?.totalRevenue?.toString() ||
-          backendData._detailed?.payments?.totalRevenue?.toString() ||
-          "0",
-        averageRating:
-          backendData.reviews?.averageRating ||
-          backendData._detailed?.reviews?.averageRating ||
-          0,
-        todayBookings:
-          backendData.bookings?.todayBookings ||
-          backendData._detailed?.bookings?.todayBookings ||
-          0,
-        pendingBookings:
-          backendData.bookings?.pendingBookings ||
-          backendData._detailed?.bookings?.pendingBookings ||
-          0,
-        completedBookings:
-          backendData.bookings?.completedBookings ||
-          backendData._detailed?.bookings?.completedBookings ||
-          0,
-        cancelledBookings:
-          backendData.bookings?.cancelledBookings ||
-          backendData._detailed?.bookings?.cancelledBookings ||
-          0,
-        monthlyBookings:
-          backendData.bookings?.thisMonthBookings ||
-          backendData._detailed?.bookings?.thisMonthBookings ||
-          0,
-        bookingsByStatus: this.transformBookingsByStatus(backendData),
-        topStylists: [], // Will be populated separately
-        recentBookings: [], // Will be populated separately
-        monthlyRevenue: [], // Will be populated separately
-      };
-    }
-  }
-
-  private transformBookingsByStatus(backendData: any): BookingStatusCount[] {
-    // Check if already transformed in new format
-    if (Array.isArray(backendData.bookingsByStatus)) {
-      return backendData.bookingsByStatus;
-    }
-
-    // Transform from legacy nested format
-    const bookings =
-      backendData.bookings || backendData._detailed?.bookings || {};
-    const total = bookings.totalBookings || 1; // Avoid division by zero
-
-    return [
-      {
-        status: "pending",
-        count: bookings.pendingBookings || 0,
-        percentage:
-          total > 0 ? ((bookings.pendingBookings || 0) / total) * 100 : 0,
-      },
-      {
-        status: "confirmed",
-        count: bookings.confirmedBookings || 0,
-        percentage:
-          total > 0 ? ((bookings.confirmedBookings || 0) / total) * 100 : 0,
-      },
-      {
-        status: "completed",
-        count: bookings.completedBookings || 0,
-        percentage:
-          total > 0 ? ((bookings.completedBookings || 0) / total) * 100 : 0,
-      },
-      {
-        status: "cancelled",
-        count: bookings.cancelledBookings || 0,
-        percentage:
-          total > 0 ? ((bookings.cancelledBookings || 0) / total) * 100 : 0,
-      },
-    ];
-  }
-
   async getDashboardStats(filters?: DashboardFilters): Promise<DashboardStats> {
     try {
       console.log("🔄 Fetching dashboard stats from backend...");
-      const response = await apiService.get<any>("/dashboard/stats", filters);
+      // Accepts both the flat format and the legacy nested one
+      const response = await apiService.get<DashboardStats>(
+        "/dashboard/stats",
+        filters,
+        { decoder: dashboardStatsDecoder },
+      );
 
       if (!response.success || !response.data) {
         throw new Error(response.message || "Failed to fetch dashboard stats");
@@ -190,16 +93,7 @@ class DashboardService {
 
       console.log("✅ Dashboard stats loaded from backend", response.data);
 
-      // Transform backend response to frontend format
-      const dashboardStats = this.transformBackendResponse(response.data);
-
-      // Ensure averageRating is a valid number
-      if (
-        typeof dashboardStats.averageRating !== "number" ||
-        isNaN(dashboardStats.averageRating)
-      ) {
-        dashboardStats.averageRating = 0;
-      }
+      const dashboardStats = response.data;
 
       // Fetch additional data if not already provided by backend
       if (
@@ -235,14 +129,7 @@ class DashboardService {
 
       return dashboardStats;
     } catch (error) {
-      console.warn(
-        "⚠️ Backend unavailable, using mock data:",
-        handleApiError(error),
-      );
-
-      // Import and use mock data as fallback
-      const { mockDashboardService } = await import("./mockDashboardService");
-      return await mockDashboardService.getDashboardStats(filters);
+      throw toApiError(error);
     }
   }
 
@@ -265,15 +152,7 @@ class DashboardService {
 
       return response.data;
     } catch (error) {
-      console.warn("⚠️ Revenue analytics backend unavailable, using mock data");
-      // Return mock revenue analytics
-      return {
-        totalRevenue: "15000000",
-        monthlyGrowth: 12.5,
-        dailyRevenue: [],
-        revenueByService: [],
-        revenueByPaymentMethod: [],
-      };
+      throw toApiError(error);
     }
   }
 
@@ -296,16 +175,7 @@ class DashboardService {
 
       return response.data;
     } catch (error) {
-      console.warn("⚠️ Booking analytics backend unavailable, using mock data");
-      // Return mock booking analytics
-      return {
-        totalBookings: 156,
-        monthlyGrowth: 8.2,
-        bookingsByStatus: [],
-        bookingsByHour: [],
-        bookingsByDay: [],
-        averageBookingValue: "85000",
-      };
+      throw toApiError(error);
     }
   }
 
@@ -328,18 +198,7 @@ class DashboardService {
 
       return response.data;
     } catch (error) {
-      console.warn(
-        "⚠️ Customer analytics backend unavailable, using mock data",
-      );
-      // Return mock customer analytics
-      return {
-        totalCustomers: 89,
-        newCustomers: 12,
-        returningCustomers: 77,
-        customerGrowth: 15.3,
-        topCustomers: [],
-        customerRetentionRate: 85.2,
-      };
+      throw toApiError(error);
     }
   }
 
@@ -362,14 +221,7 @@ class DashboardService {
 
       return response.data;
     } catch (error) {
-      console.warn("⚠️ Stylist analytics backend unavailable, using mock data");
-      // Return mock stylist analytics
-      return {
-        totalStylists: 5,
-        averageRating: 4.7,
-        topStylists: [],
-        stylistPerformance: [],
-      };
+      throw toApiError(error);
     }
   }
 
@@ -378,10 +230,14 @@ class DashboardService {
     try {
       console.log("🔄 Fetching recent bookings from backend...");
       const params = buildPaginationParams(1, limit, "createdAt", "desc");
-      const response = await apiService.get<Booking[]>("/bookings", {
-        ...params,
-        recent: true,
-      });
+      const response = await apiService.get<Booking[]>(
+        "/bookings",
+        {
+          ...params,
+          recent: true,
+        },
+        { decoder: array(bookingDecoder) },
+      );
 
       if (!response.success || !response.data) {
         throw new Error(response.message || "Failed to fetch recent bookings");
@@ -389,9 +245,7 @@ class DashboardService {
 
       return response.data;
     } catch (error) {
-      console.warn("⚠️ Recent bookings backend unavailable, using mock data");
-      // Return empty array as fallback
-      return [];
+      throw toApiError(error);
     }
   }
 
@@ -402,12 +256,16 @@ class DashboardService {
   ): Promise<TopStylist[]> {
     try {
       console.log("🔄 Fetching top stylists from backend...");
-      const response = await apiService.get<TopStylist[]>("/users", {
-        limit,
-        period,
-        role: "stylist",
-        top: true,
-      });
+      const response = await apiService.get<TopStylist[]>(
+        "/users",
+        {
+          limit,
+          period,
+          role: "stylist",
+          top: true,
+        },
+        { decoder: array(topStylistDecoder) },
+      );
 
       if (!response.success || !response.data) {
         throw new Error(response.message || "Failed to fetch top stylists");
@@ -415,9 +273,7 @@ class DashboardService {
 
       return response.data;
     } catch (error) {
-      console.warn("⚠️ Top stylists backend unavailable, using mock data");
-      // Return empty array as fallback
-      return [];
+      throw toApiError(error);
     }
   }
 
@@ -429,6 +285,7 @@ class DashboardService {
         {
           months,
         },
+        { decoder: array(monthlyRevenueDecoder) },
       );
 
       if (!response.success || !response.data) {
@@ -437,7 +294,7 @@ class DashboardService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -449,6 +306,7 @@ class DashboardService {
       const response = await apiService.get<BookingStatusCount[]>(
         "/dashboard/booking-status",
         filters,
+        { decoder: array(bookingStatusCountDecoder) },
       );
 
       if (!response.success || !response.data) {
@@ -459,7 +317,7 @@ class DashboardService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -477,7 +335,7 @@ class DashboardService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -497,7 +355,7 @@ class DashboardService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -524,7 +382,7 @@ class DashboardService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -545,7 +403,7 @@ class DashboardService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -567,7 +425,7 @@ class DashboardService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 }
@@ -0,0 +1,419 @@
+// Adapters from the backend's response DTOs to the domain model in
+// types/index.ts. Old field names and spellings are mapped here, so pages
+// only ever see one shape per entity. Required fields are the ones screens
+// cannot render without; everything else degrades to undefined or a neutral
+// default with a console warning.
+
+import {
+  array,
+  boolean,
+  firstOf,
+  lazy,
+  map,
+  number,
+  object,
+  oneOf,
+  optional,
+  renamed,
+  string,
+  withDefault,
+} from "./schema";
+import type { Decoder } from "./schema";
+import { BookingStatus, PaymentStatus, UserRole } from "../types";
+import type {
+  Booking,
+  BookingLine,
+  BookingSeries,
+  BookingStatusCount,
+  CalendarEvent,
+  Customer,
+  DashboardStats,
+  MonthlyRevenue,
+  Payment,
+  PaymentStatusType,
+  RecurrenceRule,
+  Review,
+  Service,
+  Stylist,
+  TopStylist,
+  User,
+} from "../types";
+import { toMoney, ZERO_MONEY } from "../utils/money";
+import type { Money } from "../utils/money";
+import { toShopDate, toShopTime } from "../utils/shopTime";
+
+// Decimal strings or numbers, in whole rupiah
+const money: Decoder<Money> = map(number, toMoney);
+
+// Booking dates are the shop's calendar days; some endpoints send the
+// midnight instant instead, e.g. "2026-10-30T17:00:00.000Z"
+const shopDate: Decoder<string> = map(string, (value) =>
+  value.length > 10 && !Number.isNaN(Date.parse(value))
+    ? toShopDate(value)
+    : value,
+);
+
+export const userDecoder: Decoder<User> = renamed(
+  object<User>({
+    id: string,
+    email: withDefault(string, ""),
+    username: withDefault(string, ""),
+    fullName: string,
+    phone: withDefault(string, ""),
+    avatar: optional(string),
+    role: oneOf(...Object.values(UserRole)),
+    permissions: optional(array(string)),
+    isActive: withDefault(boolean, true),
+    emailVerified: withDefault(boolean, false),
+  }),
+  { name: "fullName" },
+);
+
+export const stylistDecoder: Decoder<Stylist> = renamed(
+  object<Stylist>({
+    id: string,
+    userId: string,
+    user: userDecoder,
+    bio: optional(string),
+    specialties: withDefault(array(string), []),
+    experience: optional(number),
+    rating: withDefault(number, 0),
+    totalReviews: withDefault(number, 0),
+    totalBookings: withDefault(number, 0),
+    revenue: optional(money),
+    commissionRate: optional(number),
+    isActive: withDefault(boolean, true),
+    isAvailable: withDefault(boolean, true),
+  }),
+  { specializations: "specialties" },
+);
+
+export const serviceDecoder: Decoder<Service> = object<Service>({
+  id: string,
+  name: string,
+  description: withDefault(string, ""),
+  price: money,
+  duration: number,
+  category: withDefault(string, ""),
+  isActive: withDefault(boolean, true),
+  isPopular: optional(boolean),
+  tags: optional(array(string)),
+  bookingCount: optional(number),
+  rating: optional(number),
+});
+
+const bookingStatusDecoder = oneOf(...Object.values(BookingStatus));
+
+// Older backends report a settled payment as "PAID"
+const paymentStatusDecoder: Decoder<PaymentStatusType> = map(
+  oneOf(...Object.values(PaymentStatus), "paid"),
+  (status) => (status === "paid" ? PaymentStatus.COMPLETED : status),
+);
+
+const bookingLineDecoder: Decoder<BookingLine> = object<BookingLine>({
+  serviceId: string,
+  service: optional(serviceDecoder),
+  stylistId: string,
+  stylist: optional(stylistDecoder),
+  startTime: string,
+  endTime: string,
+  price: withDefault(money, ZERO_MONEY),
+});
+
+const bookingSeriesDecoder: Decoder<BookingSeries> = object<BookingSeries>({
+  id: string,
+  rule: object<RecurrenceRule>({
+    frequency: oneOf("weekly", "monthly"),
+    interval: withDefault(number, 1),
+    until: optional(shopDate),
+    count: optional(number),
+  }),
+});
+
+// Bookings from before multi-service visits have no lines; their one
+// service becomes the only line
+const withLines = (booking: Booking): Booking =>
+  booking.lines.length > 0
+    ? booking
+    : {
+        ...booking,
+        lines: [
+          {
+            serviceId: booking.serviceId,
+            service: booking.service,
+            stylistId: booking.stylistId,
+            stylist: booking.stylist,
+            startTime: booking.startTime,
+            endTime: booking.endTime,
+            price: booking.totalPrice,
+          },
+        ],
+      };
+
+// Older endpoints use appointmentDate/appointmentTime
+export const bookingDecoder: Decoder<Booking> = renamed(
+  map(
+    object<Booking>({
+      id: string,
+      customerId: string,
+      stylistId: string,
+      serviceId: string,
+      customer: userDecoder,
+      stylist: stylistDecoder,
+      service: serviceDecoder,
+      lines: withDefault(array(bookingLineDecoder), []),
+      bookingDate: shopDate,
+      startTime: string,
+      endTime: withDefault(string, ""),
+      status: bookingStatusDecoder,
+      notes: optional(string),
+      totalPrice: withDefault(money, ZERO_MONEY),
+      payment: optional(lazy(() => paymentDecoder)),
+      series: optional(bookingSeriesDecoder),
+    }),
+    withLines,
+  ),
+  { appointmentDate: "bookingDate", appointmentTime: "startTime" },
+);
+
+// Payments nested in bookings used to call the method "method"
+export const paymentDecoder: Decoder<Payment> = renamed(
+  object<Payment>({
+    id: string,
+    bookingId: string,
+    booking: optional(bookingDecoder),
+    amount: money,
+    paymentMethod: withDefault(string, ""),
+    status: paymentStatusDecoder,
+    transactionId: optional(string),
+    paidAt: optional(string),
+  }),
+  { method: "paymentMethod" },
+);
+
+export const reviewDecoder: Decoder<Review> = object<Review>({
+  id: string,
+  userId: string,
+  bookingId: string,
+  stylistId: string,
+  serviceId: withDefault(string, ""),
+  rating: number,
+  comment: withDefault(string, ""),
+  status: oneOf("pending", "approved", "rejected"),
+  userDetails: optional(
+    renamed(
+      object<NonNullable<Review["userDetails"]>>({
+        id: string,
+        name: string,
+        avatar: optional(string),
+      }),
+      { fullName: "name" },
+    ),
+  ),
+});
+
+export const customerDecoder: Decoder<Customer> = renamed(
+  object<Customer>({
+    id: string,
+    name: string,
+    email: withDefault(string, ""),
+    phone: withDefault(string, ""),
+    address: optional(string),
+    avatar: optional(string),
+    gender: optional(string),
+    totalBookings: withDefault(number, 0),
+    totalSpent: withDefault(money, ZERO_MONEY),
+    membershipLevel: optional(string),
+    loyaltyPoints: optional(number),
+  }),
+  { fullName: "name" },
+);
+
+// /users?role=stylist&top=true answers with users, so accept fullName too
+export const topStylistDecoder: Decoder<TopStylist> = renamed(
+  object<TopStylist>({
+    id: string,
+    name: string,
+    avatar: optional(string),
+    rating: withDefault(number, 0),
+    totalBookings: withDefault(number, 0),
+    revenue: withDefault(money, ZERO_MONEY),
+  }),
+  { fullName: "name" },
+);
+
+interface CalendarEventDto {
+  id: string;
+  bookingId?: string;
+  lineCount: number;
+  offset: number;
+  title: string;
+  start: string;
+  end: string;
+  status: Booking["status"];
+  stylistId: string;
+  customer: string;
+  service: string;
+  stylist: string;
+  seriesId?: string;
+}
+
+// "2026-10-31T09:00:00" is already shop time; a zoned instant is converted
+const toWallClock = (value: string) =>
+  /(z|[+-]\d\d:?\d\d)$/i.test(value)
+    ? { date: toShopDate(value), time: toShopTime(value) }
+    : { date: value.slice(0, 10), time: value.slice(11, 16) };
+
+// Older backends send one event per booking, keyed by the booking id
+export const calendarEventDecoder: Decoder<CalendarEvent> = map(
+  object<CalendarEventDto>({
+    id: string,
+    bookingId: optional(string),
+    lineCount: withDefault(number, 1),
+    offset: withDefault(number, 0),
+    title: withDefault(string, ""),
+    start: string,
+    end: string,
+    status: bookingStatusDecoder,
+    stylistId: string,
+    customer: withDefault(string, ""),
+    service: withDefault(string, ""),
+    stylist: withDefault(string, ""),
+    seriesId: optional(string),
+  }),
+  ({ start, end, bookingId, ...event }) => {
+    const from = toWallClock(start);
+    return {
+      ...event,
+      bookingId: bookingId ?? event.id,
+      date: from.date,
+      startTime: from.time,
+      endTime: toWallClock(end).time,
+    };
+  },
+);
+
+export const monthlyRevenueDecoder: Decoder<MonthlyRevenue> =
+  object<MonthlyRevenue>({
+    month: string,
+    revenue: withDefault(money, ZERO_MONEY),
+    bookings: withDefault(number, 0),
+  });
+
+export const bookingStatusCountDecoder: Decoder<BookingStatusCount> =
+  object<BookingStatusCount>({
+    status: string,
+    count: withDefault(number, 0),
+    percentage: withDefault(number, 0),
+  });
+
+const count = withDefault(number, 0);
+
+const flatDashboardStatsDecoder = object<DashboardStats>({
+  totalCustomers: number,
+  totalBookings: count,
+  totalRevenue: withDefault(money, ZERO_MONEY),
+  averageRating: withDefault(number, 0),
+  todayBookings: count,
+  monthlyBookings: count,
+  pendingBookings: count,
+  completedBookings: count,
+  cancelledBookings: count,
+  topStylists: withDefault(array(topStylistDecoder), []),
+  recentBookings: withDefault(array(bookingDecoder), []),
+  monthlyRevenue: withDefault(array(monthlyRevenueDecoder), []),
+  bookingsByStatus: withDefault(array(bookingStatusCountDecoder), []),
+});
+
+interface LegacyBookingCounts {
+  totalBookings: number;
+  todayBookings: number;
+  pendingBookings: number;
+  confirmedBookings: number;
+  completedBookings: number;
+  cancelledBookings: number;
+  thisMonthBookings: number;
+}
+
+interface LegacyDashboardSections {
+  users?: { totalUsers: number };
+  bookings?: LegacyBookingCounts;
+  payments?: { totalRevenue: Money };
+  reviews?: { averageRating: number };
+}
+
+interface LegacyDashboardStats extends LegacyDashboardSections {
+  _detailed?: LegacyDashboardSections;
+}
+
+const legacySections = {
+  users: optional(object({ totalUsers: count })),
+  bookings: optional(
+    object<LegacyBookingCounts>({
+      totalBookings: count,
+      todayBookings: count,
+      pendingBookings: count,
+      confirmedBookings: count,
+      completedBookings: count,
+      cancelledBookings: count,
+      thisMonthBookings: count,
+    }),
+  ),
+  payments: optional(object({ totalRevenue: withDefault(money, ZERO_MONEY) })),
+  reviews: optional(object({ averageRating: withDefault(number, 0) })),
+};
+
+const toStatusCounts = (
+  bookings: LegacyBookingCounts | undefined,
+): BookingStatusCount[] => {
+  // Avoid division by zero
+  const total = bookings?.totalBookings || 1;
+  const statuses = [
+    ["pending", bookings?.pendingBookings],
+    ["confirmed", bookings?.confirmedBookings],
+    ["completed", bookings?.completedBookings],
+    ["cancelled", bookings?.cancelledBookings],
+  ] as const;
+
+  return statuses.map(([status, value = 0]) => ({
+    status,
+    count: value,
+    percentage: (value / total) * 100,
+  }));
+};
+
+// Older backends nest the numbers by section, sometimes under _detailed.
+// Top stylists, recent bookings and monthly revenue are fetched separately.
+const legacyDashboardStatsDecoder: Decoder<DashboardStats> = map(
+  object<LegacyDashboardStats>({
+    ...legacySections,
+    _detailed: optional(object<LegacyDashboardSections>(legacySections)),
+  }),
+  (raw) => {
+    const users = raw.users ?? raw._detailed?.users;
+    const bookings = raw.bookings ?? raw._detailed?.bookings;
+    const payments = raw.payments ?? raw._detailed?.payments;
+    const reviews = raw.reviews ?? raw._detailed?.reviews;
+
+    return {
+      totalCustomers: users?.totalUsers ?? 0,
+      totalBookings: bookings?.totalBookings ?? 0,
+      totalRevenue: payments?.totalRevenue ?? ZERO_MONEY,
+      averageRating: reviews?.averageRating ?? 0,
+      todayBookings: bookings?.todayBookings ?? 0,
+      pendingBookings: bookings?.pendingBookings ?? 0,
+      completedBookings: bookings?.completedBookings ?? 0,
+      cancelledBookings: bookings?.cancelledBookings ?? 0,
+      monthlyBookings: bookings?.thisMonthBookings ?? 0,
+      bookingsByStatus: toStatusCounts(bookings),
+      topStylists: [],
+      recentBookings: [],
+      monthlyRevenue: [],
+    };
+  },
+);
+
+export const dashboardStatsDecoder: Decoder<DashboardStats> = firstOf(
+  flatDashboardStatsDecoder,
+  legacyDashboardStatsDecoder,
+);
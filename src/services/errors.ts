@@ -0,0 +1,160 @@
+import axios from "axios";
+
+// Field name -> message, as shown next to the offending form input
+export type FieldErrors = Record<string, string>;
+
+interface ApiErrorOptions {
+  status?: number;
+  code?: string;
+  cause?: unknown;
+}
+
+// Base class for every failure surfaced by ApiService and the services
+export class ApiError extends Error {
+  readonly status?: number;
+  readonly code?: string;
+  readonly cause?: unknown;
+
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.status = options.status;
+    this.code = options.code;
+    this.cause = options.cause;
+  }
+}
+
+// The request never reached the server, e.g. Wi-Fi dropped
+export class NetworkError extends ApiError {}
+
+// The server did not answer within the request timeout
+export class TimeoutError extends ApiError {}
+
+// Aborted by a signal or superseded via cancelKey; usually nothing to show
+export class CancelledError extends ApiError {}
+
+// 401 - session missing or expired
+export class UnauthorizedError extends ApiError {}
+
+// 403 - signed in but not allowed
+export class ForbiddenError extends ApiError {}
+
+// 404
+export class NotFoundError extends ApiError {}
+
+// 409 - e.g. the stylist is already booked for that slot
+export class ConflictError extends ApiError {}
+
+// 400/422 - the server rejected one or more fields
+export class ValidationError extends ApiError {
+  readonly fieldErrors: FieldErrors;
+
+  constructor(
+    message: string,
+    fieldErrors: FieldErrors,
+    options: ApiErrorOptions = {},
+  ) {
+    super(message, options);
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+// 5xx
+export class ServerError extends ApiError {}
+
+// An audit log entry could not be written, e.g. for impersonation
+export class AuditLogError extends ApiError {}
+
+// 2xx, but the payload is missing fields the app cannot do without
+export class ResponseShapeError extends ApiError {}
+
+interface ErrorBody {
+  message?: string;
+  error?: string;
+  code?: string;
+  errors?: unknown;
+}
+
+// Accepts both { field: "msg" | ["msg"] } and express-validator style
+// [{ field | path | param, message | msg }]
+const parseFieldErrors = (errors: unknown): FieldErrors => {
+  const fields: FieldErrors = {};
+
+  if (Array.isArray(errors)) {
+    errors.forEach((item) => {
+      const field = item?.field ?? item?.path ?? item?.param;
+      const message = item?.message ?? item?.msg;
+      if (typeof field === "string" && typeof message === "string") {
+        fields[field] ??= message;
+      }
+    });
+  } else if (errors && typeof errors === "object") {
+    Object.entries(errors).forEach(([field, value]) => {
+      const message = Array.isArray(value) ? value[0] : value;
+      if (typeof message === "string") fields[field] = message;
+    });
+  }
+
+  return fields;
+};
+
+// Converts anything thrown by axios or a service into an ApiError.
+// Cancelled requests become CancelledError so callers can tell them apart.
+export const toApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) return error;
+
+  if (axios.isCancel(error)) {
+    return new CancelledError("The request was cancelled", { cause: error });
+  }
+
+  if (axios.isAxiosError(error)) {
+
+    const status = error.response?.status;
+    const body = (error.response?.data ?? {}) as ErrorBody;
+    const message =
+      body.message || body.error || error.message || "Request failed";
+    const options = { status, code: body.code ?? error.code, cause: error };
+
+    if (!error.response) {
+      return error.code === "ECONNABORTED" || error.code === "ETIMEDOUT"
+        ? new TimeoutError("The server took too long to respond", options)
+        : new NetworkError("Unable to reach the server", options);
+    }
+
+    switch (status) {
+      case 400:
+      case 422:
+        return new ValidationError(
+          message,
+          parseFieldErrors(body.errors),
+          options,
+        );
+      case 401:
+        return new UnauthorizedError(message, options);
+      case 403:
+        return new ForbiddenError(message, options);
+      case 404:
+        return new NotFoundError(message, options);
+      case 409:
+        return new ConflictError(message, options);
+    }
+
+    return status && status >= 500
+      ? new ServerError(message, options)
+      : new ApiError(message, options);
+  }
+
+  if (error instanceof Error) {
+    return new ApiError(error.message, { cause: error });
+  }
+
+  return new ApiError("An unexpected error occurred", { cause: error });
+};
+
+// Per-field messages for forms; empty for any other kind of error
+export const getFieldErrors = (error: unknown): FieldErrors =>
+  error instanceof ValidationError ? error.fieldErrors : {};
+
+// The backend could not be reached, as opposed to refusing the request
+export const isConnectionError = (error: unknown): boolean =>
+  error instanceof NetworkError || error instanceof TimeoutError;
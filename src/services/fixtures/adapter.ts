@@ -0,0 +1,148 @@
+import { AxiosError, AxiosHeaders } from "axios";
+import type { AxiosResponse, InternalAxiosRequestConfig } from "axios";
+import { IDEMPOTENCY_HEADER } from "../api";
+import { loadDb, saveDb } from "./db";
+import { fail, matchRoute } from "./router";
+import type { FixtureResult, FixtureRoute } from "./router";
+import { authRoutes } from "./routes/auth";
+import { bookingRoutes } from "./routes/bookings";
+import { customerRoutes } from "./routes/customers";
+import { dashboardRoutes } from "./routes/dashboard";
+import { paymentRoutes } from "./routes/payments";
+import { reviewRoutes } from "./routes/reviews";
+import { serviceRoutes } from "./routes/services";
+import { stylistRoutes } from "./routes/stylists";
+import { resolveBearer } from "./tokens";
+
+const routes: FixtureRoute[] = [
+  ...authRoutes,
+  ...bookingRoutes,
+  ...stylistRoutes,
+  ...serviceRoutes,
+  ...paymentRoutes,
+  ...reviewRoutes,
+  ...customerRoutes,
+  ...dashboardRoutes,
+];
+
+// Enough delay for loading states to show up while developing
+const LATENCY_MS = 150;
+
+// Resolves config.url against baseURL and drops the API prefix, so
+// "/bookings" and "http://localhost:3000/health" both map to route paths
+const resolvePath = (config: InternalAxiosRequestConfig) => {
+  const base = new URL(config.baseURL ?? "/", window.location.origin);
+  const target = config.url ?? "";
+  const url = /^https?:\/\//.test(target)
+    ? new URL(target)
+    : new URL(
+        `${base.href.replace(/\/$/, "")}/${target.replace(/^\//, "")}`,
+      );
+  const prefix = base.pathname.replace(/\/$/, "");
+  const path =
+    prefix && url.pathname.startsWith(prefix)
+      ? url.pathname.slice(prefix.length)
+      : url.pathname;
+
+  return { path: path || "/", search: url.searchParams };
+};
+
+const parseBody = (data: unknown): Record<string, unknown> => {
+  if (!data) return {};
+  if (typeof data === "string") {
+    try {
+      return JSON.parse(data);
+    } catch {
+      return {};
+    }
+  }
+  return typeof data === "object" ? (data as Record<string, unknown>) : {};
+};
+
+const handle = (config: InternalAxiosRequestConfig): FixtureResult => {
+  const method = (config.method ?? "get").toUpperCase();
+  const { path, search } = resolvePath(config);
+  const match = matchRoute(routes, method, path);
+  if (!match) {
+    return fail(404, `${method} ${path} is not available with fixtures`);
+  }
+
+  const db = loadDb();
+  const user = resolveBearer(db, config.headers.Authorization);
+  if (!match.route.public && !user) {
+    return fail(401, "Access token is missing or expired");
+  }
+
+  const body = parseBody(config.data);
+  const key = config.headers[IDEMPOTENCY_HEADER];
+  const fingerprint = `${method} ${path} ${JSON.stringify(body)}`;
+
+  // Repeated keys get the stored result instead of running the handler again
+  if (typeof key === "string" && db.idempotency[key]) {
+    const stored = db.idempotency[key];
+    return stored.request === fingerprint
+      ? { status: stored.status, data: stored.data, replayed: true }
+      : fail(422, "Idempotency key was already used for a different request");
+  }
+
+  const result = match.route.handler({
+    method,
+    path,
+    params: match.params,
+    query: { ...Object.fromEntries(search), ...config.params },
+    body,
+    user,
+    db,
+  });
+
+  // Only successes are remembered, so a corrected resubmit can go through
+  if (typeof key === "string" && result.status < 300) {
+    db.idempotency[key] = {
+      request: fingerprint,
+      status: result.status,
+      data: result.data,
+    };
+  }
+
+  if (method !== "GET") saveDb();
+  return result;
+};
+
+// Axios adapter that answers requests from the fixture database instead of
+// the network. Installed by api.ts only when VITE_MOCK_API is "true".
+export const fixtureAdapter = async (
+  config: InternalAxiosRequestConfig,
+): Promise<AxiosResponse> => {
+  await new Promise((resolve) => setTimeout(resolve, LATENCY_MS));
+
+  const result = handle(config);
+  const data =
+    config.responseType === "blob"
+      ? new Blob([String(result.data)], { type: "text/csv" })
+      : result.data;
+  const response: AxiosResponse = {
+    data,
+    status: result.status,
+    statusText: result.status < 400 ? "OK" : "Error",
+    headers: new AxiosHeaders({
+      "x-fixture-backend": "true",
+      ...(result.replayed && { "idempotent-replayed": "true" }),
+    }),
+    config,
+    request: { fixture: true },
+  };
+
+  if (result.status >= 400) {
+    throw new AxiosError(
+      `Request failed with status code ${result.status}`,
+      result.status >= 500
+        ? AxiosError.ERR_BAD_RESPONSE
+        : AxiosError.ERR_BAD_REQUEST,
+      config,
+      response.request,
+      response,
+    );
+  }
+
+  return response;
+};
@@ -0,0 +1,209 @@
+import { createSeedData } from "./seed";
+
+// Rows as the fixture backend stores them; relations are joined on read
+export interface UserRow {
+  id: string;
+  email: string;
+  username: string;
+  fullName: string;
+  phone: string;
+  role: string;
+  password: string;
+  isActive: boolean;
+  emailVerified: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ScheduleDay {
+  isWorking: boolean;
+  startTime: string;
+  endTime: string;
+}
+
+export interface StylistRow {
+  id: string;
+  userId: string;
+  bio?: string;
+  specialties: string[];
+  experience: number;
+  commissionRate: number;
+  isActive: boolean;
+  isAvailable: boolean;
+  serviceIds: string[];
+  schedule: Record<string, ScheduleDay>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ServiceRow {
+  id: string;
+  name: string;
+  description: string;
+  price: string;
+  duration: number;
+  category: string;
+  isActive: boolean;
+  isPopular: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// One service of a booking; lines run back-to-back in order
+export interface BookingLineRow {
+  serviceId: string;
+  stylistId: string;
+  startTime: string;
+  endTime: string;
+  price: string;
+}
+
+// Shared by the visits of a repeating booking
+export interface BookingSeriesRow {
+  id: string;
+  rule: {
+    frequency: string;
+    interval: number;
+    until?: string;
+    count?: number;
+  };
+}
+
+// stylistId and serviceId are the main stylist and the first service
+export interface BookingRow {
+  id: string;
+  customerId: string;
+  stylistId: string;
+  serviceId: string;
+  lines: BookingLineRow[];
+  bookingDate: string;
+  startTime: string;
+  endTime: string;
+  status: string;
+  notes?: string;
+  totalPrice: string;
+  series?: BookingSeriesRow;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PaymentRow {
+  id: string;
+  bookingId: string;
+  amount: number;
+  status: string;
+  paymentMethod: string;
+  transactionId?: string;
+  refundReason?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ReviewRow {
+  id: string;
+  userId: string;
+  bookingId: string;
+  stylistId: string;
+  serviceId: string;
+  rating: number;
+  comment: string;
+  status: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CustomerRow {
+  id: string;
+  name: string;
+  email: string;
+  phone: string;
+  address?: string;
+  gender?: string;
+  membershipLevel: string;
+  loyaltyPoints: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// One entry of a user's activity log, e.g. an admin impersonating someone
+export interface ActivityRow {
+  id: string;
+  userId: string;
+  action: string;
+  description: string;
+  impersonatedUserId?: string;
+  createdAt: string;
+}
+
+// Successful response stored under an Idempotency-Key
+export interface IdempotencyRecord {
+  request: string;
+  status: number;
+  data: unknown;
+}
+
+export interface FixtureDb {
+  version: number;
+  users: UserRow[];
+  stylists: StylistRow[];
+  services: ServiceRow[];
+  bookings: BookingRow[];
+  payments: PaymentRow[];
+  reviews: ReviewRow[];
+  customers: CustomerRow[];
+  activities: ActivityRow[];
+  // refresh token -> user id
+  refreshTokens: Record<string, string>;
+  idempotency: Record<string, IdempotencyRecord>;
+}
+
+// Bump when the seed shape changes so stale browser data is replaced
+export const FIXTURE_DB_VERSION = 4;
+
+const STORAGE_KEY = "fixtureDb";
+
+// A booking includes a service or stylist when any of its lines does
+export const includesService = (booking: BookingRow, serviceId: string) =>
+  booking.lines.some((line) => line.serviceId === serviceId);
+
+export const includesStylist = (booking: BookingRow, stylistId: string) =>
+  booking.lines.some((line) => line.stylistId === stylistId);
+
+let db: FixtureDb | null = null;
+
+export const loadDb = (): FixtureDb => {
+  if (db) return db;
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored) as FixtureDb;
+      if (parsed.version === FIXTURE_DB_VERSION) {
+        db = parsed;
+        return db;
+      }
+    }
+  } catch (error) {
+    console.warn("Discarding unreadable fixture data:", error);
+  }
+
+  db = createSeedData();
+  saveDb();
+  return db;
+};
+
+export const saveDb = (): void => {
+  if (!db) return;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(db));
+  } catch (error) {
+    console.warn("Could not persist fixture data:", error);
+  }
+};
+
+export const nextId = (prefix: string): string =>
+  `${prefix}-${Date.now().toString(36)}${Math.random()
+    .toString(36)
+    .slice(2, 6)}`;
+
+export const now = (): string => new Date().toISOString();
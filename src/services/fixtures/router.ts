@@ -0,0 +1,182 @@
+import type { FixtureDb, UserRow } from "./db";
+
+export type Query = Record<string, unknown>;
+
+export interface FixtureRequest {
+  method: string;
+  path: string;
+  params: Record<string, string>;
+  query: Query;
+  body: Record<string, unknown>;
+  // Resolved from the bearer token; null on public routes
+  user: UserRow | null;
+  db: FixtureDb;
+}
+
+export interface FixtureResult {
+  status: number;
+  data: unknown;
+  // Answered from a stored Idempotency-Key result
+  replayed?: boolean;
+}
+
+export interface FixtureRoute {
+  method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  path: string;
+  handler: (request: FixtureRequest) => FixtureResult;
+  // Reachable without a valid access token
+  public?: boolean;
+}
+
+export const ok = (
+  data?: unknown,
+  message = "Success",
+  extra?: Record<string, unknown>,
+): FixtureResult => ({
+  status: 200,
+  data: { success: true, message, data, ...extra },
+});
+
+export const created = (data: unknown, message = "Created"): FixtureResult => ({
+  status: 201,
+  data: { success: true, message, data },
+});
+
+export const fail = (status: number, message: string): FixtureResult => ({
+  status,
+  data: { success: false, message, error: message },
+});
+
+// 422 with per-field messages, the shape the backend's validator returns
+export const invalid = (errors: Record<string, string>): FixtureResult => ({
+  status: 422,
+  data: {
+    success: false,
+    message: "Validation failed",
+    error: "Validation failed",
+    errors,
+  },
+});
+
+// Null when every check passed, otherwise the 422 to return
+export const validate = (
+  checks: Record<string, string | false>,
+): FixtureResult | null => {
+  const errors = Object.fromEntries(
+    Object.entries(checks).filter(
+      (entry): entry is [string, string] => entry[1] !== false,
+    ),
+  );
+  return Object.keys(errors).length ? invalid(errors) : null;
+};
+
+export const notFound = (resource: string): FixtureResult =>
+  fail(404, `${resource} not found`);
+
+// Slices a list the way the backend's paginated endpoints do
+export const paginate = <T>(items: T[], query: Query): FixtureResult => {
+  const limit = Math.max(1, Number(query.limit) || 10);
+  const total = items.length;
+  const totalPages = Math.max(1, Math.ceil(total / limit));
+  const page = Math.min(Math.max(1, Number(query.page) || 1), totalPages);
+  const meta = {
+    page,
+    limit,
+    total,
+    totalPages,
+    hasNext: page < totalPages,
+    hasPrev: page > 1,
+  };
+
+  return ok(items.slice((page - 1) * limit, page * limit), "Success", {
+    meta,
+    pagination: meta,
+  });
+};
+
+export const sortBy = <T>(items: T[], query: Query): T[] => {
+  const field = typeof query.sortBy === "string" ? query.sortBy : null;
+  if (!field) return items;
+
+  const direction = query.sortOrder === "asc" ? 1 : -1;
+  return [...items].sort((a, b) => {
+    const left = (a as Record<string, unknown>)[field];
+    const right = (b as Record<string, unknown>)[field];
+    if (left === right) return 0;
+    return (String(left) > String(right) ? 1 : -1) * direction;
+  });
+};
+
+export const matchesSearch = (query: Query, ...values: unknown[]): boolean => {
+  const search = typeof query.search === "string" ? query.search.trim() : "";
+  if (!search) return true;
+  const needle = search.toLowerCase();
+  return values.some((value) =>
+    String(value ?? "").toLowerCase().includes(needle),
+  );
+};
+
+// Plain CSV body for the export endpoints
+export const toCsv = (rows: Record<string, unknown>[]): FixtureResult => {
+  const headers = Object.keys(rows[0] ?? {});
+  const escape = (value: unknown) =>
+    `"${String(value ?? "").replace(/"/g, '""')}"`;
+  const lines = rows.map((row) =>
+    headers.map((header) => escape(row[header])).join(","),
+  );
+  return { status: 200, data: [headers.join(","), ...lines].join("\n") };
+};
+
+// Copies only the listed fields from a request body onto a row
+export const applyFields = <T extends object>(
+  row: T,
+  body: Record<string, unknown>,
+  fields: (keyof T)[],
+): T => {
+  for (const field of fields) {
+    if (body[field as string] !== undefined) {
+      row[field] = body[field as string] as T[keyof T];
+    }
+  }
+  return row;
+};
+
+// Accepts a single value, an array or a comma separated list
+export const toList = (value: unknown): string[] => {
+  if (value === undefined || value === null || value === "") return [];
+  if (Array.isArray(value)) return value.map(String);
+  return String(value).split(",");
+};
+
+export const toBoolean = (value: unknown): boolean | undefined => {
+  if (value === undefined || value === null || value === "") return undefined;
+  return value === true || value === "true";
+};
+
+export const matchRoute = (
+  routes: FixtureRoute[],
+  method: string,
+  path: string,
+): { route: FixtureRoute; params: Record<string, string> } | null => {
+  const segments = path.split("/").filter(Boolean);
+
+  for (const route of routes) {
+    if (route.method !== method) continue;
+
+    const pattern = route.path.split("/").filter(Boolean);
+    if (pattern.length !== segments.length) continue;
+
+    const params: Record<string, string> = {};
+    const matched = pattern.every((part, index) => {
+      if (part.startsWith(":")) {
+        params[part.slice(1)] = decodeURIComponent(segments[index]);
+        return true;
+      }
+      return part === segments[index];
+    });
+
+    if (matched) return { route, params };
+  }
+
+  return null;
+};
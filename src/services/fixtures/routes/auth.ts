@@ -0,0 +1,253 @@
+import {
+  getDefaultPermissions,
+  hasPermission,
+} from "../../../config/permissions";
+import { nextId, now } from "../db";
+import type { UserRow } from "../db";
+import {
+  applyFields,
+  created,
+  fail,
+  matchesSearch,
+  notFound,
+  ok,
+  paginate,
+  sortBy,
+  toList,
+  validate,
+} from "../router";
+import type { FixtureRoute } from "../router";
+import { serializeUser } from "../serializers";
+import { issueAccessToken, issueSession } from "../tokens";
+
+const USER_FIELDS: (keyof UserRow)[] = [
+  "fullName",
+  "phone",
+  "email",
+  "username",
+  "role",
+  "isActive",
+];
+
+export const authRoutes: FixtureRoute[] = [
+  {
+    method: "GET",
+    path: "/health",
+    public: true,
+    handler: () =>
+      ok({ status: "healthy", mode: "fixtures" }, "Fixture backend is running"),
+  },
+  {
+    method: "GET",
+    path: "/health/database",
+    public: true,
+    handler: () => ok({ status: "healthy" }, "Fixture data is available"),
+  },
+  {
+    method: "GET",
+    path: "/health/info",
+    public: true,
+    handler: () =>
+      ok({
+        name: "fixture-backend",
+        version: "fixtures",
+        environment: "local",
+      }),
+  },
+  {
+    method: "POST",
+    path: "/auth/login",
+    public: true,
+    handler: ({ db, body }) => {
+      const email = String(body.email ?? "").toLowerCase();
+      const user = db.users.find((item) => item.email === email);
+
+      if (!user || user.password !== body.password) {
+        return fail(401, "Invalid email or password");
+      }
+      if (!user.isActive) {
+        return fail(403, "Account is deactivated");
+      }
+
+      return ok(
+        { user: serializeUser(user), ...issueSession(db, user) },
+        "Login successful",
+      );
+    },
+  },
+  {
+    method: "POST",
+    path: "/auth/refresh",
+    public: true,
+    handler: ({ db, body }) => {
+      const refreshToken = String(body.refreshToken ?? "");
+      const user = db.users.find(
+        (item) => item.id === db.refreshTokens[refreshToken],
+      );
+      if (!user) return fail(401, "Invalid refresh token");
+
+      return ok({ token: issueAccessToken(user) }, "Token refreshed");
+    },
+  },
+  {
+    method: "POST",
+    path: "/auth/logout",
+    public: true,
+    handler: ({ db, body }) => {
+      if (typeof body.refreshToken === "string") {
+        delete db.refreshTokens[body.refreshToken];
+      }
+      return ok(undefined, "Logged out");
+    },
+  },
+  {
+    method: "GET",
+    path: "/auth/me",
+    handler: ({ user }) => ok(serializeUser(user!)),
+  },
+  {
+    method: "GET",
+    path: "/auth/permissions",
+    handler: ({ user }) => ok(getDefaultPermissions(user!.role)),
+  },
+  {
+    method: "POST",
+    path: "/auth/impersonate",
+    handler: ({ db, user, body }) => {
+      const grants = getDefaultPermissions(user!.role);
+      if (!hasPermission(grants, "user:impersonate")) {
+        return fail(403, "You are not allowed to impersonate users");
+      }
+      const target = db.users.find((item) => item.id === body.userId);
+      if (!target) return notFound("User");
+
+      return ok(
+        { user: serializeUser(target), ...issueSession(db, target) },
+        "Impersonation started",
+      );
+    },
+  },
+  {
+    method: "POST",
+    path: "/auth/impersonate/stop",
+    handler: () => ok(undefined, "Impersonation ended"),
+  },
+  {
+    method: "GET",
+    path: "/users",
+    handler: ({ db, query }) => {
+      const roles = toList(query.role).map((role) => role.toUpperCase());
+      const users = db.users.filter(
+        (item) =>
+          (!roles.length || roles.includes(item.role)) &&
+          matchesSearch(query, item.fullName, item.email, item.phone),
+      );
+      return paginate(sortBy(users, query).map(serializeUser), query);
+    },
+  },
+  {
+    method: "GET",
+    path: "/users/:id",
+    handler: ({ db, params }) => {
+      const user = db.users.find((item) => item.id === params.id);
+      return user ? ok(serializeUser(user)) : notFound("User");
+    },
+  },
+  {
+    method: "POST",
+    path: "/users",
+    handler: ({ db, body }) => {
+      const email = String(body.email ?? "").toLowerCase();
+      const error = validate({
+        email:
+          (!email && "Email is required") ||
+          (db.users.some((item) => item.email === email) &&
+            "Email is already registered"),
+        fullName: !String(body.fullName ?? "").trim() && "Name is required",
+        phone:
+          "phone" in body &&
+          !/^\+?[0-9 -]{8,16}$/.test(String(body.phone)) &&
+          "Enter a valid phone number",
+      });
+      if (error) return error;
+
+      const timestamp = now();
+      const user: UserRow = {
+        id: nextId("u"),
+        email,
+        username: String(body.username ?? email.split("@")[0]),
+        fullName: String(body.fullName ?? ""),
+        phone: String(body.phone ?? ""),
+        role: String(body.role ?? "CUSTOMER"),
+        password: String(body.password ?? ""),
+        isActive: true,
+        emailVerified: false,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      };
+      db.users.push(user);
+      return created(serializeUser(user), "User created");
+    },
+  },
+  {
+    method: "GET",
+    path: "/users/:id/activity",
+    handler: ({ db, params, query, user }) => {
+      if (user!.role !== "ADMIN" && user!.id !== params.id) {
+        return fail(403, "Not allowed to read this activity log");
+      }
+      const activities = db.activities
+        .filter((item) => item.userId === params.id)
+        .reverse();
+      const page = Number(query.page) || 1;
+      const limit = Number(query.limit) || 20;
+      return ok({
+        activities: activities
+          .slice((page - 1) * limit, page * limit)
+          .map((item) => ({ ...item, ipAddress: "", userAgent: "" })),
+        total: activities.length,
+      });
+    },
+  },
+  {
+    method: "POST",
+    path: "/users/:id/activity",
+    handler: ({ db, params, body, user }) => {
+      // Only the user themselves, or an admin, may write to their log
+      if (user!.role !== "ADMIN" && user!.id !== params.id) {
+        return fail(403, "Not allowed to write this activity log");
+      }
+      if (!db.users.some((item) => item.id === params.id)) {
+        return notFound("User");
+      }
+
+      const activity = {
+        id: nextId("act"),
+        userId: params.id,
+        action: String(body.action ?? ""),
+        description: String(body.description ?? ""),
+        impersonatedUserId: body.impersonatedUserId
+          ? String(body.impersonatedUserId)
+          : undefined,
+        createdAt: now(),
+      };
+      db.activities.push(activity);
+      return created(
+        { ...activity, ipAddress: "", userAgent: "" },
+        "Activity recorded",
+      );
+    },
+  },
+    {
+    method: "PATCH",
+    path: "/users/:id",
+    handler: ({ db, params, body }) => {
+      const user = db.users.find((item) => item.id === params.id);
+      if (!user) return notFound("User");
+
+      applyFields(user, body, USER_FIELDS);
+      user.updatedAt = now();
+      return ok(serializeUser(user), "User updated");
+    },
+  },
+];
@@ -0,0 +1,610 @@
+import { includesService, includesStylist, nextId, now } from "../db";
+import type {
+  BookingLineRow,
+  BookingRow,
+  BookingSeriesRow,
+  FixtureDb,
+} from "../db";
+import {
+  created,
+  fail,
+  matchesSearch,
+  notFound,
+  ok,
+  paginate,
+  sortBy,
+  toCsv,
+  toList,
+  validate,
+} from "../router";
+import type {
+  FixtureRequest,
+  FixtureResult,
+  FixtureRoute,
+  Query,
+} from "../router";
+import { addMinutes } from "../seed";
+import { serializeBooking } from "../serializers";
+import { todayInShop } from "../../../utils/shopTime";
+
+const SLOT_MINUTES = 30;
+
+// Bookings that no longer hold their time slot
+const RELEASED_STATUSES = ["cancelled", "no_show"];
+
+const WEEKDAYS = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
+const minutesBetween = (start: string, end: string) => {
+  const [startHours, startMinutes] = start.split(":").map(Number);
+  const [endHours, endMinutes] = end.split(":").map(Number);
+  return endHours * 60 + endMinutes - (startHours * 60 + startMinutes);
+};
+
+const overlaps = (
+  startA: string,
+  endA: string,
+  startB: string,
+  endB: string,
+) => startA < endB && startB < endA;
+
+export const isSlotFree = (
+  db: FixtureDb,
+  stylistId: string,
+  date: string,
+  startTime: string,
+  endTime: string,
+  excludeBookingId?: string,
+): boolean => {
+  const stylist = db.stylists.find((item) => item.id === stylistId);
+  const weekday = WEEKDAYS[new Date(`${date}T00:00:00`).getDay()];
+  const hours = stylist?.schedule[weekday];
+  if (!stylist || !hours?.isWorking) return false;
+  if (startTime < hours.startTime || endTime > hours.endTime) return false;
+
+  return !db.bookings.some(
+    (item) =>
+      item.id !== excludeBookingId &&
+      item.bookingDate === date &&
+      !RELEASED_STATUSES.includes(item.status) &&
+      item.lines.some(
+        (line) =>
+          line.stylistId === stylistId &&
+          overlaps(startTime, endTime, line.startTime, line.endTime),
+      ),
+  );
+};
+
+const filterBookings = (db: FixtureDb, query: Query): BookingRow[] => {
+  const statuses = toList(query.status).map((status) => status.toLowerCase());
+
+  const bookings = db.bookings.filter((item) => {
+    if (statuses.length && !statuses.includes(item.status)) return false;
+    if (query.stylistId && !includesStylist(item, String(query.stylistId))) {
+      return false;
+    }
+    if (query.serviceId && !includesService(item, String(query.serviceId))) {
+      return false;
+    }
+    if (query.customerId && item.customerId !== query.customerId) return false;
+    if (query.seriesId && item.series?.id !== query.seriesId) return false;
+    if (query.dateFrom && item.bookingDate < String(query.dateFrom)) {
+      return false;
+    }
+    if (query.dateTo && item.bookingDate > String(query.dateTo)) return false;
+    if (!query.search) return true;
+
+    const customer =
+      db.users.find((user) => user.id === item.customerId)?.fullName ??
+      db.customers.find((row) => row.id === item.customerId)?.name;
+    const services = item.lines.map(
+      (line) => db.services.find((row) => row.id === line.serviceId)?.name,
+    );
+    return matchesSearch(query, item.id, customer, ...services, item.notes);
+  });
+
+  if (query.sortBy) return sortBy(bookings, query);
+  return [...bookings].sort((a, b) =>
+    `${b.bookingDate}${b.startTime}`.localeCompare(
+      `${a.bookingDate}${a.startTime}`,
+    ),
+  );
+};
+
+const listBookings = ({ db, query }: FixtureRequest): FixtureResult =>
+  paginate(
+    filterBookings(db, query).map((item) => serializeBooking(db, item)),
+    query,
+  );
+
+// Moves a booking to a new status, rejecting finished bookings
+const transition =
+  (status: string, message: string) =>
+  ({ db, params, body }: FixtureRequest): FixtureResult => {
+    const booking = db.bookings.find((item) => item.id === params.id);
+    if (!booking) return notFound("Booking");
+    if (["completed", ...RELEASED_STATUSES].includes(booking.status)) {
+      return fail(409, `Booking is already ${booking.status}`);
+    }
+
+    booking.status = status;
+    if (typeof body.reason === "string" && body.reason) {
+      booking.notes = [booking.notes, `Alasan: ${body.reason}`]
+        .filter(Boolean)
+        .join("\n");
+    }
+    booking.updatedAt = now();
+    return ok(serializeBooking(db, booking), message);
+  };
+
+interface RequestedLine {
+  serviceId: string;
+  stylistId: string;
+  // Kept from the current line when the service is unchanged
+  duration?: number;
+  price?: string;
+}
+
+// Validates and applies a new date/time/stylist/services to a booking.
+// Services run back-to-back from the start time.
+const schedule = (
+  db: FixtureDb,
+  booking: BookingRow,
+  changes: Record<string, unknown>,
+): FixtureResult | null => {
+  const stylistId = String(changes.stylistId ?? booking.stylistId);
+  const bookingDate = String(
+    changes.bookingDate ?? changes.appointmentDate ?? booking.bookingDate,
+  ).slice(0, 10);
+  const startTime = String(
+    changes.startTime ?? changes.appointmentTime ?? booking.startTime,
+  ).slice(0, 5);
+
+  // Older clients send a single serviceId
+  const services = Array.isArray(changes.services)
+    ? (changes.services as Record<string, unknown>[])
+    : changes.serviceId
+      ? [{ serviceId: changes.serviceId }]
+      : undefined;
+  const requested: RequestedLine[] = services
+    ? services.map((item, index) => {
+        const current = booking.lines[index];
+        const kept = current?.serviceId === item.serviceId;
+        return {
+          serviceId: String(item.serviceId ?? ""),
+          stylistId: item.stylistId ? String(item.stylistId) : stylistId,
+          duration: kept
+            ? minutesBetween(current.startTime, current.endTime)
+            : undefined,
+          price: kept ? current.price : undefined,
+        };
+      })
+    : // Lines with the main stylist follow it when the booking is reassigned
+      booking.lines.map((line) => ({
+        serviceId: line.serviceId,
+        stylistId:
+          line.stylistId === booking.stylistId ? stylistId : line.stylistId,
+        duration: minutesBetween(line.startTime, line.endTime),
+        price: line.price,
+      }));
+  if (requested.length === 0) {
+    return validate({ services: "Choose at least one service" });
+  }
+
+  const lines: BookingLineRow[] = [];
+  let cursor = startTime;
+  for (const item of requested) {
+    const service = db.services.find((row) => row.id === item.serviceId);
+    if (!service) return notFound("Service");
+    if (!db.stylists.some((row) => row.id === item.stylistId)) {
+      return notFound("Stylist");
+    }
+
+    // A new length only applies to single-service bookings
+    const duration =
+      (requested.length === 1 && Number(changes.duration)) ||
+      item.duration ||
+      service.duration;
+    const endTime = addMinutes(cursor, duration);
+    lines.push({
+      serviceId: service.id,
+      stylistId: item.stylistId,
+      startTime: cursor,
+      endTime,
+      price: item.price ?? service.price,
+    });
+    cursor = endTime;
+  }
+
+  const unchanged =
+    stylistId === booking.stylistId &&
+    bookingDate === booking.bookingDate &&
+    JSON.stringify(lines) === JSON.stringify(booking.lines);
+  const busy = lines.find(
+    (line) =>
+      !isSlotFree(
+        db,
+        line.stylistId,
+        bookingDate,
+        line.startTime,
+        line.endTime,
+        booking.id,
+      ),
+  );
+  if (!unchanged && busy) {
+    const stylist = db.stylists.find((row) => row.id === busy.stylistId);
+    const name = db.users.find((user) => user.id === stylist?.userId)?.fullName;
+    return fail(
+      409,
+      `${name ?? "Stylist"} is not available at ${busy.startTime}`,
+    );
+  }
+
+  Object.assign(booking, {
+    stylistId,
+    serviceId: lines[0].serviceId,
+    lines,
+    bookingDate,
+    startTime,
+    endTime: cursor,
+    totalPrice: String(
+      lines.reduce((sum, line) => sum + Number(line.price), 0),
+    ),
+  });
+  return null;
+};
+
+// The series a new visit belongs to, when the client sent a usable one
+const toSeries = (value: unknown): BookingSeriesRow | undefined => {
+  const series = value as Partial<BookingSeriesRow> | undefined;
+  if (!series?.id || !series.rule) return undefined;
+  return {
+    id: String(series.id),
+    rule: {
+      frequency: String(series.rule.frequency ?? "weekly"),
+      interval: Number(series.rule.interval) || 1,
+      until: series.rule.until ? String(series.rule.until) : undefined,
+      count: Number(series.rule.count) || undefined,
+    },
+  };
+};
+
+const findBooking = (db: FixtureDb, id: string) =>
+  db.bookings.find((item) => item.id === id);
+
+export const bookingRoutes: FixtureRoute[] = [
+  { method: "GET", path: "/bookings", handler: listBookings },
+  {
+    method: "GET",
+    path: "/bookings/today",
+    handler: ({ db, query }) =>
+      ok(
+        filterBookings(db, {
+          ...query,
+          dateFrom: todayInShop(),
+          dateTo: todayInShop(),
+        })
+          .reverse()
+          .map((item) => serializeBooking(db, item)),
+      ),
+  },
+  {
+    method: "GET",
+    path: "/bookings/upcoming",
+    handler: ({ db, query }) =>
+      ok(
+        filterBookings(db, {
+          ...query,
+          status: ["pending", "confirmed"],
+          dateFrom: todayInShop(),
+        })
+          .reverse()
+          .slice(0, Number(query.limit) || 10)
+          .map((item) => serializeBooking(db, item)),
+      ),
+  },
+  {
+    method: "GET",
+    path: "/bookings/stats",
+    handler: ({ db, query }) => {
+      const bookings = filterBookings(db, query);
+      const count = (status: string) =>
+        bookings.filter((item) => item.status === status).length;
+
+      return ok({
+        total: bookings.length,
+        pending: count("pending"),
+        confirmed: count("confirmed"),
+        inProgress: count("in_progress"),
+        completed: count("completed"),
+        cancelled: count("cancelled"),
+        noShow: count("no_show"),
+      });
+    },
+  },
+  {
+    method: "GET",
+    path: "/bookings/calendar",
+    handler: ({ db, query }) =>
+      ok(
+        filterBookings(db, {
+          stylistId: query.stylistId,
+          dateFrom: String(query.startDate ?? "").slice(0, 10) || undefined,
+          dateTo: String(query.endDate ?? "").slice(0, 10) || undefined,
+        }).flatMap((item) => {
+          const booking = serializeBooking(db, item);
+          // One block per service, so a visit shows back-to-back
+          return booking.lines
+            .map((line, index) => ({
+              id: `${item.id}-${index + 1}`,
+              bookingId: item.id,
+              lineCount: item.lines.length,
+              offset: minutesBetween(item.startTime, line.startTime),
+              title: [booking.customer?.fullName, line.service?.name]
+                .filter(Boolean)
+                .join(" - "),
+              start: `${item.bookingDate}T${line.startTime}:00`,
+              end: `${item.bookingDate}T${line.endTime}:00`,
+              status: item.status,
+              stylistId: line.stylistId,
+              customer: booking.customer?.fullName ?? "",
+              service: line.service?.name ?? "",
+              stylist: line.stylist?.user?.fullName ?? "",
+              seriesId: item.series?.id,
+            }))
+            .filter(
+              (event) =>
+                !query.stylistId || event.stylistId === query.stylistId,
+            );
+        }),
+      ),
+  },
+  {
+    method: "GET",
+    path: "/bookings/export",
+    handler: ({ db, query }) =>
+      toCsv(
+        filterBookings(db, query).map((item) => ({
+          id: item.id,
+          date: item.bookingDate,
+          startTime: item.startTime,
+          endTime: item.endTime,
+          customerId: item.customerId,
+          stylistId: item.stylistId,
+          serviceIds: item.lines.map((line) => line.serviceId).join(" "),
+          status: item.status,
+          totalPrice: item.totalPrice,
+        })),
+      ),
+  },
+  {
+    method: "GET",
+    path: "/bookings/availability/stylist/:stylistId",
+    handler: ({ db, params, query }) => {
+      const stylist = db.stylists.find((item) => item.id === params.stylistId);
+      if (!stylist) return notFound("Stylist");
+
+      const date = String(query.date ?? todayInShop());
+      // Long enough for every requested service back-to-back
+      const duration =
+        toList(query.serviceIds ?? query.serviceId)
+          .map((id) => db.services.find((item) => item.id === id)?.duration)
+          .reduce((sum: number, minutes) => sum + (minutes ?? 0), 0) ||
+        SLOT_MINUTES;
+      const hours =
+        stylist.schedule[WEEKDAYS[new Date(`${date}T00:00:00`).getDay()]];
+      const availableSlots: {
+        startTime: string;
+        endTime: string;
+        duration: number;
+      }[] = [];
+
+      if (hours?.isWorking) {
+        // Walk the working day in fixed steps until a slot would overrun it
+        for (
+          let start = hours.startTime, end = addMinutes(start, duration);
+          end <= hours.endTime && end > start;
+          start = addMinutes(start, SLOT_MINUTES),
+            end = addMinutes(start, duration)
+        ) {
+          if (isSlotFree(db, stylist.id, date, start, end)) {
+            availableSlots.push({ startTime: start, endTime: end, duration });
+          }
+        }
+      }
+
+      return ok({ stylistId: stylist.id, date, availableSlots });
+    },
+  },
+  {
+    method: "GET",
+    path: "/bookings/availability/check/:stylistId",
+    handler: ({ db, params, query }) => {
+      const startTime = String(query.startTime ?? "").slice(0, 5);
+      const endTime = addMinutes(
+        startTime,
+        Number(query.duration) || SLOT_MINUTES,
+      );
+      return ok({
+        available: isSlotFree(
+          db,
+          params.stylistId,
+          String(query.date ?? ""),
+          startTime,
+          endTime,
+          query.excludeBookingId as string | undefined,
+        ),
+      });
+    },
+  },
+  {
+    method: "GET",
+    path: "/bookings/customer/:customerId",
+    handler: (request) =>
+      listBookings({
+        ...request,
+        query: { ...request.query, customerId: request.params.customerId },
+      }),
+  },
+  {
+    method: "GET",
+    path: "/bookings/stylist/:stylistId",
+    handler: (request) =>
+      listBookings({
+        ...request,
+        query: { ...request.query, stylistId: request.params.stylistId },
+      }),
+  },
+  {
+    method: "GET",
+    path: "/bookings/series/:seriesId",
+    handler: ({ db, params }) =>
+      ok(
+        filterBookings(db, { seriesId: params.seriesId })
+          .reverse()
+          .map((item) => serializeBooking(db, item)),
+      ),
+  },
+  {
+    method: "GET",
+    path: "/bookings/:id",
+    handler: ({ db, params }) => {
+      const booking = findBooking(db, params.id);
+      return booking ? ok(serializeBooking(db, booking)) : notFound("Booking");
+    },
+  },
+  {
+    method: "POST",
+    path: "/bookings",
+    handler: ({ db, body }) => {
+      const customerId = String(body.customerId ?? "");
+      const knownCustomer =
+        db.users.some((item) => item.id === customerId) ||
+        db.customers.some((item) => item.id === customerId);
+      if (!knownCustomer) return notFound("Customer");
+
+      const date = String(body.bookingDate ?? body.appointmentDate ?? "");
+      const invalidFields = validate({
+        stylistId: !body.stylistId && "Choose a stylist",
+        services:
+          !(Array.isArray(body.services) && body.services.length) &&
+          !body.serviceId &&
+          "Choose at least one service",
+        bookingDate:
+          (!date && "Choose a date") ||
+          (date.slice(0, 10) < todayInShop() &&
+            "Booking date cannot be in the past"),
+      });
+      if (invalidFields) return invalidFields;
+
+      const timestamp = now();
+      const booking: BookingRow = {
+        id: nextId("b"),
+        customerId,
+        stylistId: "",
+        serviceId: "",
+        lines: [],
+        bookingDate: "",
+        startTime: "",
+        endTime: "",
+        status: "pending",
+        notes: body.notes ? String(body.notes) : undefined,
+        totalPrice: "0",
+        series: toSeries(body.series),
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      };
+
+      const error = schedule(db, booking, body);
+      if (error) return error;
+
+      db.bookings.push(booking);
+      return created(serializeBooking(db, booking), "Booking created");
+    },
+  },
+  {
+    method: "PUT",
+    path: "/bookings/:id",
+    handler: ({ db, params, body }) => {
+      const booking = findBooking(db, params.id);
+      if (!booking) return notFound("Booking");
+
+      const error = schedule(db, booking, body);
+      if (error) return error;
+
+      if (typeof body.status === "string") booking.status = body.status;
+      if (body.notes !== undefined) booking.notes = String(body.notes);
+      booking.updatedAt = now();
+      return ok(serializeBooking(db, booking), "Booking updated");
+    },
+  },
+  {
+    method: "PATCH",
+    path: "/bookings/:id/status",
+    handler: ({ db, params, body }) => {
+      const booking = findBooking(db, params.id);
+      if (!booking) return notFound("Booking");
+
+      booking.status = String(body.status ?? booking.status).toLowerCase();
+      booking.updatedAt = now();
+      return ok(serializeBooking(db, booking), "Booking status updated");
+    },
+  },
+  {
+    method: "PATCH",
+    path: "/bookings/:id/reschedule",
+    handler: ({ db, params, body }) => {
+      const booking = findBooking(db, params.id);
+      if (!booking) return notFound("Booking");
+
+      const error = schedule(db, booking, body);
+      if (error) return error;
+
+      booking.updatedAt = now();
+      return ok(serializeBooking(db, booking), "Booking rescheduled");
+    },
+  },
+  {
+    method: "PATCH",
+    path: "/bookings/:id/cancel",
+    handler: transition("cancelled", "Booking cancelled"),
+  },
+  {
+    method: "PATCH",
+    path: "/bookings/:id/confirm",
+    handler: transition("confirmed", "Booking confirmed"),
+  },
+  {
+    method: "PATCH",
+    path: "/bookings/:id/start",
+    handler: transition("in_progress", "Booking started"),
+  },
+  {
+    method: "PATCH",
+    path: "/bookings/:id/complete",
+    handler: transition("completed", "Booking completed"),
+  },
+  {
+    method: "PATCH",
+    path: "/bookings/:id/no-show",
+    handler: transition("no_show", "Booking marked as no show"),
+  },
+  {
+    method: "DELETE",
+    path: "/bookings/:id",
+    handler: ({ db, params }) => {
+      if (!findBooking(db, params.id)) return notFound("Booking");
+
+      db.bookings = db.bookings.filter((item) => item.id !== params.id);
+      db.payments = db.payments.filter((item) => item.bookingId !== params.id);
+      return ok(undefined, "Booking deleted");
+    },
+  },
+];
@@ -0,0 +1,209 @@
+import { nextId, now } from "../db";
+import type { CustomerRow, FixtureDb } from "../db";
+import {
+  applyFields,
+  created,
+  fail,
+  matchesSearch,
+  notFound,
+  ok,
+  paginate,
+  sortBy,
+  toCsv,
+} from "../router";
+import type { FixtureRoute, Query } from "../router";
+import {
+  serializeBooking,
+  serializeCustomer,
+  serializePayment,
+} from "../serializers";
+import { todayInShop } from "../../../utils/shopTime";
+
+const CUSTOMER_FIELDS: (keyof CustomerRow)[] = [
+  "name",
+  "email",
+  "phone",
+  "address",
+  "gender",
+  "membershipLevel",
+];
+
+const findCustomer = (db: FixtureDb, id: string) =>
+  db.customers.find((item) => item.id === id);
+
+const filterCustomers = (db: FixtureDb, query: Query) =>
+  db.customers
+    .map((item) => serializeCustomer(db, item))
+    .filter(
+      (item) =>
+        (!query.membershipLevel ||
+          item.membershipLevel === query.membershipLevel) &&
+        (!query.startDate || item.createdAt >= String(query.startDate)) &&
+        (!query.endDate ||
+          item.createdAt.slice(0, 10) <= String(query.endDate)) &&
+        (!query.minBookings ||
+          item.totalBookings >= Number(query.minBookings)) &&
+        (!query.maxBookings ||
+          item.totalBookings <= Number(query.maxBookings)) &&
+        (!query.minSpent || item.totalSpent >= Number(query.minSpent)) &&
+        (!query.maxSpent || item.totalSpent <= Number(query.maxSpent)) &&
+        matchesSearch(query, item.name, item.email, item.phone),
+    );
+
+export const customerRoutes: FixtureRoute[] = [
+  {
+    method: "GET",
+    path: "/customers",
+    handler: ({ db, query }) =>
+      paginate(sortBy(filterCustomers(db, query), query), query),
+  },
+  {
+    method: "GET",
+    path: "/customers/statistics",
+    handler: ({ db }) => {
+      const customers = db.customers.map((item) => serializeCustomer(db, item));
+      const thisMonth = todayInShop().slice(0, 7);
+      const returning = customers.filter((item) => item.totalBookings > 1);
+      const lifetimeValue = customers.reduce(
+        (sum, item) => sum + item.totalSpent,
+        0,
+      );
+
+      return ok({
+        totalCustomers: customers.length,
+        newCustomersThisMonth: customers.filter((item) =>
+          item.createdAt.startsWith(thisMonth),
+        ).length,
+        customerRetentionRate: customers.length
+          ? Math.round((returning.length / customers.length) * 1000) / 10
+          : 0,
+        averageLifetimeValue: customers.length
+          ? Math.round(lifetimeValue / customers.length)
+          : 0,
+      });
+    },
+  },
+  {
+    method: "GET",
+    path: "/customers/export",
+    handler: ({ db, query }) =>
+      toCsv(
+        filterCustomers(db, query).map((item) => ({
+          id: item.id,
+          name: item.name,
+          email: item.email,
+          phone: item.phone,
+          membershipLevel: item.membershipLevel,
+          totalBookings: item.totalBookings,
+          totalSpent: item.totalSpent,
+        })),
+      ),
+  },
+  {
+    method: "POST",
+    path: "/customers/import",
+    handler: () => fail(501, "Customer import is not available with fixtures"),
+  },
+  {
+    method: "GET",
+    path: "/customers/:id",
+    handler: ({ db, params }) => {
+      const customer = findCustomer(db, params.id);
+      return customer
+        ? ok(serializeCustomer(db, customer))
+        : notFound("Customer");
+    },
+  },
+  {
+    method: "POST",
+    path: "/customers",
+    handler: ({ db, body }) => {
+      if (!body.name) return fail(400, "Customer name is required");
+      const email = String(body.email ?? "").toLowerCase();
+      if (email && db.customers.some((item) => item.email === email)) {
+        return fail(409, "Email is already registered");
+      }
+
+      const timestamp = now();
+      const customer = applyFields<CustomerRow>(
+        {
+          id: nextId("c"),
+          name: "",
+          email,
+          phone: "",
+          membershipLevel: "regular",
+          loyaltyPoints: 0,
+          createdAt: timestamp,
+          updatedAt: timestamp,
+        },
+        { ...body, email },
+        CUSTOMER_FIELDS,
+      );
+      db.customers.push(customer);
+      return created(serializeCustomer(db, customer), "Customer created");
+    },
+  },
+  {
+    method: "PUT",
+    path: "/customers/:id",
+    handler: ({ db, params, body }) => {
+      const customer = findCustomer(db, params.id);
+      if (!customer) return notFound("Customer");
+
+      applyFields(customer, body, CUSTOMER_FIELDS);
+      customer.updatedAt = now();
+      return ok(serializeCustomer(db, customer), "Customer updated");
+    },
+  },
+  {
+    method: "DELETE",
+    path: "/customers/:id",
+    handler: ({ db, params }) => {
+      if (!findCustomer(db, params.id)) return notFound("Customer");
+
+      db.customers = db.customers.filter((item) => item.id !== params.id);
+      return ok(undefined, "Customer deleted");
+    },
+  },
+  {
+    method: "GET",
+    path: "/customers/:id/bookings",
+    handler: ({ db, params, query }) =>
+      paginate(
+        db.bookings
+          .filter((item) => item.customerId === params.id)
+          .sort((a, b) => b.bookingDate.localeCompare(a.bookingDate))
+          .map((item) => serializeBooking(db, item)),
+        query,
+      ),
+  },
+  {
+    method: "GET",
+    path: "/customers/:id/payments",
+    handler: ({ db, params, query }) => {
+      const bookingIds = new Set(
+        db.bookings
+          .filter((item) => item.customerId === params.id)
+          .map((item) => item.id),
+      );
+      return paginate(
+        db.payments
+          .filter((item) => bookingIds.has(item.bookingId))
+          .map(serializePayment),
+        query,
+      );
+    },
+  },
+  {
+    method: "POST",
+    path: "/customers/:id/loyalty-points",
+    handler: ({ db, params, body }) => {
+      const customer = findCustomer(db, params.id);
+      if (!customer) return notFound("Customer");
+
+      customer.loyaltyPoints += Number(body.points) || 0;
+      customer.updatedAt = now();
+      return ok(serializeCustomer(db, customer), "Loyalty points updated");
+    },
+  },
+];
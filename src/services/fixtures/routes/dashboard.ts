@@ -0,0 +1,88 @@
+import { includesService, includesStylist } from "../db";
+import { ok } from "../router";
+import type { FixtureRoute } from "../router";
+import {
+  averageRating,
+  serializeBooking,
+  serializeStylist,
+  summarizeByMonth,
+} from "../serializers";
+import { todayInShop } from "../../../utils/shopTime";
+
+// Mirrors the flat shape the backend's /dashboard/stats returns
+export const dashboardRoutes: FixtureRoute[] = [
+  {
+    method: "GET",
+    path: "/dashboard/stats",
+    handler: ({ db, query }) => {
+      const bookings = db.bookings.filter(
+        (item) =>
+          (!query.stylistId ||
+            includesStylist(item, String(query.stylistId))) &&
+          (!query.serviceId ||
+            includesService(item, String(query.serviceId))) &&
+          (!query.dateFrom || item.bookingDate >= String(query.dateFrom)) &&
+          (!query.dateTo || item.bookingDate <= String(query.dateTo)),
+      );
+      const today = todayInShop();
+      const thisMonth = today.slice(0, 7);
+      const count = (status: string) =>
+        bookings.filter((item) => item.status === status).length;
+
+      const bookingIds = new Set(bookings.map((item) => item.id));
+      const totalRevenue = db.payments
+        .filter(
+          (item) =>
+            bookingIds.has(item.bookingId) && item.status === "completed",
+        )
+        .reduce((sum, item) => sum + item.amount, 0);
+
+      return ok({
+        totalCustomers: db.customers.length,
+        totalBookings: bookings.length,
+        totalRevenue: totalRevenue.toString(),
+        averageRating: averageRating(
+          db.reviews.filter((item) => item.status === "approved"),
+        ),
+        todayBookings: bookings.filter((item) => item.bookingDate === today)
+          .length,
+        monthlyBookings: bookings.filter((item) =>
+          item.bookingDate.startsWith(thisMonth),
+        ).length,
+        pendingBookings: count("pending"),
+        completedBookings: count("completed"),
+        cancelledBookings: count("cancelled"),
+        bookingsByStatus: [
+          "pending",
+          "confirmed",
+          "in_progress",
+          "completed",
+          "cancelled",
+          "no_show",
+        ].map((status) => ({
+          status,
+          count: count(status),
+          percentage: bookings.length
+            ? (count(status) / bookings.length) * 100
+            : 0,
+        })),
+        topStylists: db.stylists
+          .map((item) => serializeStylist(db, item))
+          .sort((a, b) => Number(b.revenue) - Number(a.revenue))
+          .slice(0, 5)
+          .map((item) => ({
+            id: item.id,
+            name: item.user?.fullName ?? "",
+            rating: item.rating,
+            totalBookings: item.totalBookings,
+            revenue: item.revenue,
+          })),
+        recentBookings: [...bookings]
+          .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+          .slice(0, 5)
+          .map((item) => serializeBooking(db, item)),
+        monthlyRevenue: summarizeByMonth(bookings),
+      });
+    },
+  },
+];
@@ -0,0 +1,165 @@
+import { nextId, now } from "../db";
+import type { FixtureDb, PaymentRow } from "../db";
+import {
+  applyFields,
+  created,
+  fail,
+  notFound,
+  ok,
+  paginate,
+  sortBy,
+} from "../router";
+import type { FixtureRoute } from "../router";
+import { serializePayment } from "../serializers";
+
+const PAYMENT_FIELDS: (keyof PaymentRow)[] = [
+  "amount",
+  "status",
+  "paymentMethod",
+  "transactionId",
+];
+
+const findPayment = (db: FixtureDb, id: string) =>
+  db.payments.find((item) => item.id === id);
+
+const newPayment = (
+  bookingId: string,
+  fields: Partial<PaymentRow>,
+): PaymentRow => {
+  const timestamp = now();
+  return {
+    id: nextId("p"),
+    bookingId,
+    amount: 0,
+    status: "pending",
+    paymentMethod: "cash",
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    ...fields,
+  };
+};
+
+export const paymentRoutes: FixtureRoute[] = [
+  {
+    method: "GET",
+    path: "/payments",
+    handler: ({ db, query }) => {
+      const payments = db.payments.filter(
+        (item) =>
+          (!query.status || item.status === query.status) &&
+          (!query.bookingId || item.bookingId === query.bookingId) &&
+          (!query.paymentMethod ||
+            item.paymentMethod === query.paymentMethod) &&
+          (!query.startDate || item.createdAt >= String(query.startDate)) &&
+          (!query.endDate ||
+            item.createdAt.slice(0, 10) <= String(query.endDate)),
+      );
+
+      return paginate(
+        sortBy(payments, { sortBy: "createdAt", ...query }).map(
+          serializePayment,
+        ),
+        query,
+      );
+    },
+  },
+  {
+    method: "POST",
+    path: "/payments/process",
+    handler: ({ db, body }) => {
+      const booking = db.bookings.find((item) => item.id === body.bookingId);
+      if (!booking) return notFound("Booking");
+      const alreadyPaid = db.payments.some(
+        (item) => item.bookingId === booking.id && item.status === "completed",
+      );
+      if (alreadyPaid) return fail(409, "Booking is already paid");
+
+      const payment = newPayment(booking.id, {
+        amount: Number(body.amount ?? booking.totalPrice),
+        paymentMethod: String(body.paymentMethod ?? "cash"),
+        status: "completed",
+        transactionId: `TRX${Date.now().toString(36).toUpperCase()}`,
+      });
+      db.payments.push(payment);
+      return created(serializePayment(payment), "Payment processed");
+    },
+  },
+  {
+    method: "GET",
+    path: "/payments/booking/:bookingId",
+    handler: ({ db, params }) =>
+      ok(
+        db.payments
+          .filter((item) => item.bookingId === params.bookingId)
+          .map(serializePayment),
+      ),
+  },
+  {
+    method: "GET",
+    path: "/payments/:id",
+    handler: ({ db, params }) => {
+      const payment = findPayment(db, params.id);
+      return payment ? ok(serializePayment(payment)) : notFound("Payment");
+    },
+  },
+  {
+    method: "POST",
+    path: "/payments",
+    handler: ({ db, body }) => {
+      const bookingId = String(body.bookingId ?? "");
+      if (!db.bookings.some((item) => item.id === bookingId)) {
+        return notFound("Booking");
+      }
+      const alreadyPaid = db.payments.some(
+        (item) => item.bookingId === bookingId && item.status === "completed",
+      );
+      if (alreadyPaid) return fail(409, "Booking is already paid");
+
+      const payment = applyFields(
+        newPayment(bookingId, {}),
+        body,
+        PAYMENT_FIELDS,
+      );
+      db.payments.push(payment);
+      return created(serializePayment(payment), "Payment created");
+    },
+  },
+  {
+    method: "PUT",
+    path: "/payments/:id",
+    handler: ({ db, params, body }) => {
+      const payment = findPayment(db, params.id);
+      if (!payment) return notFound("Payment");
+
+      applyFields(payment, body, PAYMENT_FIELDS);
+      payment.updatedAt = now();
+      return ok(serializePayment(payment), "Payment updated");
+    },
+  },
+  {
+    method: "POST",
+    path: "/payments/:id/refund",
+    handler: ({ db, params, body }) => {
+      const payment = findPayment(db, params.id);
+      if (!payment) return notFound("Payment");
+      if (payment.status !== "completed") {
+        return fail(409, "Only completed payments can be refunded");
+      }
+
+      payment.status = "refunded";
+      payment.refundReason = body.reason ? String(body.reason) : undefined;
+      payment.updatedAt = now();
+      return ok(serializePayment(payment), "Payment refunded");
+    },
+  },
+  {
+    method: "DELETE",
+    path: "/payments/:id",
+    handler: ({ db, params }) => {
+      if (!findPayment(db, params.id)) return notFound("Payment");
+
+      db.payments = db.payments.filter((item) => item.id !== params.id);
+      return ok(undefined, "Payment deleted");
+    },
+  },
+];
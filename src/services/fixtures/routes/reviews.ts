@@ -0,0 +1,163 @@
+import { nextId, now } from "../db";
+import type { FixtureDb, ReviewRow } from "../db";
+import {
+  applyFields,
+  created,
+  notFound,
+  ok,
+  paginate,
+  sortBy,
+} from "../router";
+import type { FixtureRequest, FixtureResult, FixtureRoute } from "../router";
+import { averageRating, serializeReview } from "../serializers";
+
+const REVIEW_FIELDS: (keyof ReviewRow)[] = ["rating", "comment", "status"];
+
+const findReview = (db: FixtureDb, id: string) =>
+  db.reviews.find((item) => item.id === id);
+
+const listBy =
+  (field: "userId" | "stylistId" | "serviceId", param: string) =>
+  ({ db, params }: FixtureRequest): FixtureResult =>
+    ok(
+      db.reviews
+        .filter((item) => item[field] === params[param])
+        .map((item) => serializeReview(db, item)),
+    );
+
+const moderate =
+  (status: string, message: string) =>
+  ({ db, params }: FixtureRequest): FixtureResult => {
+    const review = findReview(db, params.id);
+    if (!review) return notFound("Review");
+
+    review.status = status;
+    review.updatedAt = now();
+    return ok(serializeReview(db, review), message);
+  };
+
+export const reviewRoutes: FixtureRoute[] = [
+  {
+    method: "GET",
+    path: "/reviews",
+    handler: ({ db, query }) => {
+      const reviews = db.reviews.filter(
+        (item) =>
+          (!query.status || item.status === query.status) &&
+          (!query.rating || item.rating === Number(query.rating)) &&
+          (!query.stylistId || item.stylistId === query.stylistId) &&
+          (!query.serviceId || item.serviceId === query.serviceId) &&
+          (!query.startDate || item.createdAt >= String(query.startDate)) &&
+          (!query.endDate ||
+            item.createdAt.slice(0, 10) <= String(query.endDate)),
+      );
+
+      return paginate(
+        sortBy(reviews, { sortBy: "createdAt", ...query }).map((item) =>
+          serializeReview(db, item),
+        ),
+        query,
+      );
+    },
+  },
+  {
+    method: "GET",
+    path: "/reviews/statistics",
+    handler: ({ db }) => {
+      const reviews = db.reviews.filter((item) => item.status === "approved");
+      return ok({
+        averageRating: averageRating(reviews),
+        totalReviews: reviews.length,
+        ratingDistribution: Object.fromEntries(
+          [1, 2, 3, 4, 5].map((rating) => [
+            rating.toString(),
+            reviews.filter((item) => item.rating === rating).length,
+          ]),
+        ),
+      });
+    },
+  },
+  {
+    method: "GET",
+    path: "/reviews/user/:userId",
+    handler: listBy("userId", "userId"),
+  },
+  {
+    method: "GET",
+    path: "/reviews/stylist/:stylistId",
+    handler: listBy("stylistId", "stylistId"),
+  },
+  {
+    method: "GET",
+    path: "/reviews/service/:serviceId",
+    handler: listBy("serviceId", "serviceId"),
+  },
+  {
+    method: "GET",
+    path: "/reviews/:id",
+    handler: ({ db, params }) => {
+      const review = findReview(db, params.id);
+      return review ? ok(serializeReview(db, review)) : notFound("Review");
+    },
+  },
+  {
+    method: "POST",
+    path: "/reviews",
+    handler: ({ db, body }) => {
+      const booking = db.bookings.find((item) => item.id === body.bookingId);
+      if (!booking) return notFound("Booking");
+
+      const timestamp = now();
+      const review = applyFields(
+        {
+          id: nextId("r"),
+          userId: booking.customerId,
+          bookingId: booking.id,
+          stylistId: booking.stylistId,
+          serviceId: booking.serviceId,
+          rating: 5,
+          comment: "",
+          status: "pending",
+          createdAt: timestamp,
+          updatedAt: timestamp,
+        },
+        body,
+        ["rating", "comment"],
+      );
+      db.reviews.push(review);
+      return created(serializeReview(db, review), "Review created");
+    },
+  },
+  {
+    method: "PUT",
+    path: "/reviews/:id",
+    handler: ({ db, params, body }) => {
+      const review = findReview(db, params.id);
+      if (!review) return notFound("Review");
+
+      applyFields(review, body, REVIEW_FIELDS);
+      review.updatedAt = now();
+      return ok(serializeReview(db, review), "Review updated");
+    },
+  },
+  {
+    method: "PATCH",
+    path: "/reviews/:id/approve",
+    handler: moderate("approved", "Review approved"),
+  },
+  {
+    method: "PATCH",
+    path: "/reviews/:id/reject",
+    handler: moderate("rejected", "Review rejected"),
+  },
+  {
+    method: "DELETE",
+    path: "/reviews/:id",
+    handler: ({ db, params }) => {
+      if (!findReview(db, params.id)) return notFound("Review");
+
+      db.reviews = db.reviews.filter((item) => item.id !== params.id);
+      return ok(undefined, "Review deleted");
+    },
+  },
+];
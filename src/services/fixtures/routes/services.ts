@@ -0,0 +1,393 @@
+import { includesService, nextId, now } from "../db";
+import type { FixtureDb, ServiceRow } from "../db";
+import {
+  applyFields,
+  created,
+  fail,
+  matchesSearch,
+  notFound,
+  ok,
+  paginate,
+  sortBy,
+  toBoolean,
+  toCsv,
+  validate,
+} from "../router";
+import type { FixtureRoute } from "../router";
+import { addMinutes } from "../seed";
+import {
+  averageRating,
+  serializeReview,
+  serializeService,
+  serializeStylist,
+  summarizeByMonth,
+} from "../serializers";
+import { isSlotFree } from "./bookings";
+
+const SERVICE_FIELDS: (keyof ServiceRow)[] = [
+  "name",
+  "description",
+  "price",
+  "duration",
+  "category",
+  "isActive",
+  "isPopular",
+];
+
+const findService = (db: FixtureDb, id: string) =>
+  db.services.find((item) => item.id === id);
+
+const validateService = (body: Record<string, unknown>, isCreate: boolean) =>
+  validate({
+    name:
+      (isCreate || "name" in body) &&
+      !String(body.name ?? "").trim() &&
+      "Service name is required",
+    price:
+      "price" in body &&
+      !(Number(body.price) > 0) &&
+      "Price must be greater than zero",
+    duration:
+      "duration" in body &&
+      !(Number(body.duration) >= 5 && Number(body.duration) <= 480) &&
+      "Duration must be between 5 and 480 minutes",
+  });
+
+const bookingCount = (db: FixtureDb, serviceId: string) =>
+  db.bookings.filter((item) => includesService(item, serviceId)).length;
+
+const byPopularity = (db: FixtureDb, services: ServiceRow[]) =>
+  [...services].sort((a, b) => bookingCount(db, b.id) - bookingCount(db, a.id));
+
+export const serviceRoutes: FixtureRoute[] = [
+  {
+    method: "GET",
+    path: "/services",
+    handler: ({ db, query }) => {
+      const isActive = toBoolean(query.isActive);
+      const isPopular = toBoolean(query.isPopular);
+
+      const services = db.services.filter(
+        (item) =>
+          (!query.category || item.category === query.category) &&
+          (isActive === undefined || item.isActive === isActive) &&
+          (isPopular === undefined || item.isPopular === isPopular) &&
+          (!query.minPrice || Number(item.price) >= Number(query.minPrice)) &&
+          (!query.maxPrice || Number(item.price) <= Number(query.maxPrice)) &&
+          matchesSearch(query, item.name, item.description),
+      );
+
+      return paginate(
+        sortBy(services, query).map((item) => serializeService(db, item)),
+        { limit: services.length || 1, ...query },
+      );
+    },
+  },
+  {
+    method: "GET",
+    path: "/services/active",
+    handler: ({ db }) =>
+      ok(
+        db.services
+          .filter((item) => item.isActive)
+          .map((item) => serializeService(db, item)),
+      ),
+  },
+  {
+    method: "GET",
+    path: "/services/popular",
+    handler: ({ db, query }) =>
+      ok(
+        byPopularity(
+          db,
+          db.services.filter((item) => item.isActive),
+        )
+          .slice(0, Number(query.limit) || 10)
+          .map((item) => serializeService(db, item)),
+      ),
+  },
+  {
+    method: "GET",
+    path: "/services/recommended",
+    handler: ({ db, query }) => {
+      // Favour what the customer booked before, then overall popularity
+      const history = db.bookings.filter(
+        (item) => item.customerId === query.customerId,
+      );
+      const booked = (id: string) =>
+        history.filter((item) => includesService(item, id)).length;
+
+      return ok(
+        byPopularity(
+          db,
+          db.services.filter((item) => item.isActive),
+        )
+          .sort((a, b) => booked(b.id) - booked(a.id))
+          .slice(0, 5)
+          .map((item) => serializeService(db, item)),
+      );
+    },
+  },
+  {
+    method: "GET",
+    path: "/services/categories",
+    handler: ({ db }) => {
+      const counts = new Map<string, number>();
+      for (const service of db.services) {
+        counts.set(service.category, (counts.get(service.category) ?? 0) + 1);
+      }
+      return ok(
+        [...counts.entries()].map(([value, count]) => ({
+          value,
+          label: value.charAt(0).toUpperCase() + value.slice(1),
+          count,
+        })),
+      );
+    },
+  },
+  {
+    method: "GET",
+    path: "/services/category/:category",
+    handler: ({ db, params }) =>
+      ok(
+        db.services
+          .filter((item) => item.category === params.category)
+          .map((item) => serializeService(db, item)),
+      ),
+  },
+  {
+    method: "GET",
+    path: "/services/stylist/:stylistId",
+    handler: ({ db, params }) => {
+      const stylist = db.stylists.find((item) => item.id === params.stylistId);
+      if (!stylist) return notFound("Stylist");
+      return ok(
+        db.services
+          .filter((item) => stylist.serviceIds.includes(item.id))
+          .map((item) => serializeService(db, item)),
+      );
+    },
+  },
+  {
+    method: "GET",
+    path: "/services/export",
+    handler: ({ db }) =>
+      toCsv(
+        db.services.map((item) => ({
+          id: item.id,
+          name: item.name,
+          category: item.category,
+          price: item.price,
+          duration: item.duration,
+          isActive: item.isActive,
+        })),
+      ),
+  },
+  {
+    method: "PATCH",
+    path: "/services/bulk-update",
+    handler: ({ db, body }) => {
+      const ids = Array.isArray(body.serviceIds) ? body.serviceIds : [];
+      const updates = (body.updates ?? {}) as Record<string, unknown>;
+      const services = db.services.filter((item) => ids.includes(item.id));
+
+      for (const service of services) {
+        applyFields(service, updates, SERVICE_FIELDS);
+        service.updatedAt = now();
+      }
+      return ok(
+        services.map((item) => serializeService(db, item)),
+        "Services updated",
+      );
+    },
+  },
+  {
+    method: "GET",
+    path: "/services/:id",
+    handler: ({ db, params }) => {
+      const service = findService(db, params.id);
+      return service ? ok(serializeService(db, service)) : notFound("Service");
+    },
+  },
+  {
+    method: "POST",
+    path: "/services",
+    handler: ({ db, body }) => {
+      const error = validateService(body, true);
+      if (error) return error;
+
+      const timestamp = now();
+      const service = applyFields<ServiceRow>(
+        {
+          id: nextId("svc"),
+          name: "",
+          description: "",
+          price: "0",
+          duration: 30,
+          category: "haircut",
+          isActive: true,
+          isPopular: false,
+          createdAt: timestamp,
+          updatedAt: timestamp,
+        },
+        body,
+        SERVICE_FIELDS,
+      );
+      service.price = String(service.price);
+      db.services.push(service);
+      return created(serializeService(db, service), "Service created");
+    },
+  },
+  {
+    method: "PUT",
+    path: "/services/:id",
+    handler: ({ db, params, body }) => {
+      const service = findService(db, params.id);
+      if (!service) return notFound("Service");
+      const error = validateService(body, false);
+      if (error) return error;
+
+      applyFields(service, body, SERVICE_FIELDS);
+      service.price = String(service.price);
+      service.updatedAt = now();
+      return ok(serializeService(db, service), "Service updated");
+    },
+  },
+  {
+    method: "DELETE",
+    path: "/services/:id",
+    handler: ({ db, params }) => {
+      if (!findService(db, params.id)) return notFound("Service");
+      if (bookingCount(db, params.id)) {
+        return fail(409, "Service has bookings; deactivate it instead");
+      }
+
+      db.services = db.services.filter((item) => item.id !== params.id);
+      return ok(undefined, "Service deleted");
+    },
+  },
+  {
+    method: "PATCH",
+    path: "/services/:id/status",
+    handler: ({ db, params, body }) => {
+      const service = findService(db, params.id);
+      if (!service) return notFound("Service");
+
+      service.isActive = !!body.isActive;
+      service.updatedAt = now();
+      return ok(serializeService(db, service), "Service status updated");
+    },
+  },
+  {
+    method: "POST",
+    path: "/services/:id/toggle-popular",
+    handler: ({ db, params }) => {
+      const service = findService(db, params.id);
+      if (!service) return notFound("Service");
+
+      service.isPopular = !service.isPopular;
+      service.updatedAt = now();
+      return ok(serializeService(db, service), "Service updated");
+    },
+  },
+  {
+    method: "GET",
+    path: "/services/:id/analytics",
+    handler: ({ db, params, query }) => {
+      if (!findService(db, params.id)) return notFound("Service");
+
+      const bookings = db.bookings.filter(
+        (item) =>
+          includesService(item, params.id) &&
+          (!query.dateFrom || item.bookingDate >= String(query.dateFrom)) &&
+          (!query.dateTo || item.bookingDate <= String(query.dateTo)),
+      );
+      const reviews = db.reviews.filter((item) => item.serviceId === params.id);
+      const ranking = byPopularity(db, db.services).map((item) => item.id);
+
+      return ok({
+        serviceId: params.id,
+        totalBookings: bookings.length,
+        totalRevenue: bookings
+          .filter((item) => item.status === "completed")
+          .reduce((sum, item) => sum + Number(item.totalPrice), 0)
+          .toString(),
+        averageRating: averageRating(reviews),
+        popularityRank: ranking.indexOf(params.id) + 1,
+        monthlyStats: summarizeByMonth(bookings),
+        customerSatisfaction: [1, 2, 3, 4, 5].map((rating) => ({
+          rating,
+          count: reviews.filter((item) => item.rating === rating).length,
+        })),
+      });
+    },
+  },
+  {
+    method: "GET",
+    path: "/services/:id/reviews",
+    handler: ({ db, params, query }) => {
+      const reviews = db.reviews.filter(
+        (item) => item.serviceId === params.id && item.status === "approved",
+      );
+      const limit = Number(query.limit) || 20;
+      const page = Number(query.page) || 1;
+
+      return ok({
+        reviews: reviews
+          .slice((page - 1) * limit, page * limit)
+          .map((item) => serializeReview(db, item)),
+        total: reviews.length,
+        averageRating: averageRating(reviews),
+        ratingDistribution: [1, 2, 3, 4, 5].map((rating) => ({
+          rating,
+          count: reviews.filter((item) => item.rating === rating).length,
+        })),
+      });
+    },
+  },
+  {
+    method: "GET",
+    path: "/services/:id/pricing-history",
+    handler: ({ db, params }) => {
+      const service = findService(db, params.id);
+      if (!service) return notFound("Service");
+
+      // Fixtures keep no audit trail, so only the current price is known
+      return ok({
+        priceHistory: [
+          {
+            price: service.price,
+            effectiveDate: service.updatedAt,
+            changedBy: "system",
+          },
+        ],
+        currentPrice: service.price,
+      });
+    },
+  },
+  {
+    method: "GET",
+    path: "/services/:id/availability",
+    handler: ({ db, params, query }) => {
+      const service = findService(db, params.id);
+      if (!service) return notFound("Service");
+
+      const date = String(query.date ?? "");
+      const startTime = String(query.time ?? "").slice(0, 5);
+      const endTime = addMinutes(startTime, service.duration);
+      const availableStylists = db.stylists
+        .filter(
+          (item) =>
+            item.isAvailable &&
+            item.serviceIds.includes(service.id) &&
+            isSlotFree(db, item.id, date, startTime, endTime),
+        )
+        .map((item) => serializeStylist(db, item));
+
+      return ok({
+        isAvailable: availableStylists.length > 0,
+        availableStylists,
+      });
+    },
+  },
+];
@@ -0,0 +1,351 @@
+import { nextId, now } from "../db";
+import type { FixtureDb, StylistRow } from "../db";
+import {
+  applyFields,
+  created,
+  fail,
+  matchesSearch,
+  notFound,
+  ok,
+  paginate,
+  toBoolean,
+  toList,
+  validate,
+} from "../router";
+import type { FixtureRoute } from "../router";
+import { addMinutes } from "../seed";
+import {
+  averageRating,
+  serializeBooking,
+  serializeReview,
+  serializeService,
+  serializeStylist,
+  summarizeByMonth,
+} from "../serializers";
+import { isSlotFree } from "./bookings";
+
+const STYLIST_FIELDS: (keyof StylistRow)[] = [
+  "bio",
+  "specialties",
+  "experience",
+  "commissionRate",
+  "isActive",
+  "isAvailable",
+  "schedule",
+];
+
+const findStylist = (db: FixtureDb, id: string) =>
+  db.stylists.find((item) => item.id === id);
+
+const validateStylist = (body: Record<string, unknown>) =>
+  validate({
+    commissionRate:
+      "commissionRate" in body &&
+      !(
+        Number(body.commissionRate) >= 0 && Number(body.commissionRate) <= 100
+      ) &&
+      "Commission rate must be between 0 and 100",
+    experience:
+      "experience" in body &&
+      !(Number(body.experience) >= 0) &&
+      "Experience cannot be negative",
+  });
+
+const inRange = (date: string, from: unknown, to: unknown) =>
+  (!from || date >= String(from).slice(0, 10)) &&
+  (!to || date <= String(to).slice(0, 10));
+
+export const stylistRoutes: FixtureRoute[] = [
+  {
+    method: "GET",
+    path: "/stylists",
+    handler: ({ db, query }) => {
+      const isAvailable = toBoolean(query.isAvailable);
+      const specialties = toList(query.specialties);
+
+      const stylists = db.stylists
+        .map((item) => serializeStylist(db, item))
+        .filter(
+          (item) =>
+            (isAvailable === undefined || item.isAvailable === isAvailable) &&
+            specialties.every((specialty) =>
+              item.specialties.includes(specialty),
+            ) &&
+            matchesSearch(query, item.user?.fullName, item.user?.email),
+        );
+
+      return paginate(stylists, { limit: stylists.length || 1, ...query });
+    },
+  },
+  {
+    method: "GET",
+    path: "/stylists/available",
+    handler: ({ db, query }) => {
+      const date = String(query.date ?? "");
+      const startTime = String(query.time ?? "").slice(0, 5);
+
+      return ok(
+        db.stylists
+          .filter(
+            (item) =>
+              item.isActive &&
+              item.isAvailable &&
+              isSlotFree(
+                db,
+                item.id,
+                date,
+                startTime,
+                addMinutes(startTime, 30),
+              ),
+          )
+          .map((item) => serializeStylist(db, item)),
+      );
+    },
+  },
+  {
+    method: "GET",
+    path: "/stylists/specialties",
+    handler: ({ db }) =>
+      ok([...new Set(db.stylists.flatMap((item) => item.specialties))].sort()),
+  },
+  {
+    method: "GET",
+    path: "/stylists/:id",
+    handler: ({ db, params }) => {
+      const stylist = findStylist(db, params.id);
+      return stylist ? ok(serializeStylist(db, stylist)) : notFound("Stylist");
+    },
+  },
+  {
+    method: "POST",
+    path: "/stylists",
+    handler: ({ db, body }) => {
+      const userId = String(body.userId ?? "");
+      if (!db.users.some((item) => item.id === userId)) {
+        return notFound("User");
+      }
+      if (db.stylists.some((item) => item.userId === userId)) {
+        return fail(409, "User already has a stylist profile");
+      }
+      const error = validateStylist(body);
+      if (error) return error;
+
+      const timestamp = now();
+      const stylist = applyFields<StylistRow>(
+        {
+          id: nextId("s"),
+          userId,
+          specialties: [],
+          experience: 0,
+          commissionRate: 0,
+          isActive: true,
+          isAvailable: true,
+          serviceIds: [],
+          schedule: {},
+          createdAt: timestamp,
+          updatedAt: timestamp,
+        },
+        body,
+        STYLIST_FIELDS,
+      );
+      db.stylists.push(stylist);
+      return created(serializeStylist(db, stylist), "Stylist created");
+    },
+  },
+  {
+    method: "PATCH",
+    path: "/stylists/:id",
+    handler: ({ db, params, body }) => {
+      const stylist = findStylist(db, params.id);
+      if (!stylist) return notFound("Stylist");
+      const error = validateStylist(body);
+      if (error) return error;
+
+      applyFields(stylist, body, STYLIST_FIELDS);
+      stylist.updatedAt = now();
+      return ok(serializeStylist(db, stylist), "Stylist updated");
+    },
+  },
+  {
+    method: "PATCH",
+    path: "/stylists/:id/availability",
+    handler: ({ db, params, body }) => {
+      const stylist = findStylist(db, params.id);
+      if (!stylist) return notFound("Stylist");
+
+      stylist.isAvailable = !!body.isAvailable;
+      stylist.updatedAt = now();
+      return ok(serializeStylist(db, stylist), "Availability updated");
+    },
+  },
+  {
+    method: "PATCH",
+    path: "/stylists/:id/schedule",
+    handler: ({ db, params, body }) => {
+      const stylist = findStylist(db, params.id);
+      if (!stylist) return notFound("Stylist");
+
+      applyFields(stylist, body, ["schedule"]);
+      stylist.updatedAt = now();
+      return ok(serializeStylist(db, stylist), "Schedule updated");
+    },
+  },
+  {
+    method: "DELETE",
+    path: "/stylists/:id",
+    handler: ({ db, params }) => {
+      if (!findStylist(db, params.id)) return notFound("Stylist");
+      const hasUpcoming = db.bookings.some(
+        (item) =>
+          item.stylistId === params.id &&
+          ["pending", "confirmed", "in_progress"].includes(item.status),
+      );
+      if (hasUpcoming) {
+        return fail(409, "Stylist still has active bookings");
+      }
+
+      db.stylists = db.stylists.filter((item) => item.id !== params.id);
+      return ok(undefined, "Stylist deleted");
+    },
+  },
+  {
+    method: "GET",
+    path: "/stylists/:id/bookings",
+    handler: ({ db, params, query }) =>
+      ok(
+        db.bookings
+          .filter(
+            (item) =>
+              item.stylistId === params.id &&
+              inRange(item.bookingDate, query.dateFrom, query.dateTo) &&
+              (!query.status || item.status === query.status),
+          )
+          .map((item) => serializeBooking(db, item)),
+      ),
+  },
+  {
+    method: "GET",
+    path: "/stylists/:id/performance",
+    handler: ({ db, params, query }) => {
+      if (!findStylist(db, params.id)) return notFound("Stylist");
+      const bookings = db.bookings.filter(
+        (item) =>
+          item.stylistId === params.id &&
+          inRange(item.bookingDate, query.dateFrom, query.dateTo),
+      );
+      const completed = bookings.filter((item) => item.status === "completed");
+
+      return ok({
+        stylistId: params.id,
+        totalBookings: bookings.length,
+        completedBookings: completed.length,
+        cancelledBookings: bookings.filter(
+          (item) => item.status === "cancelled",
+        ).length,
+        totalRevenue: completed
+          .reduce((sum, item) => sum + Number(item.totalPrice), 0)
+          .toString(),
+        averageRating: averageRating(
+          db.reviews.filter((item) => item.stylistId === params.id),
+        ),
+        monthlyStats: summarizeByMonth(bookings),
+      });
+    },
+  },
+  {
+    method: "GET",
+    path: "/stylists/:id/earnings",
+    handler: ({ db, params, query }) => {
+      const stylist = findStylist(db, params.id);
+      if (!stylist) return notFound("Stylist");
+
+      const bookings = db.bookings.filter(
+        (item) =>
+          item.stylistId === stylist.id &&
+          item.status === "completed" &&
+          inRange(item.bookingDate, query.dateFrom, query.dateTo),
+      );
+      const total = bookings.reduce(
+        (sum, item) => sum + Number(item.totalPrice),
+        0,
+      );
+      const rate = stylist.commissionRate / 100;
+
+      return ok({
+        totalEarnings: total.toString(),
+        commission: Math.round(total * rate).toString(),
+        totalBookings: bookings.length,
+        averageBookingValue: bookings.length
+          ? Math.round(total / bookings.length).toString()
+          : "0",
+        monthlyBreakdown: summarizeByMonth(bookings).map((item) => ({
+          month: item.month,
+          earnings: Math.round(Number(item.revenue) * rate).toString(),
+          bookings: item.bookings,
+        })),
+      });
+    },
+  },
+  {
+    method: "GET",
+    path: "/stylists/:id/services",
+    handler: ({ db, params }) => {
+      const stylist = findStylist(db, params.id);
+      if (!stylist) return notFound("Stylist");
+      return ok(
+        db.services
+          .filter((item) => stylist.serviceIds.includes(item.id))
+          .map((item) => serializeService(db, item)),
+      );
+    },
+  },
+  {
+    method: "POST",
+    path: "/stylists/:id/services",
+    handler: ({ db, params, body }) => {
+      const stylist = findStylist(db, params.id);
+      if (!stylist) return notFound("Stylist");
+      const serviceId = String(body.serviceId ?? "");
+      if (!db.services.some((item) => item.id === serviceId)) {
+        return notFound("Service");
+      }
+
+      if (!stylist.serviceIds.includes(serviceId)) {
+        stylist.serviceIds.push(serviceId);
+      }
+      return ok(undefined, "Service assigned");
+    },
+  },
+  {
+    method: "DELETE",
+    path: "/stylists/:id/services/:serviceId",
+    handler: ({ db, params }) => {
+      const stylist = findStylist(db, params.id);
+      if (!stylist) return notFound("Stylist");
+
+      stylist.serviceIds = stylist.serviceIds.filter(
+        (item) => item !== params.serviceId,
+      );
+      return ok(undefined, "Service removed");
+    },
+  },
+  {
+    method: "GET",
+    path: "/stylists/:id/reviews",
+    handler: ({ db, params, query }) => {
+      const reviews = db.reviews.filter(
+        (item) => item.stylistId === params.id && item.status === "approved",
+      );
+      const limit = Number(query.limit) || 20;
+      const page = Number(query.page) || 1;
+
+      return ok({
+        reviews: reviews
+          .slice((page - 1) * limit, page * limit)
+          .map((item) => serializeReview(db, item)),
+        total: reviews.length,
+        averageRating: averageRating(reviews),
+      });
+    },
+  },
+];
@@ -0,0 +1,449 @@
+import { UserRole } from "../../types";
+import type {
+  BookingRow,
+  CustomerRow,
+  FixtureDb,
+  PaymentRow,
+  ReviewRow,
+  ScheduleDay,
+  ServiceRow,
+  StylistRow,
+  UserRow,
+} from "./db";
+import { FIXTURE_DB_VERSION } from "./db";
+
+export interface FixtureAccount {
+  role: UserRole;
+  email: string;
+  password: string;
+}
+
+// One login per staff role; shown on the login page in fixture mode
+export const FIXTURE_ACCOUNTS: FixtureAccount[] = [
+  {
+    role: UserRole.ADMIN,
+    email: "admin@rusdibarber.test",
+    password: "Admin#2024",
+  },
+  {
+    role: UserRole.MANAGER,
+    email: "manager@rusdibarber.test",
+    password: "Manager#2024",
+  },
+  {
+    role: UserRole.STYLIST,
+    email: "ahmad@rusdibarber.test",
+    password: "Stylist#2024",
+  },
+  {
+    role: UserRole.RECEPTIONIST,
+    email: "resepsionis@rusdibarber.test",
+    password: "Frontdesk#2024",
+  },
+  {
+    role: UserRole.CASHIER,
+    email: "kasir@rusdibarber.test",
+    password: "Cashier#2024",
+  },
+];
+
+const SEED_TIME = "2024-01-01T08:00:00.000Z";
+
+// Small deterministic PRNG so every fresh seed looks the same
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const pad = (value: number) => value.toString().padStart(2, "0");
+
+export const toDateString = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+export const addMinutes = (time: string, minutes: number): string => {
+  const [hours, mins] = time.split(":").map(Number);
+  const total = hours * 60 + mins + minutes;
+  return `${pad(Math.floor(total / 60) % 24)}:${pad(total % 60)}`;
+};
+
+const user = (
+  id: string,
+  fullName: string,
+  email: string,
+  role: UserRole,
+  phone: string,
+  password = "Customer#2024",
+): UserRow => ({
+  id,
+  email,
+  username: email.split("@")[0],
+  fullName,
+  phone,
+  role,
+  password,
+  isActive: true,
+  emailVerified: true,
+  createdAt: SEED_TIME,
+  updatedAt: SEED_TIME,
+});
+
+const passwordFor = (email: string) =>
+  FIXTURE_ACCOUNTS.find((account) => account.email === email)!.password;
+
+const weekSchedule = (): Record<string, ScheduleDay> => {
+  const days = [
+    "monday",
+    "tuesday",
+    "wednesday",
+    "thursday",
+    "friday",
+    "saturday",
+    "sunday",
+  ];
+  return Object.fromEntries(
+    days.map((day) => [
+      day,
+      { isWorking: day !== "sunday", startTime: "09:00", endTime: "18:00" },
+    ]),
+  );
+};
+
+const service = (
+  id: string,
+  name: string,
+  description: string,
+  price: number,
+  duration: number,
+  category: string,
+  isPopular = false,
+): ServiceRow => ({
+  id,
+  name,
+  description,
+  price: price.toString(),
+  duration,
+  category,
+  isActive: true,
+  isPopular,
+  createdAt: SEED_TIME,
+  updatedAt: SEED_TIME,
+});
+
+const CUSTOMER_NAMES = [
+  "Andi Pratama",
+  "Bayu Saputra",
+  "Dimas Nugroho",
+  "Eko Wijaya",
+  "Fajar Hidayat",
+  "Gilang Ramadhan",
+  "Hendra Kurniawan",
+  "Irfan Maulana",
+  "Joko Santoso",
+  "Kevin Halim",
+];
+
+const PAYMENT_METHODS = ["cash", "qris", "debit_card", "bank_transfer"];
+
+const REVIEW_COMMENTS = [
+  "Potongannya rapi, sesuai permintaan.",
+  "Pelayanan ramah dan cepat.",
+  "Hasilnya bagus, akan datang lagi.",
+  "Tempatnya nyaman, stylist profesional.",
+  "Lumayan, tapi antreannya agak lama.",
+];
+
+export const createSeedData = (): FixtureDb => {
+  const random = createRandom(20240101);
+  const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+
+  const staff: UserRow[] = [
+    user(
+      "u-admin",
+      "Rusdi Hartono",
+      "admin@rusdibarber.test",
+      UserRole.ADMIN,
+      "+6281100000001",
+      passwordFor("admin@rusdibarber.test"),
+    ),
+    user(
+      "u-manager",
+      "Sari Wulandari",
+      "manager@rusdibarber.test",
+      UserRole.MANAGER,
+      "+6281100000002",
+      passwordFor("manager@rusdibarber.test"),
+    ),
+    user(
+      "u-ahmad",
+      "Ahmad Fauzi",
+      "ahmad@rusdibarber.test",
+      UserRole.STYLIST,
+      "+6281100000003",
+      passwordFor("ahmad@rusdibarber.test"),
+    ),
+    user(
+      "u-budi",
+      "Budi Santoso",
+      "budi@rusdibarber.test",
+      UserRole.STYLIST,
+      "+6281100000004",
+      "Stylist#2024",
+    ),
+    user(
+      "u-candra",
+      "Candra Wijaya",
+      "candra@rusdibarber.test",
+      UserRole.STYLIST,
+      "+6281100000005",
+      "Stylist#2024",
+    ),
+    user(
+      "u-receptionist",
+      "Dewi Lestari",
+      "resepsionis@rusdibarber.test",
+      UserRole.RECEPTIONIST,
+      "+6281100000006",
+      passwordFor("resepsionis@rusdibarber.test"),
+    ),
+    user(
+      "u-cashier",
+      "Rina Marlina",
+      "kasir@rusdibarber.test",
+      UserRole.CASHIER,
+      "+6281100000007",
+      passwordFor("kasir@rusdibarber.test"),
+    ),
+  ];
+
+  const customerUsers = CUSTOMER_NAMES.map((name, index) =>
+    user(
+      `c-${index + 1}`,
+      name,
+      `${name.split(" ")[0].toLowerCase()}@example.com`,
+      UserRole.CUSTOMER,
+      `+62812000000${pad(index + 1)}`,
+    ),
+  );
+
+  const customers: CustomerRow[] = customerUsers.map((customer, index) => ({
+    id: customer.id,
+    name: customer.fullName,
+    email: customer.email,
+    phone: customer.phone,
+    gender: "male",
+    membershipLevel: index < 2 ? "gold" : index < 5 ? "silver" : "regular",
+    loyaltyPoints: Math.round(random() * 500),
+    createdAt: SEED_TIME,
+    updatedAt: SEED_TIME,
+  }));
+
+  const services: ServiceRow[] = [
+    service(
+      "svc-haircut",
+      "Potong Rambut",
+      "Potong rambut pria dengan konsultasi gaya",
+      50000,
+      30,
+      "haircut",
+      true,
+    ),
+    service(
+      "svc-haircut-wash",
+      "Potong + Cuci",
+      "Potong rambut lengkap dengan keramas dan pijat kepala",
+      70000,
+      45,
+      "haircut",
+      true,
+    ),
+    service(
+      "svc-shave",
+      "Cukur Jenggot",
+      "Cukur jenggot dan kumis dengan handuk hangat",
+      35000,
+      20,
+      "shave",
+    ),
+    service(
+      "svc-coloring",
+      "Pewarnaan Rambut",
+      "Pewarnaan rambut penuh dengan produk premium",
+      150000,
+      90,
+      "coloring",
+    ),
+    service(
+      "svc-creambath",
+      "Creambath",
+      "Perawatan rambut dan kulit kepala",
+      80000,
+      60,
+      "treatment",
+    ),
+    service(
+      "svc-kids",
+      "Potong Rambut Anak",
+      "Potong rambut untuk anak di bawah 12 tahun",
+      35000,
+      25,
+      "haircut",
+    ),
+  ];
+  const shave = services.find((item) => item.id === "svc-shave")!;
+
+  const stylistProfiles: [string, string, string[], number][] = [
+    [
+      "u-ahmad",
+      "Spesialis fade dan potongan modern.",
+      ["fade", "modern"],
+      6,
+    ],
+    [
+      "u-budi",
+      "Ahli potongan klasik dan cukur tradisional.",
+      ["classic", "shave"],
+      9,
+    ],
+    [
+      "u-candra",
+      "Fokus pada pewarnaan dan perawatan rambut.",
+      ["coloring", "treatment"],
+      4,
+    ],
+  ];
+
+  const stylists: StylistRow[] = stylistProfiles.map(
+    ([userId, bio, specialties, experience]) => ({
+      id: `s-${userId.slice(2)}`,
+      userId,
+      bio,
+      specialties,
+      experience,
+      commissionRate: 40,
+      isActive: true,
+      isAvailable: true,
+      serviceIds: services.map((item) => item.id),
+      schedule: weekSchedule(),
+      createdAt: SEED_TIME,
+      updatedAt: SEED_TIME,
+    }),
+  );
+
+  const bookings: BookingRow[] = [];
+  const payments: PaymentRow[] = [];
+  const reviews: ReviewRow[] = [];
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+
+  // 60 days of history plus two weeks of upcoming appointments
+  for (let offset = -60; offset <= 14; offset++) {
+    const day = new Date(today);
+    day.setDate(today.getDate() + offset);
+    if (day.getDay() === 0) continue;
+
+    const perDay = 1 + Math.floor(random() * 3);
+    for (let slot = 0; slot < perDay; slot++) {
+      const selected = pick(services);
+      // Some haircuts come with a beard trim straight after
+      const visit =
+        selected.category === "haircut" && random() < 0.3
+          ? [selected, shave]
+          : [selected];
+      const stylist = stylists[(bookings.length + slot) % stylists.length];
+      const hour = 9 + slot * 3 + Math.floor(random() * 2);
+      const startTime = `${pad(hour)}:${random() < 0.5 ? "00" : "30"}`;
+      const roll = random();
+      const status =
+        offset > 0
+          ? roll < 0.6
+            ? "confirmed"
+            : "pending"
+          : offset === 0
+            ? pick(["confirmed", "in_progress", "completed"])
+            : roll < 0.8
+              ? "completed"
+              : roll < 0.92
+                ? "cancelled"
+                : "no_show";
+      const createdAt = new Date(day);
+      createdAt.setDate(day.getDate() - 3);
+
+      let lineStart = startTime;
+      const lines = visit.map((item) => {
+        const line = {
+          serviceId: item.id,
+          stylistId: stylist.id,
+          startTime: lineStart,
+          endTime: addMinutes(lineStart, item.duration),
+          price: item.price,
+        };
+        lineStart = line.endTime;
+        return line;
+      });
+      const totalPrice = visit.reduce(
+        (sum, item) => sum + Number(item.price),
+        0,
+      );
+
+      const booking: BookingRow = {
+        id: `b-${bookings.length + 1}`,
+        customerId: pick(customerUsers).id,
+        stylistId: stylist.id,
+        serviceId: selected.id,
+        lines,
+        bookingDate: toDateString(day),
+        startTime,
+        endTime: lineStart,
+        status,
+        totalPrice: String(totalPrice),
+        createdAt: createdAt.toISOString(),
+        updatedAt: createdAt.toISOString(),
+      };
+      bookings.push(booking);
+
+      if (status === "completed") {
+        payments.push({
+          id: `p-${payments.length + 1}`,
+          bookingId: booking.id,
+          amount: totalPrice,
+          status: "completed",
+          paymentMethod: pick(PAYMENT_METHODS),
+          transactionId: `TRX${booking.id.toUpperCase()}`,
+          createdAt: `${booking.bookingDate}T${booking.endTime}:00`,
+          updatedAt: `${booking.bookingDate}T${booking.endTime}:00`,
+        });
+
+        if (random() < 0.4) {
+          reviews.push({
+            id: `r-${reviews.length + 1}`,
+            userId: booking.customerId,
+            bookingId: booking.id,
+            stylistId: booking.stylistId,
+            serviceId: booking.serviceId,
+            rating: 3 + Math.floor(random() * 3),
+            comment: pick(REVIEW_COMMENTS),
+            status: offset > -7 ? "pending" : "approved",
+            createdAt: `${booking.bookingDate}T20:00:00`,
+            updatedAt: `${booking.bookingDate}T20:00:00`,
+          });
+        }
+      }
+    }
+  }
+
+  return {
+    version: FIXTURE_DB_VERSION,
+    users: [...staff, ...customerUsers],
+    stylists,
+    services,
+    bookings,
+    payments,
+    reviews,
+    customers,
+    activities: [],
+    refreshTokens: {},
+    idempotency: {},
+  };
+};
@@ -0,0 +1,155 @@
+import type {
+  BookingRow,
+  CustomerRow,
+  FixtureDb,
+  PaymentRow,
+  ReviewRow,
+  ServiceRow,
+  StylistRow,
+  UserRow,
+} from "./db";
+import { includesService } from "./db";
+
+// Turn stored rows into the response shapes the real API returns
+
+export const serializeUser = (user: UserRow) => {
+  // Never send the stored password back
+  const rest: Omit<UserRow, "password"> & { password?: string } = { ...user };
+  delete rest.password;
+  return rest;
+};
+
+// Bookings can point at customers that only exist in the customer list
+const findCustomerUser = (db: FixtureDb, id: string) => {
+  const user = db.users.find((item) => item.id === id);
+  if (user) return serializeUser(user);
+
+  const customer = db.customers.find((item) => item.id === id);
+  if (!customer) return null;
+  return {
+    id: customer.id,
+    email: customer.email,
+    username: customer.email.split("@")[0],
+    fullName: customer.name,
+    phone: customer.phone,
+    role: "CUSTOMER",
+    isActive: true,
+    emailVerified: false,
+    createdAt: customer.createdAt,
+    updatedAt: customer.updatedAt,
+  };
+};
+
+export const serializeService = (db: FixtureDb, service: ServiceRow) => ({
+  ...service,
+  bookingCount: db.bookings.filter((item) =>
+    includesService(item, service.id),
+  ).length,
+});
+
+export const serializeStylist = (db: FixtureDb, stylist: StylistRow) => {
+  const user = db.users.find((item) => item.id === stylist.userId);
+  const reviews = db.reviews.filter(
+    (item) => item.stylistId === stylist.id && item.status === "approved",
+  );
+  const bookings = db.bookings.filter((item) => item.stylistId === stylist.id);
+  const revenue = bookings
+    .filter((item) => item.status === "completed")
+    .reduce((sum, item) => sum + Number(item.totalPrice), 0);
+
+  return {
+    ...stylist,
+    user: user ? serializeUser(user) : null,
+    specializations: stylist.specialties,
+    rating: averageRating(reviews),
+    totalReviews: reviews.length,
+    totalBookings: bookings.length,
+    revenue: revenue.toString(),
+  };
+};
+
+export const serializePayment = (payment: PaymentRow) => ({ ...payment });
+
+export const serializeBooking = (db: FixtureDb, booking: BookingRow) => {
+  const stylist = db.stylists.find((item) => item.id === booking.stylistId);
+  const service = db.services.find((item) => item.id === booking.serviceId);
+  const payment = db.payments.find((item) => item.bookingId === booking.id);
+  const review = db.reviews.find((item) => item.bookingId === booking.id);
+
+  return {
+    ...booking,
+    // Older screens read the appointment* names
+    appointmentDate: booking.bookingDate,
+    appointmentTime: booking.startTime,
+    customer: findCustomerUser(db, booking.customerId),
+    stylist: stylist ? serializeStylist(db, stylist) : null,
+    service: service ? serializeService(db, service) : null,
+    lines: booking.lines.map((line) => {
+      const lineStylist = db.stylists.find(
+        (item) => item.id === line.stylistId,
+      );
+      const lineService = db.services.find(
+        (item) => item.id === line.serviceId,
+      );
+      return {
+        ...line,
+        stylist: lineStylist ? serializeStylist(db, lineStylist) : undefined,
+        service: lineService ? serializeService(db, lineService) : undefined,
+      };
+    }),
+    payment: payment ? serializePayment(payment) : undefined,
+    review: review ? serializeReview(db, review) : undefined,
+  };
+};
+
+export const serializeReview = (db: FixtureDb, review: ReviewRow) => {
+  const user = findCustomerUser(db, review.userId);
+  return {
+    ...review,
+    userDetails: user ? { id: user.id, name: user.fullName } : undefined,
+  };
+};
+
+export const serializeCustomer = (db: FixtureDb, customer: CustomerRow) => {
+  const bookings = db.bookings.filter(
+    (item) => item.customerId === customer.id,
+  );
+  const bookingIds = new Set(bookings.map((item) => item.id));
+  const totalSpent = db.payments
+    .filter(
+      (item) => bookingIds.has(item.bookingId) && item.status === "completed",
+    )
+    .reduce((sum, item) => sum + item.amount, 0);
+
+  return { ...customer, totalBookings: bookings.length, totalSpent };
+};
+
+// Completed-booking totals per "YYYY-MM", oldest first
+export const summarizeByMonth = (bookings: BookingRow[]) => {
+  const months = new Map<string, { bookings: number; revenue: number }>();
+  for (const booking of bookings) {
+    if (booking.status !== "completed") continue;
+    const month = booking.bookingDate.slice(0, 7);
+    const entry = months.get(month) ?? { bookings: 0, revenue: 0 };
+    entry.bookings += 1;
+    entry.revenue += Number(booking.totalPrice);
+    months.set(month, entry);
+  }
+
+  return [...months.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([month, entry]) => ({
+      month,
+      bookings: entry.bookings,
+      revenue: entry.revenue.toString(),
+    }));
+};
+
+export const averageRating = (reviews: ReviewRow[]): number =>
+  reviews.length
+    ? Number(
+        (
+          reviews.reduce((sum, item) => sum + item.rating, 0) / reviews.length
+        ).toFixed(1),
+      )
+    : 0;
@@ -0,0 +1,53 @@
+import { createIdempotencyKey } from "../api";
+import type { FixtureDb, UserRow } from "./db";
+
+// Short enough that the client's refresh flow gets exercised
+const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+
+const encode = (value: object): string =>
+  btoa(JSON.stringify(value))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+// Unsigned JWT with the claims the client reads (exp, iat, role)
+export const issueAccessToken = (user: UserRow): string => {
+  const iat = Math.floor(Date.now() / 1000);
+  return [
+    encode({ alg: "none", typ: "JWT" }),
+    encode({
+      sub: user.id,
+      userId: user.id,
+      email: user.email,
+      role: user.role,
+      iat,
+      exp: iat + ACCESS_TOKEN_TTL_SECONDS,
+    }),
+    "fixture",
+  ].join(".");
+};
+
+export const issueSession = (db: FixtureDb, user: UserRow) => {
+  // Shares the http-safe fallback used for idempotency keys
+  const refreshToken = `fixture-refresh.${createIdempotencyKey()}`;
+  db.refreshTokens[refreshToken] = user.id;
+  return { token: issueAccessToken(user), refreshToken };
+};
+
+// Returns the user behind a valid, unexpired bearer token
+export const resolveBearer = (
+  db: FixtureDb,
+  authorization: unknown,
+): UserRow | null => {
+  if (typeof authorization !== "string") return null;
+  const token = authorization.replace(/^Bearer\s+/i, "");
+
+  try {
+    const base64 = token.split(".")[1].replace(/-/g, "+").replace(/_/g, "/");
+    const payload = JSON.parse(atob(base64));
+    if (!payload.exp || payload.exp * 1000 <= Date.now()) return null;
+    return db.users.find((user) => user.id === payload.sub) ?? null;
+  } catch {
+    return null;
+  }
+};
@@ -1,6 +1,7 @@
 // Health check service to test backend connection
 import React from "react";
 import { apiService, handleApiError } from "./api";
+import { UnauthorizedError } from "./errors";
 
 export interface HealthCheckResponse {
   status: "healthy" | "unhealthy";
@@ -16,11 +17,52 @@ export interface ConnectionStatus {
   details?: HealthCheckResponse;
 }
 
+export type ConnectionListener = (status: ConnectionStatus) => void;
+
+// While offline the backend is probed again after 5s, 10s, 20s… up to a
+// minute between attempts
+const PROBE_INITIAL_DELAY_MS = 5 * 1000;
+const PROBE_MAX_DELAY_MS = 60 * 1000;
+
 class HealthService {
   private connectionStatus: ConnectionStatus = {
     isConnected: false,
     message: "Not checked yet",
   };
+  private listeners = new Set<ConnectionListener>();
+  private probeTimer: ReturnType<typeof setTimeout> | null = null;
+  private probeDelay = PROBE_INITIAL_DELAY_MS;
+
+  constructor() {
+    if (typeof window !== "undefined") {
+      // The browser only knows about the network; confirm with the backend
+      window.addEventListener("online", () => void this.checkConnection());
+      window.addEventListener("offline", () =>
+        this.reportUnreachable("Device is offline"),
+      );
+    }
+  }
+
+  // Notified whenever the backend goes from reachable to unreachable or back
+  subscribe(listener: ConnectionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Lets callers that saw a network failure flip the status without a probe
+  reportUnreachable(message = "Backend is unreachable"): void {
+    this.setStatus({ isConnected: false, message });
+  }
+
+  // True once a check or a failed request has shown the backend is down
+  isOffline(): boolean {
+    return (
+      !this.connectionStatus.isConnected &&
+      this.connectionStatus.message !== "Not checked yet"
+    );
+  }
 
   // Check if backend API is accessible with retry logic
   async checkConnection(retries: number = 1): Promise<ConnectionStatus> {
@@ -38,24 +80,28 @@ class HealthService {
               // Direct call to root health endpoint
               response = await apiService.api.get(
                 "http://localhost:3000/health",
+                { retry: false },
               );
               if (response.status === 200 && response.data) {
-                this.connectionStatus = {
+                return this.setStatus({
                   isConnected: true,
                   message: "Backend connection successful",
                   details: response.data,
-                };
-                return this.connectionStatus;
+                });
               }
             } else {
-              response = await apiService.get<HealthCheckResponse>(endpoint);
+              // This loop does its own retrying; report failures promptly
+              response = await apiService.get<HealthCheckResponse>(
+                endpoint,
+                undefined,
+                { retry: false },
+              );
               if (response.success && response.data) {
-                this.connectionStatus = {
+                return this.setStatus({
                   isConnected: true,
                   message: "Backend connection successful",
                   details: response.data,
-                };
-                return this.connectionStatus;
+                });
               }
             }
           } catch (endpointError) {
@@ -65,10 +111,10 @@ class HealthService {
         }
 
         // If no endpoint worked, but we got here, backend responded with invalid data
-        this.connectionStatus = {
+        this.setStatus({
           isConnected: false,
           message: "Backend responded but with invalid data",
-        };
+        });
       } catch (error) {
         lastError = error;
 
@@ -81,12 +127,10 @@ class HealthService {
     }
 
     // All attempts failed
-    this.connectionStatus = {
+    return this.setStatus({
       isConnected: false,
       message: `Connection failed after ${retries} attempts: ${handleApiError(lastError)}`,
-    };
-
-    return this.connectionStatus;
+    });
   }
 
   // Test database connection through backend
@@ -139,8 +183,7 @@ class HealthService {
         message: "Auth endpoint returned unexpected success",
       };
     } catch (error) {
-      const err = error as any;
-      if (err?.response?.status === 401) {
+      if (error instanceof UnauthorizedError) {
         return {
           working: true,
           message: "Auth endpoint is working (returned 401 as expected)",
@@ -214,16 +257,31 @@ class HealthService {
     return this.connectionStatus;
   }
 
-  // Check if we should use mock data
-  shouldUseMockData(): boolean {
-    const useMockData = import.meta.env.VITE_USE_MOCK_DATA;
-    const forceDemo = import.meta.env.VITE_FORCE_DEMO_MODE;
+  private setStatus(status: ConnectionStatus): ConnectionStatus {
+    const changed = status.isConnected !== this.connectionStatus.isConnected;
+    this.connectionStatus = status;
+    if (status.isConnected) this.stopProbe();
+    else this.scheduleProbe();
+    if (changed) this.listeners.forEach((listener) => listener(status));
+    return status;
+  }
 
-    return (
-      forceDemo === "true" ||
-      useMockData === "true" ||
-      !this.connectionStatus.isConnected
-    );
+  // Nothing else flips the status back once a request has failed, so keep
+  // checking until the backend answers; listeners then replay their work
+  private scheduleProbe(): void {
+    if (this.probeTimer) return;
+
+    this.probeTimer = setTimeout(() => {
+      this.probeTimer = null;
+      this.probeDelay = Math.min(this.probeDelay * 2, PROBE_MAX_DELAY_MS);
+      void this.checkConnection();
+    }, this.probeDelay);
+  }
+
+  private stopProbe(): void {
+    if (this.probeTimer) clearTimeout(this.probeTimer);
+    this.probeTimer = null;
+    this.probeDelay = PROBE_INITIAL_DELAY_MS;
   }
 
   // Force refresh connection status
@@ -0,0 +1,223 @@
+// Outbox for mutations staff must be able to record mid-shift even when the
+// backend is unreachable. Entries are persisted in IndexedDB and replayed in
+// the order they were made once healthService sees the backend again.
+// Each entry belongs to the user who made it and is only sent with their
+// session; after logout it waits on the device until they sign in again.
+
+import { createIdempotencyKey } from "./api";
+import { authService } from "./authService";
+import { bookingService } from "./bookingService";
+import { isConnectionError, toApiError, UnauthorizedError } from "./errors";
+import { healthService } from "./healthService";
+import { offlineStore } from "./offlineStore";
+import { paymentService } from "./paymentService";
+import { queryCache, queryKeys } from "./queryCache";
+import type { Payment } from "../types";
+
+export type OfflineAction =
+  | { type: "completeBooking"; bookingId: string }
+  | { type: "markNoShow"; bookingId: string }
+  | { type: "createPayment"; payment: Partial<Payment> };
+
+export type OutboxStatus = "pending" | "syncing" | "conflict";
+
+export interface OutboxEntry {
+  // Also sent as the idempotency key, so a replay is applied at most once
+  id: string;
+  seq: number;
+  // Who recorded it; replayed only while this user is signed in
+  userId: string;
+  action: OfflineAction;
+  status: OutboxStatus;
+  createdAt: string;
+  // Why the server refused the replay, e.g. the booking was cancelled
+  error?: string;
+}
+
+export interface SubmitResult {
+  // True when the action was stored for later instead of sent
+  queued: boolean;
+}
+
+const execute = (action: OfflineAction, key: string): Promise<unknown> => {
+  switch (action.type) {
+    case "completeBooking":
+      return bookingService.completeBooking(action.bookingId, key);
+    case "markNoShow":
+      return bookingService.markNoShow(action.bookingId, key);
+    case "createPayment":
+      return paymentService.createPayment(action.payment, key);
+  }
+};
+
+// The booking an action touches, for showing it as pending in lists
+export const getActionBookingId = (action: OfflineAction): string | undefined =>
+  action.type === "createPayment" ? action.payment.bookingId : action.bookingId;
+
+const currentUserId = (): string | undefined => authService.getUser()?.id;
+
+class OfflineQueue {
+  // Every user's entries on this device
+  private entries: OutboxEntry[] = [];
+  // The signed-in user's entries, which are the only ones shown or sent
+  private userEntries: OutboxEntry[] = [];
+  private listeners = new Set<() => void>();
+  private ready: Promise<void>;
+  private replaying?: Promise<void>;
+
+  constructor() {
+    this.ready = this.load();
+    healthService.subscribe((status) => {
+      if (status.isConnected) void this.replay();
+    });
+    // Show the new user's entries and send theirs; a running replay stops
+    // at the next entry once its user is gone
+    authService.subscribe(() => {
+      this.setEntries(this.entries);
+      if (!healthService.isOffline()) void this.replay();
+    });
+  }
+
+  getEntries(): OutboxEntry[] {
+    return this.userEntries;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Sends the action now, or stores it when the backend is unreachable.
+  // Other server errors are thrown as usual.
+  async submit(action: OfflineAction): Promise<SubmitResult> {
+    await this.ready;
+    const userId = currentUserId();
+    if (!userId) throw new UnauthorizedError("Sign in to record changes");
+
+    const id = createIdempotencyKey();
+    // Earlier queued actions have to reach the server first
+    const mustQueue =
+      healthService.isOffline() ||
+      this.userEntries.some((entry) => entry.status !== "conflict");
+
+    if (!mustQueue) {
+      try {
+        await execute(action, id);
+        return { queued: false };
+      } catch (error) {
+        if (!isConnectionError(error)) throw error;
+        healthService.reportUnreachable();
+      }
+    }
+
+    // Reusing the id keeps a replay safe if the failed send did arrive
+    const seq = Math.max(0, ...this.entries.map((entry) => entry.seq)) + 1;
+    await this.save({
+      id,
+      seq,
+      userId,
+      action,
+      status: "pending",
+      createdAt: new Date().toISOString(),
+    });
+    if (!healthService.isOffline()) void this.replay();
+
+    return { queued: true };
+  }
+
+  // Sends pending entries one at a time, oldest first
+  replay(): Promise<void> {
+    this.replaying ??= this.flush().finally(() => {
+      this.replaying = undefined;
+    });
+    return this.replaying;
+  }
+
+  // Puts a refused entry back in line, e.g. after fixing it on the server
+  async retry(id: string): Promise<void> {
+    const entry = this.userEntries.find((item) => item.id === id);
+    if (!entry) return;
+
+    await this.save({ ...entry, status: "pending", error: undefined });
+    await this.replay();
+  }
+
+  async discard(id: string): Promise<void> {
+    this.setEntries(this.entries.filter((entry) => entry.id !== id));
+    await offlineStore
+      .delete("outbox", id)
+      .catch((error) => console.warn("Could not remove outbox entry:", error));
+  }
+
+  private async flush(): Promise<void> {
+    await this.ready;
+    const userId = currentUserId();
+    let synced = false;
+
+    for (const entry of this.userEntries) {
+      // Logged out or switched user mid-replay; the rest waits for them
+      if (!userId || currentUserId() !== userId) break;
+      if (entry.status !== "pending") continue;
+
+      this.setEntry({ ...entry, status: "syncing" });
+      try {
+        await execute(entry.action, entry.id);
+        await this.discard(entry.id);
+        synced = true;
+      } catch (error) {
+        if (isConnectionError(error)) {
+          // Still offline; keep this and everything after it for later
+          this.setEntry({ ...entry, status: "pending" });
+          healthService.reportUnreachable();
+          break;
+        }
+        await this.save({
+          ...entry,
+          status: "conflict",
+          error: toApiError(error).message,
+        });
+      }
+    }
+
+    if (synced) queryCache.invalidate(queryKeys.bookings);
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const stored = await offlineStore.getAll<OutboxEntry>("outbox");
+      // A reload mid-replay leaves entries marked as syncing
+      const entries = stored.map((entry) =>
+        entry.status === "syncing"
+          ? { ...entry, status: "pending" as const }
+          : entry,
+      );
+      this.setEntries([...entries, ...this.entries]);
+    } catch (error) {
+      console.warn("Could not load offline outbox:", error);
+    }
+  }
+
+  private async save(entry: OutboxEntry): Promise<void> {
+    this.setEntry(entry);
+    await offlineStore
+      .put("outbox", entry.id, entry)
+      .catch((error) => console.warn("Could not save outbox entry:", error));
+  }
+
+  private setEntry(entry: OutboxEntry): void {
+    const others = this.entries.filter((item) => item.id !== entry.id);
+    this.setEntries([...others, entry]);
+  }
+
+  // Replaced, never mutated, so useSyncExternalStore sees changes
+  private setEntries(entries: OutboxEntry[]): void {
+    const userId = currentUserId();
+    this.entries = [...entries].sort((a, b) => a.seq - b.seq);
+    this.userEntries = this.entries.filter((entry) => entry.userId === userId);
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const offlineQueue = new OfflineQueue();
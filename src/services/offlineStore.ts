@@ -0,0 +1,77 @@
+// IndexedDB persistence for offline mode: the outbox of queued mutations and
+// snapshots of data that must stay readable without a connection.
+// Without IndexedDB (private mode, very old browsers) every call is a no-op
+// and the outbox only lives as long as the tab.
+
+const DB_NAME = "rusdi-barber-offline";
+const DB_VERSION = 1;
+
+export type OfflineStoreName = "outbox" | "snapshots";
+
+class OfflineStore {
+  private db?: Promise<IDBDatabase>;
+
+  async getAll<T>(storeName: OfflineStoreName): Promise<T[]> {
+    const values = await this.run<T[]>(storeName, "readonly", (store) =>
+      store.getAll(),
+    );
+    return values ?? [];
+  }
+
+  async get<T>(
+    storeName: OfflineStoreName,
+    key: string,
+  ): Promise<T | undefined> {
+    return this.run<T>(storeName, "readonly", (store) => store.get(key));
+  }
+
+  async put(
+    storeName: OfflineStoreName,
+    key: string,
+    value: unknown,
+  ): Promise<void> {
+    await this.run(storeName, "readwrite", (store) => store.put(value, key));
+  }
+
+  async delete(storeName: OfflineStoreName, key: string): Promise<void> {
+    await this.run(storeName, "readwrite", (store) => store.delete(key));
+  }
+
+  async clear(storeName: OfflineStoreName): Promise<void> {
+    await this.run(storeName, "readwrite", (store) => store.clear());
+  }
+
+  private open(): Promise<IDBDatabase> | undefined {
+    if (typeof indexedDB === "undefined") return undefined;
+
+    this.db ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore("outbox");
+        request.result.createObjectStore("snapshots");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return this.db;
+  }
+
+  private async run<T>(
+    storeName: OfflineStoreName,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest,
+  ): Promise<T | undefined> {
+    const pending = this.open();
+    if (!pending) return undefined;
+
+    const db = await pending;
+    return new Promise((resolve, reject) => {
+      const store = db.transaction(storeName, mode).objectStore(storeName);
+      const request = operation(store);
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+export const offlineStore = new OfflineStore();
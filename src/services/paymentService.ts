@@ -1,10 +1,12 @@
-import { apiService } from "./api";
+import { apiService, createIdempotencyKey } from "./api";
+import { paymentDecoder } from "./decoders";
+import { array } from "./schema";
 import {
   ApiResponse,
   PaginatedResponse,
   Payment,
   PaymentFilter,
-} from "../types/customTypes";
+} from "../types";
 
 class PaymentService {
   private baseUrl = "/payments";
@@ -14,28 +16,42 @@ class PaymentService {
     limit: number = 10,
     filters?: PaymentFilter,
   ): Promise<PaginatedResponse<Payment>> {
-    return apiService.getPaginated<Payment>(this.baseUrl, {
-      page,
-      limit,
-      ...filters,
-    });
+    return apiService.getPaginated<Payment>(
+      this.baseUrl,
+      {
+        page,
+        limit,
+        ...filters,
+      },
+      { decoder: paymentDecoder },
+    );
   }
 
   async getPaymentById(id: string): Promise<ApiResponse<Payment>> {
-    return apiService.get<Payment>(`${this.baseUrl}/${id}`);
+    return apiService.get<Payment>(`${this.baseUrl}/${id}`, undefined, {
+      decoder: paymentDecoder,
+    });
   }
 
+  // Pass the same key when resubmitting so the payment is recorded once
   async createPayment(
     paymentData: Partial<Payment>,
+    idempotencyKey: string = createIdempotencyKey(),
   ): Promise<ApiResponse<Payment>> {
-    return apiService.post<Payment>(this.baseUrl, paymentData);
+    return apiService.post<Payment>(this.baseUrl, paymentData, {
+      idempotencyKey,
+      retry: {},
+      decoder: paymentDecoder,
+    });
   }
 
   async updatePayment(
     id: string,
     paymentData: Partial<Payment>,
   ): Promise<ApiResponse<Payment>> {
-    return apiService.put<Payment>(`${this.baseUrl}/${id}`, paymentData);
+    return apiService.put<Payment>(`${this.baseUrl}/${id}`, paymentData, {
+      decoder: paymentDecoder,
+    });
   }
 
   async deletePayment(id: string): Promise<ApiResponse<void>> {
@@ -45,19 +61,38 @@ class PaymentService {
   async getPaymentsByBookingId(
     bookingId: string,
   ): Promise<ApiResponse<Payment[]>> {
-    return apiService.get<Payment[]>(`${this.baseUrl}/booking/${bookingId}`);
+    return apiService.get<Payment[]>(
+      `${this.baseUrl}/booking/${bookingId}`,
+      undefined,
+      { decoder: array(paymentDecoder) },
+    );
   }
 
   async processPayment(
     bookingId: string,
     paymentMethod: string,
     amount: number,
+    idempotencyKey: string = createIdempotencyKey(),
   ): Promise<ApiResponse<Payment>> {
-    return apiService.post<Payment>(`${this.baseUrl}/process`, {
-      bookingId,
-      paymentMethod,
-      amount,
-    });
+    return apiService.post<Payment>(
+      `${this.baseUrl}/process`,
+      { bookingId, paymentMethod, amount },
+      { idempotencyKey, retry: {}, decoder: paymentDecoder },
+    );
+  }
+
+  // The key must be reused when the same refund is submitted again, so a
+  // retry after a timeout cannot refund twice
+  async refundPayment(
+    id: string,
+    idempotencyKey: string,
+    reason?: string,
+  ): Promise<ApiResponse<Payment>> {
+    return apiService.post<Payment>(
+      `${this.baseUrl}/${id}/refund`,
+      { reason },
+      { idempotencyKey, retry: {}, decoder: paymentDecoder },
+    );
   }
 }
 
@@ -0,0 +1,101 @@
+import { apiService } from "./api";
+import { toApiError } from "./errors";
+import type { UserRole } from "../types";
+
+// Role → granted permissions, as configured by the owner
+export type RolePermissionMatrix = Partial<Record<UserRole, string[]>>;
+
+class PermissionService {
+  /**
+   * Get the effective permissions of the signed-in user
+   * (role grants plus any per-user overrides, resolved by the backend)
+   */
+  async getMyPermissions(): Promise<string[]> {
+    try {
+      const response = await apiService.get<{ permissions: string[] }>(
+        "/auth/permissions",
+      );
+
+      if (!response.success || !response.data) {
+        throw new Error(response.message || "Failed to fetch permissions");
+      }
+
+      return response.data.permissions;
+    } catch (error) {
+      throw toApiError(error);
+    }
+  }
+
+  /**
+   * Get the permission matrix for all roles
+   */
+  async getRolePermissions(): Promise<RolePermissionMatrix> {
+    try {
+      const response =
+        await apiService.get<RolePermissionMatrix>("/permissions/roles");
+
+      if (!response.success || !response.data) {
+        throw new Error(
+          response.message || "Failed to fetch role permissions",
+        );
+      }
+
+      return response.data;
+    } catch (error) {
+      throw toApiError(error);
+    }
+  }
+
+  /**
+   * Replace the permissions granted to a role
+   */
+  async updateRolePermissions(
+    role: UserRole,
+    permissions: string[],
+  ): Promise<string[]> {
+    try {
+      const response = await apiService.put<{ permissions: string[] }>(
+        `/permissions/roles/${role}`,
+        { permissions },
+      );
+
+      if (!response.success || !response.data) {
+        throw new Error(
+          response.message || "Failed to update role permissions",
+        );
+      }
+
+      return response.data.permissions;
+    } catch (error) {
+      throw toApiError(error);
+    }
+  }
+
+  /**
+   * Replace the per-user permission overrides
+   */
+  async updateUserPermissions(
+    userId: string,
+    permissions: string[],
+  ): Promise<string[]> {
+    try {
+      const response = await apiService.put<{ permissions: string[] }>(
+        `/users/${userId}/permissions`,
+        { permissions },
+      );
+
+      if (!response.success || !response.data) {
+        throw new Error(
+          response.message || "Failed to update user permissions",
+        );
+      }
+
+      return response.data.permissions;
+    } catch (error) {
+      throw toApiError(error);
+    }
+  }
+}
+
+// Export singleton instance
+export const permissionService = new PermissionService();
@@ -0,0 +1,229 @@
+// Shared, in-memory cache for server data read through the services.
+// Pages subscribe by key through useQuery; mutations invalidate by prefix.
+
+export type QueryKey = readonly unknown[];
+
+export interface QueryState<T> {
+  data?: T;
+  error?: unknown;
+  // 0 until the first success, and again after invalidation
+  updatedAt: number;
+  isFetching: boolean;
+}
+
+interface QueryEntry {
+  key: QueryKey;
+  state: QueryState<unknown>;
+  fetcher?: () => Promise<unknown>;
+  promise?: Promise<unknown>;
+  // Bumped by invalidate and clear, so a request started before them
+  // knows its answer may be out of date
+  generation: number;
+  staleTime: number;
+  listeners: Set<() => void>;
+  gcTimer?: ReturnType<typeof setTimeout>;
+}
+
+export const DEFAULT_STALE_TIME_MS = 30 * 1000;
+// Unused entries are kept this long so navigating back is instant
+const CACHE_TIME_MS = 5 * 60 * 1000;
+
+const EMPTY_STATE: QueryState<never> = { updatedAt: 0, isFetching: false };
+
+export const hashKey = (key: QueryKey): string => JSON.stringify(key);
+
+// ["bookings"] matches ["bookings", "list", {...}]
+const matchesPrefix = (key: QueryKey, prefix: QueryKey): boolean =>
+  prefix.every((part, index) => hashKey([part]) === hashKey([key[index]]));
+
+class QueryCache {
+  private entries = new Map<string, QueryEntry>();
+
+  constructor() {
+    if (typeof window !== "undefined") {
+      // Catch up on changes made elsewhere while the tab was in background
+      window.addEventListener("focus", () => this.refetchStale());
+    }
+  }
+
+  getState<T>(key: QueryKey): QueryState<T> {
+    return (this.entries.get(hashKey(key))?.state ??
+      EMPTY_STATE) as QueryState<T>;
+  }
+
+  subscribe(key: QueryKey, listener: () => void): () => void {
+    const entry = this.ensureEntry(key);
+    clearTimeout(entry.gcTimer);
+    entry.listeners.add(listener);
+
+    return () => {
+      entry.listeners.delete(listener);
+      if (entry.listeners.size === 0) {
+        entry.gcTimer = setTimeout(
+          () => this.entries.delete(hashKey(key)),
+          CACHE_TIME_MS,
+        );
+      }
+    };
+  }
+
+  // Remember how to load a key so invalidation and focus can refetch it
+  register<T>(key: QueryKey, fetcher: () => Promise<T>, staleTime: number) {
+    const entry = this.ensureEntry(key);
+    entry.fetcher = fetcher;
+    entry.staleTime = staleTime;
+  }
+
+  isStale(key: QueryKey): boolean {
+    const entry = this.entries.get(hashKey(key));
+    return !entry || Date.now() - entry.state.updatedAt > entry.staleTime;
+  }
+
+  // Concurrent calls for the same key share one request
+  fetch<T>(key: QueryKey, fetcher?: () => Promise<T>): Promise<T> {
+    const entry = this.ensureEntry(key);
+    if (entry.promise) return entry.promise as Promise<T>;
+
+    const load = (fetcher ?? entry.fetcher) as (() => Promise<T>) | undefined;
+    if (!load) {
+      return Promise.reject(new Error(`No fetcher for ${hashKey(key)}`));
+    }
+
+    // Invalidated or cleared while in flight: ask again once this request
+    // settles instead of storing what it got
+    const generation = entry.generation;
+    const fetchAgain = (): Promise<T> => {
+      if (this.entries.get(hashKey(key)) !== entry) {
+        return Promise.reject(new Error("Query was cleared"));
+      }
+      if (entry.promise === promise) entry.promise = undefined;
+      return this.fetch(key, load);
+    };
+
+    this.update(entry, { isFetching: true });
+    const promise: Promise<T> = load().then(
+      (data) => {
+        if (entry.generation !== generation) return fetchAgain();
+        this.update(entry, {
+          data,
+          error: undefined,
+          updatedAt: Date.now(),
+          isFetching: false,
+        });
+        return data as T;
+      },
+      (error) => {
+        if (entry.generation !== generation) return fetchAgain();
+        // Keep showing the last good data next to the error
+        this.update(entry, { error, isFetching: false });
+        throw error;
+      },
+    );
+    entry.promise = promise;
+    promise
+      .finally(() => {
+        if (entry.promise === promise) entry.promise = undefined;
+      })
+      .catch(() => undefined);
+
+    return promise;
+  }
+
+  // Optimistic or server-confirmed local edits
+  setData<T>(key: QueryKey, updater: (current: T | undefined) => T): void {
+    const entry = this.ensureEntry(key);
+    this.update(entry, {
+      data: updater(entry.state.data as T | undefined),
+      updatedAt: Date.now(),
+    });
+  }
+
+  // Marks matching entries stale and refetches the ones on screen. One
+  // already loading refetches when it settles, since it may have started
+  // before the change.
+  invalidate(prefix: QueryKey): void {
+    this.entries.forEach((entry) => {
+      if (!matchesPrefix(entry.key, prefix)) return;
+
+      entry.generation += 1;
+      this.update(entry, { updatedAt: 0 });
+      if (!entry.promise && entry.listeners.size > 0 && entry.fetcher) {
+        this.fetch(entry.key).catch(() => undefined);
+      }
+    });
+  }
+
+  // Forgets every answer, e.g. on logout or when an admin switches into
+  // another user's session. Screens still open load again.
+  clear(): void {
+    this.entries.forEach((entry, hash) => {
+      entry.generation += 1;
+      entry.promise = undefined;
+      if (entry.listeners.size === 0) {
+        clearTimeout(entry.gcTimer);
+        this.entries.delete(hash);
+        return;
+      }
+
+      this.update(entry, { data: undefined, error: undefined, updatedAt: 0 });
+      if (entry.fetcher) this.fetch(entry.key).catch(() => undefined);
+    });
+  }
+
+  private refetchStale(): void {
+    this.entries.forEach((entry) => {
+      const visible = entry.listeners.size > 0 && entry.fetcher;
+      if (visible && this.isStale(entry.key)) {
+        this.fetch(entry.key).catch(() => undefined);
+      }
+    });
+  }
+
+  private ensureEntry(key: QueryKey): QueryEntry {
+    const hash = hashKey(key);
+    let entry = this.entries.get(hash);
+    if (!entry) {
+      entry = {
+        key,
+        state: EMPTY_STATE,
+        generation: 0,
+        staleTime: DEFAULT_STALE_TIME_MS,
+        listeners: new Set(),
+      };
+      this.entries.set(hash, entry);
+    }
+    return entry;
+  }
+
+  // States are replaced, never mutated, so useSyncExternalStore sees changes
+  private update(entry: QueryEntry, changes: Partial<QueryState<unknown>>) {
+    entry.state = { ...entry.state, ...changes };
+    entry.listeners.forEach((listener) => listener());
+  }
+}
+
+export const queryCache = new QueryCache();
+
+// Keys shared by every page that reads the same data
+export const queryKeys = {
+  stylists: ["stylists"] as const,
+  services: ["services"] as const,
+  bookings: ["bookings"] as const,
+  bookingList: (...params: unknown[]) => ["bookings", "list", ...params],
+  bookingCalendar: (...params: unknown[]) => [
+    "bookings",
+    "calendar",
+    ...params,
+  ],
+  bookingAvailability: (...params: unknown[]) => [
+    "bookings",
+    "availability",
+    ...params,
+  ],
+  bookingSeriesCheck: (...params: unknown[]) => [
+    "bookings",
+    "series",
+    ...params,
+  ],
+  customerSearch: (...params: unknown[]) => ["customers", "search", ...params],
+};
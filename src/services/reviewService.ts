@@ -1,41 +1,54 @@
-import { apiService } from "./api";
+import { apiService, createIdempotencyKey } from "./api";
+import { reviewDecoder } from "./decoders";
+import { array } from "./schema";
 import {
   ApiResponse,
   PaginatedResponse,
   Review,
   ReviewFilter,
-} from "../types/customTypes";
+} from "../types";
 
 class ReviewService {
   private baseUrl = "/reviews";
 
+  // A newer filter supersedes any list request still in flight
   async getReviews(
     page: number = 1,
     limit: number = 10,
     filters?: ReviewFilter,
+    signal?: AbortSignal,
   ): Promise<PaginatedResponse<Review>> {
-    return apiService.getPaginated<Review>(this.baseUrl, {
-      page,
-      limit,
-      ...filters,
-    });
+    return apiService.getPaginated<Review>(
+      this.baseUrl,
+      { page, limit, ...filters },
+      { signal, cancelKey: "reviews:list", decoder: reviewDecoder },
+    );
   }
 
   async getReviewById(id: string): Promise<ApiResponse<Review>> {
-    return apiService.get<Review>(`${this.baseUrl}/${id}`);
+    return apiService.get<Review>(`${this.baseUrl}/${id}`, undefined, {
+      decoder: reviewDecoder,
+    });
   }
 
   async createReview(
     reviewData: Partial<Review>,
+    idempotencyKey: string = createIdempotencyKey(),
   ): Promise<ApiResponse<Review>> {
-    return apiService.post<Review>(this.baseUrl, reviewData);
+    return apiService.post<Review>(this.baseUrl, reviewData, {
+      idempotencyKey,
+      retry: {},
+      decoder: reviewDecoder,
+    });
   }
 
   async updateReview(
     id: string,
     reviewData: Partial<Review>,
   ): Promise<ApiResponse<Review>> {
-    return apiService.put<Review>(`${this.baseUrl}/${id}`, reviewData);
+    return apiService.put<Review>(`${this.baseUrl}/${id}`, reviewData, {
+      decoder: reviewDecoder,
+    });
   }
 
   async deleteReview(id: string): Promise<ApiResponse<void>> {
@@ -43,33 +56,51 @@ class ReviewService {
   }
 
   async approveReview(id: string): Promise<ApiResponse<Review>> {
-    return apiService.patch<Review>(`${this.baseUrl}/${id}/approve`, {});
+    return apiService.patch<Review>(`${this.baseUrl}/${id}/approve`, {}, {
+      decoder: reviewDecoder,
+    });
   }
 
   async rejectReview(
     id: string,
     reason?: string,
   ): Promise<ApiResponse<Review>> {
-    return apiService.patch<Review>(`${this.baseUrl}/${id}/reject`, { reason });
+    return apiService.patch<Review>(
+      `${this.baseUrl}/${id}/reject`,
+      { reason },
+      { decoder: reviewDecoder },
+    );
   }
 
   async getReviewsByUserId(userId: string): Promise<ApiResponse<Review[]>> {
-    return apiService.get<Review[]>(`${this.baseUrl}/user/${userId}`);
+    return apiService.get<Review[]>(
+      `${this.baseUrl}/user/${userId}`,
+      undefined,
+      { decoder: array(reviewDecoder) },
+    );
   }
 
   async getReviewsByStylistId(
     stylistId: string,
   ): Promise<ApiResponse<Review[]>> {
-    return apiService.get<Review[]>(`${this.baseUrl}/stylist/${stylistId}`);
+    return apiService.get<Review[]>(
+      `${this.baseUrl}/stylist/${stylistId}`,
+      undefined,
+      { decoder: array(reviewDecoder) },
+    );
   }
 
   async getReviewsByServiceId(
     serviceId: string,
   ): Promise<ApiResponse<Review[]>> {
-    return apiService.get<Review[]>(`${this.baseUrl}/service/${serviceId}`);
+    return apiService.get<Review[]>(
+      `${this.baseUrl}/service/${serviceId}`,
+      undefined,
+      { decoder: array(reviewDecoder) },
+    );
   }
 
-  async getReviewStatistics(): Promise<
+  async getReviewStatistics(signal?: AbortSignal): Promise<
     ApiResponse<{
       averageRating: number;
       totalReviews: number;
@@ -80,7 +111,7 @@ class ReviewService {
       averageRating: number;
       totalReviews: number;
       ratingDistribution: Record<string, number>;
-    }>(`${this.baseUrl}/statistics`);
+    }>(`${this.baseUrl}/statistics`, undefined, { signal });
   }
 }
 
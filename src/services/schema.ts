@@ -0,0 +1,232 @@
+// Small runtime decoders for API payloads. A decoder checks an unknown value
+// and returns it in the shape the app expects, normalising the variations
+// the backend is known to send (numeric strings, upper-case enums, renamed
+// fields). Mismatches are reported with the path that broke, so a backend
+// change shows up in the console instead of as `undefined` inside JSX.
+
+import { ResponseShapeError } from "./errors";
+
+export interface DecodeIssue {
+  path: string;
+  expected: string;
+  received: unknown;
+}
+
+export interface DecodeContext {
+  // Problems that were recovered from, e.g. a malformed optional field
+  warnings: DecodeIssue[];
+}
+
+export type Decoder<T> = (
+  value: unknown,
+  path: string,
+  context: DecodeContext,
+) => T;
+
+// Thrown inside decoders and caught by optional(), array() and decode()
+class Mismatch extends Error {
+  readonly issue: DecodeIssue;
+
+  constructor(issue: DecodeIssue) {
+    super(`${issue.path}: expected ${issue.expected}`);
+    this.issue = issue;
+  }
+}
+
+const mismatch = (
+  path: string,
+  expected: string,
+  received: unknown,
+): never => {
+  throw new Mismatch({ path, expected, received });
+};
+
+// Runs a decoder, turning a mismatch into a warning and a fallback value
+const recover = <T, F>(
+  decoder: Decoder<T>,
+  value: unknown,
+  path: string,
+  context: DecodeContext,
+  fallback: F,
+): T | F => {
+  try {
+    return decoder(value, path, context);
+  } catch (error) {
+    if (!(error instanceof Mismatch)) throw error;
+    context.warnings.push(error.issue);
+    return fallback;
+  }
+};
+
+export const string: Decoder<string> = (value, path) =>
+  typeof value === "string" ? value : mismatch(path, "string", value);
+
+// Accepts numeric strings too, e.g. "4.5" from a DECIMAL column
+export const number: Decoder<number> = (value, path) => {
+  const parsed =
+    typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+  return typeof parsed === "number" && Number.isFinite(parsed)
+    ? parsed
+    : mismatch(path, "number", value);
+};
+
+export const boolean: Decoder<boolean> = (value, path) =>
+  typeof value === "boolean" ? value : mismatch(path, "boolean", value);
+
+// Case-insensitive; returns the spelling listed here
+export const oneOf =
+  <T extends string>(...values: T[]): Decoder<T> =>
+  (value, path) => {
+    const match =
+      typeof value === "string" &&
+      values.find((item) => item.toLowerCase() === value.toLowerCase());
+    return match || mismatch(path, values.join(" | "), value);
+  };
+
+// Missing and null become undefined; malformed values too, with a warning
+export const optional =
+  <T>(decoder: Decoder<T>): Decoder<T | undefined> =>
+  (value, path, context) =>
+    value === undefined || value === null
+      ? undefined
+      : recover(decoder, value, path, context, undefined);
+
+// Like optional(), but falls back to a value screens can render as is
+export const withDefault =
+  <T>(decoder: Decoder<T>, fallback: T): Decoder<T> =>
+  (value, path, context) =>
+    optional(decoder)(value, path, context) ?? fallback;
+
+// Items that fail are dropped with a warning, so one bad row does not
+// blank the whole list
+export const array =
+  <T>(decoder: Decoder<T>): Decoder<T[]> =>
+  (value, path, context) => {
+    if (!Array.isArray(value)) return mismatch(path, "array", value);
+
+    const dropped = Symbol("dropped");
+    return value
+      .map((item, index) =>
+        recover(decoder, item, `${path}[${index}]`, context, dropped),
+      )
+      .filter((item): item is T => item !== dropped);
+  };
+
+type Shape<T> = { [K in keyof T]?: Decoder<T[K]> };
+
+// Checks the listed fields. Fields not listed are copied through unchecked,
+// so new backend fields are not lost.
+export const object =
+  <T>(shape: Shape<T>): Decoder<T> =>
+  (value, path, context) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      return mismatch(path, "object", value);
+    }
+
+    const source = value as Record<string, unknown>;
+    const result: Record<string, unknown> = { ...source };
+    Object.entries(shape).forEach(([key, decoder]) => {
+      const decoded = (decoder as Decoder<unknown>)(
+        source[key],
+        `${path}.${key}`,
+        context,
+      );
+      if (decoded === undefined) delete result[key];
+      else result[key] = decoded;
+    });
+    return result as T;
+  };
+
+// Moves fields the backend sends under an old name to the name the domain
+// model uses, e.g. { appointmentDate: "bookingDate" }. The old key is dropped.
+export const renamed =
+  <T>(decoder: Decoder<T>, names: Record<string, string>): Decoder<T> =>
+  (value, path, context) => {
+    if (typeof value !== "object" || value === null) {
+      return decoder(value, path, context);
+    }
+
+    const result: Record<string, unknown> = { ...value };
+    Object.entries(names).forEach(([legacy, name]) => {
+      result[name] ??= result[legacy];
+      delete result[legacy];
+    });
+    return decoder(result, path, context);
+  };
+
+// Tries each decoder in turn, for payloads that changed shape over time
+export const firstOf =
+  <T>(...decoders: Decoder<T>[]): Decoder<T> =>
+  (value, path, context) => {
+    const expected: string[] = [];
+    for (const decoder of decoders) {
+      const attempt: DecodeContext = { warnings: [] };
+      try {
+        const result = decoder(value, path, attempt);
+        context.warnings.push(...attempt.warnings);
+        return result;
+      } catch (error) {
+        if (!(error instanceof Mismatch)) throw error;
+        expected.push(`${error.issue.path}: ${error.issue.expected}`);
+      }
+    }
+    return mismatch(path, `one of [${expected.join("; ")}]`, value);
+  };
+
+export const map =
+  <A, B>(decoder: Decoder<A>, transform: (value: A) => B): Decoder<B> =>
+  (value, path, context) =>
+    transform(decoder(value, path, context));
+
+// For shapes that refer to each other, e.g. Booking and Payment
+export const lazy =
+  <T>(getDecoder: () => Decoder<T>): Decoder<T> =>
+  (value, path, context) =>
+    getDecoder()(value, path, context);
+
+const describe = (value: unknown): string => {
+  if (value === null || value === undefined) return String(value);
+  if (Array.isArray(value)) return `array(${value.length})`;
+  if (typeof value === "object") return "object";
+  return `${typeof value} ${JSON.stringify(value).slice(0, 40)}`;
+};
+
+const report = (
+  source: string,
+  issues: DecodeIssue[],
+  log: (...data: unknown[]) => void,
+) => {
+  if (issues.length === 0) return;
+  log(
+    `Unexpected response shape from ${source}:\n` +
+      issues
+        .map(
+          (issue) =>
+            `  ${issue.path}: expected ${issue.expected}, ` +
+            `got ${describe(issue.received)}`,
+        )
+        .join("\n"),
+  );
+};
+
+// Decodes a whole payload. Recovered problems are logged as warnings;
+// a required field that is missing or malformed throws ResponseShapeError.
+export const decode = <T>(
+  decoder: Decoder<T>,
+  value: unknown,
+  source: string,
+): T => {
+  const context: DecodeContext = { warnings: [] };
+  try {
+    const result = decoder(value, "data", context);
+    report(source, context.warnings, console.warn);
+    return result;
+  } catch (error) {
+    if (!(error instanceof Mismatch)) throw error;
+    report(source, [error.issue, ...context.warnings], console.error);
+    throw new ResponseShapeError(
+      "The server sent data in an unexpected format",
+      { code: "INVALID_RESPONSE", cause: error.issue },
+    );
+  }
+};
@@ -1,4 +1,7 @@
-import { apiService, handleApiError } from "./api";
+import { apiService } from "./api";
+import { toApiError } from "./errors";
+import { serviceDecoder } from "./decoders";
+import { array } from "./schema";
 import type { Service } from "../types";
 
 export interface CreateServiceData {
@@ -63,7 +66,9 @@ class ServiceService {
    */
   async getAllServices(filters?: ServiceFilters): Promise<Service[]> {
     try {
-      const response = await apiService.get<Service[]>("/services", filters);
+      const response = await apiService.get<Service[]>("/services", filters, {
+        decoder: array(serviceDecoder),
+      });
 
       if (!response.success || !response.data) {
         throw new Error(response.message || "Failed to fetch services");
@@ -71,7 +76,7 @@ class ServiceService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -80,7 +85,11 @@ class ServiceService {
    */
   async getServiceById(id: string): Promise<Service> {
     try {
-      const response = await apiService.get<Service>(`/services/${id}`);
+      const response = await apiService.get<Service>(
+        `/services/${id}`,
+        undefined,
+        { decoder: serviceDecoder },
+      );
 
       if (!response.success || !response.data) {
         throw new Error(response.message || "Failed to fetch service");
@@ -88,7 +97,7 @@ class ServiceService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -97,7 +106,9 @@ class ServiceService {
    */
   async createService(data: CreateServiceData): Promise<Service> {
     try {
-      const response = await apiService.post<Service>("/services", data);
+      const response = await apiService.post<Service>("/services", data, {
+        decoder: serviceDecoder,
+      });
 
       if (!response.success || !response.data) {
         throw new Error(response.message || "Failed to create service");
@@ -105,7 +116,7 @@ class ServiceService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -114,7 +125,9 @@ class ServiceService {
    */
   async updateService(id: string, data: UpdateServiceData): Promise<Service> {
     try {
-      const response = await apiService.put<Service>(`/services/${id}`, data);
+      const response = await apiService.put<Service>(`/services/${id}`, data, {
+        decoder: serviceDecoder,
+      });
 
       if (!response.success || !response.data) {
         throw new Error(response.message || "Failed to update service");
@@ -122,7 +135,7 @@ class ServiceService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -137,7 +150,7 @@ class ServiceService {
         throw new Error(response.message || "Failed to delete service");
       }
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -146,7 +159,11 @@ class ServiceService {
    */
   async getActiveServices(): Promise<Service[]> {
     try {
-      const response = await apiService.get<Service[]>("/services/active");
+      const response = await apiService.get<Service[]>(
+        "/services/active",
+        undefined,
+        { decoder: array(serviceDecoder) },
+      );
 
       if (!response.success || !response.data) {
         throw new Error(response.message || "Failed to fetch active services");
@@ -154,7 +171,7 @@ class ServiceService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -163,9 +180,13 @@ class ServiceService {
    */
   async getPopularServices(limit: number = 10): Promise<Service[]> {
     try {
-      const response = await apiService.get<Service[]>("/services/popular", {
-        limit,
-      });
+      const response = await apiService.get<Service[]>(
+        "/services/popular",
+        {
+          limit,
+        },
+        { decoder: array(serviceDecoder) },
+      );
 
       if (!response.success || !response.data) {
         throw new Error(response.message || "Failed to fetch popular services");
@@ -173,7 +194,7 @@ class ServiceService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -184,6 +205,8 @@ class ServiceService {
     try {
       const response = await apiService.get<Service[]>(
         `/services/category/${category}`,
+        undefined,
+        { decoder: array(serviceDecoder) },
       );
 
       if (!response.success || !response.data) {
@@ -194,7 +217,7 @@ class ServiceService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -217,7 +240,7 @@ class ServiceService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -243,7 +266,7 @@ class ServiceService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -257,6 +280,7 @@ class ServiceService {
         {
           isActive,
         },
+        { decoder: serviceDecoder },
       );
 
       if (!response.success || !response.data) {
@@ -265,7 +289,7 @@ class ServiceService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -276,6 +300,8 @@ class ServiceService {
     try {
       const response = await apiService.post<Service>(
         `/services/${id}/toggle-popular`,
+        undefined,
+        { decoder: serviceDecoder },
       );
 
       if (!response.success || !response.data) {
@@ -286,7 +312,7 @@ class ServiceService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -305,6 +331,7 @@ class ServiceService {
           headers: {
             "Content-Type": "multipart/form-data",
           },
+          decoder: serviceDecoder,
         },
       );
 
@@ -314,7 +341,7 @@ class ServiceService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -343,7 +370,7 @@ class ServiceService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -354,6 +381,8 @@ class ServiceService {
     try {
       const response = await apiService.get<Service[]>(
         `/services/stylist/${stylistId}`,
+        undefined,
+        { decoder: array(serviceDecoder) },
       );
 
       if (!response.success || !response.data) {
@@ -364,7 +393,7 @@ class ServiceService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -392,7 +421,7 @@ class ServiceService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -410,6 +439,7 @@ class ServiceService {
           serviceIds,
           updates,
         },
+        { decoder: array(serviceDecoder) },
       );
 
       if (!response.success || !response.data) {
@@ -418,7 +448,7 @@ class ServiceService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -451,7 +481,7 @@ class ServiceService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -465,6 +495,7 @@ class ServiceService {
         {
           customerId,
         },
+        { decoder: array(serviceDecoder) },
       );
 
       if (!response.success || !response.data) {
@@ -475,7 +506,7 @@ class ServiceService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -500,7 +531,7 @@ class ServiceService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 }
@@ -1,4 +1,7 @@
-import { apiService, handleApiError } from "./api";
+import { apiService } from "./api";
+import { toApiError } from "./errors";
+import { stylistDecoder } from "./decoders";
+import { array } from "./schema";
 import type { Stylist } from "../types";
 
 export interface CreateStylistData {
@@ -60,7 +63,9 @@ class StylistService {
    */
   async getAllStylists(filters?: StylistFilters): Promise<Stylist[]> {
     try {
-      const response = await apiService.get<Stylist[]>("/stylists", filters);
+      const response = await apiService.get<Stylist[]>("/stylists", filters, {
+        decoder: array(stylistDecoder),
+      });
 
       if (!response.success || !response.data) {
         throw new Error(response.message || "Failed to fetch stylists");
@@ -68,7 +73,7 @@ class StylistService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -77,7 +82,11 @@ class StylistService {
    */
   async getStylistById(id: string): Promise<Stylist> {
     try {
-      const response = await apiService.get<Stylist>(`/stylists/${id}`);
+      const response = await apiService.get<Stylist>(
+        `/stylists/${id}`,
+        undefined,
+        { decoder: stylistDecoder },
+      );
 
       if (!response.success || !response.data) {
         throw new Error(response.message || "Failed to fetch stylist");
@@ -85,7 +94,7 @@ class StylistService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -94,7 +103,9 @@ class StylistService {
    */
   async createStylist(data: CreateStylistData): Promise<Stylist> {
     try {
-      const response = await apiService.post<Stylist>("/stylists", data);
+      const response = await apiService.post<Stylist>("/stylists", data, {
+        decoder: stylistDecoder,
+      });
 
       if (!response.success || !response.data) {
         throw new Error(response.message || "Failed to create stylist");
@@ -102,7 +113,7 @@ class StylistService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -111,7 +122,11 @@ class StylistService {
    */
   async updateStylist(id: string, data: UpdateStylistData): Promise<Stylist> {
     try {
-      const response = await apiService.patch<Stylist>(`/stylists/${id}`, data);
+      const response = await apiService.patch<Stylist>(
+        `/stylists/${id}`,
+        data,
+        { decoder: stylistDecoder },
+      );
 
       if (!response.success || !response.data) {
         throw new Error(response.message || "Failed to update stylist");
@@ -119,7 +134,7 @@ class StylistService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -134,7 +149,7 @@ class StylistService {
         throw new Error(response.message || "Failed to delete stylist");
       }
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -143,10 +158,14 @@ class StylistService {
    */
   async getAvailableStylists(date: string, time: string): Promise<Stylist[]> {
     try {
-      const response = await apiService.get<Stylist[]>("/stylists/available", {
-        date,
-        time,
-      });
+      const response = await apiService.get<Stylist[]>(
+        "/stylists/available",
+        {
+          date,
+          time,
+        },
+        { decoder: array(stylistDecoder) },
+      );
 
       if (!response.success || !response.data) {
         throw new Error(response.message || "Failed to fetch available stylists");
@@ -154,7 +173,7 @@ class StylistService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -178,7 +197,7 @@ class StylistService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -187,9 +206,13 @@ class StylistService {
    */
   async updateAvailability(id: string, isAvailable: boolean): Promise<Stylist> {
     try {
-      const response = await apiService.patch<Stylist>(`/stylists/${id}/availability`, {
-        isAvailable,
-      });
+      const response = await apiService.patch<Stylist>(
+        `/stylists/${id}/availability`,
+        {
+          isAvailable,
+        },
+        { decoder: stylistDecoder },
+      );
 
       if (!response.success || !response.data) {
         throw new Error(response.message || "Failed to update stylist availability");
@@ -197,7 +220,7 @@ class StylistService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -215,9 +238,13 @@ class StylistService {
     }
   ): Promise<Stylist> {
     try {
-      const response = await apiService.patch<Stylist>(`/stylists/${id}/schedule`, {
-        schedule,
-      });
+      const response = await apiService.patch<Stylist>(
+        `/stylists/${id}/schedule`,
+        {
+          schedule,
+        },
+        { decoder: stylistDecoder },
+      );
 
       if (!response.success || !response.data) {
         throw new Error(response.message || "Failed to update stylist schedule");
@@ -225,7 +252,7 @@ class StylistService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -251,7 +278,7 @@ class StylistService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -268,7 +295,7 @@ class StylistService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -302,7 +329,7 @@ class StylistService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -319,7 +346,7 @@ class StylistService {
         throw new Error(response.message || "Failed to assign service to stylist");
       }
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -334,7 +361,7 @@ class StylistService {
         throw new Error(response.message || "Failed to remove service from stylist");
       }
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -353,7 +380,8 @@ class StylistService {
           headers: {
             "Content-Type": "multipart/form-data",
           },
-        }
+          decoder: stylistDecoder,
+        },
       );
 
       if (!response.success || !response.data) {
@@ -362,7 +390,7 @@ class StylistService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -390,7 +418,7 @@ class StylistService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 }
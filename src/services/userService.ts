@@ -1,4 +1,5 @@
-import { apiService, handleApiError } from "./api";
+import { apiService } from "./api";
+import { toApiError } from "./errors";
 import type { User, UserRole } from "../types";
 
 export interface CreateUserData {
@@ -73,6 +74,29 @@ export interface UserStats {
   }[];
 }
 
+export interface UserActivity {
+  id: string;
+  action: string;
+  description: string;
+  ipAddress: string;
+  userAgent: string;
+  createdAt: string;
+  // Set when an admin performed the action while impersonating this user
+  impersonatorId?: string;
+  impersonatorName?: string;
+}
+
+export interface TwoFactorPolicy {
+  // Roles that may not sign in with a password alone
+  requiredRoles: UserRole[];
+}
+
+export interface RecordUserActivityData {
+  action: string;
+  description: string;
+  impersonatedUserId?: string;
+}
+
 class UserService {
   /**
    * Get all users
@@ -87,7 +111,7 @@ class UserService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -104,7 +128,7 @@ class UserService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -121,7 +145,7 @@ class UserService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -138,7 +162,7 @@ class UserService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -153,7 +177,7 @@ class UserService {
         throw new Error(response.message || "Failed to delete user");
       }
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -172,7 +196,7 @@ class UserService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -189,7 +213,7 @@ class UserService {
         throw new Error(response.message || "Failed to change user password");
       }
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -206,7 +230,7 @@ class UserService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -223,7 +247,7 @@ class UserService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -251,7 +275,7 @@ class UserService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -268,7 +292,7 @@ class UserService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -288,7 +312,7 @@ class UserService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -305,7 +329,7 @@ class UserService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -328,7 +352,7 @@ class UserService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -345,7 +369,7 @@ class UserService {
         throw new Error(response.message || "Failed to send password reset email");
       }
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -362,7 +386,7 @@ class UserService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -377,7 +401,7 @@ class UserService {
         throw new Error(response.message || "Failed to resend verification email");
       }
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -389,14 +413,7 @@ class UserService {
     page: number = 1,
     limit: number = 20
   ): Promise<{
-    activities: {
-      id: string;
-      action: string;
-      description: string;
-      ipAddress: string;
-      userAgent: string;
-      createdAt: string;
-    }[];
+    activities: UserActivity[];
     total: number;
   }> {
     try {
@@ -411,7 +428,86 @@ class UserService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
+    }
+  }
+
+  /**
+   * Record an entry in a user's activity log
+   */
+  async recordUserActivity(
+    id: string,
+    data: RecordUserActivityData
+  ): Promise<UserActivity> {
+    try {
+      const response = await apiService.post<UserActivity>(
+        `/users/${id}/activity`,
+        { ...data }
+      );
+
+      if (!response.success || !response.data) {
+        throw new Error(response.message || "Failed to record user activity");
+      }
+
+      return response.data;
+    } catch (error) {
+      throw toApiError(error);
+    }
+  }
+
+  /**
+   * Get the roles that must use two-factor authentication
+   */
+  async getTwoFactorPolicy(): Promise<TwoFactorPolicy> {
+    try {
+      const response = await apiService.get<TwoFactorPolicy>(
+        "/users/two-factor-policy"
+      );
+
+      if (!response.success || !response.data) {
+        throw new Error(response.message || "Failed to fetch 2FA policy");
+      }
+
+      return response.data;
+    } catch (error) {
+      throw toApiError(error);
+    }
+  }
+
+  /**
+   * Set the roles that must use two-factor authentication
+   */
+  async updateTwoFactorPolicy(
+    requiredRoles: UserRole[]
+  ): Promise<TwoFactorPolicy> {
+    try {
+      const response = await apiService.put<TwoFactorPolicy>(
+        "/users/two-factor-policy",
+        { requiredRoles }
+      );
+
+      if (!response.success || !response.data) {
+        throw new Error(response.message || "Failed to update 2FA policy");
+      }
+
+      return response.data;
+    } catch (error) {
+      throw toApiError(error);
+    }
+  }
+
+  /**
+   * Remove a user's 2FA enrolment, e.g. after a lost phone
+   */
+  async resetUserTwoFactor(id: string): Promise<void> {
+    try {
+      const response = await apiService.post(`/users/${id}/two-factor/reset`);
+
+      if (!response.success) {
+        throw new Error(response.message || "Failed to reset user 2FA");
+      }
+    } catch (error) {
+      throw toApiError(error);
     }
   }
 
@@ -436,7 +532,7 @@ class UserService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -464,7 +560,7 @@ class UserService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 
@@ -481,7 +577,7 @@ class UserService {
 
       return response.data;
     } catch (error) {
-      throw new Error(handleApiError(error));
+      throw toApiError(error);
     }
   }
 }
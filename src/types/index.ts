@@ -1,8 +1,12 @@
+import type { Money } from "../utils/money";
+
 // User Role enum
 export enum UserRole {
   ADMIN = "ADMIN",
   MANAGER = "MANAGER",
   STYLIST = "STYLIST",
+  RECEPTIONIST = "RECEPTIONIST",
+  CASHIER = "CASHIER",
   CUSTOMER = "CUSTOMER",
 }
 
@@ -15,6 +19,11 @@ export interface User {
   phone: string;
   avatar?: string;
   role: UserRole;
+  // Effective "resource:action" grants, when the backend includes them
+  permissions?: string[];
+  twoFactorEnabled?: boolean;
+  // Set by the backend when the user's role must use 2FA
+  twoFactorRequired?: boolean;
   isActive: boolean;
   emailVerified: boolean;
   createdAt: string;
@@ -29,12 +38,11 @@ export interface Stylist {
   bio?: string;
   profileImage?: string;
   specialties?: string[];
-  specializations?: string[];
   experience?: number;
   rating?: number;
   totalReviews?: number;
   totalBookings?: number;
-  revenue?: string;
+  revenue?: Money;
   commissionRate?: number;
   isActive: boolean;
   isAvailable: boolean;
@@ -60,13 +68,23 @@ export interface WorkingHours {
 }
 
 // Service types
+export interface ServiceCategory {
+  id: string;
+  name: string;
+  description?: string;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface Service {
   id: string;
   name: string;
   description: string;
-  price: string;
-  duration: number;
+  price: Money;
+  duration: number; // minutes
   category: string;
+  categoryId?: string;
   isActive: boolean;
   isPopular?: boolean;
   requirements?: string[];
@@ -80,66 +98,32 @@ export interface Service {
 }
 
 // Booking types
+export const BookingStatus = {
+  PENDING: "pending",
+  CONFIRMED: "confirmed",
+  IN_PROGRESS: "in_progress",
+  COMPLETED: "completed",
+  CANCELLED: "cancelled",
+  NO_SHOW: "no_show",
+} as const;
+
 export type BookingStatus =
-  | "pending"
-  | "confirmed"
-  | "in_progress"
-  | "completed"
-  | "cancelled"
-  | "no_show";
+  (typeof BookingStatus)[keyof typeof BookingStatus];
 
-export interface Booking {
-  id: string;
-  customerId: string;
-  stylistId: string;
+// One service within a booking. Lines run back-to-back in order, each
+// with its own stylist.
+export interface BookingLine {
   serviceId: string;
-  customer: User;
-  stylist: Stylist;
-  service: Service;
-  appointmentDate: string;
-  appointmentTime: string;
-  status: BookingStatus;
-  notes?: string;
-  payment?: Payment;
-  createdAt: string;
-  updatedAt: string;
-}
-
-export interface Payment {
-  id: string;
-  bookingId: string;
-  amount: string;
-  method: string;
-  status: string;
-  paidAt?: string;
-  createdAt: string;
-  updatedAt: string;
-}
-
-// Additional Service types
-export interface ServiceCategory {
-  id: string;
-  name: string;
-  description?: string;
-  isActive: boolean;
-  createdAt: string;
-  updatedAt: string;
-}
-
-export interface Service {
-  id: string;
-  categoryId: string;
-  category: ServiceCategory;
-  name: string;
-  description?: string;
-  price: string; // decimal as string
-  duration: number; // minutes
-  isActive: boolean;
-  createdAt: string;
-  updatedAt: string;
+  service?: Service;
+  stylistId: string;
+  stylist?: Stylist;
+  startTime: string; // HH:mm
+  endTime: string;
+  price: Money;
 }
 
-// Booking types
+// stylist and service are the booking's main stylist and first service;
+// lines holds every service. endTime and totalPrice cover all lines.
 export interface Booking {
   id: string;
   customerId: string;
@@ -148,84 +132,139 @@ export interface Booking {
   stylist: Stylist;
   serviceId: string;
   service: Service;
-  bookingDate: string;
-  startTime: string;
+  lines: BookingLine[];
+  bookingDate: string; // YYYY-MM-DD
+  startTime: string; // HH:mm
   endTime: string;
-  status: string;
+  status: BookingStatus;
   notes?: string;
-  totalPrice: string; // decimal as string
+  totalPrice: Money;
   createdAt: string;
   updatedAt: string;
   payment?: Payment;
   review?: Review;
+  // Set when the booking is one visit of a repeating series
+  series?: BookingSeries;
 }
 
-export const BookingStatus = {
-  PENDING: "PENDING",
-  CONFIRMED: "CONFIRMED",
-  IN_PROGRESS: "IN_PROGRESS",
-  COMPLETED: "COMPLETED",
-  CANCELLED: "CANCELLED",
-  NO_SHOW: "NO_SHOW",
-} as const;
-
-export type BookingStatusType =
-  (typeof BookingStatus)[keyof typeof BookingStatus];
+// "Every 3 weeks" or "every month", ending on a date or after a count
+export interface RecurrenceRule {
+  frequency: "weekly" | "monthly";
+  interval: number;
+  until?: string; // YYYY-MM-DD, inclusive
+  count?: number;
+}
 
-// Payment types
-export interface Payment {
+export interface BookingSeries {
   id: string;
-  bookingId: string;
-  booking: Booking;
-  amount: string; // decimal as string
-  paymentMethod: string;
-  status: string;
-  transactionId?: string;
-  paymentGatewayResponse?: Record<string, unknown>;
-  paidAt?: string;
-  createdAt: string;
-  updatedAt: string;
+  rule: RecurrenceRule;
 }
 
+// Payment types
 export const PaymentMethod = {
-  CASH: "CASH",
-  CREDIT_CARD: "CREDIT_CARD",
-  DEBIT_CARD: "DEBIT_CARD",
-  DIGITAL_WALLET: "DIGITAL_WALLET",
-  BANK_TRANSFER: "BANK_TRANSFER",
+  CASH: "cash",
+  QRIS: "qris",
+  DEBIT_CARD: "debit_card",
+  CREDIT_CARD: "credit_card",
+  DIGITAL_WALLET: "digital_wallet",
+  BANK_TRANSFER: "bank_transfer",
 } as const;
 
 export type PaymentMethodType =
   (typeof PaymentMethod)[keyof typeof PaymentMethod];
 
 export const PaymentStatus = {
-  PENDING: "PENDING",
-  PAID: "PAID",
-  FAILED: "FAILED",
-  REFUNDED: "REFUNDED",
-  PARTIALLY_REFUNDED: "PARTIALLY_REFUNDED",
+  PENDING: "pending",
+  COMPLETED: "completed",
+  CANCELLED: "cancelled",
+  FAILED: "failed",
+  REFUNDED: "refunded",
 } as const;
 
 export type PaymentStatusType =
   (typeof PaymentStatus)[keyof typeof PaymentStatus];
 
+export interface Payment {
+  id: string;
+  bookingId: string;
+  booking?: Booking;
+  amount: Money;
+  paymentMethod: string;
+  status: PaymentStatusType;
+  transactionId?: string;
+  refundReason?: string;
+  paidAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PaymentFilter {
+  status?: string;
+  startDate?: string;
+  endDate?: string;
+  bookingId?: string;
+  paymentMethod?: string;
+}
+
 // Review types
+export type ReviewStatus = "pending" | "approved" | "rejected";
+
 export interface Review {
   id: string;
+  userId: string;
   bookingId: string;
-  booking: Booking;
-  customerId: string;
-  customer: User;
   stylistId: string;
-  stylist: Stylist;
+  serviceId: string;
   rating: number; // 1-5
-  comment?: string;
-  isModerated: boolean;
-  isVisible: boolean;
+  comment: string;
+  status: ReviewStatus;
+  userDetails?: {
+    id: string;
+    name: string;
+    avatar?: string;
+  };
   createdAt: string;
   updatedAt: string;
 }
 
+export interface ReviewFilter {
+  status?: string;
+  rating?: number;
+  stylistId?: string;
+  serviceId?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+// Customer types
+export interface Customer {
+  id: string;
+  name: string;
+  email: string;
+  phone: string;
+  address?: string;
+  avatar?: string;
+  birthDate?: string;
+  gender?: string;
+  totalBookings?: number;
+  totalSpent?: Money;
+  membershipLevel?: string;
+  loyaltyPoints?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CustomerFilter {
+  search?: string;
+  membershipLevel?: string;
+  startDate?: string;
+  endDate?: string;
+  minBookings?: number;
+  maxBookings?: number;
+  minSpent?: number;
+  maxSpent?: number;
+}
+
 // Promo and Loyalty types
 export interface PromoCode {
   id: string;
@@ -267,7 +306,7 @@ export interface LoyaltyPoints {
 export interface DashboardStats {
   totalCustomers: number;
   totalBookings: number;
-  totalRevenue: string; // decimal as string
+  totalRevenue: Money;
   averageRating: number;
   todayBookings: number;
   monthlyBookings: number;
@@ -286,12 +325,12 @@ export interface TopStylist {
   avatar?: string;
   rating: number;
   totalBookings: number;
-  revenue: string;
+  revenue: Money;
 }
 
 export interface MonthlyRevenue {
   month: string;
-  revenue: string;
+  revenue: Money;
   bookings: number;
 }
 
@@ -308,6 +347,8 @@ export interface ApiResponse<T = unknown> {
   data?: T;
   error?: string;
   pagination?: PaginationMeta;
+  // True when the server replayed the result of an earlier identical request
+  replayed?: boolean;
 }
 
 export interface PaginationMeta {
@@ -384,6 +425,7 @@ export interface BookingFilters {
   dateFrom?: string;
   dateTo?: string;
   search?: string;
+  seriesId?: string;
 }
 
 export interface StylistFilters {
@@ -401,15 +443,6 @@ export interface ServiceFilters {
   search?: string;
 }
 
-export interface ReviewFilters {
-  stylistId?: string;
-  minRating?: number;
-  maxRating?: number;
-  isModerated?: boolean;
-  isVisible?: boolean;
-  search?: string;
-}
-
 // UI Component types
 export interface TableColumn<T = Record<string, unknown>> {
   key: string;
@@ -433,13 +466,27 @@ export interface ChartData {
   color?: string;
 }
 
+// One service line of a booking on the calendar, so a multi-service visit
+// shows as back-to-back blocks. Like Booking, the date and times are the
+// shop's wall clock, not instants.
 export interface CalendarEvent {
   id: string;
+  bookingId: string;
+  // Number of lines in the booking this block belongs to
+  lineCount: number;
+  // Minutes from the start of the booking to the start of this block
+  offset: number;
   title: string;
-  start: Date;
-  end: Date;
-  color?: string;
-  resource?: Record<string, unknown>;
+  date: string; // YYYY-MM-DD
+  startTime: string; // HH:mm
+  endTime: string;
+  status: BookingStatus;
+  stylistId: string;
+  customer: string;
+  service: string;
+  stylist: string;
+  // Set when the booking is one visit of a repeating series
+  seriesId?: string;
 }
 
 // Notification types
@@ -0,0 +1,18 @@
+import type { Booking } from "../types";
+import { toMinutes } from "./shopTime";
+
+// "Potong Rambut + Cukur Jenggot"
+export const describeServices = (booking: Booking): string =>
+  booking.lines
+    .map((line) => line.service?.name)
+    .filter(Boolean)
+    .join(" + ") || booking.service.name;
+
+// Minutes of every service together
+export const bookingDuration = (booking: Booking): number => {
+  const minutes = booking.lines.reduce(
+    (sum, line) => sum + toMinutes(line.endTime) - toMinutes(line.startTime),
+    0,
+  );
+  return minutes > 0 ? minutes : booking.service.duration;
+};
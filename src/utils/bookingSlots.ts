@@ -0,0 +1,138 @@
+// The slot grid offered when booking: every start time in the working day,
+// with the stylists free for the whole service or the reason nobody is.
+// Built from the availability endpoint and each stylist's weekly schedule.
+
+import type { BookingAvailability } from "../services/bookingService";
+import type { Stylist } from "../types";
+import {
+  dayOfWeek,
+  fromMinutes,
+  toMinutes,
+  toShopDate,
+  toShopTime,
+} from "./shopTime";
+
+// Start times are offered every half hour, like the availability endpoint
+export const SLOT_STEP_MINUTES = 30;
+
+// Keys of Stylist.schedule, indexed by dayOfWeek()
+const WEEKDAYS = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
+export interface SlotCandidate {
+  stylist: Stylist;
+  availability: BookingAvailability;
+}
+
+export interface BookingSlot {
+  startTime: string;
+  endTime: string;
+  // Stylists free for the whole service; empty when the slot is disabled
+  stylistIds: string[];
+  reason?: string;
+}
+
+const hoursOn = (stylist: Stylist, date: string) =>
+  stylist.schedule?.[WEEKDAYS[dayOfWeek(date)]];
+
+// Why one stylist cannot take the slot, or undefined when they can
+const unavailableReason = (
+  { stylist, availability }: SlotCandidate,
+  date: string,
+  start: number,
+  end: number,
+): string | undefined => {
+  const hours = hoursOn(stylist, date);
+  if (hours && !hours.isWorking) return "Day off";
+  if (hours && start < toMinutes(hours.startTime)) {
+    return "Before working hours";
+  }
+  if (hours && end > toMinutes(hours.endTime)) {
+    return "Ends after working hours";
+  }
+
+  const free = availability.availableSlots.some(
+    (slot) =>
+      toMinutes(slot.startTime) <= start && toMinutes(slot.endTime) >= end,
+  );
+  return free ? undefined : "Already booked";
+};
+
+// Earliest start and latest end across everyone working that day. Without
+// a schedule, the free slots themselves mark out the day.
+const dayBounds = (
+  candidates: SlotCandidate[],
+  date: string,
+): [number, number] | undefined => {
+  const bounds = candidates.flatMap(({ stylist, availability }) => {
+    const hours = hoursOn(stylist, date);
+    if (hours) {
+      return hours.isWorking
+        ? [[toMinutes(hours.startTime), toMinutes(hours.endTime)]]
+        : [];
+    }
+    return availability.availableSlots.map((slot) => [
+      toMinutes(slot.startTime),
+      toMinutes(slot.endTime),
+    ]);
+  });
+  if (bounds.length === 0) return undefined;
+
+  return [
+    Math.min(...bounds.map(([start]) => start)),
+    Math.max(...bounds.map(([, end]) => end)),
+  ];
+};
+
+export const buildSlotGrid = (
+  date: string,
+  duration: number,
+  candidates: SlotCandidate[],
+  now: Date = new Date(),
+): BookingSlot[] => {
+  const bounds = dayBounds(candidates, date);
+  if (!bounds) return [];
+
+  // Both from the same instant, or a grid built at midnight mixes two days
+  const today = toShopDate(now);
+  const nowMinutes = toMinutes(toShopTime(now));
+  const slots: BookingSlot[] = [];
+
+  for (let start = bounds[0]; start < bounds[1]; start += SLOT_STEP_MINUTES) {
+    const end = start + duration;
+    const slot: BookingSlot = {
+      startTime: fromMinutes(start),
+      endTime: fromMinutes(end),
+      stylistIds: [],
+    };
+
+    if (date < today || (date === today && start <= nowMinutes)) {
+      slots.push({ ...slot, reason: "Already passed" });
+      continue;
+    }
+
+    const reasons = candidates.map((candidate) =>
+      unavailableReason(candidate, date, start, end),
+    );
+    slot.stylistIds = candidates
+      .filter((_, i) => reasons[i] === undefined)
+      .map(({ stylist }) => stylist.id);
+
+    if (slot.stylistIds.length === 0) {
+      // One shared reason is worth showing; a mix just means nobody is free
+      slot.reason = reasons.every((reason) => reason === reasons[0])
+        ? reasons[0]
+        : "No stylist free";
+    }
+    slots.push(slot);
+  }
+
+  return slots;
+};
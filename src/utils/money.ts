@@ -0,0 +1,35 @@
+// Amounts of money in whole rupiah. Underneath it is a plain integer, so it
+// survives JSON, the query cache and IndexedDB unchanged, and sums are exact.
+// Only toMoney() creates one, which is what keeps it an integer.
+export type Money = number & { readonly __money: true };
+
+export const ZERO_MONEY = 0 as Money;
+
+// Parses the API's decimal strings ("150000.00") as well as plain numbers.
+// Fractions of a rupiah are rounded; anything unparseable is zero.
+export const toMoney = (value: string | number | null | undefined): Money => {
+  const parsed =
+    typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+  return (
+    typeof parsed === "number" && Number.isFinite(parsed)
+      ? Math.round(parsed)
+      : 0
+  ) as Money;
+};
+
+export const addMoney = (...amounts: Money[]): Money =>
+  amounts.reduce((sum, amount) => sum + amount, 0) as Money;
+
+export const sumMoney = <T>(items: T[], amountOf: (item: T) => Money): Money =>
+  addMoney(...items.map(amountOf));
+
+// e.g. an average price; the result is rounded to whole rupiah
+export const divideMoney = (amount: Money, divisor: number): Money =>
+  divisor === 0 ? ZERO_MONEY : toMoney(amount / divisor);
+
+const groupThousands = (value: number): string =>
+  String(value).replace(/\B(?=(\d{3})+(?!\d))/g, ".");
+
+// "Rp 15.750.000", or "-Rp 50.000" for refunds
+export const formatMoney = (amount: Money): string =>
+  `${amount < 0 ? "-" : ""}Rp ${groupThousands(Math.abs(amount))}`;
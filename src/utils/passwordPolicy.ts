@@ -0,0 +1,60 @@
+// Password rules shared by every screen that sets a password
+export interface PasswordRule {
+  id: string;
+  label: string;
+  test: (password: string) => boolean;
+}
+
+export const PASSWORD_MIN_LENGTH = 8;
+
+export const PASSWORD_RULES: PasswordRule[] = [
+  {
+    id: "length",
+    label: `At least ${PASSWORD_MIN_LENGTH} characters`,
+    test: (password) => password.length >= PASSWORD_MIN_LENGTH,
+  },
+  {
+    id: "lowercase",
+    label: "A lowercase letter",
+    test: (password) => /[a-z]/.test(password),
+  },
+  {
+    id: "uppercase",
+    label: "An uppercase letter",
+    test: (password) => /[A-Z]/.test(password),
+  },
+  {
+    id: "number",
+    label: "A number",
+    test: (password) => /\d/.test(password),
+  },
+  {
+    id: "symbol",
+    label: "A symbol",
+    test: (password) => /[^A-Za-z0-9]/.test(password),
+  },
+];
+
+export type PasswordStrength = "weak" | "fair" | "good" | "strong";
+
+export const isPasswordValid = (password: string): boolean => {
+  return PASSWORD_RULES.every((rule) => rule.test(password));
+};
+
+// 0-4, from the rules met plus a bonus for length
+export const getPasswordScore = (password: string): number => {
+  if (!password) return 0;
+
+  const passed = PASSWORD_RULES.filter((rule) => rule.test(password)).length;
+  const lengthBonus = password.length >= 12 ? 1 : 0;
+
+  return Math.min(4, Math.max(1, passed - 1 + lengthBonus));
+};
+
+export const getPasswordStrength = (password: string): PasswordStrength => {
+  const score = getPasswordScore(password);
+  if (score >= 4) return "strong";
+  if (score === 3) return "good";
+  if (score === 2) return "fair";
+  return "weak";
+};
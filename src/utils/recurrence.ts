@@ -0,0 +1,71 @@
+// Visit dates of a repeating booking series, e.g. "every 3 weeks on
+// Saturday" or "every month on the 15th", up to an end date or a count.
+
+import type { RecurrenceRule } from "../types";
+import { addDays, dayOfWeek, formatShopDate } from "./shopTime";
+
+// A series with no end still stops after a year of weekly visits
+export const MAX_OCCURRENCES = 52;
+
+const WEEKDAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+// Same day of the month, or undefined when the month is too short for it
+const addMonths = (date: string, months: number): string | undefined => {
+  const [year, month, day] = date.split("-").map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, day));
+  return target.getUTCDate() === day
+    ? target.toISOString().slice(0, 10)
+    : undefined;
+};
+
+// The first date is always the starting visit. Months without the day
+// (a series on the 31st) are skipped rather than moved.
+export const seriesDates = (
+  startDate: string,
+  rule: RecurrenceRule,
+): string[] => {
+  const interval = Math.max(1, Math.floor(rule.interval));
+  const limit = Math.min(rule.count ?? MAX_OCCURRENCES, MAX_OCCURRENCES);
+  const dates: string[] = [];
+
+  for (let step = 0; dates.length < limit && step < limit * 2; step++) {
+    const date =
+      rule.frequency === "weekly"
+        ? addDays(startDate, step * interval * 7)
+        : addMonths(startDate, step * interval);
+    if (!date) continue;
+    if (rule.until && date > rule.until) break;
+    dates.push(date);
+  }
+
+  return dates;
+};
+
+// "Every 3 weeks on Saturday, 6 times"
+export const describeRecurrence = (
+  rule: RecurrenceRule,
+  startDate: string,
+): string => {
+  const unit = rule.frequency === "weekly" ? "week" : "month";
+  const every =
+    rule.interval > 1 ? `Every ${rule.interval} ${unit}s` : `Every ${unit}`;
+  const on =
+    rule.frequency === "weekly"
+      ? `on ${WEEKDAY_NAMES[dayOfWeek(startDate)]}`
+      : `on day ${Number(startDate.slice(8, 10))}`;
+  const end = rule.until
+    ? `until ${formatShopDate(rule.until)}`
+    : rule.count
+      ? `${rule.count} times`
+      : undefined;
+
+  return [`${every} ${on}`, end].filter(Boolean).join(", ");
+};
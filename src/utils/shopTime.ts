@@ -0,0 +1,109 @@
+// Booking dates and times are wall-clock values in the shop's time zone,
+// e.g. "2026-10-31" and "09:00". They are never read as instants in the
+// browser's zone, so a manager travelling in Bali still sees the Jakarta
+// schedule. Only "now" and timestamps such as createdAt are converted, and
+// always into the shop's zone.
+
+// Fixed per deployment: each branch builds with its own
+// VITE_SHOP_TIME_ZONE, e.g. "Asia/Makassar" for Bali. It never changes at
+// runtime, so cached dates and rendered schedules stay valid.
+const shopTimeZone = import.meta.env.VITE_SHOP_TIME_ZONE || "Asia/Jakarta";
+
+// "YYYY-MM-DD" of an instant as seen in the shop
+export const toShopDate = (instant: Date | string): string =>
+  new Intl.DateTimeFormat("en-CA", {
+    timeZone: shopTimeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(new Date(instant));
+
+export const todayInShop = (): string => toShopDate(new Date());
+
+// "HH:mm" of an instant as seen in the shop
+export const toShopTime = (instant: Date | string): string =>
+  new Intl.DateTimeFormat("en-GB", {
+    timeZone: shopTimeZone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).format(new Date(instant));
+
+// Minutes since midnight for "HH:mm", and back
+export const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+export const fromMinutes = (minutes: number): string =>
+  [Math.floor(minutes / 60), minutes % 60]
+    .map((part) => String(part).padStart(2, "0"))
+    .join(":");
+
+// Wall-clock dates are handled as UTC midnight, where no zone can shift them
+const fromDateString = (date: string): Date =>
+  new Date(`${date.slice(0, 10)}T00:00:00Z`);
+
+export const addDays = (date: string, days: number): string => {
+  const result = fromDateString(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().slice(0, 10);
+};
+
+// Whole days from one date to another; negative when `to` is earlier
+export const daysBetween = (from: string, to: string): number =>
+  Math.round(
+    (fromDateString(to).getTime() - fromDateString(from).getTime()) /
+      (24 * 60 * 60 * 1000),
+  );
+
+// 0 for Sunday, as with Date.getDay()
+export const dayOfWeek = (date: string): number =>
+  fromDateString(date).getUTCDay();
+
+// Weeks start on Sunday, like the dashboard's "this week"
+export const startOfWeek = (date: string): string =>
+  addDays(date, -dayOfWeek(date));
+
+export const startOfMonth = (date: string): string => `${date.slice(0, 7)}-01`;
+
+export const startOfYear = (date: string): string =>
+  `${date.slice(0, 4)}-01-01`;
+
+export const isSameMonth = (a: string, b: string): boolean =>
+  a.slice(0, 7) === b.slice(0, 7);
+
+export const formatShopDate = (
+  date: string,
+  options: Intl.DateTimeFormatOptions = {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  },
+): string =>
+  fromDateString(date).toLocaleDateString("id-ID", {
+    ...options,
+    timeZone: "UTC",
+  });
+
+// "09:00" or "09:00:00" to "09.00"
+export const formatShopTime = (time: string): string =>
+  new Date(`1970-01-01T${time.slice(0, 5)}:00Z`).toLocaleTimeString("id-ID", {
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZone: "UTC",
+  });
+
+// Timestamps such as createdAt or paidAt, in the shop's zone
+export const formatShopDateTime = (
+  instant: string,
+  options: Intl.DateTimeFormatOptions = {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  },
+): string =>
+  new Date(instant).toLocaleString("id-ID", {
+    ...options,
+    timeZone: shopTimeZone,
+  });